@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, type SetStateAction } from 'react';
 import {
   StyleSheet, Text, View, TextInput, TouchableOpacity, ScrollView,
   SafeAreaView, Modal, Animated, Platform, KeyboardAvoidingView,
@@ -24,7 +24,30 @@ import { FocusTimer } from './src/components/FocusTimer';
 import { MoodTracker } from './src/components/MoodTracker';
 import { TaskSuggestions } from './src/components/TaskSuggestions';
 import { ProactiveCheckInCard } from './src/components/ProactiveCheckInCard';
-import type { MoodLevel, FocusSession, ProactiveCheckIn, MoodEntry } from './src/types';
+import { BreakdownReview } from './src/components/BreakdownReview';
+import { TimeUntilView } from './src/components/TimeUntilView';
+import { RecurrencePicker } from './src/components/RecurrencePicker';
+import { RoutineManager } from './src/components/RoutineManager';
+import { RoutinePlayer } from './src/components/RoutinePlayer';
+import { DayPlanner } from './src/components/DayPlanner';
+import { taskBreakdownService, type BreakdownStep } from './src/services/TaskBreakdownService';
+import { neroMemoryService } from './src/services/NeroMemoryService';
+import { initializeContextBreadcrumbs } from './src/services/ContextBreadcrumbService';
+import { focusRoomService } from './src/services/FocusRoomService';
+import { soundscapeService } from './src/services/SoundscapeService';
+import { timeEstimateService } from './src/services/TimeEstimateService';
+import { recurrenceService, toDateKey } from './src/services/RecurrenceService';
+import { dueDateService, DUE_PRESETS } from './src/services/DueDateService';
+import { initializePushNotifications, type PushNotificationService, type TransitionItem, type DueReminderItem, type TravelPromptItem } from './src/services/PushNotificationService';
+import { llmProviderService, DEFAULT_MODELS, DEFAULT_OPENAI_BASE_URL } from './src/services/LLMProviderService';
+import { calendarProviderService } from './src/services/CalendarProviderService';
+import { slotFinderService, type SlotSearchOptions } from './src/services/SlotFinderService';
+import { dayPlannerService, BEHIND_THRESHOLD_MINUTES, type PlanOptions } from './src/services/DayPlannerService';
+import { travelService, TRANSPORT_MODES, type TravelPlan, type TravelPrompt } from './src/services/TravelService';
+import { DEFAULT_SCHEDULING_PREFERENCES, DEFAULT_TRAVEL_SETTINGS } from './src/constants';
+import type { StreamHandlers } from './src/services/ClaudeStreamService';
+import { neroToolsService, NERO_TOOLS, type NeroAction, type NeroToolCall } from './src/services/NeroToolsService';
+import type { Task, TaskCategory, MoodLevel, FocusSession, ProactiveCheckIn, MoodEntry, LLMProviderType, CalendarProviderType, CalendarSettings, CalendarInfo, SchedulingPreferences, WorkingHours, BusyPeriod, SavedPlace, TravelSettings, CalendarChanges, DayPlan, PlannedBlock, MemoryFact, RecurrenceRule, Routine, RoutineStepRecord, RoutineStepStats } from './src/types';
 
 // ============ SUPABASE AUTH IMPORTS ============
 import { useAuth } from './src/hooks/useAuth';
@@ -34,6 +57,14 @@ import { WeeklyReportCard } from './src/components/WeeklyReportCard';
 import { SmartNudgeSetup } from './src/components/SmartNudgeSetup';
 import { WeeklyReportService, type WeeklyReportData } from './src/services/WeeklyReportService';
 import { supabase, FocusSessionsAPI, EnergyLogsAPI, TasksAPI } from './src/services/supabase';
+import { conflictResolutionService } from './src/services/ConflictResolutionService';
+import {
+  migrateStoredTasks,
+  TASK_SCHEMA_VERSION,
+  flattenTaskTree,
+  getDescendantIds,
+  getParentReadyToComplete,
+} from './src/services/taskSchema';
 
 
 // Complete OAuth flow on web
@@ -66,22 +97,6 @@ type Personality = 'loyalFriend' | 'coach' | 'playful' | 'calm';
 type ThinkingMode = 'off' | 'minimal' | 'full';
 type NotificationStyle = 'gentle' | 'variable' | 'persistent';
 
-interface Task {
-  id: string;
-  title: string;
-  energy: EnergyLevel;
-  completed: boolean;
-  isMicroStep: boolean;
-  parentId?: string;
-  createdAt: string;
-  completedAt?: string;
-  dueDate?: string;
-  scheduledTime?: string;
-  synced?: boolean;
-  completionTimeMs?: number;
-  calendarEventId?: string;
-}
-
 // ============ PATTERN ANALYSIS TYPES ============
 interface CompletionRecord {
   id: string;
@@ -92,6 +107,10 @@ interface CompletionRecord {
   hour: number;
   dayOfWeek: number;
   completionTimeMs?: number;
+  estimatedMinutes?: number;
+  estimateSource?: 'suggested';
+  actualMinutes?: number;
+  category?: TaskCategory;
 }
 
 interface HourlyProductivity {
@@ -126,6 +145,7 @@ interface Message {
   content: string;
   model?: string;
   thinking?: string;
+  actions?: NeroAction[]; // Tool calls Nero proposed, awaiting the user's OK
   timestamp: string;
 }
 
@@ -166,6 +186,8 @@ interface CalendarEvent {
   end: string;
   allDay?: boolean;
   color?: string;
+  description?: string;
+  location?: string;
 }
 
 interface UserProfile {
@@ -182,6 +204,13 @@ interface UserProfile {
   lastSync?: string;
   voiceEnabled?: boolean;
   neroVoiceEnabled?: boolean;
+  autoCompleteParents?: boolean;
+  llmProvider?: LLMProviderType; // Defaults to anthropic
+  llmBaseUrl?: string;
+  llmModel?: string;
+  transitionWarningMinutes?: number[]; // Heads-ups before events and scheduled tasks
+  schedulingPreferences?: SchedulingPreferences; // Working hours and buffers for finding free slots
+  travelSettings?: TravelSettings; // Saved places and getting-ready time
 }
 
 interface NeroMemory {
@@ -339,6 +368,50 @@ const MICRO_STARTS = [
 ];
 
 // ============ HELPERS ============
+const MEMORY_LABELS: Record<keyof NeroMemory, string> = {
+  likes: '💚',
+  dislikes: '🚫',
+  triggers: '⚠️',
+  patterns: '🔁',
+};
+
+const LLM_PROVIDER_OPTIONS: { id: LLMProviderType; label: string; desc: string }[] = [
+  { id: 'anthropic', label: 'Claude (Anthropic)', desc: 'Best responses, needs an API key' },
+  { id: 'openai', label: 'OpenAI-compatible', desc: 'OpenAI, or a local Ollama / llama.cpp server' },
+  { id: 'mock', label: 'Mock', desc: 'Canned replies for testing - nothing leaves the device' },
+];
+
+// Calendars connected with a URL instead of the Google sign-in
+const CALENDAR_PROVIDER_OPTIONS: { id: Exclude<CalendarProviderType, 'google'>; emoji: string; label: string; desc: string }[] = [
+  { id: 'caldav', emoji: '🗓️', label: 'CalDAV', desc: 'iCloud, Fastmail, Nextcloud... with an app password' },
+  { id: 'ics', emoji: '🔗', label: 'Calendar feed (ICS)', desc: 'A subscription link - read-only' },
+  { id: 'local', emoji: '📱', label: 'This device only', desc: 'A calendar file on this phone, for trying things out' },
+];
+
+// Quick picks in the Add Task modal, in minutes
+const ESTIMATE_OPTIONS = [5, 15, 30, 45, 60, 120];
+
+// Minutes before an event or scheduled task to warn about the switch
+const TRANSITION_WARNING_OPTIONS = [60, 30, 15, 10, 5];
+const DEFAULT_TRANSITION_WARNINGS = [30, 15, 5];
+
+// Scheduling settings: weekday labels from Sunday, buffer and look-ahead picks
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30];
+const SEARCH_DAY_OPTIONS = [1, 3, 7, 14];
+const WORKING_HOURS_STEP = 30;
+// Travel settings: minutes to get somewhere and to get ready
+const TRAVEL_MINUTE_OPTIONS = [10, 15, 20, 30, 45, 60];
+const READY_MINUTE_OPTIONS = [5, 10, 15, 20, 30, 45];
+const TRAVEL_MINUTES_STEP = 5;
+const PLACE_KINDS: { id: SavedPlace['kind']; icon: string; label: string }[] = [
+  { id: 'home', icon: '🏠', label: 'Home' },
+  { id: 'work', icon: '🏢', label: 'Work' },
+  { id: 'other', icon: '📍', label: 'Other' },
+];
+// Minutes after midnight as "9:00" / "17:30"
+const formatClock = (minutes: number) => `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+
 const genId = () => Math.random().toString(36).substr(2, 9) + Date.now();
 const getEC = (e: EnergyLevel) => e === 'high' ? C.success : e === 'medium' ? C.warning : C.error;
 const getEE = (e: EnergyLevel) => e === 'high' ? '⚡' : e === 'medium' ? '✨' : '🌙';
@@ -347,16 +420,16 @@ const formatDate = (d: Date) => d.toLocaleDateString([], { month: 'short', day:
 
 // ============ API SERVICES ============
 
-// Claude AI Service
-const callClaudeAPI = async (
+// Nero chat - goes to whichever LLM provider the user configured
+const callNeroAI = async (
   messages: Message[],
   personality: Personality,
   energy: EnergyLevel | null,
   tasks: Task[],
   memory: NeroMemory,
-  apiKey: string
-): Promise<{ content: string; thinking?: string; model: string }> => {
-  if (!apiKey) {
+  stream: StreamHandlers & { extendedThinking?: boolean } = {}
+): Promise<{ content: string; thinking?: string; model: string; toolCalls?: NeroToolCall[] }> => {
+  if (!llmProviderService.isConfigured()) {
     const pc = PERSONALITIES[personality];
     const responses = [
       `${pc.greetings[0]} What's the ONE thing you'd like to focus on?`,
@@ -371,7 +444,6 @@ const callClaudeAPI = async (
     return { content: responses[Math.floor(Math.random() * responses.length)], model: 'local' };
   }
 
-  const pendingTasks = tasks.filter(t => !t.completed).slice(0, 5);
   const pc = PERSONALITIES[personality];
 
   const systemPrompt = `${pc.systemPrompt}
@@ -385,10 +457,14 @@ CRITICAL RULES FOR ADHD USERS:
 - Help with task initiation - suggest tiny first steps
 - Celebrate every small win enthusiastically
 - If they mention feeling overwhelmed, acknowledge it first
+- When they ask you to DO something (add, finish, move, schedule, time, log), call the tools instead of
+  just describing it. They'll confirm before anything happens, so say briefly what you're proposing.
 
 Current context:
+- Now: ${new Date().toString()}
 - Energy level: ${energy || 'not set'}
-- Pending tasks: ${pendingTasks.map(t => t.title).join(', ') || 'none'}
+- Pending tasks:
+${neroToolsService.formatTaskContext(tasks)}
 - User likes: ${memory.likes.join(', ') || 'learning...'}
 - User dislikes: ${memory.dislikes.join(', ') || 'learning...'}
 - Patterns: ${memory.patterns.join(', ') || 'still observing...'}
@@ -396,32 +472,28 @@ Current context:
 You're not just a task manager. You're a supportive companion who truly understands ADHD.`;
 
   const apiMessages = messages.slice(-10).map(m => ({
-    role: m.role === 'user' ? 'user' : 'assistant',
+    role: m.role === 'user' ? 'user' as const : 'assistant' as const,
     content: m.content
   }));
 
   try {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: 'claude-sonnet-4-20250514',
-        max_tokens: 300,
+    const result = await llmProviderService.complete(
+      {
+        maxTokens: 500,
         system: systemPrompt,
         messages: apiMessages,
-      }),
-    });
-
-    if (!response.ok) throw new Error('API request failed');
+        tools: NERO_TOOLS,
+        thinkingBudget: stream.extendedThinking ? 1024 : undefined,
+      },
+      { onText: stream.onText, onThinking: stream.onThinking }
+    );
 
-    const data = await response.json();
+    const toolCalls = neroToolsService.parseToolCalls(result.toolCalls);
     return {
-      content: data.content[0]?.text || "I'm here for you! What's on your mind?",
-      model: 'claude-sonnet',
+      content: result.text || (toolCalls.length > 0 ? "Here's what I can do for you:" : "I'm here for you! What's on your mind?"),
+      thinking: result.thinking,
+      model: result.model,
+      toolCalls,
     };
   } catch (error) {
     const pc = PERSONALITIES[personality];
@@ -463,17 +535,6 @@ class SupabaseService {
     return response.json();
   }
 
-  async syncTasks(userId: string, tasks: Task[]) {
-    return this.request(`/tasks?user_id=eq.${userId}`, {
-      method: 'POST',
-      body: JSON.stringify(tasks.map(t => ({ ...t, user_id: userId }))),
-    });
-  }
-
-  async getTasks(userId: string): Promise<Task[]> {
-    return this.request(`/tasks?user_id=eq.${userId}&order=createdAt.desc`);
-  }
-
   async syncProfile(profile: UserProfile) {
     return this.request(`/profiles?id=eq.${profile.id}`, {
       method: 'POST',
@@ -561,57 +622,29 @@ class NotificationService {
   }
 }
 
-// Calendar Service (Google Calendar via OAuth)
+// Calendar Service - scheduling on top of whichever calendar provider is connected
 class CalendarService {
-  private accessToken: string | null = null;
-  private refreshToken: string | null = null;
-  private tokenExpiry: number = 0;
-
   setTokens(accessToken: string, refreshToken?: string, expiresIn?: number) {
-    this.accessToken = accessToken;
-    if (refreshToken) this.refreshToken = refreshToken;
-    if (expiresIn) this.tokenExpiry = Date.now() + (expiresIn * 1000);
-  }
-
-  getAccessToken() {
-    return this.accessToken;
+    const clientId = Platform.select({
+      ios: GOOGLE_CLIENT_ID_IOS,
+      android: GOOGLE_CLIENT_ID_ANDROID,
+      default: GOOGLE_CLIENT_ID_WEB,
+    }) || '';
+    return calendarProviderService.useGoogle(clientId, accessToken, refreshToken, expiresIn);
   }
 
   isAuthenticated() {
-    return !!this.accessToken;
+    return calendarProviderService.isConnected();
   }
 
-  async refreshAccessToken(): Promise<boolean> {
-    if (!this.refreshToken) return false;
-    
-    try {
-      const response = await fetch('https://oauth2.googleapis.com/token', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({
-          refresh_token: this.refreshToken,
-          grant_type: 'refresh_token',
-          client_id: Platform.select({
-            ios: GOOGLE_CLIENT_ID_IOS,
-            android: GOOGLE_CLIENT_ID_ANDROID,
-            default: GOOGLE_CLIENT_ID_WEB,
-          }) || '',
-        }).toString(),
-      });
-
-      if (!response.ok) return false;
-      
-      const data = await response.json();
-      this.accessToken = data.access_token;
-      this.tokenExpiry = Date.now() + (data.expires_in * 1000);
-      return true;
-    } catch {
-      return false;
-    }
+  // Feed subscriptions can be read but not written to
+  canWrite() {
+    return calendarProviderService.canWrite();
   }
 
   async getEvents(timeMin: Date, timeMax: Date): Promise<CalendarEvent[]> {
-    if (!this.accessToken) {
+    const provider = calendarProviderService.getProvider();
+    if (!provider?.isConnected()) {
       // Return mock events for demo
       const now = new Date();
       const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
@@ -640,248 +673,75 @@ class CalendarService {
       ];
     }
 
-    // Check if token needs refresh
-    if (Date.now() > this.tokenExpiry - 60000) {
-      await this.refreshAccessToken();
-    }
-
-    try {
-      const response = await fetch(
-        `https://www.googleapis.com/calendar/v3/calendars/primary/events?` +
-        `timeMin=${timeMin.toISOString()}&timeMax=${timeMax.toISOString()}&singleEvents=true&orderBy=startTime&maxResults=50`,
-        {
-          headers: { Authorization: `Bearer ${this.accessToken}` },
-        }
-      );
-
-      if (!response.ok) {
-        if (response.status === 401) {
-          const refreshed = await this.refreshAccessToken();
-          if (refreshed) return this.getEvents(timeMin, timeMax);
-        }
-        throw new Error('Calendar API error');
-      }
-
-      const data = await response.json();
-      return (data.items || []).map((item: any) => ({
-        id: item.id,
-        title: item.summary || 'Untitled',
-        start: item.start?.dateTime || item.start?.date,
-        end: item.end?.dateTime || item.end?.date,
-        allDay: !!item.start?.date,
-        color: item.colorId ? this.getColorById(item.colorId) : C.primary,
-        description: item.description,
-        location: item.location,
-      }));
-    } catch (error) {
-      console.error('Calendar error:', error);
-      return [];
-    }
+    return provider.getEvents(timeMin, timeMax);
   }
 
   // Create a calendar event from a task
   async createEventFromTask(task: Task, startTime: Date, durationMinutes: number = 30): Promise<CalendarEvent | null> {
-    if (!this.accessToken) return null;
-
-    const endTime = new Date(startTime.getTime() + durationMinutes * 60 * 1000);
-    const colorId = task.energy === 'high' ? '11' : task.energy === 'medium' ? '5' : '9'; // Red, Yellow, Blue
-
-    try {
-      const response = await fetch(
-        'https://www.googleapis.com/calendar/v3/calendars/primary/events',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            summary: `📋 ${task.title}`,
-            description: `Task from UnFocused\nEnergy: ${task.energy}\nCreated: ${task.createdAt}`,
-            start: { dateTime: startTime.toISOString() },
-            end: { dateTime: endTime.toISOString() },
-            colorId,
-            reminders: {
-              useDefault: false,
-              overrides: [
-                { method: 'popup', minutes: 10 },
-                { method: 'popup', minutes: 5 },
-              ],
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to create event');
-
-      const event = await response.json();
-      return {
-        id: event.id,
-        title: event.summary,
-        start: event.start.dateTime,
-        end: event.end.dateTime,
-        color: this.getColorById(colorId),
-      };
-    } catch (error) {
-      console.error('Create event error:', error);
-      return null;
-    }
+    const provider = calendarProviderService.getProvider();
+    if (!provider?.isConnected() || provider.readOnly) return null;
+
+    return provider.createEvent({
+      title: `📋 ${task.title}`,
+      description: `Task from UnFocused\nEnergy: ${task.energy}\nCreated: ${task.createdAt}`,
+      start: startTime,
+      end: new Date(startTime.getTime() + durationMinutes * 60 * 1000),
+      energy: task.energy,
+      kind: 'task',
+      reminderMinutes: [10, 5],
+    });
   }
 
   // Create a time block for focused work
-  async createTimeBlock(title: string, startTime: Date, durationMinutes: number, color: string = '9'): Promise<CalendarEvent | null> {
-    if (!this.accessToken) return null;
-
-    const endTime = new Date(startTime.getTime() + durationMinutes * 60 * 1000);
-
-    try {
-      const response = await fetch(
-        'https://www.googleapis.com/calendar/v3/calendars/primary/events',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            summary: `🎯 ${title}`,
-            description: 'Focus block created by UnFocused',
-            start: { dateTime: startTime.toISOString() },
-            end: { dateTime: endTime.toISOString() },
-            colorId: color,
-            transparency: 'opaque', // Shows as busy
-          }),
-        }
-      );
-
-      if (!response.ok) throw new Error('Failed to create time block');
-
-      const event = await response.json();
-      return {
-        id: event.id,
-        title: event.summary,
-        start: event.start.dateTime,
-        end: event.end.dateTime,
-        color: this.getColorById(color),
-      };
-    } catch (error) {
-      console.error('Create time block error:', error);
-      return null;
-    }
+  async createTimeBlock(title: string, startTime: Date, durationMinutes: number): Promise<CalendarEvent | null> {
+    const provider = calendarProviderService.getProvider();
+    if (!provider?.isConnected() || provider.readOnly) return null;
+
+    return provider.createEvent({
+      title: `🎯 ${title}`,
+      description: 'Focus block created by UnFocused',
+      start: startTime,
+      end: new Date(startTime.getTime() + durationMinutes * 60 * 1000),
+      kind: 'focus',
+    });
   }
 
   // Delete a calendar event
   async deleteEvent(eventId: string): Promise<boolean> {
-    if (!this.accessToken) return false;
-
-    try {
-      const response = await fetch(
-        `https://www.googleapis.com/calendar/v3/calendars/primary/events/${eventId}`,
-        {
-          method: 'DELETE',
-          headers: { Authorization: `Bearer ${this.accessToken}` },
-        }
-      );
-      return response.ok;
-    } catch {
-      return false;
-    }
+    const provider = calendarProviderService.getProvider();
+    if (!provider?.isConnected() || provider.readOnly) return false;
+    return provider.deleteEvent(eventId);
   }
 
-  // Get free/busy times for scheduling
-  async getFreeBusy(timeMin: Date, timeMax: Date): Promise<{ start: string; end: string }[]> {
-    if (!this.accessToken) return [];
-
-    try {
-      const response = await fetch(
-        'https://www.googleapis.com/calendar/v3/freeBusy',
-        {
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.accessToken}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            timeMin: timeMin.toISOString(),
-            timeMax: timeMax.toISOString(),
-            items: [{ id: 'primary' }],
-          }),
-        }
-      );
-
-      if (!response.ok) return [];
-
-      const data = await response.json();
-      return data.calendars?.primary?.busy || [];
-    } catch {
-      return [];
-    }
+  // Edits made in the calendar app since the last sync
+  getChanges(): Promise<CalendarChanges | null> {
+    return calendarProviderService.getChanges();
   }
 
-  // Find next available slot for a task
-  async findNextAvailableSlot(durationMinutes: number = 30): Promise<Date | null> {
-    const now = new Date();
-    const endOfDay = new Date(now);
-    endOfDay.setHours(18, 0, 0, 0); // Look until 6 PM
-
-    if (now >= endOfDay) {
-      // Look at tomorrow
-      const tomorrow = new Date(now);
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(9, 0, 0, 0);
-      return tomorrow;
-    }
-
-    const busyTimes = await this.getFreeBusy(now, endOfDay);
-    
-    let candidateStart = new Date(now);
-    candidateStart.setMinutes(Math.ceil(candidateStart.getMinutes() / 15) * 15, 0, 0); // Round to 15 min
-
-    for (const busy of busyTimes) {
-      const busyStart = new Date(busy.start);
-      const busyEnd = new Date(busy.end);
-
-      if (candidateStart.getTime() + durationMinutes * 60 * 1000 <= busyStart.getTime()) {
-        return candidateStart;
-      }
-      
-      candidateStart = new Date(Math.max(candidateStart.getTime(), busyEnd.getTime()));
-    }
-
-    if (candidateStart.getTime() + durationMinutes * 60 * 1000 <= endOfDay.getTime()) {
-      return candidateStart;
-    }
-
-    return null;
+  // A finished task's event gets a ✓
+  markEventDone(eventId: string): Promise<boolean> {
+    return calendarProviderService.markEventDone(eventId);
   }
 
-  calculateTravelTime(eventStart: Date, travelMinutes: number = 30): { shouldLeave: Date; message: string } | null {
-    const now = new Date();
-    const shouldLeave = new Date(eventStart.getTime() - travelMinutes * 60 * 1000);
-    const minutesUntilLeave = Math.floor((shouldLeave.getTime() - now.getTime()) / 60000);
-
-    if (minutesUntilLeave > 0 && minutesUntilLeave <= 60) {
-      return {
-        shouldLeave,
-        message: `Leave in ${minutesUntilLeave} min for your next event!`,
-      };
-    }
-    return null;
+  // Get free/busy times for scheduling, across the calendars chosen in settings
+  async getFreeBusy(timeMin: Date, timeMax: Date): Promise<{ start: string; end: string }[]> {
+    return calendarProviderService.getBusy(timeMin, timeMax);
   }
 
-  private getColorById(colorId: string): string {
-    const colors: Record<string, string> = {
-      '1': '#7986CB', '2': '#33B679', '3': '#8E24AA', '4': '#E67C73',
-      '5': '#F6BF26', '6': '#F4511E', '7': '#039BE5', '8': '#616161',
-      '9': '#3F51B5', '10': '#0B8043', '11': '#D50000',
-    };
-    return colors[colorId] || C.primary;
+  // Find next available slot for a task, within working hours over the coming days
+  async findNextAvailableSlot(
+    durationMinutes: number = 30,
+    preferences: SchedulingPreferences = DEFAULT_SCHEDULING_PREFERENCES,
+    options: SlotSearchOptions = {}
+  ): Promise<Date | null> {
+    const now = options.from || new Date();
+    const searchEnd = new Date(now.getFullYear(), now.getMonth(), now.getDate() + preferences.searchDays);
+    const busyTimes = await this.getFreeBusy(now, searchEnd);
+    return slotFinderService.findSlot(busyTimes, durationMinutes, preferences, { ...options, from: now })?.start || null;
   }
 
   logout() {
-    this.accessToken = null;
-    this.refreshToken = null;
-    this.tokenExpiry = 0;
+    return calendarProviderService.disconnect();
   }
 }
 
@@ -1079,6 +939,7 @@ class VoiceService {
 // ============ PATTERN ANALYSIS SERVICE ============
 class PatternAnalysisService {
   private completionHistory: CompletionRecord[] = [];
+  private routineStepHistory: RoutineStepRecord[] = [];
 
   setHistory(history: CompletionRecord[]) {
     this.completionHistory = history;
@@ -1095,11 +956,80 @@ class PatternAnalysisService {
       hour: now.getHours(),
       dayOfWeek: now.getDay(),
       completionTimeMs: task.completionTimeMs,
+      estimatedMinutes: task.estimatedMinutes,
+      estimateSource: task.estimateSource,
+      actualMinutes: task.actualMinutes,
+      category: timeEstimateService.categorize(task.title, task.tags),
     };
     this.completionHistory.push(record);
     return record;
   }
 
+  // ============ ROUTINE STEPS ============
+
+  setRoutineStepHistory(history: RoutineStepRecord[]) {
+    this.routineStepHistory = history;
+  }
+
+  recordRoutineStep(
+    routineId: string,
+    stepTitle: string,
+    seconds: number,
+    options: { plannedMinutes?: number; skipped?: boolean; snoozes?: number } = {}
+  ): RoutineStepRecord {
+    const record: RoutineStepRecord = {
+      id: genId(),
+      routineId,
+      stepTitle,
+      seconds: Math.round(seconds),
+      plannedMinutes: options.plannedMinutes,
+      skipped: options.skipped || false,
+      snoozes: options.snoozes || 0,
+      completedAt: new Date().toISOString(),
+    };
+    this.routineStepHistory.push(record);
+    return record;
+  }
+
+  /**
+   * Per-step timing for one routine, slowest first. A step drags when it
+   * usually runs 50% over its planned time or, with no plan, takes twice as
+   * long as the routine's typical step.
+   */
+  getRoutineStepStats(routineId: string): RoutineStepStats[] {
+    const minSamples = 3;
+    const median = (values: number[]) => {
+      if (values.length === 0) return 0;
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    };
+
+    const records = this.routineStepHistory.filter(r => r.routineId === routineId);
+    const typicalSeconds = median(records.filter(r => !r.skipped).map(r => r.seconds));
+    const byStep = new Map<string, RoutineStepRecord[]>();
+    records.forEach(r => byStep.set(r.stepTitle, [...(byStep.get(r.stepTitle) || []), r]));
+
+    return Array.from(byStep.entries())
+      .map(([stepTitle, stepRecords]) => {
+        const done = stepRecords.filter(r => !r.skipped).map(r => r.seconds);
+        const medianSeconds = median(done);
+        const plannedMinutes = stepRecords[stepRecords.length - 1].plannedMinutes;
+        const drags = done.length >= minSamples && (plannedMinutes
+          ? medianSeconds > plannedMinutes * 60 * 1.5
+          : typicalSeconds > 0 && medianSeconds > typicalSeconds * 2);
+        return {
+          stepTitle,
+          medianSeconds,
+          plannedMinutes,
+          samples: stepRecords.length,
+          skipRate: stepRecords.filter(r => r.skipped).length / stepRecords.length,
+          drags,
+        };
+      })
+      .sort((a, b) => b.medianSeconds - a.medianSeconds);
+  }
+
   getHourlyStats(): HourlyProductivity[] {
     const hourlyData: Record<number, { completions: number; energySum: number; count: number }> = {};
     
@@ -1284,26 +1214,18 @@ class PatternAnalysisService {
     return insights.sort((a, b) => a.priority - b.priority);
   }
 
-  async generateAIInsights(apiKey: string, patterns: PatternData, profile: UserProfile): Promise<string> {
-    if (!apiKey) {
+  async generateAIInsights(patterns: PatternData, profile: UserProfile): Promise<string> {
+    if (!llmProviderService.isConfigured()) {
       return this.generateLocalInsight(patterns);
     }
 
     try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 200,
-          system: `You are Nero, an AI companion helping someone with ADHD understand their productivity patterns. Be warm, encouraging, and specific. Keep it under 50 words. Never guilt or shame.`,
-          messages: [{
-            role: 'user',
-            content: `Based on my productivity data:
+      const response = await llmProviderService.complete({
+        maxTokens: 200,
+        system: `You are Nero, an AI companion helping someone with ADHD understand their productivity patterns. Be warm, encouraging, and specific. Keep it under 50 words. Never guilt or shame.`,
+        messages: [{
+          role: 'user',
+          content: `Based on my productivity data:
 - Peak hours: ${patterns.peakHours.map(h => `${h}:00`).join(', ')}
 - Total completions: ${patterns.totalCompletions}
 - Weekly trend: ${patterns.weeklyTrend}
@@ -1311,13 +1233,9 @@ class PatternAnalysisService {
 - Best for low energy tasks: ${patterns.avgCompletionsByEnergy.low} completions
 
 Give me ONE specific, actionable insight about my ADHD productivity patterns.`
-          }],
-        }),
+        }],
       });
-
-      if (!response.ok) throw new Error('API error');
-      const data = await response.json();
-      return data.content[0]?.text || this.generateLocalInsight(patterns);
+      return response.text || this.generateLocalInsight(patterns);
     } catch {
       return this.generateLocalInsight(patterns);
     }
@@ -1378,10 +1296,79 @@ export default function App() {
   
   // ============ SUPABASE AUTH STATE ============
   const { user, session, loading: authLoading, error: authError, signIn, signUp, signOut, clearError } = useAuth();
-  const supabaseSync = useSupabaseSync({ userId: user?.id || null });
+  // Field edit stamps already in the cloud, per task. Stamps that came with a
+  // task - from the cloud or another device - count as seen.
+  const seenFieldStamps = useRef<Map<string, Record<string, string>> | null>(null);
+  const markFieldStampsSeen = (task: Task) => {
+    const seen = seenFieldStamps.current;
+    if (seen) seen.set(task.id, { ...(seen.get(task.id) || {}), ...(task.fieldUpdatedAt || {}) });
+  };
+  const supabaseSync = useSupabaseSync({
+    userId: user?.id || null,
+    // Tasks created offline get their real ID once the outbox replays them.
+    // The insert's change-feed echo may have landed first - the local copy wins.
+    onTaskIdSynced: (localId, serverId) => {
+      setTasks(prev => prev
+        .filter(t => t.id !== serverId || !prev.some(l => l.id === localId))
+        .map(t => {
+          if (t.id === localId) return { ...t, id: serverId, synced: true };
+          if (t.parentId === localId) return { ...t, parentId: serverId };
+          return t;
+        }));
+    },
+    // Live changes from the user's other devices
+    onRemoteTaskUpsert: (remote) => {
+      markFieldStampsSeen(remote);
+      setTasks(prev => {
+        const local = prev.find(t => t.id === remote.id);
+        if (local) return prev.map(t => t.id === remote.id ? conflictResolutionService.mergeTask(t, remote) : t);
+        // Could be our own create's echo; onTaskIdSynced folds it into the local copy
+        return [...prev, remote];
+      });
+    },
+    onRemoteTaskDelete: (taskId) => {
+      setTasks(prev => prev.filter(t => t.id !== taskId));
+    },
+    onRemoteFocusSession: (remote) => {
+      const pomodoros = remote.notes?.match(/(\d+) pomodoro/);
+      const session: FocusSession = {
+        id: remote.id || genId(),
+        taskId: remote.task_id,
+        startTime: remote.started_at,
+        endTime: remote.ended_at,
+        duration: (remote.duration_minutes || 0) * 60,
+        breakDuration: 0,
+        status: remote.completed ? 'completed' : 'running',
+        completedPomodoros: pomodoros ? parseInt(pomodoros[1], 10) : 0,
+      };
+      setFocusSessionHistory(prev => {
+        const sameStart = (s: FocusSession) => new Date(s.startTime).getTime() === new Date(session.startTime).getTime();
+        return prev.some(s => s.id === session.id || sameStart(s))
+          // Keep the local ID - the timer reports its sessions by it
+          ? prev.map(s => (s.id === session.id || sameStart(s)) ? { ...s, ...session, id: s.id, taskId: s.taskId ?? session.taskId } : s)
+          : [...prev, session];
+      });
+    },
+    onRemoteEnergyLog: (level, loggedAt, mood) => {
+      setEnergy(level);
+      if (mood === 'low' || mood === 'neutral' || mood === 'high') {
+        setMoodHistory(prev => prev.some(m => m.timestamp === loggedAt)
+          ? prev
+          : [...prev, { id: genId(), mood, timestamp: loggedAt, energy: level }]);
+      }
+    },
+  });
   const [weeklyReport, setWeeklyReport] = useState<WeeklyReportData | null>(null);
   const [showWeeklyReport, setShowWeeklyReport] = useState(false);
   const [showNudgeSetup, setShowNudgeSetup] = useState(false);
+  const [showConflictLog, setShowConflictLog] = useState(false);
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<string>>(new Set());
+  const [breakdownDraft, setBreakdownDraft] = useState<{
+    taskId: string;
+    steps: BreakdownStep[];
+    source: 'ai' | 'fallback';
+    loading: boolean;
+  } | null>(null);
 
   const [view, setView] = useState<ViewMode>('conversation');
   const [loading, setLoading] = useState(true);
@@ -1400,14 +1387,26 @@ export default function App() {
 
   // Data State
   const [energy, setEnergy] = useState<EnergyLevel | null>(null);
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [tasks, setTasksState] = useState<Task[]>([]);
+  // Kept current synchronously, so several Nero actions in one reply each see the last one's changes
+  const tasksRef = useRef<Task[]>(tasks);
+  const setTasks = useCallback((update: SetStateAction<Task[]>) => {
+    tasksRef.current = typeof update === 'function' ? update(tasksRef.current) : update;
+    setTasksState(tasksRef.current);
+  }, []);
   const [messages, setMessages] = useState<Message[]>([]);
   const [breadcrumbs, setBreadcrumbs] = useState<Breadcrumb[]>([]);
   const [savedContexts, setSavedContexts] = useState<SavedContext[]>([]);
   const [thoughtDumps, setThoughtDumps] = useState<ThoughtDump[]>([]);
   const [achievements, setAchievements] = useState<string[]>([]);
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
+  const [dayPlan, setDayPlan] = useState<DayPlan | null>(null);
+  const [calendarChanges, setCalendarChanges] = useState<CalendarChanges | null>(null); // Fetched, not yet applied to tasks
   const [neroMemory, setNeroMemory] = useState<NeroMemory>({ likes: [], dislikes: [], triggers: [], patterns: [] });
+  const [memoryFacts, setMemoryFacts] = useState<MemoryFact[]>([]);
+  const memoryScannedTo = useRef<string | null>(null); // ID of the last message a memory scan covered - saved, so restarts don't rescan
+  const hyperfocusCheck = useRef<{ id: string | null; deadline: number | null }>({ id: null, deadline: null });
+  const celebratedPomodoros = useRef<Map<string, number>>(new Map()); // Session ID -> pomodoros already celebrated
 
   // Stats
   const [stats, setStats] = useState({
@@ -1421,8 +1420,23 @@ export default function App() {
   const [input, setInput] = useState('');
   const [typing, setTyping] = useState(false);
   const [thinkingText, setThinkingText] = useState('');
+  const [openThinkingId, setOpenThinkingId] = useState<string | null>(null);
   const [newTask, setNewTask] = useState('');
   const [newEnergy, setNewEnergy] = useState<EnergyLevel>('medium');
+  const [newEstimate, setNewEstimate] = useState<number | null>(null);
+  const [estimateEdited, setEstimateEdited] = useState(false);
+  const [newRecurrence, setNewRecurrence] = useState<RecurrenceRule | null>(null);
+  const [newDue, setNewDue] = useState<string | null>(null);
+  const [newDueSoft, setNewDueSoft] = useState(true);
+  const [listSort, setListSort] = useState<'mine' | 'urgency'>('mine');
+  const [showRoutines, setShowRoutines] = useState(false);
+  const [routinePlayerId, setRoutinePlayerId] = useState<string | null>(null);
+  const [showDayPlanner, setShowDayPlanner] = useState(false);
+  const [planLoading, setPlanLoading] = useState(false);
+  const [planCommitting, setPlanCommitting] = useState(false);
+  const [planBusy, setPlanBusy] = useState<BusyPeriod[]>([]); // Busy time the plan on screen was laid around
+  const [planDelay, setPlanDelay] = useState(0); // Minutes the day plan is behind, once it's worth mentioning
+  const behindNudgedFor = useRef<string | null>(null);
   const [showAdd, setShowAdd] = useState(false);
   const [showCeleb, setShowCeleb] = useState(false);
   const [celebText, setCelebText] = useState('');
@@ -1440,7 +1454,10 @@ export default function App() {
   const [showSync, setShowSync] = useState(false);
   const [syncing, setSyncing] = useState(false);
   const [supabaseKey, setSupabaseKey] = useState('');
-  const [travelAlert, setTravelAlert] = useState<string | null>(null);
+  const [travelAlert, setTravelAlert] = useState<{ plan: TravelPlan; prompt: TravelPrompt } | null>(null);
+  const [departedEventIds, setDepartedEventIds] = useState<string[]>([]); // "I'm leaving" - no more prompts
+  const [placeForm, setPlaceForm] = useState<{ kind: SavedPlace['kind']; name: string; address: string } | null>(null);
+  const [scheduleMode, setScheduleMode] = useState<'hours' | 'until'>('hours');
 
   // Services
   const [notificationService] = useState(() => new NotificationService());
@@ -1478,6 +1495,7 @@ export default function App() {
 
   // Pattern Analysis State
   const [completionHistory, setCompletionHistory] = useState<CompletionRecord[]>([]);
+  const [routineStepHistory, setRoutineStepHistory] = useState<RoutineStepRecord[]>([]);
   const [weeklyInsights, setWeeklyInsights] = useState<WeeklyInsight[]>([]);
   const [showInsights, setShowInsights] = useState(false);
   const [aiInsight, setAiInsight] = useState<string>('');
@@ -1486,6 +1504,10 @@ export default function App() {
   // Google OAuth State
   const [googleAuthLoading, setGoogleAuthLoading] = useState(false);
   const [calendarSyncStatus, setCalendarSyncStatus] = useState<'idle' | 'syncing' | 'success' | 'error'>('idle');
+  const [calendarForm, setCalendarForm] = useState<CalendarSettings | null>(null);
+  const [calendarConnecting, setCalendarConnecting] = useState(false);
+  const [availableCalendars, setAvailableCalendars] = useState<CalendarInfo[]>([]);
+  const [busyCalendarIds, setBusyCalendarIds] = useState<string[]>([]);
 
   // Voice Input State
   const [isRecording, setIsRecording] = useState(false);
@@ -1552,11 +1574,9 @@ export default function App() {
         // Load tasks from Supabase
         supabaseSync.loadTasks().then(cloudTasks => {
           if (cloudTasks.length > 0) {
-            setTasks(prev => {
-              // Merge local unsynced tasks with cloud tasks
-              const unsynced = prev.filter(t => !t.synced);
-              return [...cloudTasks, ...unsynced];
-            });
+            cloudTasks.forEach(markFieldStampsSeen);
+            // Merge per field with local edits; local unsynced tasks are kept
+            setTasks(prev => conflictResolutionService.mergeTaskLists(prev, cloudTasks));
           }
         });
         // Check for weekly report (Monday mornings)
@@ -1574,6 +1594,36 @@ export default function App() {
     }
   }, [authLoading, user]);
 
+  // Task edits leave the device here: every field touchFields stamped since the
+  // last look goes to nero_tasks through the per-field merge
+  useEffect(() => {
+    if (loading) return;
+    const seen = seenFieldStamps.current;
+    seenFieldStamps.current = new Map(tasks.map(t => [t.id, { ...(t.fieldUpdatedAt || {}) }]));
+    if (!seen || !user) return;
+
+    tasks.forEach(task => {
+      const before = seen.get(task.id);
+      if (!before) return; // New here - createTask or the cloud load took care of it
+
+      const fieldsByStamp = new Map<string, (keyof Task)[]>();
+      Object.entries(task.fieldUpdatedAt || {}).forEach(([field, at]) => {
+        if (before[field] && new Date(before[field]).getTime() >= new Date(at).getTime()) return;
+        fieldsByStamp.set(at, [...(fieldsByStamp.get(at) || []), field as keyof Task]);
+      });
+      fieldsByStamp.forEach((fields, at) => {
+        // null clears the column, where undefined would leave it out
+        const updates = Object.fromEntries(fields.map(f => [f, task[f] ?? null])) as Partial<Task>;
+        supabaseSync.updateTask(task.id, updates, at).catch(err => console.log('Sync error:', err));
+      });
+    });
+  }, [tasks, loading]);
+
+  const deleteTask = (taskId: string) => {
+    setTasks(prev => prev.filter(t => t.id !== taskId));
+    if (user) supabaseSync.deleteTask(taskId).catch(err => console.log('Sync error:', err));
+  };
+
 
 
   // Log energy changes to Supabase
@@ -1605,13 +1655,19 @@ export default function App() {
       const savedTokens = await AsyncStorage.getItem('@uf/google_tokens');
       if (savedTokens) {
         const { accessToken, refreshToken, expiry } = JSON.parse(savedTokens);
-        calendarService.setTokens(accessToken, refreshToken, Math.floor((expiry - Date.now()) / 1000));
+        await calendarService.setTokens(accessToken, refreshToken, Math.floor((expiry - Date.now()) / 1000));
         setProfile(p => ({ ...p, calendarConnected: true }));
       }
     } catch (e) {
       console.log('No saved Google tokens');
     }
 
+    // CalDAV, feed and on-device calendars reconnect from their saved settings
+    await calendarProviderService.initialize();
+    if (calendarProviderService.isConnected()) {
+      setProfile(p => ({ ...p, calendarConnected: true }));
+    }
+
     // Load AI feature data
     await initializeAIFeatures();
   };
@@ -1635,6 +1691,23 @@ export default function App() {
         focusTimerService.setSessionHistory(sessions);
       }
 
+      // Distractions logged from the focus timer land on the breadcrumb trail
+      await initializeContextBreadcrumbs();
+
+      // Pick the timer back up - blocks that ended while we were closed still count
+      const savedHyperfocusCheck = await AsyncStorage.getItem('@uf/hyperfocus_check');
+      if (savedHyperfocusCheck) hyperfocusCheck.current = JSON.parse(savedHyperfocusCheck);
+      const restoredTimer = await focusTimerService.restore();
+      if (restoredTimer?.finished) {
+        handleFocusSessionComplete(restoredTimer.session);
+      } else if (restoredTimer) {
+        widgetService.updateFocusSession(true);
+      }
+      if (restoredTimer?.creditedPomodoros) {
+        addBreadcrumb(`⏱️ Finished ${restoredTimer.creditedPomodoros} focus block${restoredTimer.creditedPomodoros === 1 ? '' : 's'} while away`);
+      }
+      await focusRoomService.restore();
+
       // Load check-in history
       const savedCheckIns = await AsyncStorage.getItem('@uf/checkin_history');
       if (savedCheckIns) {
@@ -1701,6 +1774,185 @@ export default function App() {
     }
   }, [completionHistory]);
 
+  // Flowtime has no end, so keep one OS notification queued for the hyperfocus
+  // ceiling of whatever block is flowing right now
+  useEffect(() => {
+    return focusTimerService.subscribe(async () => {
+      const deadline = focusTimerService.getHyperfocusDeadline();
+      const current = hyperfocusCheck.current;
+      if (deadline === current.deadline) return;
+
+      hyperfocusCheck.current = { id: null, deadline };
+      if (current.id) nativeNotificationService.cancelNotification(current.id).catch(() => {});
+      if (deadline && deadline > Date.now()) {
+        const id = await nativeNotificationService.scheduleHyperfocusCheck((deadline - Date.now()) / 60000);
+        if (hyperfocusCheck.current.deadline === deadline) hyperfocusCheck.current.id = id;
+      }
+      save('@uf/hyperfocus_check', hyperfocusCheck.current);
+    });
+  }, []);
+
+  // Pre-fill the estimate with how long tasks like this really take, until the user picks one
+  useEffect(() => {
+    if (!estimateEdited) setNewEstimate(timeEstimateService.suggestEstimate(newTask, completionHistory));
+  }, [newTask, estimateEdited, completionHistory]);
+
+  // Missed repeating tasks move to their next day instead of piling up as overdue
+  useEffect(() => {
+    if (loading) return;
+    recurrenceService.initialize();
+    const rollOver = () => setTasks(prev => {
+      const rollovers = recurrenceService.getRollovers(prev);
+      if (rollovers.length === 0) return prev;
+      const moved = new Map(rollovers.map(r => [r.task.id, r.instanceDate]));
+      const reset = new Set(rollovers.flatMap(r => r.resetStepIds));
+      return prev.map(t => {
+        const stepOf = t.parentId ? moved.get(t.parentId) : undefined;
+        if (moved.has(t.id)) {
+          return conflictResolutionService.touchFields({ ...t, instanceDate: moved.get(t.id) }, ['instanceDate']);
+        }
+        if (stepOf) {
+          return reset.has(t.id)
+            ? conflictResolutionService.touchFields(
+                { ...t, instanceDate: stepOf, completed: false, completedAt: undefined },
+                ['instanceDate', 'completed', 'completedAt']
+              )
+            : conflictResolutionService.touchFields({ ...t, instanceDate: stepOf }, ['instanceDate']);
+        }
+        return t;
+      });
+    });
+    rollOver();
+    const interval = setInterval(rollOver, 60 * 60 * 1000);
+    return () => clearInterval(interval);
+  }, [loading]);
+
+  // Soundscape and chimes follow the focus timer
+  useEffect(() => {
+    soundscapeService.initialize().then(() => soundscapeService.attachTimer(focusTimerService));
+  }, []);
+
+  // Body-doubling rooms mirror this device's timer and current task
+  const roomTaskTitle = tasks.find(t => !t.completed && recurrenceService.isVisible(t))?.title;
+  useEffect(() => {
+    focusRoomService.attachTimer(focusTimerService);
+    return focusRoomService.onCelebration(celebration => {
+      if (celebration.participantId === focusRoomService.getParticipantId()) return;
+      setCelebText(`🎉 ${celebration.name} finished a focus block! Keep going together`);
+      setShowCeleb(true);
+      Animated.sequence([
+        Animated.timing(celebAnim, { toValue: 1, duration: 300, useNativeDriver: true }),
+        Animated.delay(2000),
+        Animated.timing(celebAnim, { toValue: 0, duration: 300, useNativeDriver: true }),
+      ]).start(() => setShowCeleb(false));
+    });
+  }, []);
+
+  useEffect(() => {
+    focusRoomService.setIdentity(user?.id || focusRoomService.getParticipantId(), profile.name);
+  }, [user?.id, profile.name]);
+
+  useEffect(() => {
+    focusRoomService.setTaskTitle(roomTaskTitle);
+  }, [roomTaskTitle]);
+
+  // Events and scheduled tasks coming up, for the time-until view and transition warnings
+  const transitionWarningMinutes = profile.transitionWarningMinutes ?? DEFAULT_TRANSITION_WARNINGS;
+  const schedulingPreferences = profile.schedulingPreferences ?? DEFAULT_SCHEDULING_PREFERENCES;
+  const travelSettings = profile.travelSettings ?? DEFAULT_TRAVEL_SETTINGS;
+  const getTransitionItems = (horizonHours: number): TransitionItem[] => {
+    const now = Date.now();
+    const horizon = now + horizonHours * 60 * 60 * 1000;
+    const eventIds = new Set(calendarEvents.map(e => e.id));
+    const items: TransitionItem[] = [
+      ...calendarEvents
+        .filter(e => !e.allDay)
+        .map(e => ({ key: `event:${e.id}`, title: e.title, start: new Date(e.start), kind: 'event' as const })),
+      ...tasks
+        // Tasks blocked on the calendar already show up as their event
+        .filter(t => !t.completed && t.scheduledTime && !(t.calendarEventId && eventIds.has(t.calendarEventId)))
+        .map(t => ({ key: `task:${t.id}`, title: t.title, start: new Date(t.scheduledTime!), kind: 'task' as const })),
+    ];
+    return items.filter(item => item.start.getTime() > now && item.start.getTime() <= horizon);
+  };
+
+  const pushServiceRef = useRef<Promise<PushNotificationService> | null>(null);
+  const transitionItems = getTransitionItems(24);
+  const transitionSignature = JSON.stringify([
+    transitionItems.map(item => [item.key, item.title, item.start.getTime()]),
+    transitionWarningMinutes,
+  ]);
+  useEffect(() => {
+    if (!profile.notificationsEnabled) {
+      // Clear warnings already handed to the OS, without asking for permission just to do that
+      pushServiceRef.current?.then(service => service.scheduleTransitionWarnings([], []));
+      return;
+    }
+    if (!pushServiceRef.current) pushServiceRef.current = initializePushNotifications();
+    pushServiceRef.current
+      .then(service => service.scheduleTransitionWarnings(transitionItems, transitionWarningMinutes))
+      .catch(e => console.log('Failed to schedule transition warnings:', e));
+  }, [transitionSignature, profile.notificationsEnabled]);
+
+  // Gentle heads-ups as due and would-be-nice-by dates come up
+  const dueReminderItems: DueReminderItem[] = tasks
+    .filter(t => !t.completed && (t.dueDate || t.softDueDate))
+    .map(t => ({ key: `task:${t.id}`, title: t.title, due: dueDateService.getDue(t)!.date, soft: !t.dueDate }));
+  const dueReminderSignature = JSON.stringify(dueReminderItems.map(item => [item.key, item.title, item.due.getTime(), item.soft]));
+  useEffect(() => {
+    if (!profile.notificationsEnabled) {
+      pushServiceRef.current?.then(service => service.scheduleDueReminders([]));
+      return;
+    }
+    if (!pushServiceRef.current) pushServiceRef.current = initializePushNotifications();
+    pushServiceRef.current
+      .then(service => service.scheduleDueReminders(dueReminderItems))
+      .catch(e => console.log('Failed to schedule due reminders:', e));
+  }, [dueReminderSignature, profile.notificationsEnabled]);
+
+  // Leave-by times for the next day's events that have somewhere to be
+  const travelPlans = calendarEvents
+    .filter(e => !departedEventIds.includes(e.id))
+    .filter(e => {
+      const start = new Date(e.start).getTime();
+      return start > Date.now() && start <= Date.now() + 24 * 60 * 60 * 1000;
+    })
+    .map(e => travelService.planTrip(e, travelSettings))
+    .filter((plan): plan is TravelPlan => !!plan);
+  const travelPromptItems: TravelPromptItem[] = travelPlans.flatMap(plan =>
+    travelService.getPrompts(plan).map(prompt => ({ key: `${plan.eventId}:${prompt.stage}`, title: prompt.title, body: prompt.body, at: prompt.at }))
+  );
+  const travelSignature = JSON.stringify(travelPromptItems.map(item => [item.key, item.title, item.at.getTime()]));
+  useEffect(() => {
+    if (!profile.notificationsEnabled) {
+      pushServiceRef.current?.then(service => service.scheduleTravelPrompts([]));
+      return;
+    }
+    if (!pushServiceRef.current) pushServiceRef.current = initializePushNotifications();
+    pushServiceRef.current
+      .then(service => service.scheduleTravelPrompts(travelPromptItems))
+      .catch(e => console.log('Failed to schedule travel prompts:', e));
+  }, [travelSignature, profile.notificationsEnabled]);
+
+  // Only approved, still-relevant memories reach Nero's prompt
+  useEffect(() => {
+    neroMemoryService.initialize();
+    return neroMemoryService.subscribe(facts => {
+      setMemoryFacts([...facts]);
+      setNeroMemory(neroMemoryService.getActiveMemory());
+    });
+  }, []);
+
+  // Point every AI feature at the user's chosen provider
+  useEffect(() => {
+    llmProviderService.configure({
+      provider: profile.llmProvider || 'anthropic',
+      apiKey: profile.apiKey,
+      baseUrl: profile.llmBaseUrl?.trim() || undefined,
+      model: profile.llmModel?.trim() || undefined,
+    });
+  }, [profile.llmProvider, profile.apiKey, profile.llmBaseUrl, profile.llmModel]);
+
   // Sync calendar events with suggestion service
   useEffect(() => {
     contextSuggestionService.setCalendarEvents(calendarEvents);
@@ -1714,6 +1966,7 @@ export default function App() {
         if (checkIn && !activeCheckIn) {
           setActiveCheckIn(checkIn);
           setCheckInHistory(prev => [...prev, checkIn]);
+          soundscapeService.playChime('check_in');
         }
       }
     }, 5 * 60 * 1000); // Check every 5 minutes
@@ -1723,8 +1976,9 @@ export default function App() {
 
   // Update task suggestions when context changes
   useEffect(() => {
-    if (showSuggestions && tasks.filter(t => !t.completed).length > 0) {
-      const suggestions = contextSuggestionService.getSuggestions(tasks, energy, currentMood);
+    const visibleTasks = tasks.filter(t => recurrenceService.isVisible(t));
+    if (showSuggestions && visibleTasks.filter(t => !t.completed).length > 0) {
+      const suggestions = contextSuggestionService.getSuggestions(visibleTasks, energy, currentMood);
       setTaskSuggestions(suggestions);
     }
   }, [tasks, energy, currentMood, showSuggestions]);
@@ -1744,12 +1998,33 @@ export default function App() {
     contextSuggestionService.recordActivity();
   };
 
-  const handleFocusSessionComplete = (session: FocusSession) => {
-    setFocusSessionHistory(prev => [...prev, session]);
+  const handleFocusSessionComplete = (completed: FocusSession) => {
+    // Called at every block end and again on stop - keep one entry per session
+    const session = { ...completed };
+    setFocusSessionHistory(prev => prev.some(s => s.id === session.id)
+      ? prev.map(s => s.id === session.id ? session : s)
+      : [...prev, session]
+    );
+
+    // Keep the linked task's actual time current
+    if (session.taskId) {
+      const sessions = [...focusSessionHistory.filter(s => s.id !== session.id), session];
+      const actualMinutes = timeEstimateService.getFocusedMinutes(session.taskId, sessions);
+      if (actualMinutes > 0) {
+        setTasks(prev => prev.map(t => t.id === session.taskId
+          ? conflictResolutionService.touchFields({ ...t, actualMinutes }, ['actualMinutes'])
+          : t
+        ));
+      }
+    }
 
-    // Celebrate completion
-    if (session.completedPomodoros > 0) {
-      setCelebText(`🎯 Focus session complete! ${session.completedPomodoros} pomodoro${session.completedPomodoros > 1 ? 's' : ''} done!`);
+    // Celebrate completion - once per newly finished pomodoro, not again when the session is stopped
+    if (session.completedPomodoros > (celebratedPomodoros.current.get(session.id) ?? 0)) {
+      celebratedPomodoros.current.set(session.id, session.completedPomodoros);
+      const distractionCount = session.distractions?.length || 0;
+      setCelebText(distractionCount === 0
+        ? `🎯 Focus session complete! ${session.completedPomodoros} pomodoro${session.completedPomodoros > 1 ? 's' : ''} done!`
+        : `🎯 ${session.completedPomodoros} pomodoro${session.completedPomodoros > 1 ? 's' : ''} done! Focus score ${session.focusScore ?? focusTimerService.getFocusScore(session)}`);
       setShowCeleb(true);
       Animated.sequence([
         Animated.timing(celebAnim, { toValue: 1, duration: 300, useNativeDriver: true }),
@@ -1761,13 +2036,15 @@ export default function App() {
     // Update widget
     widgetService.updateFocusSession(false);
 
-    // Sync focus session to Supabase
+    // Sync focus session to Supabase - later calls for the same session update its row
     if (user && session.startTime && session.endTime) {
       supabaseSync.logFocusSession(
+        session.id,
         new Date(session.startTime),
         new Date(session.endTime),
         session.taskId,
-        `${session.completedPomodoros} pomodoros completed`
+        `${session.completedPomodoros} pomodoros completed`,
+        { focusScore: session.focusScore, distractions: session.distractions?.length || 0 }
       ).catch(err => console.log('Focus session sync error:', err));
     }
   };
@@ -1826,7 +2103,7 @@ export default function App() {
       setStuckStep(2);
     } else if (action === 'random') {
       // Pick a random uncompleted task
-      const pendingTasks = tasks.filter(t => !t.completed);
+      const pendingTasks = tasks.filter(t => !t.completed && recurrenceService.isVisible(t));
       if (pendingTasks.length > 0) {
         const randomTask = pendingTasks[Math.floor(Math.random() * pendingTasks.length)];
         setStuckMessage(`Okay, I picked this one for you: "${randomTask.title}". No thinking needed - just this one. 🎯`);
@@ -1944,7 +2221,7 @@ export default function App() {
       const tokens = await tokenResponse.json();
       
       // Save tokens
-      calendarService.setTokens(tokens.access_token, tokens.refresh_token, tokens.expires_in);
+      await calendarService.setTokens(tokens.access_token, tokens.refresh_token, tokens.expires_in);
       
       await AsyncStorage.setItem('@uf/google_tokens', JSON.stringify({
         accessToken: tokens.access_token,
@@ -1982,9 +2259,27 @@ export default function App() {
     await promptAsync();
   };
 
-  // Google Calendar sign out
-  const signOutGoogle = async () => {
-    calendarService.logout();
+  // Connect a CalDAV server, calendar feed or on-device calendar
+  const connectCalendar = async (settings: CalendarSettings) => {
+    setCalendarConnecting(true);
+    const result = await calendarProviderService.configure(settings);
+    setCalendarConnecting(false);
+
+    if (!result.ok) {
+      Alert.alert('Connection Failed', result.error || 'Could not reach that calendar.');
+      return;
+    }
+
+    // Only one calendar at a time - drop any Google sign-in
+    await AsyncStorage.removeItem('@uf/google_tokens');
+    setCalendarForm(null);
+    setProfile(p => ({ ...p, calendarConnected: true }));
+    await loadCalendarEvents();
+  };
+
+  // Calendar sign out, whichever provider
+  const disconnectCalendar = async () => {
+    await calendarService.logout();
     await AsyncStorage.removeItem('@uf/google_tokens');
     setProfile(p => ({ ...p, calendarConnected: false }));
     setCalendarEvents([]);
@@ -2008,35 +2303,152 @@ export default function App() {
     }
   }, [profile.calendarConnected]);
 
-  // Check travel time alerts
+  // Calendars the user can count as busy; the main one counts until they choose
   useEffect(() => {
-    const checkTravel = () => {
-      for (const event of calendarEvents) {
-        const alert = calendarService.calculateTravelTime(new Date(event.start));
-        if (alert) {
-          setTravelAlert(alert.message);
-          setTimeout(() => setTravelAlert(null), 30000);
-          break;
-        }
-      }
+    if (!profile.calendarConnected) {
+      setAvailableCalendars([]);
+      return;
+    }
+    calendarProviderService.listCalendars().then(calendars => {
+      setAvailableCalendars(calendars);
+      setBusyCalendarIds(calendarProviderService.getSettings()?.busyCalendarIds || calendars.filter(c => c.primary).map(c => c.id));
+    });
+  }, [profile.calendarConnected]);
+
+  // Pick up edits made in the calendar app: on connect, every few minutes, and on coming back to the app
+  useEffect(() => {
+    if (!profile.calendarConnected) return;
+    const sync = () => calendarService.getChanges().then(result => { if (result) setCalendarChanges(result); });
+
+    sync();
+    const interval = setInterval(sync, 5 * 60 * 1000);
+    const subscription = AppState.addEventListener('change', state => { if (state === 'active') sync(); });
+    return () => {
+      clearInterval(interval);
+      subscription.remove();
     };
+  }, [profile.calendarConnected]);
 
-    const interval = setInterval(checkTravel, 60000);
-    checkTravel(); // Check immediately
-    return () => clearInterval(interval);
-  }, [calendarEvents]);
+  // Applied in an effect so it works from the current task list
+  useEffect(() => {
+    if (!calendarChanges) return;
+    applyCalendarChanges(calendarChanges);
+    setCalendarChanges(null);
+  }, [calendarChanges]);
+
+  const toggleBusyCalendar = (id: string) => {
+    const next = busyCalendarIds.includes(id) ? busyCalendarIds.filter(c => c !== id) : [...busyCalendarIds, id];
+    if (next.length === 0) return; // At least one calendar has to count
+    setBusyCalendarIds(next);
+    calendarProviderService.setBusyCalendars(next);
+  };
+
+  const updateSchedulingPreferences = (updates: Partial<SchedulingPreferences>) =>
+    setProfile(p => ({ ...p, schedulingPreferences: { ...(p.schedulingPreferences ?? DEFAULT_SCHEDULING_PREFERENCES), ...updates } }));
+
+  const updateWorkingHours = (weekday: number, hours: WorkingHours | null) =>
+    updateSchedulingPreferences({
+      workingHours: schedulingPreferences.workingHours.map((h, i) => i === weekday ? hours : h),
+    });
+
+  const updateTravelSettings = (updates: Partial<TravelSettings>) =>
+    setProfile(p => ({ ...p, travelSettings: { ...(p.travelSettings ?? DEFAULT_TRAVEL_SETTINGS), ...updates } }));
+
+  const updatePlace = (id: string, updates: Partial<SavedPlace>) =>
+    updateTravelSettings({ places: travelSettings.places.map(place => place.id === id ? { ...place, ...updates } : place) });
+
+  const addPlace = (form: { kind: SavedPlace['kind']; name: string; address: string }) => {
+    const name = form.name.trim() || PLACE_KINDS.find(k => k.id === form.kind)!.label;
+    updateTravelSettings({
+      places: [...travelSettings.places, {
+        id: genId(),
+        kind: form.kind,
+        name,
+        address: form.address.trim() || undefined,
+        travelMinutes: travelSettings.defaultTravelMinutes,
+        mode: travelSettings.defaultMode,
+      }],
+    });
+    setPlaceForm(null);
+  };
+
+  // Escalating "get ready" / "leave now" banner for the next trip. A dismissed
+  // prompt stays away until the next stage; a new stage brings the banner back.
+  const travelDismissedRef = useRef<Record<string, number>>({});
+  const travelReadyStartRef = useRef<Record<string, number>>({});
+  useEffect(() => {
+    const checkTravel = () => {
+      const now = new Date();
+      const current = travelPlans
+        .map(plan => ({ plan, prompt: travelService.getCurrentPrompt(plan, now) }))
+        .filter((t): t is { plan: TravelPlan; prompt: TravelPrompt } => !!t.prompt)
+        .filter(t => (travelDismissedRef.current[t.plan.eventId] ?? -1) < travelService.stageIndex(t.prompt.stage))
+        .sort((a, b) => a.plan.leaveBy.getTime() - b.plan.leaveBy.getTime())[0];
+      setTravelAlert(current || null);
+    };
+
+    const interval = setInterval(checkTravel, 60000);
+    checkTravel(); // Check immediately
+    return () => clearInterval(interval);
+  }, [travelSignature]);
+
+  const dismissTravelAlert = () => {
+    if (!travelAlert) return;
+    travelDismissedRef.current[travelAlert.plan.eventId] = travelService.stageIndex(travelAlert.prompt.stage);
+    setTravelAlert(null);
+  };
+
+  const startGettingReady = (eventId: string) => {
+    travelReadyStartRef.current[eventId] = Date.now();
+  };
+
+  // Out the door: stop the prompts, and learn how long getting ready took -
+  // from the tap on "getting ready", or from the prompt to start if there wasn't one
+  const leaveForEvent = (plan: TravelPlan) => {
+    const startedAt = travelReadyStartRef.current[plan.eventId] ?? plan.getReadyAt.getTime();
+    const minutes = (Date.now() - startedAt) / 60000;
+    setProfile(p => ({ ...p, travelSettings: travelService.recordReadyTime(p.travelSettings ?? DEFAULT_TRAVEL_SETTINGS, minutes) }));
+    setDepartedEventIds(ids => [...ids, plan.eventId]);
+    setTravelAlert(null);
+  };
+
+  // Notice when the day plan has slipped, and offer to reflow it once per plan
+  useEffect(() => {
+    const checkPlan = () => {
+      const delay = dayPlannerService.getDelayMinutes(dayPlan, tasks);
+      setPlanDelay(delay >= BEHIND_THRESHOLD_MINUTES ? delay : 0);
+      if (delay < BEHIND_THRESHOLD_MINUTES || !dayPlan?.committedAt || behindNudgedFor.current === dayPlan.committedAt) return;
+      behindNudgedFor.current = dayPlan.committedAt;
+      setMessages(m => [...m, {
+        id: genId(),
+        role: 'nero',
+        content: `⏳ Today's plan is running about ${delay} min behind. That happens! Want me to reflow the rest? There's a button on your timeline.`,
+        timestamp: new Date().toISOString(),
+      }]);
+    };
+
+    const interval = setInterval(checkPlan, 60000);
+    checkPlan();
+    return () => clearInterval(interval);
+  }, [dayPlan, tasks]);
 
   // ============ DATA FUNCTIONS ============
 
   const loadData = async () => {
     try {
-      const keys = ['@uf/tasks', '@uf/msgs', '@uf/stats', '@uf/ach', '@uf/profile', '@uf/onb', '@uf/memory', '@uf/contexts', '@uf/thoughts', '@uf/bcs', '@uf/sbkey', '@uf/completions'];
+      const keys = ['@uf/tasks', '@uf/tasks_v', '@uf/msgs', '@uf/stats', '@uf/ach', '@uf/profile', '@uf/onb', '@uf/memory', '@uf/contexts', '@uf/thoughts', '@uf/bcs', '@uf/sbkey', '@uf/completions', '@uf/routine_steps', '@uf/day_plan', '@uf/memory_scanned_to'];
       const results = await AsyncStorage.multiGet(keys);
       const data: Record<string, any> = {};
       results.forEach(([key, value]) => { if (value) data[key] = JSON.parse(value); });
 
-      if (data['@uf/tasks']) setTasks(data['@uf/tasks']);
+      if (data['@uf/tasks']) {
+        // Upgrade tasks saved by older versions to the current Task schema
+        const tasksVersion = data['@uf/tasks_v'] || 1;
+        setTasks(migrateStoredTasks(data['@uf/tasks'], tasksVersion));
+        if (tasksVersion < TASK_SCHEMA_VERSION) save('@uf/tasks_v', TASK_SCHEMA_VERSION);
+      }
       if (data['@uf/msgs']) setMessages(data['@uf/msgs']);
+      if (data['@uf/memory_scanned_to']) memoryScannedTo.current = data['@uf/memory_scanned_to'];
       if (data['@uf/stats']) {
         const savedStats = data['@uf/stats'];
         const today = new Date().toDateString();
@@ -2049,7 +2461,11 @@ export default function App() {
         setStats(savedStats);
       }
       if (data['@uf/ach']) setAchievements(data['@uf/ach']);
-      if (data['@uf/memory']) setNeroMemory(data['@uf/memory']);
+      // Older versions kept memory as flat lists - hand them over to the memory service once
+      if (data['@uf/memory']) {
+        await neroMemoryService.importLegacy(data['@uf/memory']);
+        await AsyncStorage.removeItem('@uf/memory');
+      }
       if (data['@uf/contexts']) setSavedContexts(data['@uf/contexts']);
       if (data['@uf/thoughts']) setThoughtDumps(data['@uf/thoughts']);
       if (data['@uf/bcs']) setBreadcrumbs(data['@uf/bcs']);
@@ -2059,6 +2475,12 @@ export default function App() {
         setCompletionHistory(data['@uf/completions']);
         patternService.setHistory(data['@uf/completions']);
       }
+      if (data['@uf/routine_steps']) {
+        setRoutineStepHistory(data['@uf/routine_steps']);
+        patternService.setRoutineStepHistory(data['@uf/routine_steps']);
+      }
+      // Yesterday's plan is history
+      if (data['@uf/day_plan']?.date === toDateKey(new Date())) setDayPlan(data['@uf/day_plan']);
 
       setScreen(data['@uf/onb'] === true ? 'main' : 'welcome');
     } catch (e) {
@@ -2082,13 +2504,14 @@ export default function App() {
   useEffect(() => { save('@uf/msgs', messages.slice(-100)); }, [messages]);
   useEffect(() => { save('@uf/stats', stats); }, [stats]);
   useEffect(() => { save('@uf/ach', achievements); }, [achievements]);
-  useEffect(() => { save('@uf/memory', neroMemory); }, [neroMemory]);
   useEffect(() => { save('@uf/contexts', savedContexts); }, [savedContexts]);
   useEffect(() => { save('@uf/thoughts', thoughtDumps); }, [thoughtDumps]);
   useEffect(() => { save('@uf/bcs', breadcrumbs.slice(-20)); }, [breadcrumbs]);
   useEffect(() => { save('@uf/profile', profile); }, [profile]);
   useEffect(() => { if (supabaseKey) save('@uf/sbkey', supabaseKey); }, [supabaseKey]);
   useEffect(() => { save('@uf/completions', completionHistory.slice(-500)); }, [completionHistory]);
+  useEffect(() => { save('@uf/routine_steps', routineStepHistory.slice(-500)); }, [routineStepHistory]);
+  useEffect(() => { save('@uf/day_plan', dayPlan); }, [dayPlan]);
 
   const requestNotificationPermission = async () => {
     const granted = await notificationService.requestPermission();
@@ -2148,24 +2571,43 @@ export default function App() {
     setBreadcrumbs(prev => [...prev.slice(-19), bc]);
   };
 
-  const addTask = (title?: string, taskEnergy?: EnergyLevel, isMicro?: boolean, parentId?: string) => {
+  const addTask = (
+    title?: string,
+    taskEnergy?: EnergyLevel,
+    isMicro?: boolean,
+    parentId?: string,
+    estimatedMinutes?: number,
+    due?: Pick<Task, 'dueDate' | 'softDueDate'>
+  ) => {
     const taskTitle = title || newTask;
     if (!taskTitle.trim()) return;
-
-    const task: Task = {
+    const estimate = estimatedMinutes
+      ?? (title ? timeEstimateService.suggestEstimate(taskTitle, completionHistory) : newEstimate)
+      ?? undefined;
+    // Only the user's own guesses teach the estimator
+    const suggested = estimate !== undefined && estimatedMinutes === undefined && (!!title || !estimateEdited);
+    const dates = due ?? (!title && newDue ? (newDueSoft ? { softDueDate: newDue } : { dueDate: newDue }) : {});
+
+    const draft: Task = {
       id: genId(),
       title: taskTitle.trim(),
       energy: taskEnergy || newEnergy,
       completed: false,
       isMicroStep: isMicro || false,
       parentId,
+      estimatedMinutes: estimate,
+      ...(suggested && { estimateSource: 'suggested' as const }),
+      ...dates,
       createdAt: new Date().toISOString(),
       synced: false,
     };
+    const task = !title && newRecurrence ? recurrenceService.startSeries(draft, newRecurrence) : draft;
 
     if (parentId) {
+      // Insert after the parent's last subtask so steps stay in order
       setTasks(prev => {
-        const idx = prev.findIndex(t => t.id === parentId);
+        const family = [parentId, ...getDescendantIds(prev, parentId)];
+        const idx = prev.reduce((last, t, i) => family.includes(t.id) ? i : last, -1);
         const newTasks = [...prev];
         newTasks.splice(idx + 1, 0, task);
         return newTasks;
@@ -2175,25 +2617,72 @@ export default function App() {
     }
 
     addBreadcrumb(`Added: ${taskTitle.slice(0, 30)}`);
-    if (!title) { setNewTask(''); setShowAdd(false); }
+    if (!title) { setNewTask(''); setShowAdd(false); setEstimateEdited(false); setNewRecurrence(null); setNewDue(null); }
 
     // Schedule notification reminder
     if (profile.notificationsEnabled) {
       notificationService.scheduleVariableReminder(taskTitle);
     }
 
-    // Sync to Supabase
-    if (user) {
-      supabaseSync.createTask(task).then(syncedTask => {
-        if (syncedTask) {
-          setTasks(prev => prev.map(t => t.id === task.id ? { ...t, id: syncedTask.id, synced: true } : t));
-        }
-      }).catch(err => console.log('Task sync error:', err));
-    }
-
+    syncNewTask(task);
     return task;
   };
 
+  // Sync to Supabase, then swap the local ID for the server's
+  const syncNewTask = (task: Task) => {
+    if (!user) return;
+    supabaseSync.createTask(task).then(syncedTask => {
+      if (syncedTask) {
+        setTasks(prev => prev.map(t => {
+          if (t.id === task.id) return { ...t, id: syncedTask.id, synced: true };
+          if (t.parentId === task.id) return { ...t, parentId: syncedTask.id };
+          return t;
+        }));
+      }
+    }).catch(err => console.log('Task sync error:', err));
+  };
+
+  // Next instances of repeating tasks and routines - parent first, steps in order
+  const addGeneratedTasks = (generated: Task[]) => {
+    if (generated.length === 0) return;
+    setTasks(prev => [...generated, ...prev]);
+    generated.forEach(syncNewTask);
+  };
+
+  const startRoutine = (routine: Routine) => {
+    addGeneratedTasks(recurrenceService.startRoutine(routine));
+    addBreadcrumb(`🔁 Routine: ${routine.name.slice(0, 25)}`);
+  };
+
+  // ============ ROUTINE PLAYER ============
+
+  // The routine a task belongs to - itself, or the parent of one of its steps
+  const getRoutineTask = (task: Task): Task | undefined => {
+    if (task.routineId) return task;
+    const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+    return parent?.routineId ? parent : undefined;
+  };
+
+  const recordRoutineStep = (step: Task, seconds: number, snoozes: number, skipped: boolean) => {
+    const routine = tasks.find(t => t.id === routinePlayerId);
+    if (!routine?.routineId) return;
+    const record = patternService.recordRoutineStep(routine.routineId, step.title, seconds, {
+      plannedMinutes: step.estimatedMinutes,
+      skipped,
+      snoozes,
+    });
+    setRoutineStepHistory(prev => [...prev, record]);
+  };
+
+  // Skipped steps sit this one out - the next instance brings them back
+  const finishRoutine = (skippedIds: string[]) => {
+    const routine = tasks.find(t => t.id === routinePlayerId);
+    setRoutinePlayerId(null);
+    if (!routine) return;
+    if (skippedIds.length > 0) setTasks(prev => prev.filter(t => !skippedIds.includes(t.id)));
+    if (!routine.completed) completeTask(routine.id);
+  };
+
   // ============ VOICE INPUT FUNCTIONS ============
 
   const startVoiceInput = async () => {
@@ -2252,42 +2741,65 @@ export default function App() {
 
   // ============ CALENDAR SCHEDULING FUNCTIONS ============
 
-  const scheduleTaskOnCalendar = async (taskId: string, startTime?: Date) => {
-    const task = tasks.find(t => t.id === taskId);
+  const scheduleTaskOnCalendar = async (taskId: string, startTime?: Date, minutes?: number) => {
+    const task = tasksRef.current.find(t => t.id === taskId);
     if (!task || !calendarService.isAuthenticated()) {
       if (!calendarService.isAuthenticated()) {
-        Alert.alert('Calendar Not Connected', 'Connect Google Calendar in settings to schedule tasks.');
+        Alert.alert('Calendar Not Connected', 'Connect a calendar in settings to schedule tasks.');
       }
       return null;
     }
+    // Block out as long as the task is expected to take
+    const durationMinutes = minutes ?? task.estimatedMinutes ?? 30;
 
     setCalendarSyncStatus('syncing');
     
     // Find next available slot if no time specified
-    const scheduleTime = startTime || await calendarService.findNextAvailableSlot(30);
+    const scheduleTime = startTime || await calendarService.findNextAvailableSlot(durationMinutes, schedulingPreferences, {
+      energy: task.energy,
+      peakHours: patternService.getPeakHours(),
+    });
     if (!scheduleTime) {
       setCalendarSyncStatus('error');
-      Alert.alert('No Available Time', 'Could not find an available time slot today. Try scheduling manually.');
+      Alert.alert('No Available Time', `Could not find a free ${durationMinutes}-minute slot in your working hours over the next ${schedulingPreferences.searchDays} days. Try scheduling manually.`);
       return null;
     }
 
-    const event = await calendarService.createEventFromTask(task, scheduleTime, 30);
+    // Read-only feeds still show when you're free; the time just lives on the task
+    const writable = calendarService.canWrite();
+
+    // Rescheduling replaces the old event
+    if (writable && task.calendarEventId) {
+      await calendarService.deleteEvent(task.calendarEventId);
+      setCalendarEvents(prev => prev.filter(e => e.id !== task.calendarEventId));
+    }
+
+    const event = writable ? await calendarService.createEventFromTask(task, scheduleTime, durationMinutes) : null;
     
-    if (event) {
+    if (event || !writable) {
       setCalendarSyncStatus('success');
-      setCalendarEvents(prev => [...prev, event]);
+      if (event) setCalendarEvents(prev => [...prev, event]);
       
       // Update task with calendar link
       setTasks(prev => prev.map(t => 
-        t.id === taskId ? { ...t, calendarEventId: event.id } : t
+        t.id === taskId
+          ? event
+            ? conflictResolutionService.touchFields(
+                { ...t, calendarEventId: event.id, scheduledTime: scheduleTime.toISOString() },
+                ['calendarEventId', 'scheduledTime']
+              )
+            : conflictResolutionService.touchFields({ ...t, scheduledTime: scheduleTime.toISOString() }, ['scheduledTime'])
+          : t
       ));
 
       // Notify user
-      const timeStr = scheduleTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const timeStr = slotFinderService.describe(scheduleTime);
       const neroMsg: Message = {
         id: genId(),
         role: 'assistant',
-        content: `📅 Done! I've scheduled "${task.title}" for ${timeStr}. I'll remind you when it's time!`,
+        content: event
+          ? `📅 Done! I've scheduled "${task.title}" ${timeStr}. I'll remind you when it's time!`
+          : `📅 I've planned "${task.title}" ${timeStr}, in a free spot on your calendar. Your calendar is read-only, so it's on your task list instead. I'll remind you when it's time!`,
         timestamp: Date.now(),
       };
       setMessages(m => [...m, neroMsg]);
@@ -2309,30 +2821,38 @@ export default function App() {
 
   const createFocusBlock = async (durationMinutes: number = 60) => {
     if (!calendarService.isAuthenticated()) {
-      Alert.alert('Calendar Not Connected', 'Connect Google Calendar to create focus blocks.');
+      Alert.alert('Calendar Not Connected', 'Connect a calendar to create focus blocks.');
+      return;
+    }
+    if (!calendarService.canWrite()) {
+      Alert.alert('Read-Only Calendar', "Focus blocks need a calendar UnFocused can add events to. Calendar feeds can only be read.");
       return;
     }
 
     setCalendarSyncStatus('syncing');
     
-    const startTime = await calendarService.findNextAvailableSlot(durationMinutes);
+    // Focus blocks are for the hard stuff, so they lean toward peak hours
+    const startTime = await calendarService.findNextAvailableSlot(durationMinutes, schedulingPreferences, {
+      energy: 'high',
+      peakHours: patternService.getPeakHours(),
+    });
     if (!startTime) {
       setCalendarSyncStatus('error');
-      Alert.alert('No Available Time', `Could not find a ${durationMinutes}-minute slot today.`);
+      Alert.alert('No Available Time', `Could not find a ${durationMinutes}-minute slot in your working hours over the next ${schedulingPreferences.searchDays} days.`);
       return;
     }
 
-    const block = await calendarService.createTimeBlock('Focus Time', startTime, durationMinutes, '9');
+    const block = await calendarService.createTimeBlock('Focus Time', startTime, durationMinutes);
     
     if (block) {
       setCalendarSyncStatus('success');
       setCalendarEvents(prev => [...prev, block]);
       
-      const timeStr = startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+      const timeStr = slotFinderService.describe(startTime);
       const neroMsg: Message = {
         id: genId(),
         role: 'assistant',
-        content: `🎯 Focus block created! You have ${durationMinutes} minutes blocked at ${timeStr}. I'll help you stay focused when it's time.`,
+        content: `🎯 Focus block created! You have ${durationMinutes} minutes blocked ${timeStr}. I'll help you stay focused when it's time.`,
         timestamp: Date.now(),
       };
       setMessages(m => [...m, neroMsg]);
@@ -2343,33 +2863,306 @@ export default function App() {
     }
   };
 
+  /**
+   * Follow calendar-side edits on linked tasks: a moved event moves its task
+   * (and its day plan block), a deleted one leaves the task unscheduled.
+   */
+  const applyCalendarChanges = (result: CalendarChanges) => {
+    const changes = new Map(result.changes.map(c => [c.id, c]));
+    const moved = new Map<string, string>(); // Task id -> new start
+    const unlinked = new Set<string>(); // Event ids that are gone
+
+    tasks.forEach(task => {
+      if (!task.calendarEventId) return;
+      const change = changes.get(task.calendarEventId);
+      if (change?.deleted || (!change && result.full)) {
+        unlinked.add(task.calendarEventId);
+      } else if (change?.event && !change.event.allDay && !task.completed) {
+        const start = new Date(change.event.start);
+        if (start.getTime() !== new Date(task.scheduledTime || 0).getTime()) moved.set(task.id, start.toISOString());
+      }
+    });
+
+    if (moved.size > 0 || unlinked.size > 0) {
+      setTasks(prev => prev.map(t => {
+        if (moved.has(t.id)) {
+          return conflictResolutionService.touchFields({ ...t, scheduledTime: moved.get(t.id) }, ['scheduledTime']);
+        }
+        if (t.calendarEventId && unlinked.has(t.calendarEventId)) {
+          return conflictResolutionService.touchFields(
+            { ...t, calendarEventId: undefined, scheduledTime: t.completed ? t.scheduledTime : undefined },
+            ['calendarEventId', 'scheduledTime']
+          );
+        }
+        return t;
+      }));
+
+      setDayPlan(plan => plan && {
+        ...plan,
+        blocks: plan.blocks
+          .filter(b => !b.eventId || !unlinked.has(b.eventId))
+          .map(b => {
+            const event = b.eventId ? changes.get(b.eventId)?.event : undefined;
+            return event && !event.allDay
+              ? { ...b, start: new Date(event.start).toISOString(), end: new Date(event.end).toISOString() }
+              : b;
+          })
+          .sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime()),
+      });
+
+      const notes = [
+        ...tasks.filter(t => moved.has(t.id)).map(t => `• "${t.title}" moved ${slotFinderService.describe(new Date(moved.get(t.id)!))}`),
+        ...tasks
+          .filter(t => !t.completed && t.calendarEventId && unlinked.has(t.calendarEventId))
+          .map(t => `• "${t.title}" came off your calendar, so it's unscheduled again`),
+      ];
+      if (notes.length > 0) {
+        setMessages(m => [...m, {
+          id: genId(),
+          role: 'nero',
+          content: `📅 I picked up some changes from your calendar:\n${notes.join('\n')}`,
+          timestamp: new Date().toISOString(),
+        }]);
+      }
+    }
+
+    if (result.changes.length > 0) loadCalendarEvents();
+  };
+
   const syncCalendarEvents = async () => {
     if (!calendarService.isAuthenticated()) return;
     
     setCalendarSyncStatus('syncing');
+    const changes = await calendarService.getChanges();
+    if (changes) setCalendarChanges(changes);
     await loadCalendarEvents();
     setCalendarSyncStatus('success');
     setTimeout(() => setCalendarSyncStatus('idle'), 2000);
   };
 
+  // ============ DAY PLANNING ============
+
+  const getPlanOptions = (): PlanOptions => ({
+    preferences: schedulingPreferences,
+    peakHours: patternService.getPeakHours(),
+    energy,
+  });
+
+  // The user's estimate, stretched by how long this kind of task really takes them
+  const getPlanMinutes = (task: Task): number => {
+    if (!task.estimatedMinutes) return timeEstimateService.suggestEstimate(task.title, completionHistory, task.tags) ?? 30;
+    const correction = timeEstimateService.getCorrection(timeEstimateService.categorize(task.title, task.tags), completionHistory);
+    return correction ? timeEstimateService.adjustEstimate(task.estimatedMinutes, correction) : task.estimatedMinutes;
+  };
+
+  // Rest of today's busy time, not counting the plan's own events
+  const loadPlanBusy = async (plan: DayPlan | null): Promise<BusyPeriod[]> => {
+    const now = new Date();
+    const endOfDay = new Date(now);
+    endOfDay.setHours(23, 59, 59, 999);
+    const busy = dayPlannerService.withoutPlan(await calendarService.getFreeBusy(now, endOfDay), plan, calendarEvents);
+    setPlanBusy(busy);
+    return busy;
+  };
+
+  const proposeDayPlan = async () => {
+    setShowDayPlanner(true);
+    setPlanLoading(true);
+    try {
+      const now = new Date();
+      const inPlan = new Set(dayPlan?.blocks.map(b => b.taskId));
+      const items = tasks
+        .filter(t => !t.completed && !t.parentId && recurrenceService.isVisible(t))
+        // Already booked for later on its own
+        .filter(t => !(t.scheduledTime && new Date(t.scheduledTime) > now && !inPlan.has(t.id)))
+        .map(task => ({ task, minutes: getPlanMinutes(task) }));
+
+      const busy = await loadPlanBusy(dayPlan);
+      const result = dayPlannerService.propose(items, busy, { ...getPlanOptions(), from: now });
+      setDayPlan({ date: toDateKey(now), blocks: result.blocks, unplacedTaskIds: result.unplacedTaskIds });
+    } finally {
+      setPlanLoading(false);
+    }
+  };
+
+  // Today's plan stays until the user starts over
+  const openDayPlanner = () => {
+    if (dayPlan?.date !== toDateKey(new Date())) {
+      proposeDayPlan();
+      return;
+    }
+    setShowDayPlanner(true);
+    loadPlanBusy(dayPlan);
+  };
+
+  // After a tweak, finished blocks stay put and the rest follow the new order from now
+  const relayDayPlan = (blocks: PlannedBlock[], unplacedTaskIds: string[] = dayPlan?.unplacedTaskIds || []) => {
+    if (!dayPlan) return;
+    const result = dayPlannerService.reflow({ ...dayPlan, blocks, unplacedTaskIds }, tasks, planBusy, getPlanOptions());
+    setDayPlan({ ...dayPlan, blocks: result.blocks, unplacedTaskIds: result.unplacedTaskIds });
+  };
+
+  const addToDayPlan = (task: Task) => {
+    if (!dayPlan) return;
+    const start = new Date();
+    const block: PlannedBlock = {
+      id: genId(),
+      kind: 'task',
+      taskId: task.id,
+      title: task.title,
+      start: start.toISOString(),
+      end: new Date(start.getTime() + getPlanMinutes(task) * 60000).toISOString(),
+      energy: task.energy,
+    };
+    relayDayPlan([...dayPlan.blocks, block], dayPlan.unplacedTaskIds.filter(id => id !== task.id));
+  };
+
+  // Not today after all - take it off the calendar too
+  const removeFromDayPlan = async (blockId: string) => {
+    if (!dayPlan) return;
+    const block = dayPlan.blocks.find(b => b.id === blockId);
+    if (!block) return;
+    relayDayPlan(dayPlan.blocks.filter(b => b.id !== blockId));
+
+    if (block.eventId) {
+      await calendarService.deleteEvent(block.eventId);
+      setCalendarEvents(prev => prev.filter(e => e.id !== block.eventId));
+    }
+    setTasks(prev => prev.map(t =>
+      t.id === block.taskId && dayPlan.committedAt
+        ? conflictResolutionService.touchFields({ ...t, calendarEventId: undefined, scheduledTime: undefined }, ['calendarEventId', 'scheduledTime'])
+        : t
+    ));
+  };
+
+  /**
+   * Put the plan on the calendar in one batch. Blocks whose event already has
+   * the right time are left alone; moved ones get a fresh event. Read-only
+   * calendars just get planned times on the tasks.
+   */
+  const commitDayPlan = async (plan: DayPlan | null = dayPlan, announce: boolean = true) => {
+    if (!plan) return;
+    setPlanCommitting(true);
+    setCalendarSyncStatus('syncing');
+    const writable = calendarService.isAuthenticated() && calendarService.canWrite();
+
+    try {
+      const blocks: PlannedBlock[] = [];
+      for (const block of plan.blocks) {
+        const task = tasks.find(t => t.id === block.taskId);
+        if (block.kind !== 'task' || !task || task.completed || !writable) {
+          blocks.push(block);
+          continue;
+        }
+        const existing = calendarEvents.find(e => e.id === block.eventId);
+        if (existing && new Date(existing.start).getTime() === new Date(block.start).getTime()
+          && new Date(existing.end).getTime() === new Date(block.end).getTime()) {
+          blocks.push(block);
+          continue;
+        }
+
+        // Rescheduling replaces the old event, whether the plan or the task made it
+        const oldEventId = block.eventId || task.calendarEventId;
+        if (oldEventId) await calendarService.deleteEvent(oldEventId);
+        const event = await calendarService.createEventFromTask(task, new Date(block.start), dayPlannerService.getBlockMinutes(block));
+        blocks.push({ ...block, eventId: event?.id });
+      }
+
+      const byTask = new Map(blocks.filter(b => b.kind === 'task' && b.taskId).map(b => [b.taskId!, b]));
+      setTasks(prev => prev.map(t => {
+        const block = byTask.get(t.id);
+        if (!block || t.completed) return t;
+        return block.eventId
+          ? conflictResolutionService.touchFields({ ...t, calendarEventId: block.eventId, scheduledTime: block.start }, ['calendarEventId', 'scheduledTime'])
+          : conflictResolutionService.touchFields({ ...t, scheduledTime: block.start }, ['scheduledTime']);
+      }));
+
+      setDayPlan({ ...plan, blocks, committedAt: new Date().toISOString() });
+      if (writable) await loadCalendarEvents();
+      setCalendarSyncStatus('success');
+      setTimeout(() => setCalendarSyncStatus('idle'), 2000);
+
+      const taskBlocks = blocks.filter(b => b.kind === 'task');
+      if (announce && taskBlocks.length > 0) {
+        const from = new Date(taskBlocks[0].start).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+        const until = new Date(taskBlocks[taskBlocks.length - 1].end).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+        setMessages(m => [...m, {
+          id: genId(),
+          role: 'nero',
+          content: `🗓️ Your day is set: ${taskBlocks.length} ${taskBlocks.length === 1 ? 'block' : 'blocks'} from ${from} to ${until}${writable ? ', on your calendar' : ''}. If things run long, I'll help you reflow the rest - no big deal.`,
+          timestamp: new Date().toISOString(),
+        }]);
+      }
+    } catch (e) {
+      console.error('Plan commit error:', e);
+      setCalendarSyncStatus('error');
+    } finally {
+      setPlanCommitting(false);
+    }
+  };
+
+  // Running behind: slide everything unfinished forward from now
+  const reflowDayPlan = async () => {
+    if (!dayPlan) return;
+    const busy = await loadPlanBusy(dayPlan);
+    const result = dayPlannerService.reflow(dayPlan, tasks, busy, getPlanOptions());
+    const next = { ...dayPlan, blocks: result.blocks, unplacedTaskIds: result.unplacedTaskIds };
+    setPlanDelay(0);
+
+    if (dayPlan.committedAt) await commitDayPlan(next, false);
+    else setDayPlan(next);
+
+    const dropped = result.unplacedTaskIds.filter(id => !dayPlan.unplacedTaskIds.includes(id)).length;
+    setMessages(m => [...m, {
+      id: genId(),
+      role: 'nero',
+      content: dropped > 0
+        ? `🌊 I moved the rest of today along. ${dropped} ${dropped === 1 ? "thing doesn't" : "things don't"} fit anymore - ${dropped === 1 ? "it'll" : "they'll"} keep for tomorrow.`
+        : '🌊 I moved the rest of today along. Everything still fits!',
+      timestamp: new Date().toISOString(),
+    }]);
+  };
+
   const completeTask = (id: string) => {
-    const task = tasks.find(t => t.id === id);
+    const task = tasksRef.current.find(t => t.id === id);
     if (!task || task.completed) return;
 
     // Calculate completion time if task has createdAt
     const completedAt = new Date().toISOString();
     const completionTimeMs = task.createdAt ? Date.now() - new Date(task.createdAt).getTime() : undefined;
 
+    // Time actually spent - focus sessions on this task, including one still running
+    // (its history entry, if a block already ended, is superseded by the live count)
+    const activeSession = focusTimerService.getCurrentSession();
+    const focusedMinutes = timeEstimateService.getFocusedMinutes(
+      id,
+      focusSessionHistory.filter(s => s.id !== activeSession?.id),
+      activeSession?.taskId === id ? focusTimerService.getFocusedSeconds() : 0
+    );
+    const actualMinutes = focusedMinutes > 0 ? focusedMinutes : task.actualMinutes;
+
     // Update task as completed
-    setTasks(prev => prev.map(t => t.id === id ? { ...t, completed: true, completedAt, completionTimeMs, synced: true } : t));
+    setTasks(prev => prev.map(t => t.id === id
+      ? conflictResolutionService.touchFields(
+          { ...t, completed: true, completedAt, completionTimeMs, actualMinutes, synced: true },
+          ['completed', 'completedAt', 'actualMinutes'],
+          completedAt
+        )
+      : t
+    ));
     
-    // Sync completion to Supabase
-    if (user) {
-      supabaseSync.completeTask(id).catch(err => console.log('Sync error:', err));
+    // Show it as done on the calendar too
+    if (task.calendarEventId && calendarService.canWrite()) {
+      calendarService.markEventDone(task.calendarEventId).then(marked => { if (marked) loadCalendarEvents(); });
+    }
+
+    // Repeating tasks line up their next instance
+    if (task.recurrence) {
+      addGeneratedTasks(recurrenceService.getNextInstance(task, tasks));
     }
 
     // Record completion for pattern analysis
-    const completedTask = { ...task, completedAt, completionTimeMs };
+    const completedTask = { ...task, completedAt, completionTimeMs, actualMinutes };
     const record = patternService.recordCompletion(completedTask);
     setCompletionHistory(prev => [...prev, record]);
 
@@ -2410,20 +3203,37 @@ export default function App() {
     }
 
     addBreadcrumb(`✓ ${task.title.slice(0, 30)}`);
+
+    // Finishing the last step finishes the task it belongs to - always for routines
+    const parent = getParentReadyToComplete(tasks, id);
+    if (parent && (profile.autoCompleteParents || parent.routineId)) completeTask(parent.id);
   };
 
-  const breakdownTask = (id: string) => {
-    const task = tasks.find(t => t.id === id);
+  // Suggest micro-steps (AI when a provider is set up) and let the user review them first
+  const breakdownTask = async (id: string) => {
+    const task = tasksRef.current.find(t => t.id === id);
     if (!task) return;
 
-    const microSteps = [
-      `Just open/look at: ${task.title.slice(0, 20)}`,
-      `Do the tiniest first part`,
-      `Continue for 2 more minutes`,
-    ];
+    setBreakdownDraft(prev => ({
+      taskId: id,
+      steps: prev?.taskId === id ? prev.steps : [],
+      source: prev?.taskId === id ? prev.source : 'fallback',
+      loading: true,
+    }));
+
+    const result = await taskBreakdownService.generateBreakdown(task, energy);
+    setBreakdownDraft(prev => prev?.taskId === id ? { taskId: id, ...result, loading: false } : prev);
+  };
 
-    microSteps.forEach((step, i) => {
-      setTimeout(() => addTask(step, 'low', true, id), i * 100);
+  const acceptBreakdown = (steps: BreakdownStep[]) => {
+    if (!breakdownDraft) return;
+    const id = breakdownDraft.taskId;
+    const task = tasks.find(t => t.id === id);
+    setBreakdownDraft(null);
+    if (!task) return;
+
+    steps.forEach((step, i) => {
+      setTimeout(() => addTask(step.title, step.energy, true, id, step.estimatedMinutes), i * 100);
     });
 
     const newStats = { ...stats, tasksBreakdown: stats.tasksBreakdown + 1 };
@@ -2456,7 +3266,8 @@ export default function App() {
     const detectedEnergy = detectEnergy(userInput);
     if (detectedEnergy) setEnergy(detectedEnergy);
 
-    const extracted = extractTasks(userInput);
+    // With an AI provider connected, tasks come through tool calls instead of regex scraping
+    const extracted = llmProviderService.isConfigured() ? [] : extractTasks(userInput);
     if (extracted.length > 0) {
       setExtractedTasks(extracted);
       setShowExtracted(true);
@@ -2464,35 +3275,48 @@ export default function App() {
 
     addBreadcrumb(`You: ${userInput.slice(0, 35)}`);
 
-    if (profile.thinkingMode === 'full') {
-      setThinkingText('Analyzing your message...');
-      await new Promise(r => setTimeout(r, 500));
-      setThinkingText('Checking your tasks and energy...');
-      await new Promise(r => setTimeout(r, 500));
-      setThinkingText('Crafting response...');
-    }
+    // The reply bubble appears with the first streamed text and grows in place
+    const neroId = genId();
+    const showStreamedText = (text: string) => {
+      setTyping(false);
+      setMessages(prev => prev.some(m => m.id === neroId)
+        ? prev.map(m => m.id === neroId ? { ...m, content: text } : m)
+        : [...prev, { id: neroId, role: 'nero', content: text, timestamp: new Date().toISOString() }]
+      );
+    };
 
-    const response = await callClaudeAPI(
+    const response = await callNeroAI(
       [...messages, userMsg],
       profile.personality,
       energy,
       tasks,
       neroMemory,
-      profile.apiKey
+      {
+        extendedThinking: profile.thinkingMode === 'full',
+        onText: showStreamedText,
+        onThinking: profile.thinkingMode === 'full' ? setThinkingText : undefined,
+      }
     );
 
     setThinkingText('');
     setTyping(false);
 
     const neroMsg: Message = {
-      id: genId(),
+      id: neroId,
       role: 'nero',
       content: response.content,
       model: response.model,
       thinking: response.thinking,
+      actions: response.toolCalls?.length
+        ? response.toolCalls.map(call => ({ ...call, status: 'pending' as const }))
+        : undefined,
       timestamp: new Date().toISOString(),
     };
-    setMessages(prev => [...prev, neroMsg]);
+    setMessages(prev => prev.some(m => m.id === neroId)
+      ? prev.map(m => m.id === neroId ? neroMsg : m)
+      : [...prev, neroMsg]
+    );
+    scanConversationForMemories([...messages, userMsg, neroMsg]);
     addBreadcrumb(`${profile.neroName}: ${response.content.slice(0, 35)}`);
 
     // Speak response if voice enabled
@@ -2501,6 +3325,123 @@ export default function App() {
     }
   };
 
+  // Every few exchanges, look back for things worth remembering
+  const scanConversationForMemories = async (conversation: Message[]) => {
+    const scannedTo = conversation.findIndex(m => m.id === memoryScannedTo.current);
+    const recent = conversation.slice(scannedTo + 1);
+    if (recent.filter(m => m.role === 'user').length < 3) return;
+    memoryScannedTo.current = conversation[conversation.length - 1].id;
+    save('@uf/memory_scanned_to', memoryScannedTo.current);
+
+    const proposed = await neroMemoryService.extractFromConversation(recent.slice(-12));
+    if (proposed.length > 0) {
+      addBreadcrumb(`🧠 ${profile.neroName} noticed ${proposed.length} thing${proposed.length === 1 ? '' : 's'} to remember`);
+    }
+  };
+
+  // ============ NERO ACTIONS ============
+
+  const setActionStatus = (messageId: string, actionId: string, status: NeroAction['status'], error?: string) => {
+    setMessages(prev => prev.map(m => m.id === messageId && m.actions
+      ? { ...m, actions: m.actions.map(a => a.id === actionId ? { ...a, status, error } : a) }
+      : m
+    ));
+  };
+
+  const runNeroAction = async (action: NeroAction): Promise<void> => {
+    const { input } = action;
+    const task = neroToolsService.resolveTask(tasksRef.current, input.task);
+
+    switch (action.name) {
+      case 'add_task': {
+        const parent = input.parent_task ? neroToolsService.resolveTask(tasksRef.current, input.parent_task) : null;
+        addTask(input.title, neroToolsService.getEnergy(input), !!parent, parent?.id, undefined, neroToolsService.getDue(input) ?? undefined);
+        return;
+      }
+      case 'set_due_date': {
+        if (!task) throw new Error('Task not found');
+        const due = neroToolsService.getDue(input);
+        if (input.due_date && !due) throw new Error('Invalid date');
+        setTasks(prev => prev.map(t => t.id === task.id
+          ? conflictResolutionService.touchFields(
+              { ...t, dueDate: due?.dueDate, softDueDate: due?.softDueDate },
+              ['dueDate', 'softDueDate']
+            )
+          : t
+        ));
+        return;
+      }
+      case 'complete_task':
+        if (!task) throw new Error('Task not found');
+        completeTask(task.id);
+        return;
+      case 'breakdown_task':
+        if (!task) throw new Error('Task not found');
+        breakdownTask(task.id);
+        return;
+      case 'schedule_on_calendar': {
+        if (!task) throw new Error('Task not found');
+        const start = new Date(input.start_time);
+        if (isNaN(start.getTime())) throw new Error('Invalid time');
+        if (profile.calendarConnected && calendarService.canWrite()) {
+          const event = await scheduleTaskOnCalendar(task.id, start, input.duration_minutes || undefined);
+          if (!event) throw new Error('Calendar update failed');
+        } else {
+          setTasks(prev => prev.map(t => t.id === task.id
+            ? conflictResolutionService.touchFields({ ...t, scheduledTime: start.toISOString() }, ['scheduledTime'])
+            : t
+          ));
+        }
+        return;
+      }
+      case 'plan_my_day':
+        openDayPlanner();
+        return;
+      case 'start_focus_timer': {
+        const minutes = Math.min(Math.max(Math.round(input.minutes) || 25, 1), 180);
+        const focusTask = task ?? tasksRef.current.find(t => !t.completed && recurrenceService.isVisible(t));
+        focusTimerService.startFocusSession(focusTask?.id, currentMood || undefined, minutes);
+        widgetService.updateFocusSession(true);
+        setShowFocusTimer(true);
+        return;
+      }
+      case 'log_mood': {
+        const mood = neroToolsService.getMood(input);
+        if (!mood) throw new Error('Unknown mood');
+        const moodEnergy = neroToolsService.getEnergy(input);
+        if (moodEnergy) setEnergy(moodEnergy);
+        handleMoodRecorded(mood);
+        return;
+      }
+    }
+  };
+
+  const confirmNeroActions = async (messageId: string) => {
+    const msg = messages.find(m => m.id === messageId);
+    if (!msg?.actions) return;
+
+    for (const action of msg.actions.filter(a => a.status === 'pending')) {
+      if (!neroToolsService.describe(action, tasksRef.current).valid) {
+        setActionStatus(messageId, action.id, 'failed', 'Not enough info');
+        continue;
+      }
+      try {
+        await runNeroAction(action);
+        setActionStatus(messageId, action.id, 'done');
+      } catch (error) {
+        setActionStatus(messageId, action.id, 'failed', error instanceof Error ? error.message : 'Failed');
+      }
+    }
+    addBreadcrumb(`🤖 ${profile.neroName} did ${msg.actions.length} action${msg.actions.length === 1 ? '' : 's'}`);
+  };
+
+  const dismissNeroActions = (messageId: string) => {
+    setMessages(prev => prev.map(m => m.id === messageId && m.actions
+      ? { ...m, actions: m.actions.map(a => a.status === 'pending' ? { ...a, status: 'dismissed' as const } : a) }
+      : m
+    ));
+  };
+
   // ============ CONTEXT FUNCTIONS ============
 
   const saveContext = () => {
@@ -2509,7 +3450,7 @@ export default function App() {
     const ctx: SavedContext = {
       id: genId(),
       label: ctxLabel.trim(),
-      tasks: tasks.filter(t => !t.completed).slice(0, 5).map(t => t.title),
+      tasks: tasks.filter(t => !t.completed && recurrenceService.isVisible(t)).slice(0, 5).map(t => t.title),
       breadcrumbs: breadcrumbs.slice(-5).map(b => b.text),
       energy,
       timestamp: new Date().toISOString(),
@@ -2574,10 +3515,16 @@ export default function App() {
         setProfile(p => ({ ...p, id: userId }));
       }
 
-      await supabase.syncTasks(userId, tasks);
       await supabase.syncProfile({ ...profile, id: userId });
 
-      setTasks(prev => prev.map(t => ({ ...t, synced: true })));
+      // Tasks live in nero_tasks and need an account: push what never made it,
+      // then merge per field with what's there
+      if (user) {
+        await supabaseSync.syncTasks(tasks); // New IDs come back through onTaskIdSynced
+        const cloudTasks = await supabaseSync.loadTasks();
+        cloudTasks.forEach(markFieldStampsSeen);
+        setTasks(prev => conflictResolutionService.mergeTaskLists(prev, cloudTasks));
+      }
       setProfile(p => ({ ...p, lastSync: new Date().toISOString() }));
 
       const newStats = { ...stats };
@@ -2862,34 +3809,134 @@ export default function App() {
                     {profile.notificationStyle === style && <Text style={S.check}>✓</Text>}
                   </TouchableOpacity>
                 ))}
+                <Text style={[S.setOptD, { marginTop: 12, marginBottom: 8 }]}>Warn me before events and scheduled tasks:</Text>
+                <View style={S.estPick}>
+                  {TRANSITION_WARNING_OPTIONS.map(mins => {
+                    const selected = transitionWarningMinutes.includes(mins);
+                    return (
+                      <TouchableOpacity
+                        key={mins}
+                        style={[S.estPickO, selected && S.estPickOA]}
+                        onPress={() => setProfile(p => {
+                          const current = p.transitionWarningMinutes ?? DEFAULT_TRANSITION_WARNINGS;
+                          return {
+                            ...p,
+                            transitionWarningMinutes: selected
+                              ? current.filter(m => m !== mins)
+                              : [...current, mins].sort((a, b) => b - a),
+                          };
+                        })}
+                      >
+                        <Text style={[S.estPickT, selected && S.estPickTA]}>{mins} min</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
               </>
             )}
           </View>
 
           {/* Calendar */}
           <View style={S.setSec}>
-            <Text style={S.setSecT}>📅 Google Calendar Integration</Text>
+            <Text style={S.setSecT}>📅 Calendar</Text>
             {!profile.calendarConnected ? (
-              <TouchableOpacity
-                style={[S.setOpt, googleAuthLoading && { opacity: 0.5 }]}
-                onPress={signInWithGoogle}
-                disabled={googleAuthLoading}
-              >
-                <Text style={S.setOptE}>🔗</Text>
-                <View style={{ flex: 1 }}>
-                  <Text style={S.setOptT}>{googleAuthLoading ? 'Connecting...' : 'Connect Google Calendar'}</Text>
-                  <Text style={S.setOptD}>OAuth 2.0 • Two-way sync • Time blocking</Text>
-                </View>
-              </TouchableOpacity>
+              <>
+                <TouchableOpacity
+                  style={[S.setOpt, googleAuthLoading && { opacity: 0.5 }]}
+                  onPress={signInWithGoogle}
+                  disabled={googleAuthLoading}
+                >
+                  <Text style={S.setOptE}>🔗</Text>
+                  <View style={{ flex: 1 }}>
+                    <Text style={S.setOptT}>{googleAuthLoading ? 'Connecting...' : 'Connect Google Calendar'}</Text>
+                    <Text style={S.setOptD}>OAuth 2.0 • Two-way sync • Time blocking</Text>
+                  </View>
+                </TouchableOpacity>
+                <Text style={[S.setOptD, { marginTop: 8, marginBottom: 8 }]}>Or use another calendar</Text>
+                {CALENDAR_PROVIDER_OPTIONS.map(opt => (
+                  <TouchableOpacity
+                    key={opt.id}
+                    style={[S.setOpt, calendarForm?.provider === opt.id && S.setOptSel]}
+                    onPress={() => setCalendarForm(f => f?.provider === opt.id ? null : { provider: opt.id })}
+                  >
+                    <Text style={S.setOptE}>{opt.emoji}</Text>
+                    <View style={{ flex: 1 }}>
+                      <Text style={S.setOptT}>{opt.label}</Text>
+                      <Text style={S.setOptD}>{opt.desc}</Text>
+                    </View>
+                    {calendarForm?.provider === opt.id && <Text style={S.check}>✓</Text>}
+                  </TouchableOpacity>
+                ))}
+                {calendarForm && (
+                  <>
+                    {calendarForm.provider !== 'local' && (
+                      <TextInput
+                        style={[S.setIn, { marginTop: 8 }]}
+                        value={calendarForm.url}
+                        onChangeText={(t) => setCalendarForm(f => f && { ...f, url: t })}
+                        placeholder={calendarForm.provider === 'caldav'
+                          ? 'https://cloud.example.com/remote.php/dav/calendars/me/personal/'
+                          : 'https://... or webcal://...'}
+                        placeholderTextColor={C.textMuted}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        keyboardType="url"
+                      />
+                    )}
+                    {calendarForm.provider === 'caldav' && (
+                      <>
+                        <TextInput
+                          style={[S.setIn, { marginTop: 8 }]}
+                          value={calendarForm.username}
+                          onChangeText={(t) => setCalendarForm(f => f && { ...f, username: t })}
+                          placeholder="Username"
+                          placeholderTextColor={C.textMuted}
+                          autoCapitalize="none"
+                          autoCorrect={false}
+                        />
+                        <TextInput
+                          style={[S.setIn, { marginTop: 8 }]}
+                          value={calendarForm.password}
+                          onChangeText={(t) => setCalendarForm(f => f && { ...f, password: t })}
+                          placeholder="App password"
+                          placeholderTextColor={C.textMuted}
+                          secureTextEntry
+                        />
+                      </>
+                    )}
+                    <TouchableOpacity
+                      style={[S.syncBtn, { marginTop: 8 }, calendarConnecting && { opacity: 0.5 }]}
+                      onPress={() => connectCalendar(calendarForm)}
+                      disabled={calendarConnecting || (calendarForm.provider !== 'local' && !calendarForm.url?.trim())}
+                    >
+                      <Text style={S.syncBtnT}>{calendarConnecting ? 'Connecting...' : 'Connect'}</Text>
+                    </TouchableOpacity>
+                  </>
+                )}
+              </>
             ) : (
               <>
                 <View style={[S.setOpt, S.setOptSel]}>
                   <Text style={S.setOptE}>✓</Text>
                   <View style={{ flex: 1 }}>
-                    <Text style={S.setOptT}>Google Calendar Connected</Text>
-                    <Text style={S.setOptD}>Real-time sync enabled</Text>
+                    <Text style={S.setOptT}>{calendarProviderService.describe() || 'Calendar'} Connected</Text>
+                    <Text style={S.setOptD}>
+                      {calendarService.canWrite() ? 'Real-time sync enabled' : 'Read-only • Used to find your free time'}
+                    </Text>
                   </View>
                 </View>
+                {availableCalendars.length > 1 && (
+                  <>
+                    <Text style={[S.setOptD, { marginTop: 12, marginBottom: 8 }]}>Count these calendars as busy:</Text>
+                    {availableCalendars.map(cal => (
+                      <TouchableOpacity key={cal.id} style={S.busyCalRow} onPress={() => toggleBusyCalendar(cal.id)}>
+                        <View style={[S.busyCalDot, { backgroundColor: cal.color || C.primary }]} />
+                        <Text style={[S.setOptT, { flex: 1 }]} numberOfLines={1}>{cal.name}</Text>
+                        {busyCalendarIds.includes(cal.id) && <Text style={S.check}>✓</Text>}
+                      </TouchableOpacity>
+                    ))}
+                  </>
+                )}
                 <View style={{ flexDirection: 'row', gap: 8, marginTop: 8 }}>
                   <TouchableOpacity
                     style={[S.syncBtn, { flex: 1 }, calendarSyncStatus === 'syncing' && { opacity: 0.5 }]}
@@ -2902,23 +3949,211 @@ export default function App() {
                   </TouchableOpacity>
                   <TouchableOpacity
                     style={[S.syncBtn, { flex: 1, backgroundColor: C.error + '30' }]}
-                    onPress={signOutGoogle}
+                    onPress={disconnectCalendar}
                   >
                     <Text style={[S.syncBtnT, { color: C.error }]}>Disconnect</Text>
                   </TouchableOpacity>
                 </View>
+                {calendarService.canWrite() && (
+                  <TouchableOpacity
+                    style={[S.setOpt, { marginTop: 12, backgroundColor: C.primary + '20' }]}
+                    onPress={() => createFocusBlock(60)}
+                  >
+                    <Text style={S.setOptE}>🎯</Text>
+                    <View style={{ flex: 1 }}>
+                      <Text style={S.setOptT}>Create Focus Block</Text>
+                      <Text style={S.setOptD}>Block 1 hour for deep work</Text>
+                    </View>
+                  </TouchableOpacity>
+                )}
+              </>
+            )}
+          </View>
+
+          {/* Scheduling */}
+          <View style={S.setSec}>
+            <Text style={S.setSecT}>🕘 Scheduling</Text>
+            <Text style={[S.setOptD, { marginBottom: 8 }]}>When I look for a free slot, I stay inside these hours</Text>
+            {WEEKDAY_LABELS.map((label, weekday) => {
+              const hours = schedulingPreferences.workingHours[weekday];
+              return (
+                <View key={label} style={S.whRow}>
+                  <TouchableOpacity
+                    style={[S.estPickO, S.whDay, hours && S.estPickOA]}
+                    onPress={() => updateWorkingHours(weekday, hours ? null : DEFAULT_SCHEDULING_PREFERENCES.workingHours[weekday])}
+                  >
+                    <Text style={[S.estPickT, hours && S.estPickTA]}>{label}</Text>
+                  </TouchableOpacity>
+                  {hours ? (
+                    <>
+                      <TouchableOpacity onPress={() => updateWorkingHours(weekday, { ...hours, start: Math.max(0, hours.start - WORKING_HOURS_STEP) })}>
+                        <Text style={S.whStep}>−</Text>
+                      </TouchableOpacity>
+                      <Text style={S.whTime}>{formatClock(hours.start)}</Text>
+                      <TouchableOpacity onPress={() => updateWorkingHours(weekday, { ...hours, start: Math.min(hours.end - WORKING_HOURS_STEP, hours.start + WORKING_HOURS_STEP) })}>
+                        <Text style={S.whStep}>+</Text>
+                      </TouchableOpacity>
+                      <Text style={S.setOptD}>to</Text>
+                      <TouchableOpacity onPress={() => updateWorkingHours(weekday, { ...hours, end: Math.max(hours.start + WORKING_HOURS_STEP, hours.end - WORKING_HOURS_STEP) })}>
+                        <Text style={S.whStep}>−</Text>
+                      </TouchableOpacity>
+                      <Text style={S.whTime}>{formatClock(hours.end)}</Text>
+                      <TouchableOpacity onPress={() => updateWorkingHours(weekday, { ...hours, end: Math.min(24 * 60, hours.end + WORKING_HOURS_STEP) })}>
+                        <Text style={S.whStep}>+</Text>
+                      </TouchableOpacity>
+                    </>
+                  ) : (
+                    <Text style={S.setOptD}>Day off</Text>
+                  )}
+                </View>
+              );
+            })}
+            <Text style={[S.setOptD, { marginTop: 12, marginBottom: 8 }]}>Breathing room around events:</Text>
+            <View style={S.estPick}>
+              {BUFFER_OPTIONS.map(mins => (
                 <TouchableOpacity
-                  style={[S.setOpt, { marginTop: 12, backgroundColor: C.primary + '20' }]}
-                  onPress={() => createFocusBlock(60)}
+                  key={mins}
+                  style={[S.estPickO, schedulingPreferences.bufferMinutes === mins && S.estPickOA]}
+                  onPress={() => updateSchedulingPreferences({ bufferMinutes: mins })}
                 >
-                  <Text style={S.setOptE}>🎯</Text>
+                  <Text style={[S.estPickT, schedulingPreferences.bufferMinutes === mins && S.estPickTA]}>
+                    {mins === 0 ? 'None' : `${mins} min`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={[S.setOptD, { marginBottom: 8 }]}>Look ahead for a slot:</Text>
+            <View style={S.estPick}>
+              {SEARCH_DAY_OPTIONS.map(days => (
+                <TouchableOpacity
+                  key={days}
+                  style={[S.estPickO, schedulingPreferences.searchDays === days && S.estPickOA]}
+                  onPress={() => updateSchedulingPreferences({ searchDays: days })}
+                >
+                  <Text style={[S.estPickT, schedulingPreferences.searchDays === days && S.estPickTA]}>
+                    {days === 1 ? 'Today only' : `${days} days`}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          {/* Travel */}
+          <View style={S.setSec}>
+            <Text style={S.setSecT}>🚗 Travel</Text>
+            <Text style={[S.setOptD, { marginBottom: 8 }]}>For events with a location, I'll tell you when to start getting ready and when to leave</Text>
+            {travelSettings.places.map(place => (
+              <View key={place.id} style={S.placeCard}>
+                <View style={S.placeHead}>
+                  <Text style={S.setOptE}>{PLACE_KINDS.find(k => k.id === place.kind)!.icon}</Text>
                   <View style={{ flex: 1 }}>
-                    <Text style={S.setOptT}>Create Focus Block</Text>
-                    <Text style={S.setOptD}>Block 1 hour for deep work</Text>
+                    <Text style={S.setOptT}>{place.name}</Text>
+                    {!!place.address && <Text style={S.setOptD} numberOfLines={1}>{place.address}</Text>}
                   </View>
-                </TouchableOpacity>
+                  <TouchableOpacity onPress={() => updateTravelSettings({ places: travelSettings.places.filter(p => p.id !== place.id) })}>
+                    <Text style={S.whStep}>✕</Text>
+                  </TouchableOpacity>
+                </View>
+                <View style={S.whRow}>
+                  <TouchableOpacity onPress={() => updatePlace(place.id, { travelMinutes: Math.max(0, place.travelMinutes - TRAVEL_MINUTES_STEP) })}>
+                    <Text style={S.whStep}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={S.whTime}>{place.travelMinutes} min</Text>
+                  <TouchableOpacity onPress={() => updatePlace(place.id, { travelMinutes: place.travelMinutes + TRAVEL_MINUTES_STEP })}>
+                    <Text style={S.whStep}>+</Text>
+                  </TouchableOpacity>
+                  {TRANSPORT_MODES.map(mode => (
+                    <TouchableOpacity key={mode.id} onPress={() => updatePlace(place.id, { mode: mode.id })}>
+                      <Text style={[S.placeMode, place.mode === mode.id && S.placeModeA]}>{mode.icon}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            ))}
+            {placeForm ? (
+              <>
+                <View style={S.estPick}>
+                  {PLACE_KINDS.map(kind => (
+                    <TouchableOpacity
+                      key={kind.id}
+                      style={[S.estPickO, placeForm.kind === kind.id && S.estPickOA]}
+                      onPress={() => setPlaceForm(f => f && { ...f, kind: kind.id })}
+                    >
+                      <Text style={[S.estPickT, placeForm.kind === kind.id && S.estPickTA]}>{kind.icon} {kind.label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+                <TextInput
+                  style={S.setIn}
+                  value={placeForm.name}
+                  onChangeText={(t) => setPlaceForm(f => f && { ...f, name: t })}
+                  placeholder={placeForm.kind === 'other' ? 'Name, e.g. Gym' : PLACE_KINDS.find(k => k.id === placeForm.kind)!.label}
+                  placeholderTextColor={C.textMuted}
+                />
+                <TextInput
+                  style={[S.setIn, { marginTop: 8 }]}
+                  value={placeForm.address}
+                  onChangeText={(t) => setPlaceForm(f => f && { ...f, address: t })}
+                  placeholder="Address as it appears in your calendar"
+                  placeholderTextColor={C.textMuted}
+                />
+                <View style={[S.estPick, { marginTop: 8 }]}>
+                  <TouchableOpacity style={[S.syncBtn, { flex: 1 }]} onPress={() => addPlace(placeForm)}>
+                    <Text style={S.syncBtnT}>Save place</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={S.estPickO} onPress={() => setPlaceForm(null)}>
+                    <Text style={S.estPickT}>Cancel</Text>
+                  </TouchableOpacity>
+                </View>
               </>
+            ) : (
+              <TouchableOpacity
+                style={[S.estPickO, { alignSelf: 'flex-start', marginBottom: 12 }]}
+                onPress={() => setPlaceForm({ kind: travelSettings.places.some(p => p.kind === 'home') ? 'other' : 'home', name: '', address: '' })}
+              >
+                <Text style={S.estPickT}>+ Add a place</Text>
+              </TouchableOpacity>
             )}
+            <Text style={[S.setOptD, { marginBottom: 8 }]}>Anywhere else takes about:</Text>
+            <View style={S.estPick}>
+              {TRAVEL_MINUTE_OPTIONS.map(mins => (
+                <TouchableOpacity
+                  key={mins}
+                  style={[S.estPickO, travelSettings.defaultTravelMinutes === mins && S.estPickOA]}
+                  onPress={() => updateTravelSettings({ defaultTravelMinutes: mins })}
+                >
+                  <Text style={[S.estPickT, travelSettings.defaultTravelMinutes === mins && S.estPickTA]}>{mins} min</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <View style={S.estPick}>
+              {TRANSPORT_MODES.map(mode => (
+                <TouchableOpacity
+                  key={mode.id}
+                  style={[S.estPickO, travelSettings.defaultMode === mode.id && S.estPickOA]}
+                  onPress={() => updateTravelSettings({ defaultMode: mode.id })}
+                >
+                  <Text style={[S.estPickT, travelSettings.defaultMode === mode.id && S.estPickTA]}>{mode.icon} {mode.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={[S.setOptD, { marginBottom: 8 }]}>Getting ready takes me:</Text>
+            <View style={S.estPick}>
+              {READY_MINUTE_OPTIONS.map(mins => (
+                <TouchableOpacity
+                  key={mins}
+                  style={[S.estPickO, travelSettings.gettingReadyMinutes === mins && S.estPickOA]}
+                  onPress={() => updateTravelSettings({ gettingReadyMinutes: mins, readySamples: [] })}
+                >
+                  <Text style={[S.estPickT, travelSettings.gettingReadyMinutes === mins && S.estPickTA]}>{mins} min</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <Text style={S.setOptD}>
+              {travelService.hasLearnedReadyTime(travelSettings)
+                ? `From your last ${travelSettings.readySamples.length} departures it's more like ${travelService.getReadyMinutes(travelSettings)} min, so that's what I'll use. Picking a time starts over.`
+                : "Tap \"I'm leaving\" when you head out and I'll learn how long it really takes."}
+            </Text>
           </View>
 
           {/* Voice Input */}
@@ -2950,6 +4185,23 @@ export default function App() {
             </View>
           </View>
 
+          {/* Subtasks */}
+          <View style={S.setSec}>
+            <Text style={S.setSecT}>🌳 Subtasks</Text>
+            <View style={S.setOpt}>
+              <Text style={S.setOptE}>✅</Text>
+              <View style={{ flex: 1 }}>
+                <Text style={S.setOptT}>Auto-complete Parent Tasks</Text>
+                <Text style={S.setOptD}>Finish a task when all of its steps are done</Text>
+              </View>
+              <Switch
+                value={profile.autoCompleteParents === true}
+                onValueChange={(v) => setProfile(p => ({ ...p, autoCompleteParents: v }))}
+                trackColor={{ false: C.border, true: C.primary }}
+              />
+            </View>
+          </View>
+
           {/* Push Notifications */}
           <View style={S.setSec}>
             <Text style={S.setSecT}>🔔 Native Notifications</Text>
@@ -3010,6 +4262,7 @@ export default function App() {
                 <TouchableOpacity 
                   style={[S.dangerBtn, { marginTop: 12 }]}
                   onPress={() => {
+                    supabaseSync.resetForSignOut();
                     signOut();
                     setScreen('auth');
                   }}
@@ -3031,18 +4284,134 @@ export default function App() {
             )}
           </View>
 
-          {/* Claude API */}
+          {/* Sync Conflicts */}
+          {user && (
+            <View style={S.setSec}>
+              <Text style={S.setSecT}>🔀 Sync Conflicts</Text>
+              <TouchableOpacity style={S.setOpt} onPress={() => setShowConflictLog(v => !v)}>
+                <Text style={S.setOptE}>{supabaseSync.conflicts.length > 0 ? '📋' : '✓'}</Text>
+                <View style={{ flex: 1 }}>
+                  <Text style={S.setOptT}>
+                    {supabaseSync.conflicts.length > 0 ? `${supabaseSync.conflicts.length} resolved conflict${supabaseSync.conflicts.length === 1 ? '' : 's'}` : 'No conflicts'}
+                  </Text>
+                  <Text style={S.setOptD}>Edits from two devices are merged field by field</Text>
+                </View>
+                {supabaseSync.conflicts.length > 0 && <Text style={S.setOptD}>{showConflictLog ? '▲' : '▼'}</Text>}
+              </TouchableOpacity>
+              {showConflictLog && supabaseSync.conflicts.length > 0 && (
+                <>
+                  {supabaseSync.conflicts.slice(0, 20).map(c => (
+                    <View key={c.id} style={S.conflictRow}>
+                      <Text style={S.conflictTitle} numberOfLines={1}>{c.taskTitle} · {c.field}</Text>
+                      <Text style={S.conflictDetail}>
+                        This device: {String(c.localValue ?? '—')}  •  Other: {String(c.remoteValue ?? '—')}
+                      </Text>
+                      <Text style={S.conflictDetail}>
+                        Kept {c.winner === 'local' ? "this device's" : "the other device's"} value
+                        {c.reason === 'completion_kept' ? ' (completed tasks stay completed)' : ' (newer edit)'}
+                        {' · '}{new Date(c.detectedAt).toLocaleString()}
+                      </Text>
+                    </View>
+                  ))}
+                  <TouchableOpacity style={[S.syncBtn, { marginTop: 8 }]} onPress={() => supabaseSync.clearConflicts()}>
+                    <Text style={S.syncBtnT}>Clear Log</Text>
+                  </TouchableOpacity>
+                </>
+              )}
+            </View>
+          )}
+
+          {/* Nero's Memory */}
+          <View style={S.setSec}>
+            <Text style={S.setSecT}>🧠 What {profile.neroName} Remembers</Text>
+            <Text style={[S.setOptD, { marginBottom: 8 }]}>
+              Things I picked up from our chats. I only use the ones you approve.
+            </Text>
+            {memoryFacts.filter(f => f.status === 'proposed').map(fact => (
+              <View key={fact.id} style={[S.memoryRow, S.memoryRowNew]}>
+                <View style={{ flex: 1 }}>
+                  <Text style={S.memoryText}>{MEMORY_LABELS[fact.category]} {fact.text}</Text>
+                  {fact.source && <Text style={S.memorySource} numberOfLines={2}>"{fact.source}"</Text>}
+                </View>
+                <TouchableOpacity style={S.memoryBtn} onPress={() => neroMemoryService.approve(fact.id)}>
+                  <Text style={S.memoryBtnT}>✓</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={S.memoryBtn} onPress={() => neroMemoryService.forget(fact.id)}>
+                  <Text style={S.memoryBtnT}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {memoryFacts.filter(f => f.status === 'approved').map(fact => (
+              <View key={fact.id} style={S.memoryRow}>
+                <View style={{ flex: 1 }}>
+                  <Text style={[S.memoryText, neroMemoryService.isFading(fact) && { color: C.textMuted }]}>
+                    {MEMORY_LABELS[fact.category]} {fact.text}
+                  </Text>
+                  <Text style={S.memorySource}>
+                    {neroMemoryService.isFading(fact)
+                      ? 'Fading - not mentioned in a while'
+                      : `Mentioned ${fact.mentions}× · last ${new Date(fact.lastSeenAt).toLocaleDateString()}`}
+                  </Text>
+                </View>
+                <TouchableOpacity style={S.memoryBtn} onPress={() => neroMemoryService.forget(fact.id)}>
+                  <Text style={S.memoryBtnT}>Forget</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            {!memoryFacts.some(f => f.status !== 'forgotten') && (
+              <Text style={S.setOptD}>Nothing yet - just keep chatting!</Text>
+            )}
+          </View>
+
+          {/* AI Provider */}
           <View style={S.setSec}>
-            <Text style={S.setSecT}>🧠 Claude API Key (Optional)</Text>
+            <Text style={S.setSecT}>🧠 AI Provider (Optional)</Text>
             <Text style={[S.setOptD, { marginBottom: 8 }]}>For smarter, personalized responses</Text>
-            <TextInput
-              style={S.setIn}
-              value={profile.apiKey}
-              onChangeText={(t) => setProfile(p => ({ ...p, apiKey: t }))}
-              placeholder="sk-ant-..."
-              placeholderTextColor={C.textMuted}
-              secureTextEntry
-            />
+            {LLM_PROVIDER_OPTIONS.map(opt => (
+              <TouchableOpacity
+                key={opt.id}
+                style={[S.setOpt, (profile.llmProvider || 'anthropic') === opt.id && S.setOptSel]}
+                onPress={() => setProfile(p => ({ ...p, llmProvider: opt.id }))}
+              >
+                <View style={{ flex: 1 }}>
+                  <Text style={S.setOptT}>{opt.label}</Text>
+                  <Text style={S.setOptD}>{opt.desc}</Text>
+                </View>
+                {(profile.llmProvider || 'anthropic') === opt.id && <Text style={S.check}>✓</Text>}
+              </TouchableOpacity>
+            ))}
+            {profile.llmProvider === 'openai' && (
+              <TextInput
+                style={[S.setIn, { marginTop: 8 }]}
+                value={profile.llmBaseUrl}
+                onChangeText={(t) => setProfile(p => ({ ...p, llmBaseUrl: t }))}
+                placeholder={DEFAULT_OPENAI_BASE_URL}
+                placeholderTextColor={C.textMuted}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+            )}
+            {profile.llmProvider !== 'mock' && (
+              <>
+                <TextInput
+                  style={[S.setIn, { marginTop: 8 }]}
+                  value={profile.llmModel}
+                  onChangeText={(t) => setProfile(p => ({ ...p, llmModel: t }))}
+                  placeholder={`Model (default ${DEFAULT_MODELS[profile.llmProvider || 'anthropic']})`}
+                  placeholderTextColor={C.textMuted}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                />
+                <TextInput
+                  style={[S.setIn, { marginTop: 8 }]}
+                  value={profile.apiKey}
+                  onChangeText={(t) => setProfile(p => ({ ...p, apiKey: t }))}
+                  placeholder={profile.llmProvider === 'openai' ? 'API key (blank for local servers)' : 'sk-ant-...'}
+                  placeholderTextColor={C.textMuted}
+                  secureTextEntry
+                />
+              </>
+            )}
           </View>
 
           {/* AI Thinking Mode */}
@@ -3091,8 +4460,19 @@ export default function App() {
   }
 
   // ============ MAIN APP ============
-  const pendingTasks = tasks.filter(t => !t.completed);
-  const filteredTasks = filter === 'all' ? pendingTasks : pendingTasks.filter(t => t.energy === filter);
+  // Repeating tasks for a later day stay out of sight until then
+  const pendingTasks = tasks.filter(t => !t.completed && recurrenceService.isVisible(t));
+  const upcomingRepeats = tasks.filter(t => !t.completed && !t.parentId && !recurrenceService.isVisible(t));
+  const energyTasks = filter === 'all' ? pendingTasks : pendingTasks.filter(t => t.energy === filter);
+  const filteredTasks = listSort === 'urgency' ? dueDateService.sortByUrgency(energyTasks) : energyTasks;
+  const taskTree = flattenTaskTree(filteredTasks, collapsedTaskIds);
+  const toggleCollapsed = (taskId: string) => {
+    setCollapsedTaskIds(prev => {
+      const next = new Set(prev);
+      if (next.has(taskId)) next.delete(taskId); else next.add(taskId);
+      return next;
+    });
+  };
   const nextTask = pendingTasks[0];
   const completedToday = tasks.filter(t => t.completed && new Date(t.createdAt).toDateString() === new Date().toDateString()).length;
 
@@ -3114,10 +4494,10 @@ export default function App() {
           <View style={S.headR}>
             {/* Focus Timer Button */}
             <TouchableOpacity
-              style={[S.headBtn, focusTimerService.getCurrentSession() && { backgroundColor: C.primary }]}
+              style={[S.headBtn, focusTimerService.isActive() && { backgroundColor: C.primary }]}
               onPress={() => setShowFocusTimer(true)}
             >
-              <Text>{focusTimerService.getCurrentSession() ? '⏱️' : '🎯'}</Text>
+              <Text>{focusTimerService.isActive() ? '⏱️' : '🎯'}</Text>
             </TouchableOpacity>
             {/* Mood Badge */}
             {currentMood && (
@@ -3125,6 +4505,14 @@ export default function App() {
                 <Text>{currentMood === 'low' ? '😔' : currentMood === 'neutral' ? '😐' : '😊'}</Text>
               </TouchableOpacity>
             )}
+            {/* Offline outbox - writes waiting to reach the cloud */}
+            {user && (supabaseSync.pendingCount > 0 || supabaseSync.failedCount > 0) && (
+              <TouchableOpacity style={S.pendingBadge} onPress={() => supabaseSync.flushPending()}>
+                <Text style={S.pendingBadgeT}>
+                  {supabaseSync.isReplaying ? '⏳' : '📤'} {supabaseSync.pendingCount + supabaseSync.failedCount}
+                </Text>
+              </TouchableOpacity>
+            )}
             {supabaseKey && (
               <TouchableOpacity style={S.headBtn} onPress={syncToCloud}>
                 <Text>{syncing ? '⏳' : '☁️'}</Text>
@@ -3142,7 +4530,29 @@ export default function App() {
         {/* TRAVEL ALERT */}
         {travelAlert && (
           <View style={S.travelAlert}>
-            <Text style={S.travelAlertT}>🚗 {travelAlert}</Text>
+            <View style={S.travelAlertHead}>
+              <Text style={S.travelAlertT}>{travelAlert.prompt.title}</Text>
+              <TouchableOpacity onPress={dismissTravelAlert}>
+                <Text style={S.travelAlertX}>✕</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={S.travelAlertD}>{travelAlert.prompt.body}</Text>
+            <View style={S.travelAlertActs}>
+              {travelAlert.prompt.stage === 'get_ready' && (
+                <TouchableOpacity
+                  style={S.travelAlertBtn}
+                  onPress={() => {
+                    startGettingReady(travelAlert.plan.eventId);
+                    dismissTravelAlert();
+                  }}
+                >
+                  <Text style={S.travelAlertBtnT}>👟 On it</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={S.travelAlertBtn} onPress={() => leaveForEvent(travelAlert.plan)}>
+                <Text style={S.travelAlertBtnT}>🚪 I'm leaving</Text>
+              </TouchableOpacity>
+            </View>
           </View>
         )}
 
@@ -3217,17 +4627,60 @@ export default function App() {
               >
                 {messages.map(msg => (
                   <View key={msg.id} style={[S.msg, msg.role === 'user' ? S.msgU : S.msgN]}>
+                    {msg.thinking && profile.thinkingMode === 'full' && (
+                      <TouchableOpacity onPress={() => setOpenThinkingId(id => id === msg.id ? null : msg.id)}>
+                        <Text style={S.thinkingToggle}>
+                          {openThinkingId === msg.id ? '▾' : '▸'} 💭 How {profile.neroName} thought about this
+                        </Text>
+                        {openThinkingId === msg.id && <Text style={S.thinkingT}>{msg.thinking}</Text>}
+                      </TouchableOpacity>
+                    )}
                     <Text style={S.msgT}>{msg.content}</Text>
+                    {msg.actions && msg.actions.length > 0 && (
+                      <View style={S.actionCard}>
+                        {msg.actions.map(action => {
+                          const summary = neroToolsService.describe(action, tasks);
+                          return (
+                            <View key={action.id} style={S.actionRow}>
+                              <Text style={S.actionIcon}>{summary.icon}</Text>
+                              <View style={{ flex: 1 }}>
+                                <Text style={[S.actionLabel, !summary.valid && { color: C.textMuted }]}>{summary.label}</Text>
+                                {(summary.detail || action.error) && (
+                                  <Text style={S.actionDetail}>{action.error || summary.detail}</Text>
+                                )}
+                              </View>
+                              <Text style={S.actionStatus}>
+                                {action.status === 'done' ? '✓' : action.status === 'failed' ? '⚠️' : action.status === 'dismissed' ? '–' : ''}
+                              </Text>
+                            </View>
+                          );
+                        })}
+                        {msg.actions.some(a => a.status === 'pending') && (
+                          <View style={S.actionBtns}>
+                            <TouchableOpacity style={S.actionSkip} onPress={() => dismissNeroActions(msg.id)}>
+                              <Text style={S.actionSkipT}>Not now</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity style={S.actionGo} onPress={() => confirmNeroActions(msg.id)}>
+                              <Text style={S.actionGoT}>Do it</Text>
+                            </TouchableOpacity>
+                          </View>
+                        )}
+                      </View>
+                    )}
                     {msg.model && profile.thinkingMode !== 'off' && (
                       <Text style={S.modelBadge}>
-                        {msg.model === 'claude-sonnet' ? '🧠' : msg.model === 'local' ? '💭' : '⚡'}
+                        {msg.model === 'local' ? '💭' : msg.model === 'fallback' ? '⚡' : '🧠'}
                       </Text>
                     )}
                   </View>
                 ))}
                 {typing && (
                   <View style={[S.msg, S.msgN]}>
-                    <Text style={S.msgT}>{thinkingText || '...'}</Text>
+                    {profile.thinkingMode === 'full' && thinkingText.length > 40 ? (
+                      <Text style={S.thinkingT} numberOfLines={6}>💭 {thinkingText.slice(-400)}</Text>
+                    ) : (
+                      <Text style={S.msgT}>{thinkingText || '...'}</Text>
+                    )}
                   </View>
                 )}
               </ScrollView>
@@ -3293,13 +4746,18 @@ export default function App() {
                     <View style={[S.eDot, { backgroundColor: getEC(nextTask.energy) }]} />
                     <Text style={S.oneT}>{nextTask.title}</Text>
                     {nextTask.isMicroStep && <Text style={S.microB}>✨ micro-step</Text>}
+                    {!!dueDateService.describe(nextTask) && <Text style={S.dueB}>🗓️ {dueDateService.describe(nextTask)}</Text>}
                   </View>
 
                   <View style={S.oneActs}>
                     <TouchableOpacity style={S.oneDone} onPress={() => completeTask(nextTask.id)}>
                       <Text style={S.oneDoneT}>✓ Done!</Text>
                     </TouchableOpacity>
-                    {!nextTask.isMicroStep && (
+                    {getRoutineTask(nextTask) ? (
+                      <TouchableOpacity style={S.oneBreak} onPress={() => setRoutinePlayerId(getRoutineTask(nextTask)!.id)}>
+                        <Text style={S.oneBreakT}>▶️ Walk me through it, one step at a time</Text>
+                      </TouchableOpacity>
+                    ) : !nextTask.isMicroStep && (
                       <TouchableOpacity style={S.oneBreak} onPress={() => breakdownTask(nextTask.id)}>
                         <Text style={S.oneBreakT}>🔨 Too big? Break it down</Text>
                       </TouchableOpacity>
@@ -3333,9 +4791,14 @@ export default function App() {
             <View style={S.listC}>
               <View style={S.listH}>
                 <Text style={S.listT}>Tasks ({filteredTasks.length})</Text>
-                <TouchableOpacity style={S.addBtn} onPress={() => setShowAdd(true)}>
-                  <Text style={S.addBtnT}>+ Add</Text>
-                </TouchableOpacity>
+                <View style={{ flexDirection: 'row', gap: 8 }}>
+                  <TouchableOpacity style={[S.addBtn, { backgroundColor: C.border }]} onPress={() => setShowRoutines(true)}>
+                    <Text style={S.addBtnT}>🔁 Routines</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity style={S.addBtn} onPress={() => setShowAdd(true)}>
+                    <Text style={S.addBtnT}>+ Add</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
 
               <View style={S.filterR}>
@@ -3350,6 +4813,12 @@ export default function App() {
                     </Text>
                   </TouchableOpacity>
                 ))}
+                <TouchableOpacity
+                  style={[S.filterBtn, listSort === 'urgency' && S.filterBtnA]}
+                  onPress={() => setListSort(s => s === 'urgency' ? 'mine' : 'urgency')}
+                >
+                  <Text style={[S.filterBtnT, listSort === 'urgency' && S.filterBtnTA]}>🗓️</Text>
+                </TouchableOpacity>
               </View>
 
               {/* Swipe hint */}
@@ -3358,8 +4827,8 @@ export default function App() {
               </View>
 
               <ScrollView style={S.taskList}>
-                {filteredTasks.map(task => (
-                  <View key={task.id} style={S.swipeContainer}>
+                {taskTree.map(({ task, depth, childCount }) => (
+                  <View key={task.id} style={[S.swipeContainer, { marginLeft: depth * 20 }]}>
                     {/* Background actions revealed on swipe */}
                     <View style={S.swipeBgLeft}>
                       <Text style={S.swipeBgText}>⏭️ Skip</Text>
@@ -3372,11 +4841,19 @@ export default function App() {
                     <Animated.View
                       style={[
                         S.taskI,
-                        task.isMicroStep && S.taskIMicro,
+                        depth > 0 && S.taskISub,
                         swipingTaskId === task.id && { transform: [{ translateX: swipeAnim }] }
                       ]}
                       {...(!task.completed ? createPanResponder(task.id) : {})}
                     >
+                      {childCount > 0 ? (
+                        <TouchableOpacity style={S.treeToggle} onPress={() => toggleCollapsed(task.id)}>
+                          <Text style={S.treeToggleT}>{collapsedTaskIds.has(task.id) ? '▸' : '▾'}</Text>
+                          {collapsedTaskIds.has(task.id) && <Text style={S.treeCount}>{childCount}</Text>}
+                        </TouchableOpacity>
+                      ) : (
+                        <View style={S.treeToggle} />
+                      )}
                       <TouchableOpacity
                         style={[S.chk, task.completed && S.chkD]}
                         onPress={() => completeTask(task.id)}
@@ -3388,18 +4865,34 @@ export default function App() {
                         {task.title}
                       </Text>
                       {task.isMicroStep && <Text style={S.microL}>✨</Text>}
+                      {task.recurrence && <Text style={S.microL}>🔁</Text>}
+                      {!task.completed && !!dueDateService.describe(task) && (
+                        <Text style={[S.dueL, dueDateService.isDueSoon(task) && !task.softDueDate && S.dueLSoon]}>
+                          {dueDateService.describe(task)}
+                        </Text>
+                      )}
+                      {!!task.estimatedMinutes && (
+                        <Text style={S.estL}>
+                          {task.completed && task.actualMinutes ? `${task.actualMinutes}/${task.estimatedMinutes}m` : `~${task.estimatedMinutes}m`}
+                        </Text>
+                      )}
                       {task.calendarEventId && <Text style={S.microL}>📅</Text>}
                       {!task.completed && profile.calendarConnected && !task.calendarEventId && (
                         <TouchableOpacity onPress={() => scheduleTaskOnCalendar(task.id)}>
                           <Text style={S.taskA}>📅</Text>
                         </TouchableOpacity>
                       )}
-                      {!task.isMicroStep && !task.completed && (
+                      {!task.completed && task.routineId && (
+                        <TouchableOpacity onPress={() => setRoutinePlayerId(task.id)}>
+                          <Text style={S.taskA}>▶️</Text>
+                        </TouchableOpacity>
+                      )}
+                      {!task.completed && !task.routineId && (
                         <TouchableOpacity onPress={() => breakdownTask(task.id)}>
                           <Text style={S.taskA}>🔨</Text>
                         </TouchableOpacity>
                       )}
-                      <TouchableOpacity onPress={() => setTasks(p => p.filter(t => t.id !== task.id))}>
+                      <TouchableOpacity onPress={() => deleteTask(task.id)}>
                         <Text style={S.taskA}>🗑️</Text>
                       </TouchableOpacity>
                     </Animated.View>
@@ -3410,6 +4903,17 @@ export default function App() {
                     <Text style={S.emptyListT}>No tasks here! 🎉</Text>
                   </View>
                 )}
+                {upcomingRepeats.length > 0 && (
+                  <View style={S.repeatC}>
+                    <Text style={S.repeatT}>Coming back later</Text>
+                    {upcomingRepeats.map(task => (
+                      <View key={task.id} style={S.repeatR}>
+                        <Text style={S.repeatN} numberOfLines={1}>🔁 {task.title}</Text>
+                        <Text style={S.repeatD}>{recurrenceService.describeNext(task)}</Text>
+                      </View>
+                    ))}
+                  </View>
+                )}
               </ScrollView>
             </View>
           )}
@@ -3454,6 +4958,22 @@ export default function App() {
               <Text style={S.timeTitle}>Today's Schedule</Text>
               <Text style={S.timeSubtitle}>{calendarEvents.length} events</Text>
 
+              {/* Plan my day - and a way back on track when it slips */}
+              {planDelay > 0 && (
+                <View style={[S.insightCard, { marginBottom: 12, borderColor: C.warning, borderWidth: 1 }]}>
+                  <Text style={S.insightEmoji}>⏳</Text>
+                  <View style={S.insightContent}>
+                    <Text style={S.insightTitle}>About {planDelay} min behind</Text>
+                    <TouchableOpacity onPress={reflowDayPlan} disabled={planCommitting}>
+                      <Text style={[S.insightText, { color: C.teal }]}>Reflow the rest of today →</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              )}
+              <TouchableOpacity style={[S.syncBtn, { marginBottom: 12 }]} onPress={openDayPlanner}>
+                <Text style={S.syncBtnT}>{dayPlan?.date === toDateKey(new Date()) ? "🗓️ Today's plan" : '🗓️ Plan my day'}</Text>
+              </TouchableOpacity>
+
               {profile.calendarConnected && (
                 <View style={{ flexDirection: 'row', marginBottom: 12, gap: 8 }}>
                   <TouchableOpacity
@@ -3477,8 +4997,25 @@ export default function App() {
                 </View>
               )}
 
+              <View style={S.estPick}>
+                {([['hours', '🕐 Hours'], ['until', '⏳ Time until']] as const).map(([mode, label]) => (
+                  <TouchableOpacity
+                    key={mode}
+                    style={[S.estPickO, scheduleMode === mode && S.estPickOA]}
+                    onPress={() => setScheduleMode(mode)}
+                  >
+                    <Text style={[S.estPickT, scheduleMode === mode && S.estPickTA]}>{label}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {/* Time until - shrinking disk and bars for what's next */}
+              {scheduleMode === 'until' && (
+                <TimeUntilView items={getTransitionItems(12)} warningMinutes={transitionWarningMinutes} />
+              )}
+
               {/* Simplified Timeline - Only show 6 hours around now */}
-              {(() => {
+              {scheduleMode === 'hours' && (() => {
                 const now = new Date();
                 const currentHour = now.getHours();
                 const startHour = Math.max(6, currentHour - 2);
@@ -3490,6 +5027,7 @@ export default function App() {
                   const isNow = currentHour === hour;
                   const isPast = currentHour > hour;
                   const event = calendarEvents.find(e => new Date(e.start).getHours() === hour);
+                  const trip = event && travelPlans.find(plan => plan.eventId === event.id);
 
                   return (
                     <View key={hour} style={S.timeH}>
@@ -3499,6 +5037,12 @@ export default function App() {
                       <View style={[S.timeSlot, isNow && S.timeSlotNow, event && { backgroundColor: event.color || C.primary + '40' }]}>
                         {isNow && <View style={S.curLine} />}
                         {event && <Text style={S.timeEventT}>{event.title}</Text>}
+                        {event?.location && (
+                          <Text style={S.timeEventL} numberOfLines={1}>
+                            📍 {trip?.place?.name || event.location}
+                            {trip ? ` · ${TRANSPORT_MODES.find(m => m.id === trip.mode)!.icon} leave by ${formatTime(trip.leaveBy)}` : ''}
+                          </Text>
+                        )}
                       </View>
                     </View>
                   );
@@ -3522,6 +5066,81 @@ export default function App() {
                 </View>
               </View>
 
+              {/* Distractions by hour - only once some have been logged */}
+              {(() => {
+                const byHour = focusTimerService.getDistractionsByHour(focusSessionHistory);
+                const total = byHour.reduce((sum, n) => sum + n, 0);
+                if (total === 0) return null;
+                const peak = Math.max(...byHour);
+                const worstHour = byHour.indexOf(peak);
+                const avgScore = focusTimerService.getAverageFocusScore(focusSessionHistory);
+
+                return (
+                  <View style={S.distCard}>
+                    <Text style={S.insightTitle}>🙋 Distractions by Hour</Text>
+                    <Text style={S.insightText}>
+                      {`Most around ${worstHour % 12 || 12}${worstHour >= 12 ? 'PM' : 'AM'}`}
+                      {avgScore !== null ? ` · average focus score ${avgScore}` : ''}
+                    </Text>
+                    <View style={S.distChart}>
+                      {byHour.map((count, hour) => (
+                        <View key={hour} style={S.distCol}>
+                          <View style={[S.distBar, { height: `${(count / peak) * 100}%` }, hour === worstHour && S.distBarPeak]} />
+                        </View>
+                      ))}
+                    </View>
+                    <View style={S.distAxis}>
+                      {['12am', '8am', '4pm', '11pm'].map(label => (
+                        <Text key={label} style={S.distAxisT}>{label}</Text>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })()}
+
+              {/* Time estimate accuracy per kind of task */}
+              {(() => {
+                const corrections = timeEstimateService.getCorrections(completionHistory);
+                if (corrections.length === 0) return null;
+                return (
+                  <View style={S.insightCard}>
+                    <Text style={S.insightEmoji}>⏱️</Text>
+                    <View style={S.insightContent}>
+                      <Text style={S.insightTitle}>Your Time Estimates</Text>
+                      {corrections.slice(0, 3).map(c => (
+                        <Text key={c.category} style={S.insightText}>
+                          {timeEstimateService.describeCorrection(c)} (usually ~{c.typicalMinutes} min)
+                        </Text>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })()}
+
+              {/* Routine steps that take longer than they should */}
+              {(() => {
+                const dragging = recurrenceService.getRoutines().flatMap(routine =>
+                  patternService.getRoutineStepStats(routine.id)
+                    .filter(s => s.drags)
+                    .map(s => ({ ...s, routine }))
+                );
+                if (dragging.length === 0) return null;
+                return (
+                  <View style={S.insightCard}>
+                    <Text style={S.insightEmoji}>🐢</Text>
+                    <View style={S.insightContent}>
+                      <Text style={S.insightTitle}>Routine Steps That Drag</Text>
+                      {dragging.slice(0, 3).map(s => (
+                        <Text key={`${s.routine.id}-${s.stepTitle}`} style={S.insightText}>
+                          {s.routine.emoji} {s.stepTitle}: usually ~{Math.max(1, Math.round(s.medianSeconds / 60))} min
+                          {s.plannedMinutes ? ` (planned ${s.plannedMinutes})` : ''}
+                        </Text>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })()}
+
               {/* Achievements - Compact, only unlocked */}
               <Text style={[S.achT, { marginTop: 16 }]}>
                 Achievements ({achievements.length})
@@ -3594,8 +5213,71 @@ export default function App() {
                   </TouchableOpacity>
                 ))}
               </View>
+              <Text style={S.mL}>How long will it take?</Text>
+              <View style={S.estPick}>
+                {ESTIMATE_OPTIONS.map(mins => (
+                  <TouchableOpacity
+                    key={mins}
+                    style={[S.estPickO, newEstimate === mins && S.estPickOA]}
+                    onPress={() => {
+                      setEstimateEdited(true);
+                      setNewEstimate(newEstimate === mins ? null : mins);
+                    }}
+                  >
+                    <Text style={[S.estPickT, newEstimate === mins && S.estPickTA]}>{mins < 60 ? `${mins}m` : `${mins / 60}h`}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {(() => {
+                const correction = timeEstimateService.getCorrection(timeEstimateService.categorize(newTask), completionHistory);
+                if (!correction) return null;
+                const adjusted = newEstimate ? timeEstimateService.adjustEstimate(newEstimate, correction) : null;
+                return (
+                  <View style={S.estHint}>
+                    <Text style={S.estHintT}>⏱️ {timeEstimateService.describeCorrection(correction)}</Text>
+                    {estimateEdited && adjusted && adjusted !== newEstimate && (
+                      <TouchableOpacity onPress={() => setNewEstimate(adjusted)}>
+                        <Text style={S.estHintA}>Plan for ~{adjusted} min instead</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })()}
+              <Text style={[S.mL, { marginTop: 4 }]}>By when?</Text>
+              <View style={S.estPick}>
+                {DUE_PRESETS.map(({ id, label }) => {
+                  const date = dueDateService.fromPreset(id);
+                  const selected = newDue === date;
+                  return (
+                    <TouchableOpacity
+                      key={id}
+                      style={[S.estPickO, selected && S.estPickOA]}
+                      onPress={() => setNewDue(selected ? null : date)}
+                    >
+                      <Text style={[S.estPickT, selected && S.estPickTA]}>{label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
+              </View>
+              {newDue && (
+                <View style={S.estPick}>
+                  {([[true, '🌱 Would be nice'], [false, '📌 Real deadline']] as const).map(([soft, label]) => (
+                    <TouchableOpacity
+                      key={label}
+                      style={[S.estPickO, newDueSoft === soft && S.estPickOA]}
+                      onPress={() => setNewDueSoft(soft)}
+                    >
+                      <Text style={[S.estPickT, newDueSoft === soft && S.estPickTA]}>{label}</Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+              <Text style={[S.mL, { marginTop: 4 }]}>Repeat?</Text>
+              <View style={{ marginBottom: 16 }}>
+                <RecurrencePicker value={newRecurrence} onChange={setNewRecurrence} />
+              </View>
               <View style={S.mBtns}>
-                <TouchableOpacity style={S.mCancel} onPress={() => setShowAdd(false)}>
+                <TouchableOpacity style={S.mCancel} onPress={() => { setShowAdd(false); setEstimateEdited(false); setNewRecurrence(null); setNewDue(null); }}>
                   <Text style={S.mCancelT}>Cancel</Text>
                 </TouchableOpacity>
                 <TouchableOpacity style={S.mConfirm} onPress={() => addTask()}>
@@ -3606,6 +5288,70 @@ export default function App() {
           </View>
         </Modal>
 
+        {/* Routines Modal */}
+        <Modal visible={showRoutines} transparent animationType="slide">
+          <View style={S.mO}>
+            <View style={S.mC}>
+              <RoutineManager
+                activeRoutineIds={tasks.filter(t => t.routineId && !t.completed).map(t => t.routineId!)}
+                onStart={startRoutine}
+                onClose={() => setShowRoutines(false)}
+              />
+            </View>
+          </View>
+        </Modal>
+
+        {/* Routine Player */}
+        {(() => {
+          const routine = tasks.find(t => t.id === routinePlayerId);
+          return (
+            <Modal visible={!!routine} animationType="slide" onRequestClose={() => setRoutinePlayerId(null)}>
+              {routine && (
+                <RoutinePlayer
+                  key={routine.id}
+                  routine={routine}
+                  steps={tasks.filter(t => t.parentId === routine.id && !t.completed)}
+                  stepStats={routine.routineId ? patternService.getRoutineStepStats(routine.routineId) : []}
+                  voiceEnabled={profile.neroVoiceEnabled === true}
+                  onSpeak={speakNeroResponse}
+                  onStepDone={(step, seconds, snoozes) => {
+                    recordRoutineStep(step, seconds, snoozes, false);
+                    completeTask(step.id);
+                  }}
+                  onStepSkipped={(step, seconds, snoozes) => recordRoutineStep(step, seconds, snoozes, true)}
+                  onFinish={finishRoutine}
+                  onClose={() => setRoutinePlayerId(null)}
+                />
+              )}
+            </Modal>
+          );
+        })()}
+
+        {/* Day Planner */}
+        <Modal visible={showDayPlanner} animationType="slide" onRequestClose={() => setShowDayPlanner(false)}>
+          <DayPlanner
+            blocks={dayPlan?.blocks || []}
+            unplaced={tasks.filter(t => dayPlan?.unplacedTaskIds.includes(t.id) && !t.completed)}
+            completedTaskIds={tasks.filter(t => t.completed).map(t => t.id)}
+            loading={planLoading}
+            committed={!!dayPlan?.committedAt}
+            committing={planCommitting}
+            canWrite={calendarService.isAuthenticated() && calendarService.canWrite()}
+            behindMinutes={planDelay}
+            onMove={(blockId, offset) => dayPlan && relayDayPlan(dayPlannerService.moveBlock(dayPlan.blocks, blockId, offset, tasks))}
+            onResize={(blockId, delta) => dayPlan && relayDayPlan(dayPlannerService.resizeBlock(dayPlan.blocks, blockId, delta))}
+            onRemove={removeFromDayPlan}
+            onAdd={addToDayPlan}
+            onReflow={reflowDayPlan}
+            onReplan={proposeDayPlan}
+            onCommit={async () => {
+              await commitDayPlan();
+              setShowDayPlanner(false);
+            }}
+            onClose={() => setShowDayPlanner(false)}
+          />
+        </Modal>
+
         {/* Thought Dump Modal */}
         <Modal visible={showThought} transparent animationType="slide">
           <View style={S.mO}>
@@ -3717,26 +5463,45 @@ export default function App() {
                   <Text style={{ fontSize: 24, color: C.textMuted }}>×</Text>
                 </TouchableOpacity>
               </View>
-              <FocusTimer
-                service={focusTimerService}
-                currentTaskId={nextTask?.id}
-                currentTaskTitle={nextTask?.title}
-                energy={energy}
-                mood={currentMood}
-                onSessionComplete={handleFocusSessionComplete}
-                onBreakStart={() => {
-                  // Optional: notification for break
-                  nativeNotificationService.scheduleNotification(
-                    '☕ Break Time!',
-                    'Great work! Take a well-deserved break.',
-                    { seconds: 1 }
-                  );
-                }}
-              />
+              <ScrollView contentContainerStyle={{ flexGrow: 1 }}>
+                <FocusTimer
+                  service={focusTimerService}
+                  currentTaskId={nextTask?.id}
+                  currentTaskTitle={nextTask?.title}
+                  energy={energy}
+                  mood={currentMood}
+                  onSessionComplete={handleFocusSessionComplete}
+                  onBreakStart={() => {
+                    // Optional: notification for break
+                    nativeNotificationService.scheduleNotification(
+                      '☕ Break Time!',
+                      'Great work! Take a well-deserved break.',
+                      { seconds: 1 }
+                    );
+                  }}
+                />
+              </ScrollView>
             </View>
           </View>
         </Modal>
 
+        {/* Task Breakdown Review Modal */}
+        <Modal visible={!!breakdownDraft} transparent animationType="slide">
+          <View style={S.mO}>
+            {breakdownDraft && (
+              <BreakdownReview
+                taskTitle={tasks.find(t => t.id === breakdownDraft.taskId)?.title || ''}
+                steps={breakdownDraft.steps}
+                source={breakdownDraft.source}
+                loading={breakdownDraft.loading}
+                onRegenerate={() => breakdownTask(breakdownDraft.taskId)}
+                onAccept={acceptBreakdown}
+                onCancel={() => setBreakdownDraft(null)}
+              />
+            )}
+          </View>
+        </Modal>
+
         {/* Task Suggestions Modal */}
         {showSuggestions && taskSuggestions.length > 0 && view === 'oneThing' && (
           <View style={S.suggestionsOverlay}>
@@ -3959,7 +5724,13 @@ const S = StyleSheet.create({
 
   // Travel Alert
   travelAlert: { backgroundColor: C.warning, padding: 12, marginHorizontal: 16, marginTop: 8, borderRadius: 12 },
-  travelAlertT: { color: C.bg, fontSize: 14, fontWeight: '600', textAlign: 'center' },
+  travelAlertT: { color: C.bg, fontSize: 14, fontWeight: '600', flex: 1 },
+  travelAlertHead: { flexDirection: 'row', alignItems: 'center', gap: 8 },
+  travelAlertX: { color: C.bg, fontSize: 16, paddingHorizontal: 4 },
+  travelAlertD: { color: C.bg, fontSize: 13, marginTop: 4 },
+  travelAlertActs: { flexDirection: 'row', gap: 8, marginTop: 10 },
+  travelAlertBtn: { backgroundColor: C.bg, borderRadius: 10, paddingVertical: 6, paddingHorizontal: 12 },
+  travelAlertBtnT: { color: C.text, fontSize: 13, fontWeight: '600' },
 
   // Energy Selector
   eSel: { backgroundColor: C.card, margin: 16, borderRadius: 18, padding: 18 },
@@ -4000,6 +5771,7 @@ const S = StyleSheet.create({
   eDot: { width: 14, height: 14, borderRadius: 7, marginBottom: 18 },
   oneT: { color: C.text, fontSize: 24, fontWeight: '600', textAlign: 'center', lineHeight: 32 },
   microB: { color: C.gold, fontSize: 14, marginTop: 12 },
+  dueB: { color: C.textSec, fontSize: 14, marginTop: 8 },
   oneActs: { width: '100%', marginTop: 28, gap: 14 },
   oneDone: { backgroundColor: C.success, borderRadius: 18, padding: 20, alignItems: 'center' },
   oneDoneT: { color: C.text, fontSize: 18, fontWeight: '700' },
@@ -4029,7 +5801,10 @@ const S = StyleSheet.create({
   filterBtnTA: { color: C.text },
   taskList: { flex: 1 },
   taskI: { flexDirection: 'row', alignItems: 'center', backgroundColor: C.card, borderRadius: 14, padding: 16, marginBottom: 10 },
-  taskIMicro: { marginLeft: 24, backgroundColor: C.card + '80' },
+  taskISub: { backgroundColor: C.card + '80', paddingVertical: 12 },
+  treeToggle: { width: 22, alignItems: 'center', marginRight: 4 },
+  treeToggleT: { color: C.textMuted, fontSize: 14 },
+  treeCount: { color: C.textMuted, fontSize: 9, fontWeight: '600' },
   chk: { width: 26, height: 26, borderRadius: 13, borderWidth: 2, borderColor: C.border, justifyContent: 'center', alignItems: 'center', marginRight: 14 },
   chkD: { backgroundColor: C.success, borderColor: C.success },
   chkT: { color: C.text, fontSize: 14, fontWeight: 'bold' },
@@ -4037,6 +5812,14 @@ const S = StyleSheet.create({
   taskT: { flex: 1, color: C.text, fontSize: 15 },
   taskTD: { textDecorationLine: 'line-through', color: C.textMuted },
   microL: { marginRight: 10, fontSize: 14 },
+  estL: { marginRight: 10, fontSize: 12, color: C.textMuted },
+  dueL: { marginRight: 10, fontSize: 12, color: C.textMuted },
+  dueLSoon: { color: C.warning },
+  repeatC: { marginTop: 16, paddingTop: 12, borderTopWidth: 1, borderTopColor: C.border },
+  repeatT: { color: C.textMuted, fontSize: 13, fontWeight: '600', marginBottom: 8 },
+  repeatR: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', paddingVertical: 6, gap: 8 },
+  repeatN: { flex: 1, color: C.textSec, fontSize: 14 },
+  repeatD: { color: C.textMuted, fontSize: 12 },
   taskA: { fontSize: 18, marginLeft: 10 },
   emptyList: { padding: 40, alignItems: 'center' },
   emptyListT: { color: C.textMuted, fontSize: 16 },
@@ -4052,6 +5835,7 @@ const S = StyleSheet.create({
   timeSlotNow: { backgroundColor: C.primary + '30', borderWidth: 1, borderColor: C.primary },
   curLine: { position: 'absolute', top: '50%', left: 0, right: 0, height: 2, backgroundColor: C.primary },
   timeEventT: { color: C.text, fontSize: 13, fontWeight: '500' },
+  timeEventL: { color: C.textSec, fontSize: 11, marginTop: 2 },
 
   // Dashboard
   dashC: { flex: 1, padding: 16 },
@@ -4099,6 +5883,24 @@ const S = StyleSheet.create({
   ePick: { flexDirection: 'row', gap: 10, marginBottom: 28 },
   ePickO: { flex: 1, paddingVertical: 14, borderRadius: 14, borderWidth: 2, borderColor: C.border, alignItems: 'center' },
   ePickT: { color: C.text, fontSize: 14, fontWeight: '600' },
+  estPick: { flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginBottom: 12 },
+  estPickO: { paddingVertical: 10, paddingHorizontal: 14, borderRadius: 12, borderWidth: 2, borderColor: C.border },
+  estPickOA: { borderColor: C.primary, backgroundColor: C.primary + '20' },
+  estPickT: { color: C.textSec, fontSize: 14, fontWeight: '600' },
+  estPickTA: { color: C.primary },
+  estHint: { marginBottom: 20 },
+  whRow: { flexDirection: 'row', alignItems: 'center', gap: 8, marginBottom: 6 },
+  whDay: { paddingVertical: 6, paddingHorizontal: 10, minWidth: 56, alignItems: 'center' },
+  placeCard: { backgroundColor: C.card, borderRadius: 14, padding: 12, marginBottom: 8 },
+  placeHead: { flexDirection: 'row', alignItems: 'center', marginBottom: 8 },
+  placeMode: { fontSize: 18, paddingHorizontal: 4, opacity: 0.35 },
+  placeModeA: { opacity: 1 },
+  whStep: { color: C.primary, fontSize: 18, fontWeight: '700', paddingHorizontal: 6 },
+  whTime: { color: C.text, fontSize: 14, fontWeight: '600', minWidth: 44, textAlign: 'center' },
+  busyCalRow: { flexDirection: 'row', alignItems: 'center', gap: 10, paddingVertical: 8 },
+  busyCalDot: { width: 12, height: 12, borderRadius: 6 },
+  estHintT: { color: C.textSec, fontSize: 13, lineHeight: 18 },
+  estHintA: { color: C.primary, fontSize: 13, fontWeight: '600', marginTop: 4 },
   mBtns: { flexDirection: 'row', gap: 14 },
   mCancel: { flex: 1, paddingVertical: 16, borderRadius: 14, backgroundColor: C.bg, alignItems: 'center' },
   mCancelT: { color: C.textSec, fontSize: 16, fontWeight: '600' },
@@ -4184,6 +5986,49 @@ const S = StyleSheet.create({
   stuckBtnSec: { backgroundColor: 'transparent', borderRadius: 14, padding: 14, alignItems: 'center' },
   stuckBtnSecT: { color: C.textSec, fontSize: 14 },
 
+  // ============ OFFLINE OUTBOX STYLES ============
+  pendingBadge: { height: 36, paddingHorizontal: 10, borderRadius: 18, backgroundColor: C.warning + '30', justifyContent: 'center', alignItems: 'center' },
+  pendingBadgeT: { color: C.warning, fontSize: 12, fontWeight: '600' },
+
+  // ============ MEMORY STYLES ============
+  memoryRow: { flexDirection: 'row', alignItems: 'center', backgroundColor: C.card, borderRadius: 10, padding: 12, marginTop: 8, gap: 8 },
+  memoryRowNew: { borderLeftWidth: 3, borderLeftColor: C.primary },
+  memoryText: { color: C.text, fontSize: 14 },
+  memorySource: { color: C.textMuted, fontSize: 12, marginTop: 2 },
+  memoryBtn: { paddingHorizontal: 10, paddingVertical: 6, borderRadius: 8, backgroundColor: C.bg },
+  memoryBtnT: { color: C.textSec, fontSize: 13, fontWeight: '600' },
+
+  // ============ THINKING STYLES ============
+  thinkingToggle: { color: C.textMuted, fontSize: 12, marginBottom: 6 },
+  thinkingT: { color: C.textSec, fontSize: 13, fontStyle: 'italic', lineHeight: 18, marginBottom: 8 },
+
+  // ============ NERO ACTION STYLES ============
+  actionCard: { marginTop: 10, backgroundColor: C.bg + '80', borderRadius: 12, padding: 10, borderWidth: 1, borderColor: C.primary + '50' },
+  actionRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 6, gap: 8 },
+  actionIcon: { fontSize: 16 },
+  actionLabel: { color: C.text, fontSize: 14, fontWeight: '500' },
+  actionDetail: { color: C.textSec, fontSize: 12, marginTop: 2 },
+  actionStatus: { color: C.success, fontSize: 14, minWidth: 16, textAlign: 'center' },
+  actionBtns: { flexDirection: 'row', gap: 8, marginTop: 8 },
+  actionSkip: { flex: 1, paddingVertical: 10, borderRadius: 10, backgroundColor: C.card, alignItems: 'center' },
+  actionSkipT: { color: C.textSec, fontSize: 14, fontWeight: '600' },
+  actionGo: { flex: 1, paddingVertical: 10, borderRadius: 10, backgroundColor: C.primary, alignItems: 'center' },
+  actionGoT: { color: C.text, fontSize: 14, fontWeight: '700' },
+
+  // ============ DISTRACTION CHART STYLES ============
+  distCard: { backgroundColor: C.card, borderRadius: 16, padding: 16, marginTop: 4, marginBottom: 12, borderWidth: 1, borderColor: C.border },
+  distChart: { flexDirection: 'row', alignItems: 'flex-end', height: 80, marginTop: 12, gap: 2 },
+  distCol: { flex: 1, height: '100%', justifyContent: 'flex-end' },
+  distBar: { backgroundColor: C.primary + '80', borderTopLeftRadius: 2, borderTopRightRadius: 2, minHeight: 1 },
+  distBarPeak: { backgroundColor: C.warning },
+  distAxis: { flexDirection: 'row', justifyContent: 'space-between', marginTop: 4 },
+  distAxisT: { color: C.textMuted, fontSize: 10 },
+
+  // ============ SYNC CONFLICT STYLES ============
+  conflictRow: { backgroundColor: C.card, borderRadius: 10, padding: 12, marginTop: 8, borderLeftWidth: 3, borderLeftColor: C.warning },
+  conflictTitle: { color: C.text, fontSize: 14, fontWeight: '600', marginBottom: 4 },
+  conflictDetail: { color: C.textSec, fontSize: 12, lineHeight: 18 },
+
   // ============ SWIPE GESTURE STYLES ============
   swipeHint: { paddingVertical: 8, paddingHorizontal: 16, backgroundColor: C.surface, borderRadius: 8, marginHorizontal: 16, marginBottom: 8, alignItems: 'center' },
   swipeHintT: { color: C.textMuted, fontSize: 11, fontWeight: '500' },
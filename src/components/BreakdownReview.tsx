@@ -0,0 +1,272 @@
+// Breakdown Review Component
+// Lets the user accept, edit or regenerate suggested micro-steps before they're added
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { C, getEC, getEE } from '../constants';
+import { EnergyLevel } from '../types';
+import { BreakdownStep, taskBreakdownService } from '../services/TaskBreakdownService';
+
+interface BreakdownReviewProps {
+  taskTitle: string;
+  steps: BreakdownStep[];
+  source: 'ai' | 'fallback';
+  loading: boolean;
+  onRegenerate: () => void;
+  onAccept: (steps: BreakdownStep[]) => void;
+  onCancel: () => void;
+}
+
+const NEXT_ENERGY: Record<EnergyLevel, EnergyLevel> = { low: 'medium', medium: 'high', high: 'low' };
+
+export function BreakdownReview({
+  taskTitle,
+  steps,
+  source,
+  loading,
+  onRegenerate,
+  onAccept,
+  onCancel,
+}: BreakdownReviewProps) {
+  const [draft, setDraft] = useState<BreakdownStep[]>(steps);
+
+  // A regenerate replaces any edits
+  useEffect(() => {
+    setDraft(steps);
+  }, [steps]);
+
+  const updateStep = (id: string, updates: Partial<BreakdownStep>) => {
+    setDraft(prev => prev.map(s => s.id === id ? { ...s, ...updates } : s));
+  };
+
+  const removeStep = (id: string) => {
+    setDraft(prev => prev.filter(s => s.id !== id));
+  };
+
+  const addStep = () => {
+    setDraft(prev => [...prev, taskBreakdownService.createEmptyStep()]);
+  };
+
+  const validSteps = draft.filter(s => s.title.trim());
+  const totalMinutes = validSteps.reduce((sum, s) => sum + s.estimatedMinutes, 0);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>🔨 Break it down</Text>
+      <Text style={styles.subtitle} numberOfLines={2}>{taskTitle}</Text>
+
+      {loading ? (
+        <View style={styles.loading}>
+          <ActivityIndicator color={C.primary} />
+          <Text style={styles.loadingText}>Finding the tiniest first step...</Text>
+        </View>
+      ) : (
+        <>
+          {source === 'fallback' && (
+            <Text style={styles.note}>Starter steps - connect an AI provider in settings for task-specific ones</Text>
+          )}
+
+          <ScrollView style={styles.list}>
+            {draft.map((step, index) => (
+              <View key={step.id} style={styles.step}>
+                <Text style={styles.stepNum}>{index + 1}</Text>
+                <TextInput
+                  style={styles.stepInput}
+                  value={step.title}
+                  onChangeText={(t) => updateStep(step.id, { title: t })}
+                  placeholder="Describe a tiny step"
+                  placeholderTextColor={C.textMuted}
+                  multiline
+                />
+                <TextInput
+                  style={styles.minutesInput}
+                  value={String(step.estimatedMinutes)}
+                  onChangeText={(t) => updateStep(step.id, { estimatedMinutes: Math.max(parseInt(t, 10) || 0, 0) })}
+                  keyboardType="number-pad"
+                />
+                <Text style={styles.minutesLabel}>m</Text>
+                <TouchableOpacity
+                  style={[styles.energyChip, { borderColor: getEC(step.energy) }]}
+                  onPress={() => updateStep(step.id, { energy: NEXT_ENERGY[step.energy] })}
+                >
+                  <Text>{getEE(step.energy)}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => removeStep(step.id)}>
+                  <Text style={styles.remove}>✕</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            <TouchableOpacity style={styles.addStep} onPress={addStep}>
+              <Text style={styles.addStepText}>+ Add step</Text>
+            </TouchableOpacity>
+          </ScrollView>
+
+          <Text style={styles.total}>
+            {validSteps.length} steps • about {totalMinutes} min
+          </Text>
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.secondaryBtn} onPress={onCancel}>
+          <Text style={styles.secondaryBtnText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.secondaryBtn, loading && styles.disabled]}
+          onPress={onRegenerate}
+          disabled={loading}
+        >
+          <Text style={styles.secondaryBtnText}>↻ Regenerate</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.primaryBtn, (loading || validSteps.length === 0) && styles.disabled]}
+          onPress={() => onAccept(validSteps)}
+          disabled={loading || validSteps.length === 0}
+        >
+          <Text style={styles.primaryBtnText}>Add {validSteps.length}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: C.card,
+    borderRadius: 20,
+    padding: 20,
+    maxHeight: '85%',
+    width: '100%',
+  },
+  title: {
+    color: C.text,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  subtitle: {
+    color: C.textSec,
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  note: {
+    color: C.textMuted,
+    fontSize: 12,
+    marginBottom: 8,
+  },
+  loading: {
+    paddingVertical: 40,
+    alignItems: 'center',
+    gap: 12,
+  },
+  loadingText: {
+    color: C.textSec,
+    fontSize: 14,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  step: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: C.bg,
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 8,
+    gap: 6,
+  },
+  stepNum: {
+    color: C.primaryLight,
+    fontSize: 13,
+    fontWeight: '700',
+    width: 16,
+  },
+  stepInput: {
+    flex: 1,
+    color: C.text,
+    fontSize: 14,
+    paddingVertical: 2,
+  },
+  minutesInput: {
+    width: 34,
+    color: C.text,
+    fontSize: 13,
+    textAlign: 'right',
+    borderBottomWidth: 1,
+    borderBottomColor: C.border,
+    paddingVertical: 2,
+  },
+  minutesLabel: {
+    color: C.textMuted,
+    fontSize: 12,
+  },
+  energyChip: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  remove: {
+    color: C.textMuted,
+    fontSize: 14,
+    paddingHorizontal: 4,
+  },
+  addStep: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  addStepText: {
+    color: C.primaryLight,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  total: {
+    color: C.textMuted,
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 16,
+  },
+  secondaryBtn: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: C.bg,
+    alignItems: 'center',
+  },
+  secondaryBtnText: {
+    color: C.textSec,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  primaryBtn: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: C.primary,
+    alignItems: 'center',
+  },
+  primaryBtnText: {
+    color: C.text,
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+});
+
+export default BreakdownReview;
@@ -0,0 +1,405 @@
+import React, { useRef, useState } from 'react';
+import { View, Text, TouchableOpacity, ScrollView, Animated, StyleSheet, ActivityIndicator } from 'react-native';
+import { C, getEE } from '../constants';
+import { PlannedBlock, Task } from '../types';
+
+// Height of a task row including its margin, used to turn a drag into places moved
+const ROW_HEIGHT = 76;
+const RESIZE_STEP_MINUTES = 15;
+
+interface DayPlannerProps {
+  blocks: PlannedBlock[];
+  unplaced: Task[]; // Tasks that didn't fit today
+  completedTaskIds: string[];
+  loading: boolean;
+  committed: boolean; // The plan is already on the calendar
+  committing: boolean;
+  canWrite: boolean; // The calendar takes new events
+  behindMinutes: number;
+  onMove: (blockId: string, offset: number) => void;
+  onResize: (blockId: string, deltaMinutes: number) => void;
+  onRemove: (blockId: string) => void;
+  onAdd: (task: Task) => void;
+  onReflow: () => void;
+  onReplan: () => void; // Throw the plan away and propose a fresh one
+  onCommit: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+const minutesOf = (block: PlannedBlock) =>
+  Math.round((new Date(block.end).getTime() - new Date(block.start).getTime()) / 60000);
+
+/**
+ * A proposed day as time blocks. Drag a block by its handle to reorder;
+ * the times re-lay around the calendar after every change.
+ */
+export function DayPlanner({
+  blocks,
+  unplaced,
+  completedTaskIds,
+  loading,
+  committed,
+  committing,
+  canWrite,
+  behindMinutes,
+  onMove,
+  onResize,
+  onRemove,
+  onAdd,
+  onReflow,
+  onReplan,
+  onCommit,
+  onClose,
+}: DayPlannerProps) {
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const dragAnim = useRef(new Animated.Value(0)).current;
+  const dragStartY = useRef(0);
+  const dragDy = useRef(0);
+
+  const taskBlocks = blocks.filter(b => b.kind === 'task');
+  const plannedMinutes = taskBlocks.reduce((sum, b) => sum + minutesOf(b), 0);
+
+  const dragHandlers = (blockId: string) => ({
+    onStartShouldSetResponder: () => true,
+    onMoveShouldSetResponder: () => true,
+    onResponderTerminationRequest: () => false,
+    onResponderGrant: (evt: any) => {
+      setDraggingId(blockId);
+      dragStartY.current = evt.nativeEvent.pageY;
+      dragDy.current = 0;
+      dragAnim.setValue(0);
+    },
+    onResponderMove: (evt: any) => {
+      dragDy.current = evt.nativeEvent.pageY - dragStartY.current;
+      dragAnim.setValue(dragDy.current);
+    },
+    onResponderRelease: () => {
+      const offset = Math.round(dragDy.current / ROW_HEIGHT);
+      setDraggingId(null);
+      dragAnim.setValue(0);
+      if (offset !== 0) onMove(blockId, offset);
+    },
+    onResponderTerminate: () => {
+      setDraggingId(null);
+      dragAnim.setValue(0);
+    },
+  });
+
+  const renderBlock = (block: PlannedBlock) => {
+    if (block.kind === 'break') {
+      return (
+        <View key={block.id} style={styles.breakRow}>
+          <Text style={styles.breakText}>{formatTime(block.start)} · {block.title} · {minutesOf(block)} min</Text>
+        </View>
+      );
+    }
+
+    const done = !!block.taskId && completedTaskIds.includes(block.taskId);
+    const dragging = draggingId === block.id;
+
+    return (
+      <Animated.View
+        key={block.id}
+        style={[
+          styles.blockRow,
+          done && styles.blockDone,
+          dragging && styles.blockDragging,
+          dragging && { transform: [{ translateY: dragAnim }] },
+        ]}
+      >
+        {done ? (
+          <Text style={styles.handle}>✓</Text>
+        ) : (
+          <View style={styles.handleArea} {...dragHandlers(block.id)}>
+            <Text style={styles.handle}>≡</Text>
+          </View>
+        )}
+        <View style={styles.blockBody}>
+          <Text style={styles.blockTime}>
+            {formatTime(block.start)} – {formatTime(block.end)}
+            {block.eventId ? ' · 📅' : ''}
+          </Text>
+          <Text style={[styles.blockTitle, done && styles.blockTitleDone]} numberOfLines={1}>
+            {block.energy ? `${getEE(block.energy)} ` : ''}{block.title}
+          </Text>
+        </View>
+        {!done && (
+          <View style={styles.blockActions}>
+            <TouchableOpacity style={styles.smallButton} onPress={() => onResize(block.id, -RESIZE_STEP_MINUTES)}>
+              <Text style={styles.smallButtonText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.minutes}>{minutesOf(block)}m</Text>
+            <TouchableOpacity style={styles.smallButton} onPress={() => onResize(block.id, RESIZE_STEP_MINUTES)}>
+              <Text style={styles.smallButtonText}>+</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.smallButton} onPress={() => onRemove(block.id)}>
+              <Text style={styles.smallButtonText}>✕</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+      </Animated.View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.headerLink}>Close</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>🗓️ Your day</Text>
+        <TouchableOpacity onPress={onReplan} disabled={loading || committing}>
+          <Text style={styles.headerLink}>Start over</Text>
+        </TouchableOpacity>
+      </View>
+
+      {behindMinutes > 0 && (
+        <View style={styles.behindBanner}>
+          <Text style={styles.behindText}>Running about {behindMinutes} min behind - that's okay.</Text>
+          <TouchableOpacity style={styles.behindButton} onPress={onReflow} disabled={committing}>
+            <Text style={styles.behindButtonText}>Reflow the rest</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {loading ? (
+        <View style={styles.center}>
+          <ActivityIndicator color={C.teal} />
+          <Text style={styles.hint}>Looking at your calendar...</Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.list} scrollEnabled={!draggingId}>
+          {taskBlocks.length === 0 ? (
+            <Text style={styles.empty}>Nothing fits in today's free time. Try a shorter task, or leave today open. 🌿</Text>
+          ) : (
+            <Text style={styles.hint}>
+              {Math.floor(plannedMinutes / 60) > 0 ? `${Math.floor(plannedMinutes / 60)}h ` : ''}
+              {plannedMinutes % 60} min planned · drag ≡ to reorder
+            </Text>
+          )}
+          {blocks.map(renderBlock)}
+
+          {unplaced.length > 0 && (
+            <View style={styles.unplaced}>
+              <Text style={styles.unplacedTitle}>Didn't fit today - tap to squeeze one in</Text>
+              {unplaced.map(task => (
+                <TouchableOpacity key={task.id} style={styles.unplacedRow} onPress={() => onAdd(task)}>
+                  <Text style={styles.unplacedText} numberOfLines={1}>+ {task.title}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
+
+      <TouchableOpacity
+        style={[styles.commitButton, (loading || committing || taskBlocks.length === 0) && styles.disabled]}
+        onPress={onCommit}
+        disabled={loading || committing || taskBlocks.length === 0}
+      >
+        {committing ? (
+          <ActivityIndicator color={C.text} />
+        ) : (
+          <Text style={styles.commitText}>
+            {committed ? 'Update plan' : canWrite ? '📅 Add to calendar' : 'Save plan'}
+          </Text>
+        )}
+      </TouchableOpacity>
+      {!canWrite && <Text style={styles.footnote}>Your calendar is read-only, so blocks become planned times on your tasks.</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: C.bg,
+    padding: 24,
+    paddingTop: 56,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 16,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: C.text,
+  },
+  headerLink: {
+    fontSize: 15,
+    color: C.textSec,
+  },
+  behindBanner: {
+    backgroundColor: C.surface,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: C.warning,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  behindText: {
+    fontSize: 14,
+    color: C.text,
+  },
+  behindButton: {
+    alignSelf: 'flex-start',
+    backgroundColor: C.warning,
+    borderRadius: 8,
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+  },
+  behindButtonText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: C.bg,
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 12,
+  },
+  list: {
+    flex: 1,
+  },
+  hint: {
+    fontSize: 13,
+    color: C.textMuted,
+    textAlign: 'center',
+    marginBottom: 12,
+  },
+  empty: {
+    fontSize: 15,
+    color: C.textSec,
+    textAlign: 'center',
+    marginVertical: 32,
+  },
+  blockRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: ROW_HEIGHT - 8,
+    marginBottom: 8,
+    backgroundColor: C.card,
+    borderRadius: 12,
+    paddingRight: 8,
+  },
+  blockDone: {
+    opacity: 0.5,
+  },
+  blockDragging: {
+    zIndex: 10,
+    borderWidth: 1,
+    borderColor: C.teal,
+  },
+  handleArea: {
+    alignSelf: 'stretch',
+    justifyContent: 'center',
+  },
+  handle: {
+    width: 36,
+    textAlign: 'center',
+    fontSize: 18,
+    color: C.textMuted,
+  },
+  blockBody: {
+    flex: 1,
+  },
+  blockTime: {
+    fontSize: 12,
+    color: C.teal,
+    marginBottom: 2,
+  },
+  blockTitle: {
+    fontSize: 15,
+    color: C.text,
+  },
+  blockTitleDone: {
+    textDecorationLine: 'line-through',
+  },
+  blockActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  smallButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    backgroundColor: C.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  smallButtonText: {
+    fontSize: 14,
+    color: C.textSec,
+  },
+  minutes: {
+    minWidth: 32,
+    textAlign: 'center',
+    fontSize: 12,
+    color: C.textSec,
+  },
+  breakRow: {
+    paddingVertical: 6,
+    marginBottom: 8,
+    alignItems: 'center',
+  },
+  breakText: {
+    fontSize: 12,
+    color: C.textMuted,
+  },
+  unplaced: {
+    marginTop: 16,
+    marginBottom: 24,
+  },
+  unplacedTitle: {
+    fontSize: 13,
+    color: C.textMuted,
+    marginBottom: 8,
+  },
+  unplacedRow: {
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: C.border,
+    borderStyle: 'dashed',
+    marginBottom: 6,
+  },
+  unplacedText: {
+    fontSize: 14,
+    color: C.textSec,
+  },
+  commitButton: {
+    backgroundColor: C.teal,
+    borderRadius: 16,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  commitText: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: C.text,
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+  footnote: {
+    fontSize: 12,
+    color: C.textMuted,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default DayPlanner;
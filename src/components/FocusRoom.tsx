@@ -0,0 +1,324 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  Share,
+} from 'react-native';
+import { C } from '../constants';
+import { focusRoomService, type FocusRoomState } from '../services/FocusRoomService';
+import { RoomCelebration, RoomParticipant } from '../types';
+
+const CELEBRATION_MS = 6000;
+
+interface FocusRoomProps {
+  onClose?: () => void;
+}
+
+export function FocusRoom({ onClose }: FocusRoomProps) {
+  const [room, setRoom] = useState<FocusRoomState | null>(focusRoomService.getRoom());
+  const [joinCode, setJoinCode] = useState('');
+  const [joinError, setJoinError] = useState('');
+  const [celebration, setCelebration] = useState<RoomCelebration | null>(null);
+  const [, setNow] = useState(Date.now());
+
+  useEffect(() => focusRoomService.subscribe(setRoom), []);
+
+  useEffect(() => {
+    let timeout: NodeJS.Timeout | null = null;
+    const unsubscribe = focusRoomService.onCelebration((c) => {
+      setCelebration(c);
+      if (timeout) clearTimeout(timeout);
+      timeout = setTimeout(() => setCelebration(null), CELEBRATION_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timeout) clearTimeout(timeout);
+    };
+  }, []);
+
+  // Everyone's countdown is computed locally from their shared end time
+  useEffect(() => {
+    if (!room) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [!!room]);
+
+  const joinRoom = () => {
+    if (focusRoomService.joinRoom(joinCode)) {
+      setJoinCode('');
+      setJoinError('');
+    } else {
+      setJoinError('Room codes are 6 letters and numbers');
+    }
+  };
+
+  const shareCode = () => {
+    if (!room) return;
+    Share.share({ message: `Focus with me on UnFocused! Join my room with code ${room.code}` })
+      .catch(e => console.log('Failed to share room code:', e));
+  };
+
+  if (!room) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>👥 Focus Room</Text>
+        <Text style={styles.subtitle}>Body double with friends: see what everyone's working on while you focus.</Text>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => focusRoomService.createRoom()}>
+          <Text style={styles.primaryButtonText}>Start a Room</Text>
+        </TouchableOpacity>
+
+        <View style={styles.joinRow}>
+          <TextInput
+            style={styles.codeInput}
+            value={joinCode}
+            onChangeText={(text) => {
+              setJoinCode(text.toUpperCase());
+              setJoinError('');
+            }}
+            placeholder="Invite code"
+            placeholderTextColor={C.textMuted}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            maxLength={8}
+            onSubmitEditing={joinRoom}
+          />
+          <TouchableOpacity
+            style={[styles.joinButton, !joinCode.trim() && styles.joinButtonDisabled]}
+            onPress={joinRoom}
+            disabled={!joinCode.trim()}
+          >
+            <Text style={styles.joinButtonText}>Join</Text>
+          </TouchableOpacity>
+        </View>
+        {!!joinError && <Text style={styles.errorText}>{joinError}</Text>}
+
+        {onClose && (
+          <TouchableOpacity style={styles.linkButton} onPress={onClose}>
+            <Text style={styles.linkText}>Not now</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <View>
+          <Text style={styles.title}>👥 Room {room.code}</Text>
+          <Text style={styles.subtitle}>
+            {room.connected
+              ? `${room.participants.length} here · ${room.participants.filter(p => p.status === 'running').length} focusing`
+              : 'Connecting...'}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.shareButton} onPress={shareCode}>
+          <Text style={styles.shareText}>Invite</Text>
+        </TouchableOpacity>
+      </View>
+
+      {celebration && (
+        <View style={styles.celebration}>
+          <Text style={styles.celebrationText}>
+            🎉 {celebration.participantId === focusRoomService.getParticipantId() ? 'You' : celebration.name} finished a focus block
+            {celebration.taskTitle ? ` on "${celebration.taskTitle}"` : ''}!
+          </Text>
+        </View>
+      )}
+
+      {room.participants.map((participant) => (
+        <View key={participant.id} style={styles.participant}>
+          <View style={styles.participantInfo}>
+            <Text style={styles.participantName} numberOfLines={1}>
+              {participant.id === focusRoomService.getParticipantId() ? `${participant.name} (you)` : participant.name}
+            </Text>
+            <Text style={styles.participantTask} numberOfLines={1}>
+              {participant.taskTitle || (participant.status === 'idle' ? 'Hanging out' : 'Focusing')}
+            </Text>
+          </View>
+          <View style={styles.participantTimer}>
+            <Text style={[styles.timerText, participant.status === 'running' && styles.timerTextActive]}>
+              {describeTimer(participant)}
+            </Text>
+            {participant.completedPomodoros > 0 && (
+              <Text style={styles.blockCount}>{'🍅'.repeat(Math.min(participant.completedPomodoros, 4))}</Text>
+            )}
+          </View>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.linkButton} onPress={() => focusRoomService.leaveRoom()}>
+        <Text style={styles.linkText}>Leave room</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+function describeTimer(p: RoomParticipant): string {
+  const format = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = seconds % 60;
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+  const now = Date.now();
+
+  switch (p.status) {
+    case 'running':
+      if (p.flowStartedAt !== null) return `🌊 ${Math.floor((now - p.flowStartedAt) / 60000)} min in`;
+      return `🎯 ${format(Math.max(0, Math.ceil(((p.endsAt ?? now) - now) / 1000)))}`;
+    case 'break':
+      return `☕ ${format(Math.max(0, Math.ceil(((p.endsAt ?? now) - now) / 1000)))}`;
+    case 'paused':
+      return '⏸️ Paused';
+    default:
+      return '💤 Not started';
+  }
+}
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+    maxWidth: 360,
+    backgroundColor: C.card,
+    borderRadius: 20,
+    padding: 16,
+    marginTop: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: C.text,
+  },
+  subtitle: {
+    fontSize: 13,
+    color: C.textSec,
+    marginTop: 4,
+    marginBottom: 4,
+  },
+  primaryButton: {
+    backgroundColor: C.primary,
+    borderRadius: 14,
+    padding: 14,
+    alignItems: 'center',
+    marginTop: 12,
+  },
+  primaryButtonText: {
+    color: C.text,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  joinRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  codeInput: {
+    flex: 1,
+    backgroundColor: C.surface,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    color: C.text,
+    fontSize: 16,
+    letterSpacing: 2,
+  },
+  joinButton: {
+    backgroundColor: C.teal + '30',
+    borderRadius: 12,
+    paddingHorizontal: 18,
+    justifyContent: 'center',
+  },
+  joinButtonDisabled: {
+    opacity: 0.5,
+  },
+  joinButtonText: {
+    color: C.teal,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  errorText: {
+    color: C.error,
+    fontSize: 12,
+    marginTop: 6,
+  },
+  shareButton: {
+    backgroundColor: C.primary + '30',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  shareText: {
+    color: C.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  celebration: {
+    backgroundColor: C.gold + '25',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+  },
+  celebrationText: {
+    color: C.text,
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  participant: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: C.border,
+    gap: 12,
+  },
+  participantInfo: {
+    flex: 1,
+  },
+  participantName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: C.text,
+  },
+  participantTask: {
+    fontSize: 12,
+    color: C.textSec,
+    marginTop: 2,
+  },
+  participantTimer: {
+    alignItems: 'flex-end',
+  },
+  timerText: {
+    fontSize: 14,
+    color: C.textSec,
+    fontVariant: ['tabular-nums'],
+  },
+  timerTextActive: {
+    color: C.primary,
+    fontWeight: '600',
+  },
+  blockCount: {
+    fontSize: 10,
+    marginTop: 2,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingTop: 12,
+  },
+  linkText: {
+    color: C.textMuted,
+    fontSize: 13,
+  },
+});
+
+export default FocusRoom;
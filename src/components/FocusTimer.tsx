@@ -9,7 +9,15 @@ import {
 } from 'react-native';
 import { C, getEE, getEC } from '../constants';
 import { FocusTimerService } from '../services/FocusTimerService';
-import { EnergyLevel, FocusSession, FocusTimerSettings, MoodLevel } from '../types';
+import { getContextBreadcrumbService } from '../services/ContextBreadcrumbService';
+import { focusRoomService, type FocusRoomState } from '../services/FocusRoomService';
+import { FocusRoom } from './FocusRoom';
+import { SoundSettingsPanel } from './SoundSettingsPanel';
+import { EnergyLevel, FocusDistraction, FocusSession, FocusTimerSettings, MoodLevel } from '../types';
+
+const DISTRACTION_REASONS = ['📱 Phone', '💭 Thought', '🔔 Notification', '🗣️ Someone', '🍪 Snack'];
+// How long the reason chips stay up before the distraction is saved without one
+const REASON_PROMPT_MS = 8000;
 
 interface FocusTimerProps {
   service: FocusTimerService;
@@ -37,19 +45,34 @@ export function FocusTimer({
   const [completedPomodoros, setCompletedPomodoros] = useState(0);
   const [showSettings, setShowSettings] = useState(false);
   const [settings, setSettings] = useState<FocusTimerSettings>(service.getSettings());
+  const [distractionCount, setDistractionCount] = useState(0);
+  const [pendingDistraction, setPendingDistraction] = useState<FocusDistraction | null>(null);
+  const pendingDistractionRef = useRef<FocusDistraction | null>(null);
+  // Latest task, for breadcrumbs saved from the unmount cleanup
+  const taskRef = useRef({ id: currentTaskId, title: currentTaskTitle });
+  taskRef.current = { id: currentTaskId, title: currentTaskTitle };
+  const reasonTimeout = useRef<NodeJS.Timeout | null>(null);
+  const [room, setRoom] = useState<FocusRoomState | null>(focusRoomService.getRoom());
+  const [showRoom, setShowRoom] = useState(false);
+  const [showSounds, setShowSounds] = useState(false);
+
+  // A session started with its own block length (by Nero) runs as pomodoro blocks of that length
+  const sessionMinutes = service.getCurrentSession()?.focusMinutes;
+  const isFlowtime = settings.mode === 'flowtime' && !sessionMinutes;
+  const focusMinutes = sessionMinutes || settings.focusDuration;
 
   const progressAnim = useRef(new Animated.Value(1)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
 
   useEffect(() => {
     service.setCallbacks({
-      onTick: (remaining) => {
-        setRemainingSeconds(remaining);
-        // Update progress animation
+      onTick: (seconds) => {
+        setRemainingSeconds(seconds);
+        // Update progress animation - flowtime fills up towards the hyperfocus ceiling
         const total = isBreak
           ? settings.shortBreakDuration * 60
-          : settings.focusDuration * 60;
-        const progress = remaining / total;
+          : isFlowtime ? settings.hyperfocusCeilingMinutes * 60 : focusMinutes * 60;
+        const progress = Math.min(seconds / total, 1);
         Animated.timing(progressAnim, {
           toValue: progress,
           duration: 900,
@@ -67,7 +90,25 @@ export function FocusTimer({
         onBreakStart();
       },
     });
-  }, [service, settings, isBreak]);
+  }, [service, settings, isBreak, sessionMinutes]);
+
+  // Pick up a session started elsewhere (by Nero from chat, or restored on launch)
+  useEffect(() => {
+    const session = service.getCurrentSession();
+    if (!session || !service.isActive()) return;
+    setIsRunning(true);
+    setIsPaused(session.status === 'paused');
+    setIsBreak(session.status === 'break');
+    const flowing = service.isFlowing() || (session.status === 'paused' && service.getElapsedSeconds() > 0);
+    setRemainingSeconds(flowing ? service.getElapsedSeconds() : service.getRemainingSeconds());
+    setCompletedPomodoros(session.completedPomodoros);
+    setDistractionCount(session.distractions?.length || 0);
+  }, [service]);
+
+  useEffect(() => focusRoomService.subscribe(setRoom), []);
+
+  // Don't lose a distraction's breadcrumb if the timer closes mid-prompt
+  useEffect(() => () => finishDistraction(), []);
 
   // Pulse animation for running timer
   useEffect(() => {
@@ -92,17 +133,61 @@ export function FocusTimer({
   }, [isRunning, isPaused]);
 
   const startSession = () => {
-    // Suggest optimal duration based on energy
-    const optimalDuration = energy ? service.suggestOptimalDuration(energy) : 25;
-    service.setSettings({ focusDuration: optimalDuration });
-    setSettings(service.getSettings());
-
-    service.startFocusSession(currentTaskId, mood || undefined);
+    if (isFlowtime) {
+      service.startFocusSession(currentTaskId, mood || undefined);
+      setRemainingSeconds(0);
+      progressAnim.setValue(0);
+    } else {
+      // Suggest optimal duration based on energy
+      const optimalDuration = energy ? service.suggestOptimalDuration(energy) : 25;
+      service.setSettings({ focusDuration: optimalDuration });
+      setSettings(service.getSettings());
+
+      service.startFocusSession(currentTaskId, mood || undefined);
+      setRemainingSeconds(optimalDuration * 60);
+      progressAnim.setValue(1);
+    }
     setIsRunning(true);
     setIsPaused(false);
     setIsBreak(false);
-    setRemainingSeconds(optimalDuration * 60);
-    progressAnim.setValue(1);
+    setDistractionCount(0);
+  };
+
+  // Flowtime: stop at a natural break point and rest in proportion
+  const endFlow = () => {
+    const breakMinutes = service.endFlow();
+    setIsBreak(true);
+    setIsPaused(false);
+    setCompletedPomodoros(service.getCurrentSession()?.completedPomodoros ?? completedPomodoros);
+    setRemainingSeconds(breakMinutes * 60);
+  };
+
+  // One tap logs the moment; the reason is optional and can follow
+  const logDistraction = () => {
+    finishDistraction();
+    const distraction = service.logDistraction();
+    if (!distraction) return;
+    setDistractionCount(service.getCurrentSession()?.distractions?.length || 0);
+    pendingDistractionRef.current = distraction;
+    setPendingDistraction(distraction);
+    reasonTimeout.current = setTimeout(() => finishDistraction(), REASON_PROMPT_MS);
+  };
+
+  const finishDistraction = (reason?: string) => {
+    if (reasonTimeout.current) {
+      clearTimeout(reasonTimeout.current);
+      reasonTimeout.current = null;
+    }
+    const distraction = pendingDistractionRef.current;
+    if (!distraction) return;
+    pendingDistractionRef.current = null;
+    setPendingDistraction(null);
+
+    if (reason) service.setDistractionReason(distraction.id, reason);
+    const task = taskRef.current;
+    getContextBreadcrumbService()
+      .trackInterruption(reason || 'Distracted during focus', task.id, task.title)
+      .catch(e => console.log('Failed to save distraction breadcrumb:', e));
   };
 
   const togglePause = () => {
@@ -116,6 +201,7 @@ export function FocusTimer({
   };
 
   const stopSession = () => {
+    finishDistraction();
     const session = service.stop();
     setIsRunning(false);
     setIsPaused(false);
@@ -137,7 +223,7 @@ export function FocusTimer({
   const skipBreak = () => {
     service.skipBreak();
     setIsBreak(false);
-    setRemainingSeconds(settings.focusDuration * 60);
+    setRemainingSeconds(isFlowtime ? 0 : focusMinutes * 60);
   };
 
   const formatTime = (seconds: number): string => {
@@ -151,6 +237,25 @@ export function FocusTimer({
     outputRange: ['0%', '100%'],
   });
 
+  const soundsModal = (
+    <Modal visible={showSounds} transparent animationType="slide">
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContent}>
+          <SoundSettingsPanel timer={service} onClose={() => setShowSounds(false)} />
+        </View>
+      </View>
+    </Modal>
+  );
+
+  // Body doubling: always visible while in a room, otherwise opened on demand
+  const roomView = room || showRoom ? (
+    <FocusRoom onClose={() => setShowRoom(false)} />
+  ) : (
+    <TouchableOpacity style={styles.settingsButton} onPress={() => setShowRoom(true)}>
+      <Text style={styles.settingsButtonText}>👥 Focus with others</Text>
+    </TouchableOpacity>
+  );
+
   if (!isRunning) {
     // Start screen
     return (
@@ -159,9 +264,11 @@ export function FocusTimer({
           <Text style={styles.idleEmoji}>⏱️</Text>
           <Text style={styles.idleTitle}>Focus Timer</Text>
           <Text style={styles.idleSubtitle}>
-            {energy
-              ? `Suggested: ${service.suggestOptimalDuration(energy)} minutes for ${energy} energy`
-              : 'Set your energy level for personalized timing'}
+            {isFlowtime
+              ? `Flowtime: focus until you naturally stop. I'll check in after ${settings.hyperfocusCeilingMinutes} minutes.`
+              : energy
+                ? `Suggested: ${service.suggestOptimalDuration(energy)} minutes for ${energy} energy`
+                : 'Set your energy level for personalized timing'}
           </Text>
 
           {currentTaskTitle && (
@@ -194,6 +301,15 @@ export function FocusTimer({
           >
             <Text style={styles.settingsButtonText}>⚙️ Timer Settings</Text>
           </TouchableOpacity>
+
+          <TouchableOpacity
+            style={styles.settingsButton}
+            onPress={() => setShowSounds(true)}
+          >
+            <Text style={styles.settingsButtonText}>🔊 Sounds</Text>
+          </TouchableOpacity>
+
+          {roomView}
         </View>
 
         {/* Settings Modal */}
@@ -203,60 +319,126 @@ export function FocusTimer({
               <Text style={styles.modalTitle}>Timer Settings</Text>
 
               <View style={styles.settingRow}>
-                <Text style={styles.settingLabel}>Focus Duration</Text>
+                <Text style={styles.settingLabel}>Mode</Text>
                 <View style={styles.durationPicker}>
-                  {[10, 15, 20, 25, 30, 45].map((mins) => (
+                  {([['pomodoro', '🍅 Pomodoro'], ['flowtime', '🌊 Flowtime']] as const).map(([mode, label]) => (
                     <TouchableOpacity
-                      key={mins}
+                      key={mode}
                       style={[
                         styles.durationOption,
-                        settings.focusDuration === mins && styles.durationOptionActive,
+                        styles.modeOption,
+                        settings.mode === mode && styles.durationOptionActive,
                       ]}
                       onPress={() => {
-                        service.setSettings({ focusDuration: mins });
+                        service.setSettings({ mode });
                         setSettings(service.getSettings());
                       }}
                     >
                       <Text
                         style={[
                           styles.durationText,
-                          settings.focusDuration === mins && styles.durationTextActive,
+                          settings.mode === mode && styles.durationTextActive,
                         ]}
                       >
-                        {mins}
+                        {label}
                       </Text>
                     </TouchableOpacity>
                   ))}
                 </View>
               </View>
 
-              <View style={styles.settingRow}>
-                <Text style={styles.settingLabel}>Short Break</Text>
-                <View style={styles.durationPicker}>
-                  {[3, 5, 10].map((mins) => (
-                    <TouchableOpacity
-                      key={mins}
-                      style={[
-                        styles.durationOption,
-                        settings.shortBreakDuration === mins && styles.durationOptionActive,
-                      ]}
-                      onPress={() => {
-                        service.setSettings({ shortBreakDuration: mins });
-                        setSettings(service.getSettings());
-                      }}
-                    >
-                      <Text
+              {isFlowtime && (
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>Hyperfocus Check After</Text>
+                  <View style={styles.durationPicker}>
+                    {[45, 60, 90, 120].map((mins) => (
+                      <TouchableOpacity
+                        key={mins}
                         style={[
-                          styles.durationText,
-                          settings.shortBreakDuration === mins && styles.durationTextActive,
+                          styles.durationOption,
+                          settings.hyperfocusCeilingMinutes === mins && styles.durationOptionActive,
                         ]}
+                        onPress={() => {
+                          service.setSettings({ hyperfocusCeilingMinutes: mins });
+                          setSettings(service.getSettings());
+                        }}
                       >
-                        {mins}
-                      </Text>
-                    </TouchableOpacity>
-                  ))}
+                        <Text
+                          style={[
+                            styles.durationText,
+                            settings.hyperfocusCeilingMinutes === mins && styles.durationTextActive,
+                          ]}
+                        >
+                          {mins}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                  <Text style={styles.settingHint}>
+                    Breaks are 1 minute per {settings.flowtimeBreakRatio} minutes focused
+                  </Text>
                 </View>
-              </View>
+              )}
+
+              {!isFlowtime && (
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>Focus Duration</Text>
+                  <View style={styles.durationPicker}>
+                    {[10, 15, 20, 25, 30, 45].map((mins) => (
+                      <TouchableOpacity
+                        key={mins}
+                        style={[
+                          styles.durationOption,
+                          settings.focusDuration === mins && styles.durationOptionActive,
+                        ]}
+                        onPress={() => {
+                          service.setSettings({ focusDuration: mins });
+                          setSettings(service.getSettings());
+                        }}
+                      >
+                        <Text
+                          style={[
+                            styles.durationText,
+                            settings.focusDuration === mins && styles.durationTextActive,
+                          ]}
+                        >
+                          {mins}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              {!isFlowtime && (
+                <View style={styles.settingRow}>
+                  <Text style={styles.settingLabel}>Short Break</Text>
+                  <View style={styles.durationPicker}>
+                    {[3, 5, 10].map((mins) => (
+                      <TouchableOpacity
+                        key={mins}
+                        style={[
+                          styles.durationOption,
+                          settings.shortBreakDuration === mins && styles.durationOptionActive,
+                        ]}
+                        onPress={() => {
+                          service.setSettings({ shortBreakDuration: mins });
+                          setSettings(service.getSettings());
+                        }}
+                      >
+                        <Text
+                          style={[
+                            styles.durationText,
+                            settings.shortBreakDuration === mins && styles.durationTextActive,
+                          ]}
+                        >
+                          {mins}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
 
               <TouchableOpacity
                 style={styles.closeButton}
@@ -267,6 +449,7 @@ export function FocusTimer({
             </View>
           </View>
         </Modal>
+        {soundsModal}
       </View>
     );
   }
@@ -292,7 +475,7 @@ export function FocusTimer({
         </View>
 
         <Text style={styles.timerLabel}>
-          {isBreak ? '☕ Break Time' : '🎯 Focus Mode'}
+          {isBreak ? '☕ Break Time' : isFlowtime ? '🌊 Flowing' : '🎯 Focus Mode'}
         </Text>
 
         <Text style={styles.timerDisplay}>{formatTime(remainingSeconds)}</Text>
@@ -303,17 +486,23 @@ export function FocusTimer({
           </Text>
         )}
 
-        <View style={styles.pomodoroIndicator}>
-          {Array.from({ length: settings.pomodorosUntilLongBreak }).map((_, i) => (
-            <View
-              key={i}
-              style={[
-                styles.pomodoroDot,
-                i < completedPomodoros && styles.pomodoroDotComplete,
-              ]}
-            />
-          ))}
-        </View>
+        {isFlowtime ? (
+          <Text style={styles.flowCount}>
+            {completedPomodoros > 0 ? `${completedPomodoros} flow block${completedPomodoros === 1 ? '' : 's'} done` : 'Stop whenever you naturally break'}
+          </Text>
+        ) : (
+          <View style={styles.pomodoroIndicator}>
+            {Array.from({ length: settings.pomodorosUntilLongBreak }).map((_, i) => (
+              <View
+                key={i}
+                style={[
+                  styles.pomodoroDot,
+                  i < completedPomodoros && styles.pomodoroDotComplete,
+                ]}
+              />
+            ))}
+          </View>
+        )}
 
         <View style={styles.controls}>
           <TouchableOpacity style={styles.controlButton} onPress={togglePause}>
@@ -332,9 +521,46 @@ export function FocusTimer({
               <Text style={styles.controlText}>⏭️</Text>
             </TouchableOpacity>
           )}
+
+          <TouchableOpacity style={styles.controlButton} onPress={() => setShowSounds(true)}>
+            <Text style={styles.controlText}>🔊</Text>
+          </TouchableOpacity>
         </View>
 
-        {isPaused && !isBreak && (
+        {isFlowtime && !isBreak && (
+          <TouchableOpacity style={styles.breakButton} onPress={endFlow}>
+            <Text style={styles.breakButtonText}>
+              I'm at a stopping point · {service.getFlowBreakMinutes(remainingSeconds)} min break
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {!isBreak && (
+          pendingDistraction ? (
+            <View style={styles.distractionPrompt}>
+              <Text style={styles.distractionPromptText}>Logged. What pulled you away?</Text>
+              <View style={styles.reasonRow}>
+                {DISTRACTION_REASONS.map((reason) => (
+                  <TouchableOpacity
+                    key={reason}
+                    style={styles.reasonChip}
+                    onPress={() => finishDistraction(reason)}
+                  >
+                    <Text style={styles.reasonChipText}>{reason}</Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+          ) : isRunning && !isPaused ? (
+            <TouchableOpacity style={styles.distractionButton} onPress={logDistraction}>
+              <Text style={styles.distractionButtonText}>
+                🙋 I got distracted{distractionCount > 0 ? ` · ${distractionCount} so far` : ''}
+              </Text>
+            </TouchableOpacity>
+          ) : null
+        )}
+
+        {isPaused && !isBreak && !isFlowtime && (
           <View style={styles.pausedActions}>
             <TouchableOpacity
               style={styles.breakButton}
@@ -351,6 +577,9 @@ export function FocusTimer({
           </View>
         )}
       </Animated.View>
+
+      {roomView}
+      {soundsModal}
     </View>
   );
 }
@@ -585,6 +814,57 @@ const styles = StyleSheet.create({
   durationTextActive: {
     color: C.primary,
   },
+  modeOption: {
+    paddingHorizontal: 16,
+  },
+  settingHint: {
+    fontSize: 12,
+    color: C.textMuted,
+    marginTop: 8,
+  },
+  flowCount: {
+    fontSize: 13,
+    color: C.textSec,
+    marginBottom: 24,
+  },
+  distractionButton: {
+    marginTop: 16,
+    paddingVertical: 10,
+    paddingHorizontal: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: C.border,
+  },
+  distractionButtonText: {
+    color: C.textSec,
+    fontSize: 13,
+  },
+  distractionPrompt: {
+    marginTop: 16,
+    width: '100%',
+    alignItems: 'center',
+  },
+  distractionPromptText: {
+    color: C.textSec,
+    fontSize: 13,
+    marginBottom: 8,
+  },
+  reasonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 6,
+  },
+  reasonChip: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: C.surface,
+  },
+  reasonChipText: {
+    color: C.text,
+    fontSize: 12,
+  },
   closeButton: {
     backgroundColor: C.primary,
     borderRadius: 16,
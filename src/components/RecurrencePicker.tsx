@@ -0,0 +1,141 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { C } from '../constants';
+import { recurrenceService } from '../services/RecurrenceService';
+import { RecurrenceRule } from '../types';
+
+type RuleType = RecurrenceRule['type'] | 'none';
+
+const RULE_OPTIONS: { type: RuleType; label: string }[] = [
+  { type: 'none', label: 'Once' },
+  { type: 'daily', label: 'Daily' },
+  { type: 'weekdays', label: 'Weekdays' },
+  { type: 'every_n_days', label: 'Every N days' },
+  { type: 'monthly', label: 'Monthly' },
+  { type: 'after_completion', label: 'After done' },
+];
+
+const MAX_DAYS = 60;
+
+interface RecurrencePickerProps {
+  value: RecurrenceRule | null;
+  onChange: (rule: RecurrenceRule | null) => void;
+  allowNone?: boolean; // Routines always repeat
+}
+
+export function RecurrencePicker({ value, onChange, allowNone = true }: RecurrencePickerProps) {
+  const selected: RuleType = value?.type || 'none';
+  const days = value?.type === 'every_n_days' ? value.interval : value?.type === 'after_completion' ? value.days : null;
+
+  const select = (type: RuleType) => {
+    switch (type) {
+      case 'none':
+        return onChange(null);
+      case 'daily':
+      case 'weekdays':
+        return onChange({ type });
+      case 'every_n_days':
+        return onChange({ type, interval: days ?? 2 });
+      case 'monthly':
+        return onChange({ type, dayOfMonth: new Date().getDate() });
+      case 'after_completion':
+        return onChange({ type, days: days ?? 7 });
+    }
+  };
+
+  const setDays = (next: number) => {
+    const clamped = Math.max(1, Math.min(MAX_DAYS, next));
+    if (value?.type === 'every_n_days') onChange({ ...value, interval: clamped });
+    if (value?.type === 'after_completion') onChange({ ...value, days: clamped });
+  };
+
+  return (
+    <View>
+      <View style={styles.picker}>
+        {RULE_OPTIONS.filter(o => allowNone || o.type !== 'none').map(({ type, label }) => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.option, selected === type && styles.optionActive]}
+            onPress={() => select(type)}
+          >
+            <Text style={[styles.optionText, selected === type && styles.optionTextActive]}>{label}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {days !== null && (
+        <View style={styles.stepper}>
+          <TouchableOpacity style={styles.stepButton} onPress={() => setDays(days - 1)}>
+            <Text style={styles.stepButtonText}>−</Text>
+          </TouchableOpacity>
+          <Text style={styles.stepValue}>{days} {days === 1 ? 'day' : 'days'}</Text>
+          <TouchableOpacity style={styles.stepButton} onPress={() => setDays(days + 1)}>
+            <Text style={styles.stepButtonText}>+</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {value && <Text style={styles.summary}>🔁 {recurrenceService.describe(value)}</Text>}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  picker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 12,
+    backgroundColor: C.surface,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  optionActive: {
+    borderColor: C.primary,
+    backgroundColor: C.primary + '20',
+  },
+  optionText: {
+    color: C.textSec,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  optionTextActive: {
+    color: C.primary,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 10,
+  },
+  stepButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: C.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonText: {
+    color: C.text,
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  stepValue: {
+    color: C.text,
+    fontSize: 14,
+    minWidth: 64,
+    textAlign: 'center',
+  },
+  summary: {
+    color: C.textMuted,
+    fontSize: 12,
+    marginTop: 8,
+  },
+});
+
+export default RecurrencePicker;
@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { C } from '../constants';
+import { recurrenceService } from '../services/RecurrenceService';
+import { RecurrencePicker } from './RecurrencePicker';
+import { RecurrenceRule, Routine } from '../types';
+
+const EMOJI_OPTIONS = ['🌅', '🌙', '🧹', '💊', '🏃', '📚', '🍳', '💼'];
+
+// Starting points so nobody faces an empty form
+const TEMPLATES: { name: string; emoji: string; steps: string[]; recurrence: RecurrenceRule }[] = [
+  {
+    name: 'Morning launch',
+    emoji: '🌅',
+    steps: ['Drink a glass of water', 'Take meds', 'Get dressed', 'Check today\'s calendar', 'Pick the one thing'],
+    recurrence: { type: 'daily' },
+  },
+  {
+    name: 'Evening shutdown',
+    emoji: '🌙',
+    steps: ['Put keys, wallet and phone in one spot', 'Lay out tomorrow\'s clothes', 'Brain dump anything on your mind', 'Screens off'],
+    recurrence: { type: 'daily' },
+  },
+  {
+    name: 'Weekly reset',
+    emoji: '🧹',
+    steps: ['Clear the kitchen counter', 'Laundry in', 'Take out trash', 'Look at next week'],
+    recurrence: { type: 'every_n_days', interval: 7 },
+  },
+];
+
+interface RoutineManagerProps {
+  activeRoutineIds: string[]; // Routines with a live instance already
+  onStart: (routine: Routine) => void;
+  onClose: () => void;
+}
+
+export function RoutineManager({ activeRoutineIds, onStart, onClose }: RoutineManagerProps) {
+  const [routines, setRoutines] = useState<Routine[]>(recurrenceService.getRoutines());
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState('');
+  const [emoji, setEmoji] = useState(EMOJI_OPTIONS[0]);
+  const [stepsText, setStepsText] = useState('');
+  const [recurrence, setRecurrence] = useState<RecurrenceRule>({ type: 'daily' });
+
+  useEffect(() => {
+    recurrenceService.initialize();
+    return recurrenceService.subscribe(r => setRoutines([...r]));
+  }, []);
+
+  const steps = stepsText.split('\n').map(s => s.trim()).filter(Boolean);
+
+  const openForm = (template?: typeof TEMPLATES[number]) => {
+    setName(template?.name || '');
+    setEmoji(template?.emoji || EMOJI_OPTIONS[0]);
+    setStepsText(template?.steps.join('\n') || '');
+    setRecurrence(template?.recurrence || { type: 'daily' });
+    setEditing(true);
+  };
+
+  const saveRoutine = async () => {
+    if (!name.trim() || steps.length === 0) return;
+    const routine = await recurrenceService.createRoutine(name, emoji, steps, recurrence);
+    setEditing(false);
+    onStart(routine);
+  };
+
+  if (editing) {
+    return (
+      <ScrollView style={styles.scroll}>
+        <Text style={styles.title}>New Routine</Text>
+
+        <TextInput
+          style={styles.input}
+          value={name}
+          onChangeText={setName}
+          placeholder="Name, e.g. Morning launch"
+          placeholderTextColor={C.textMuted}
+        />
+
+        <View style={styles.emojiRow}>
+          {EMOJI_OPTIONS.map(e => (
+            <TouchableOpacity key={e} style={[styles.emoji, emoji === e && styles.emojiActive]} onPress={() => setEmoji(e)}>
+              <Text style={styles.emojiText}>{e}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.label}>Steps, one per line</Text>
+        <TextInput
+          style={[styles.input, styles.stepsInput]}
+          value={stepsText}
+          onChangeText={setStepsText}
+          placeholder={'Drink water\nTake meds\nGet dressed'}
+          placeholderTextColor={C.textMuted}
+          multiline
+        />
+
+        <Text style={styles.label}>Repeats</Text>
+        <RecurrencePicker
+          value={recurrence}
+          onChange={(rule) => rule && setRecurrence(rule)}
+          allowNone={false}
+        />
+
+        <TouchableOpacity
+          style={[styles.primaryButton, (!name.trim() || steps.length === 0) && styles.disabled]}
+          onPress={saveRoutine}
+          disabled={!name.trim() || steps.length === 0}
+        >
+          <Text style={styles.primaryButtonText}>Save and add to my tasks</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.linkButton} onPress={() => setEditing(false)}>
+          <Text style={styles.linkText}>Cancel</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    );
+  }
+
+  return (
+    <ScrollView style={styles.scroll}>
+      <Text style={styles.title}>🔁 Routines</Text>
+      <Text style={styles.subtitle}>Checklists that come back on their own. Missed one? It just waits for next time.</Text>
+
+      {routines.map(routine => {
+        const active = activeRoutineIds.includes(routine.id);
+        return (
+          <View key={routine.id} style={styles.routine}>
+            <View style={styles.routineInfo}>
+              <Text style={styles.routineName}>{routine.emoji} {routine.name}</Text>
+              <Text style={styles.routineMeta}>
+                {routine.steps.length} steps · {recurrenceService.describe(routine.recurrence)}
+              </Text>
+            </View>
+            {active ? (
+              <Text style={styles.activeText}>In your tasks</Text>
+            ) : (
+              <TouchableOpacity style={styles.startButton} onPress={() => onStart(routine)}>
+                <Text style={styles.startText}>Add</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity onPress={() => recurrenceService.deleteRoutine(routine.id)}>
+              <Text style={styles.deleteText}>🗑️</Text>
+            </TouchableOpacity>
+          </View>
+        );
+      })}
+
+      {routines.length === 0 && (
+        <>
+          <Text style={styles.label}>Start from a template</Text>
+          {TEMPLATES.map(template => (
+            <TouchableOpacity key={template.name} style={styles.template} onPress={() => openForm(template)}>
+              <Text style={styles.routineName}>{template.emoji} {template.name}</Text>
+              <Text style={styles.routineMeta}>{template.steps.length} steps · {recurrenceService.describe(template.recurrence)}</Text>
+            </TouchableOpacity>
+          ))}
+        </>
+      )}
+
+      <TouchableOpacity style={styles.primaryButton} onPress={() => openForm()}>
+        <Text style={styles.primaryButtonText}>+ New Routine</Text>
+      </TouchableOpacity>
+      <TouchableOpacity style={styles.linkButton} onPress={onClose}>
+        <Text style={styles.linkText}>Done</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    maxHeight: 560,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: C.text,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  subtitle: {
+    fontSize: 13,
+    color: C.textSec,
+    textAlign: 'center',
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: C.textSec,
+    marginTop: 16,
+    marginBottom: 10,
+  },
+  input: {
+    backgroundColor: C.surface,
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 12,
+    color: C.text,
+    fontSize: 15,
+  },
+  stepsInput: {
+    minHeight: 110,
+    textAlignVertical: 'top',
+  },
+  emojiRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 12,
+  },
+  emoji: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: C.surface,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  emojiActive: {
+    borderColor: C.primary,
+  },
+  emojiText: {
+    fontSize: 20,
+  },
+  routine: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: C.border,
+  },
+  routineInfo: {
+    flex: 1,
+  },
+  routineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: C.text,
+  },
+  routineMeta: {
+    fontSize: 12,
+    color: C.textSec,
+    marginTop: 2,
+  },
+  template: {
+    backgroundColor: C.surface,
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  activeText: {
+    fontSize: 12,
+    color: C.teal,
+  },
+  startButton: {
+    backgroundColor: C.primary + '30',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+  },
+  startText: {
+    color: C.primary,
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  deleteText: {
+    fontSize: 16,
+  },
+  primaryButton: {
+    backgroundColor: C.primary,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 20,
+  },
+  primaryButtonText: {
+    color: C.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.5,
+  },
+  linkButton: {
+    alignItems: 'center',
+    paddingTop: 14,
+  },
+  linkText: {
+    color: C.textMuted,
+    fontSize: 14,
+  },
+});
+
+export default RoutineManager;
@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { C } from '../constants';
+import { RoutineStepStats, Task } from '../types';
+
+const TICK_MS = 1000;
+
+interface RoutinePlayerProps {
+  routine: Task; // The routine's parent task
+  steps: Task[]; // Its unfinished steps, in order
+  stepStats: RoutineStepStats[];
+  voiceEnabled: boolean;
+  onSpeak: (text: string) => void;
+  onStepDone: (step: Task, seconds: number, snoozes: number) => void;
+  onStepSkipped: (step: Task, seconds: number, snoozes: number) => void;
+  onFinish: (skippedIds: string[]) => void;
+  onClose: () => void; // Leave mid-routine; unfinished steps stay in the task list
+}
+
+/**
+ * One routine step at a time, with an optional countdown per step.
+ */
+export function RoutinePlayer({
+  routine,
+  steps,
+  stepStats,
+  voiceEnabled,
+  onSpeak,
+  onStepDone,
+  onStepSkipped,
+  onFinish,
+  onClose,
+}: RoutinePlayerProps) {
+  const [queue, setQueue] = useState<Task[]>(steps);
+  const [doneCount, setDoneCount] = useState(0);
+  const [skippedIds, setSkippedIds] = useState<string[]>([]);
+  const [stepStartedAt, setStepStartedAt] = useState(Date.now());
+  const [timerOn, setTimerOn] = useState(true);
+  const [voiceOn, setVoiceOn] = useState(voiceEnabled);
+  const [now, setNow] = useState(Date.now());
+
+  // Time already spent on a step before it was snoozed, and how often it was
+  const spentSeconds = useRef<Record<string, number>>({});
+  const snoozes = useRef<Record<string, number>>({});
+  const timeUpSpoken = useRef<string | null>(null);
+
+  const current = queue[0];
+  const total = doneCount + skippedIds.length + queue.length;
+  const elapsedSeconds = Math.floor((now - stepStartedAt) / 1000);
+  const plannedSeconds = current?.estimatedMinutes ? current.estimatedMinutes * 60 : null;
+  const remainingSeconds = plannedSeconds !== null ? plannedSeconds - elapsedSeconds : null;
+  const stats = current ? stepStats.find(s => s.stepTitle === current.title) : undefined;
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Gentle spoken prompt each time a new step comes up
+  useEffect(() => {
+    if (!current || !voiceOn) return;
+    const prompt = queue.length === 1
+      ? `Last one. ${current.title}.`
+      : doneCount + skippedIds.length === 0
+        ? `Let's start with ${current.title}.`
+        : `Nice. Next up, ${current.title}.`;
+    onSpeak(prompt);
+  }, [current?.id]);
+
+  useEffect(() => {
+    if (!current || !timerOn || !voiceOn || remainingSeconds === null || remainingSeconds > 0) return;
+    if (timeUpSpoken.current === current.id) return;
+    timeUpSpoken.current = current.id;
+    onSpeak(`That's the time for ${current.title}. Wrap up whenever you're ready.`);
+  }, [remainingSeconds !== null && remainingSeconds <= 0, current?.id]);
+
+  const secondsOnStep = (step: Task) => (spentSeconds.current[step.id] || 0) + elapsedSeconds;
+
+  const nextStep = () => {
+    setQueue(prev => prev.slice(1));
+    setStepStartedAt(Date.now());
+    setNow(Date.now());
+  };
+
+  const markDone = () => {
+    if (!current) return;
+    onStepDone(current, secondsOnStep(current), snoozes.current[current.id] || 0);
+    setDoneCount(c => c + 1);
+    nextStep();
+  };
+
+  const skip = () => {
+    if (!current) return;
+    onStepSkipped(current, secondsOnStep(current), snoozes.current[current.id] || 0);
+    setSkippedIds(prev => [...prev, current.id]);
+    nextStep();
+  };
+
+  // Not now - back of the line, keeping the time spent so far
+  const snooze = () => {
+    if (!current || queue.length < 2) return;
+    spentSeconds.current[current.id] = secondsOnStep(current);
+    snoozes.current[current.id] = (snoozes.current[current.id] || 0) + 1;
+    setQueue(prev => [...prev.slice(1), prev[0]]);
+    setStepStartedAt(Date.now());
+    setNow(Date.now());
+  };
+
+  if (!current) {
+    return (
+      <View style={styles.container}>
+        <View style={styles.center}>
+          <Text style={styles.finishEmoji}>🎉</Text>
+          <Text style={styles.finishTitle}>{routine.title} done!</Text>
+          <Text style={styles.finishText}>
+            {doneCount} {doneCount === 1 ? 'step' : 'steps'} done
+            {skippedIds.length > 0 ? ` · ${skippedIds.length} skipped for today` : ''}
+          </Text>
+        </View>
+        <TouchableOpacity style={styles.doneButton} onPress={() => onFinish(skippedIds)}>
+          <Text style={styles.doneButtonText}>Finish</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onClose}>
+          <Text style={styles.headerLink}>Pause</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{routine.title}</Text>
+        <TouchableOpacity onPress={() => setVoiceOn(v => !v)}>
+          <Text style={styles.headerLink}>{voiceOn ? '🔈' : '🔇'}</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.progressTrack}>
+        <View style={[styles.progressFill, { width: `${((total - queue.length) / Math.max(total, 1)) * 100}%` }]} />
+      </View>
+      <Text style={styles.progressText}>Step {total - queue.length + 1} of {total}</Text>
+
+      <View style={styles.center}>
+        <Text style={styles.stepTitle}>{current.title}</Text>
+
+        {timerOn && remainingSeconds !== null ? (
+          <Text style={[styles.timer, remainingSeconds < 0 && styles.timerOver]}>
+            {remainingSeconds >= 0 ? formatSeconds(remainingSeconds) : `+${formatSeconds(-remainingSeconds)}`}
+          </Text>
+        ) : (
+          <Text style={styles.elapsed}>{formatSeconds(elapsedSeconds)}</Text>
+        )}
+
+        {plannedSeconds !== null && (
+          <TouchableOpacity onPress={() => setTimerOn(t => !t)}>
+            <Text style={styles.timerToggle}>{timerOn ? 'Hide countdown' : `⏱️ Count down ${current.estimatedMinutes} min`}</Text>
+          </TouchableOpacity>
+        )}
+
+        {stats && stats.samples >= 3 && (
+          <Text style={styles.hint}>
+            {stats.drags
+              ? `This one tends to take a while - usually about ${Math.max(1, Math.round(stats.medianSeconds / 60))} min`
+              : `Usually about ${Math.max(1, Math.round(stats.medianSeconds / 60))} min`}
+          </Text>
+        )}
+      </View>
+
+      <TouchableOpacity style={styles.doneButton} onPress={markDone}>
+        <Text style={styles.doneButtonText}>✓ Done</Text>
+      </TouchableOpacity>
+      <View style={styles.secondaryRow}>
+        <TouchableOpacity
+          style={[styles.secondaryButton, queue.length < 2 && styles.disabled]}
+          onPress={snooze}
+          disabled={queue.length < 2}
+        >
+          <Text style={styles.secondaryText}>⏰ Later</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={skip}>
+          <Text style={styles.secondaryText}>⏭️ Skip today</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+function formatSeconds(seconds: number): string {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: C.bg,
+    padding: 24,
+    paddingTop: 56,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 12,
+    marginBottom: 16,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '600',
+    color: C.text,
+  },
+  headerLink: {
+    fontSize: 15,
+    color: C.textSec,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: C.surface,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    backgroundColor: C.teal,
+  },
+  progressText: {
+    fontSize: 12,
+    color: C.textMuted,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  center: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepTitle: {
+    fontSize: 30,
+    fontWeight: '700',
+    color: C.text,
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  timer: {
+    fontSize: 56,
+    fontWeight: '200',
+    color: C.primary,
+    fontVariant: ['tabular-nums'],
+  },
+  timerOver: {
+    color: C.textMuted,
+  },
+  elapsed: {
+    fontSize: 24,
+    color: C.textMuted,
+    fontVariant: ['tabular-nums'],
+  },
+  timerToggle: {
+    fontSize: 13,
+    color: C.textSec,
+    marginTop: 12,
+  },
+  hint: {
+    fontSize: 13,
+    color: C.textMuted,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  finishEmoji: {
+    fontSize: 64,
+    marginBottom: 16,
+  },
+  finishTitle: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: C.text,
+    textAlign: 'center',
+  },
+  finishText: {
+    fontSize: 15,
+    color: C.textSec,
+    marginTop: 8,
+  },
+  doneButton: {
+    backgroundColor: C.primary,
+    borderRadius: 20,
+    padding: 20,
+    alignItems: 'center',
+  },
+  doneButtonText: {
+    color: C.text,
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  secondaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 12,
+  },
+  secondaryButton: {
+    flex: 1,
+    backgroundColor: C.surface,
+    borderRadius: 16,
+    padding: 14,
+    alignItems: 'center',
+  },
+  secondaryText: {
+    color: C.textSec,
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
+
+export default RoutinePlayer;
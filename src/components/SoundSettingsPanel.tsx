@@ -0,0 +1,223 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  ScrollView,
+} from 'react-native';
+import { C } from '../constants';
+import { FocusTimerService } from '../services/FocusTimerService';
+import { soundscapeService, SOUNDSCAPE_OPTIONS, CHIME_OPTIONS } from '../services/SoundscapeService';
+import { ChimeEvent, MuteSchedule, SoundSettings } from '../types';
+
+const VOLUME_OPTIONS = [0.25, 0.5, 0.75, 1];
+const BREAK_VOLUME_OPTIONS: { volume: number; label: string }[] = [
+  { volume: 0, label: 'Silent' },
+  { volume: 0.1, label: 'Whisper' },
+  { volume: 0.25, label: 'Soft' },
+];
+
+const CHIME_EVENTS: { event: ChimeEvent; label: string }[] = [
+  { event: 'session_end', label: 'Focus block ends' },
+  { event: 'break_end', label: 'Break ends' },
+  { event: 'check_in', label: 'Check-ins' },
+];
+
+const QUIET_HOUR_PRESETS: MuteSchedule[] = [
+  { id: 'nights', label: '🌙 Nights 10pm-7am', startHour: 22, endHour: 7 },
+  { id: 'mornings', label: '🌅 Early mornings 6-9am', startHour: 6, endHour: 9 },
+  { id: 'work', label: '💼 Weekdays 9am-5pm', startHour: 9, endHour: 17, days: [1, 2, 3, 4, 5] },
+];
+
+interface SoundSettingsPanelProps {
+  timer: FocusTimerService;
+  onClose: () => void;
+}
+
+export function SoundSettingsPanel({ timer, onClose }: SoundSettingsPanelProps) {
+  const [settings, setSettings] = useState<SoundSettings>(soundscapeService.getSettings());
+  const [playSound, setPlaySound] = useState(timer.getSettings().playSound);
+
+  useEffect(() => soundscapeService.subscribe(setSettings), []);
+
+  const toggleSounds = (enabled: boolean) => {
+    timer.setSettings({ playSound: enabled });
+    setPlaySound(enabled);
+    soundscapeService.sync();
+  };
+
+  const toggleQuietHours = (preset: MuteSchedule) => {
+    const active = settings.muteSchedules.some(s => s.id === preset.id);
+    soundscapeService.updateSettings({
+      muteSchedules: active
+        ? settings.muteSchedules.filter(s => s.id !== preset.id)
+        : [...settings.muteSchedules, preset],
+    });
+  };
+
+  const renderOption = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.option, selected && styles.optionActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.optionText, selected && styles.optionTextActive]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <ScrollView style={styles.scroll}>
+      <Text style={styles.title}>Sounds</Text>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Timer Sounds</Text>
+        <View style={styles.picker}>
+          {renderOption('on', '🔊 On', playSound, () => toggleSounds(true))}
+          {renderOption('off', '🔇 Off', !playSound, () => toggleSounds(false))}
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Soundscape While Focusing</Text>
+        <View style={styles.picker}>
+          {SOUNDSCAPE_OPTIONS.map(({ id, label }) =>
+            renderOption(id, label, settings.soundscape === id, () => soundscapeService.updateSettings({ soundscape: id }))
+          )}
+        </View>
+      </View>
+
+      {settings.soundscape !== 'off' && (
+        <>
+          <View style={styles.row}>
+            <Text style={styles.label}>Soundscape Volume</Text>
+            <View style={styles.picker}>
+              {VOLUME_OPTIONS.map((volume) =>
+                renderOption(String(volume), `${volume * 100}%`, settings.soundscapeVolume === volume, () =>
+                  soundscapeService.updateSettings({ soundscapeVolume: volume })
+                )
+              )}
+            </View>
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.label}>During Breaks</Text>
+            <View style={styles.picker}>
+              {BREAK_VOLUME_OPTIONS.map(({ volume, label }) =>
+                renderOption(String(volume), label, settings.breakVolume === volume, () =>
+                  soundscapeService.updateSettings({ breakVolume: volume })
+                )
+              )}
+            </View>
+          </View>
+        </>
+      )}
+
+      {CHIME_EVENTS.map(({ event, label }) => (
+        <View key={event} style={styles.row}>
+          <Text style={styles.label}>{label}</Text>
+          <View style={styles.picker}>
+            {CHIME_OPTIONS.map(({ id, label: chimeLabel }) =>
+              renderOption(id, chimeLabel, settings.chimes[event] === id, () => {
+                soundscapeService.updateSettings({ chimes: { ...settings.chimes, [event]: id } });
+                soundscapeService.previewChime(id);
+              })
+            )}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Chime Volume</Text>
+        <View style={styles.picker}>
+          {VOLUME_OPTIONS.map((volume) =>
+            renderOption(String(volume), `${volume * 100}%`, settings.chimeVolume === volume, () =>
+              soundscapeService.updateSettings({ chimeVolume: volume })
+            )
+          )}
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Quiet Hours</Text>
+        <View style={styles.picker}>
+          {QUIET_HOUR_PRESETS.map((preset) =>
+            renderOption(preset.id, preset.label, settings.muteSchedules.some(s => s.id === preset.id), () =>
+              toggleQuietHours(preset)
+            )
+          )}
+        </View>
+        <Text style={styles.hint}>No soundscape or chimes during these times</Text>
+      </View>
+
+      <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+        <Text style={styles.closeButtonText}>Done</Text>
+      </TouchableOpacity>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  scroll: {
+    maxHeight: 560,
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '700',
+    color: C.text,
+    marginBottom: 24,
+    textAlign: 'center',
+  },
+  row: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: C.textSec,
+    marginBottom: 10,
+  },
+  picker: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  option: {
+    paddingVertical: 10,
+    paddingHorizontal: 14,
+    borderRadius: 12,
+    backgroundColor: C.surface,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  optionActive: {
+    borderColor: C.primary,
+    backgroundColor: C.primary + '20',
+  },
+  optionText: {
+    color: C.textSec,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  optionTextActive: {
+    color: C.primary,
+  },
+  hint: {
+    fontSize: 12,
+    color: C.textMuted,
+    marginTop: 8,
+  },
+  closeButton: {
+    backgroundColor: C.primary,
+    borderRadius: 16,
+    padding: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  closeButtonText: {
+    color: C.text,
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SoundSettingsPanel;
@@ -0,0 +1,214 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { C } from '../constants';
+import type { TransitionItem } from '../services/PushNotificationService';
+
+const DISK_SIZE = 160;
+const DISK_MINUTES = 60; // One full disk, like a Time Timer face
+const BAR_WINDOW_MINUTES = 240; // Bars shrink over the last four hours
+const MAX_BARS = 5;
+const TICK_MS = 15 * 1000;
+
+interface TimeUntilViewProps {
+  items: TransitionItem[]; // Upcoming events and scheduled tasks
+  warningMinutes: number[]; // Offsets that trigger transition warnings
+}
+
+/**
+ * Time-blindness view: how much time is left, shown as space that shrinks
+ * instead of a number to compute.
+ */
+export function TimeUntilView({ items, warningMinutes }: TimeUntilViewProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), TICK_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const upcoming = items
+    .filter(item => item.start.getTime() > now)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  if (upcoming.length === 0) {
+    return (
+      <View style={styles.empty}>
+        <Text style={styles.emptyText}>Nothing scheduled coming up - the rest of today is open ✨</Text>
+      </View>
+    );
+  }
+
+  const minutesUntil = (item: TransitionItem) => Math.ceil((item.start.getTime() - now) / 60000);
+  const urgencyColor = (minutes: number) => {
+    const sorted = [...warningMinutes].sort((a, b) => a - b);
+    if (sorted.length > 0 && minutes <= sorted[0]) return C.error;
+    if (sorted.length > 0 && minutes <= sorted[sorted.length - 1]) return C.warning;
+    return C.primary;
+  };
+
+  const next = upcoming[0];
+  const nextMinutes = minutesUntil(next);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.diskRow}>
+        <TimeTimerDisk minutes={nextMinutes} color={urgencyColor(nextMinutes)} />
+        <View style={styles.diskInfo}>
+          <Text style={styles.nextLabel}>{next.kind === 'event' ? '📅 Next up' : '✅ Next task'}</Text>
+          <Text style={styles.nextTitle} numberOfLines={2}>{next.title}</Text>
+          <Text style={[styles.nextTime, { color: urgencyColor(nextMinutes) }]}>{formatUntil(nextMinutes)}</Text>
+          <Text style={styles.nextAt}>at {next.start.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}</Text>
+        </View>
+      </View>
+
+      {upcoming.slice(1, MAX_BARS + 1).map(item => {
+        const minutes = minutesUntil(item);
+        const width = Math.max(Math.min(minutes / BAR_WINDOW_MINUTES, 1), 0.02) * 100;
+        return (
+          <View key={item.key} style={styles.barRow}>
+            <View style={styles.barLabels}>
+              <Text style={styles.barTitle} numberOfLines={1}>
+                {item.kind === 'event' ? '📅' : '✅'} {item.title}
+              </Text>
+              <Text style={styles.barTime}>{formatUntil(minutes)}</Text>
+            </View>
+            <View style={styles.barTrack}>
+              <View style={[styles.barFill, { width: `${width}%`, backgroundColor: urgencyColor(minutes) }]} />
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+/**
+ * A colored sector that shrinks toward 12 o'clock as time runs out. Built from
+ * two rotating half-disks, each clipped to one side, so no SVG is needed.
+ */
+export function TimeTimerDisk({ minutes, color, size = DISK_SIZE }: { minutes: number; color: string; size?: number }) {
+  const degrees = Math.max(0, Math.min(minutes / DISK_MINUTES, 1)) * 360;
+  const half = size / 2;
+
+  return (
+    <View style={[styles.disk, { width: size, height: size, borderRadius: half }]}>
+      {/* 12 to 6 o'clock */}
+      <View style={[styles.clip, { left: half, width: half, height: size }]}>
+        <View style={{ position: 'absolute', left: -half, width: size, height: size, transform: [{ rotate: `${Math.min(degrees, 180)}deg` }] }}>
+          <View style={{ width: half, height: size, borderTopLeftRadius: half, borderBottomLeftRadius: half, backgroundColor: color }} />
+        </View>
+      </View>
+      {/* 6 to 12 o'clock */}
+      {degrees > 180 && (
+        <View style={[styles.clip, { left: 0, width: half, height: size }]}>
+          <View style={{ position: 'absolute', left: 0, width: size, height: size, transform: [{ rotate: `${degrees - 180}deg` }] }}>
+            <View style={{ position: 'absolute', left: half, width: half, height: size, borderTopRightRadius: half, borderBottomRightRadius: half, backgroundColor: color }} />
+          </View>
+        </View>
+      )}
+      <View style={[styles.hub, { left: half - 6, top: half - 6 }]} />
+    </View>
+  );
+}
+
+function formatUntil(minutes: number): string {
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `in ${hours}h ${rest}m` : `in ${hours}h`;
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: C.card,
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+  },
+  empty: {
+    backgroundColor: C.card,
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 12,
+  },
+  emptyText: {
+    color: C.textSec,
+    fontSize: 14,
+    textAlign: 'center',
+  },
+  diskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 8,
+  },
+  disk: {
+    backgroundColor: C.border,
+    overflow: 'hidden',
+  },
+  clip: {
+    position: 'absolute',
+    top: 0,
+    overflow: 'hidden',
+  },
+  hub: {
+    position: 'absolute',
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: C.bg,
+  },
+  diskInfo: {
+    flex: 1,
+  },
+  nextLabel: {
+    fontSize: 12,
+    color: C.textMuted,
+    marginBottom: 4,
+  },
+  nextTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: C.text,
+    marginBottom: 6,
+  },
+  nextTime: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  nextAt: {
+    fontSize: 12,
+    color: C.textSec,
+    marginTop: 2,
+  },
+  barRow: {
+    marginTop: 12,
+  },
+  barLabels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 4,
+    gap: 8,
+  },
+  barTitle: {
+    flex: 1,
+    fontSize: 13,
+    color: C.text,
+  },
+  barTime: {
+    fontSize: 12,
+    color: C.textSec,
+  },
+  barTrack: {
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: C.border,
+    overflow: 'hidden',
+  },
+  barFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
+});
+
+export default TimeUntilView;
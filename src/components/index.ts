@@ -1,5 +1,12 @@
 // ============ COMPONENT EXPORTS ============
 export { FocusTimer } from './FocusTimer';
+export { FocusRoom } from './FocusRoom';
+export { SoundSettingsPanel } from './SoundSettingsPanel';
+export { TimeUntilView } from './TimeUntilView';
+export { RecurrencePicker } from './RecurrencePicker';
+export { RoutineManager } from './RoutineManager';
+export { RoutinePlayer } from './RoutinePlayer';
 export { MoodTracker } from './MoodTracker';
 export { TaskSuggestions } from './TaskSuggestions';
 export { ProactiveCheckInCard } from './ProactiveCheckInCard';
+export { DayPlanner } from './DayPlanner';
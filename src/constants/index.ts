@@ -1,4 +1,4 @@
-import { Achievement, FocusTimerSettings, NotificationStyle, Personality } from '../types';
+import { Achievement, FocusTimerSettings, NotificationStyle, Personality, SchedulingPreferences, SoundSettings, TravelSettings } from '../types';
 
 // ============ COLORS ============
 export const C = {
@@ -197,6 +197,7 @@ export const PROACTIVE_CHECKIN_MESSAGES = {
 
 // ============ FOCUS TIMER DEFAULTS ============
 export const DEFAULT_FOCUS_TIMER_SETTINGS: FocusTimerSettings = {
+  mode: 'pomodoro',
   focusDuration: 25,
   shortBreakDuration: 5,
   longBreakDuration: 15,
@@ -204,6 +205,40 @@ export const DEFAULT_FOCUS_TIMER_SETTINGS: FocusTimerSettings = {
   autoStartBreaks: false,
   autoStartNextPomodoro: false,
   playSound: true,
+  flowtimeBreakRatio: 5,
+  hyperfocusCeilingMinutes: 90,
+};
+
+// ============ SOUND DEFAULTS ============
+export const DEFAULT_SOUND_SETTINGS: SoundSettings = {
+  soundscape: 'off',
+  soundscapeVolume: 0.5,
+  breakVolume: 0.1,
+  chimeVolume: 0.8,
+  chimes: {
+    session_end: 'bell',
+    break_end: 'bright',
+    check_in: 'soft',
+  },
+  muteSchedules: [],
+};
+
+// ============ SCHEDULING DEFAULTS ============
+const NINE_TO_SIX = { start: 9 * 60, end: 18 * 60 };
+
+export const DEFAULT_SCHEDULING_PREFERENCES: SchedulingPreferences = {
+  workingHours: [NINE_TO_SIX, NINE_TO_SIX, NINE_TO_SIX, NINE_TO_SIX, NINE_TO_SIX, NINE_TO_SIX, NINE_TO_SIX],
+  bufferMinutes: 10,
+  searchDays: 7,
+};
+
+// ============ TRAVEL DEFAULTS ============
+export const DEFAULT_TRAVEL_SETTINGS: TravelSettings = {
+  places: [],
+  defaultTravelMinutes: 30,
+  defaultMode: 'drive',
+  gettingReadyMinutes: 15,
+  readySamples: [],
 };
 
 // ============ MOOD MESSAGES ============
@@ -1,37 +1,40 @@
 // Supabase Data Sync Hook for UnFocused
 // Handles bidirectional sync between local state and Supabase
+// Failed writes go to the offline outbox and replay when we're back online
+// Edits are merged per field so two devices can't silently overwrite each other
+// Changes made on other devices stream in live via Supabase Realtime
+// Nero's learned memories sync on sign-in and whenever they change
 
-import { useCallback, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { 
   supabase, 
   TasksAPI, 
   FocusSessionsAPI, 
   EnergyLogsAPI,
-  type Task as SupabaseTask,
   type FocusSession as SupabaseFocusSession,
   type EnergyLog as SupabaseEnergyLog,
 } from '../services/supabase';
-
-// Local task type from App.tsx
-interface LocalTask {
-  id: string;
-  title: string;
-  energy: 'low' | 'medium' | 'high';
-  completed: boolean;
-  isMicroStep: boolean;
-  parentId?: string;
-  createdAt: string;
-  completedAt?: string;
-  dueDate?: string;
-  scheduledTime?: string;
-  synced?: boolean;
-  completionTimeMs?: number;
-  calendarEventId?: string;
-}
+import { offlineQueueService, type QueueStatus } from '../services/OfflineQueueService';
+import {
+  conflictResolutionService,
+  type FieldVersions,
+  type TaskConflict,
+} from '../services/ConflictResolutionService';
+import { taskToRow, rowToTask, taskUpdatesToRow, isServerId } from '../services/taskSchema';
+import { realtimeSyncService, type RealtimeStatus } from '../services/RealtimeSyncService';
+import { neroMemoryService } from '../services/NeroMemoryService';
+import { genId } from '../constants';
+import type { Task } from '../types';
 
 interface SyncHookOptions {
   userId: string | null;
-  onTasksLoaded?: (tasks: LocalTask[]) => void;
+  onTasksLoaded?: (tasks: Task[]) => void;
+  onTaskIdSynced?: (localId: string, serverId: string) => void;
+  // Live changes from other devices
+  onRemoteTaskUpsert?: (task: Task) => void;
+  onRemoteTaskDelete?: (taskId: string) => void;
+  onRemoteFocusSession?: (session: SupabaseFocusSession) => void;
+  onRemoteEnergyLog?: (energy: 'low' | 'medium' | 'high', loggedAt: string, mood?: string) => void;
 }
 
 // Convert energy level to number (1-10)
@@ -51,35 +54,71 @@ const numberToEnergy = (num: number): 'low' | 'medium' | 'high' => {
   return 'high';
 };
 
-// Convert local task to Supabase format
-const toSupabaseTask = (task: LocalTask, userId: string): Omit<SupabaseTask, 'id'> => ({
-  user_id: userId,
-  title: task.title,
-  description: task.isMicroStep && task.parentId ? `Micro-step of ${task.parentId}` : undefined,
-  completed: task.completed,
-  completed_at: task.completedAt,
-  estimated_minutes: task.completionTimeMs ? Math.round(task.completionTimeMs / 60000) : undefined,
-  priority: task.energy === 'high' ? 3 : task.energy === 'medium' ? 2 : 1,
-  tags: [task.energy, task.isMicroStep ? 'micro-step' : 'main-task'],
-});
-
-// Convert Supabase task to local format
-const toLocalTask = (task: SupabaseTask): LocalTask => ({
-  id: task.id || `supabase-${Date.now()}`,
-  title: task.title,
-  energy: task.priority >= 3 ? 'high' : task.priority >= 2 ? 'medium' : 'low',
-  completed: task.completed,
-  isMicroStep: task.tags?.includes('micro-step') || false,
-  createdAt: new Date().toISOString(),
-  completedAt: task.completed_at,
-  synced: true,
-});
-
-export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
+export function useSupabaseSync(options: SyncHookOptions) {
+  const { userId, onTasksLoaded, onTaskIdSynced } = options;
   const syncInProgress = useRef(false);
+  const [queueStatus, setQueueStatus] = useState<QueueStatus>(offlineQueueService.getStatus());
+  const [conflicts, setConflicts] = useState<TaskConflict[]>(conflictResolutionService.getConflictLog());
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>(realtimeSyncService.getStatus());
+  const onTaskIdSyncedRef = useRef(onTaskIdSynced);
+  onTaskIdSyncedRef.current = onTaskIdSynced;
+  // Latest callbacks, so the realtime channel doesn't resubscribe on every render
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Keep the signed-in user's conflict log in state so settings can show it
+  useEffect(() => {
+    if (userId) conflictResolutionService.initialize(userId);
+  }, [userId]);
+
+  useEffect(() => conflictResolutionService.subscribe(log => setConflicts([...log])), []);
+
+  // Bring Nero's memory in line with the user's other devices
+  useEffect(() => {
+    if (!userId) return;
+    neroMemoryService.syncWithCloud(userId);
+    return () => neroMemoryService.stopSync();
+  }, [userId]);
+
+  // Replay the offline outbox while signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    let stopAutoReplay: (() => void) | null = null;
+    let cancelled = false;
+    const unsubscribeStatus = offlineQueueService.subscribe(setQueueStatus);
+    const unsubscribeIds = offlineQueueService.onIdRemapped((entity, localId, serverId) => {
+      if (entity === 'task') onTaskIdSyncedRef.current?.(localId, serverId);
+    });
+
+    offlineQueueService.initialize(userId).then(() => {
+      if (!cancelled) stopAutoReplay = offlineQueueService.startAutoReplay();
+    });
+
+    return () => {
+      cancelled = true;
+      unsubscribeStatus();
+      unsubscribeIds();
+      stopAutoReplay?.();
+    };
+  }, [userId]);
+
+  // Stream changes from other devices while signed in
+  useEffect(() => {
+    if (!userId) return;
+
+    return realtimeSyncService.subscribe(userId, {
+      onTaskUpsert: task => optionsRef.current.onRemoteTaskUpsert?.(rowToTask(task)),
+      onTaskDelete: taskId => optionsRef.current.onRemoteTaskDelete?.(taskId),
+      onFocusSessionUpsert: session => optionsRef.current.onRemoteFocusSession?.(session),
+      onEnergyLogInsert: log =>
+        optionsRef.current.onRemoteEnergyLog?.(numberToEnergy(log.energy_level), log.logged_at, log.mood),
+      onStatusChange: setRealtimeStatus,
+    });
+  }, [userId]);
 
   // Load tasks from Supabase
-  const loadTasks = useCallback(async (): Promise<LocalTask[]> => {
+  const loadTasks = useCallback(async (): Promise<Task[]> => {
     if (!userId) return [];
     
     try {
@@ -88,7 +127,7 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
         TasksAPI.getCompleted(userId, 10),
       ]);
       
-      const localTasks = [...incomplete, ...completed].map(toLocalTask);
+      const localTasks = [...incomplete, ...completed].map(rowToTask);
       onTasksLoaded?.(localTasks);
       return localTasks;
     } catch (error) {
@@ -98,52 +137,79 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
   }, [userId, onTasksLoaded]);
 
   // Create a new task
-  const createTask = useCallback(async (task: LocalTask): Promise<LocalTask | null> => {
+  const createTask = useCallback(async (task: Task): Promise<Task | null> => {
     if (!userId) {
       // Return task with synced=false for offline use
       return { ...task, synced: false };
     }
 
+    // Parent may still be on its way to the server
+    const parentId = task.parentId ? offlineQueueService.resolveId(task.parentId) : undefined;
+    const parentPending = !!parentId && !isServerId(parentId);
+    const row = taskToRow({ ...task, parentId }, userId);
+
     try {
-      const created = await TasksAPI.create(toSupabaseTask(task, userId));
-      if (created) {
-        return { ...task, id: created.id || task.id, synced: true };
+      const created = await TasksAPI.create(row);
+      if (created?.id) {
+        await offlineQueueService.registerId('task', task.id, created.id);
+        if (parentPending) await offlineQueueService.linkWhenCreated(created.id, task.parentId!);
+        return { ...task, id: created.id, synced: true };
       }
-      return { ...task, synced: false };
     } catch (error) {
       console.error('Error creating task in Supabase:', error);
-      return { ...task, synced: false };
     }
+
+    await offlineQueueService.enqueue(task.id, {
+      entity: 'task',
+      op: 'create',
+      payload: { ...row, parent_local_id: parentPending ? task.parentId : undefined },
+    });
+    return { ...task, synced: false };
   }, [userId]);
 
   // Complete a task
-  const completeTask = useCallback(async (taskId: string): Promise<boolean> => {
+  const completeTask = useCallback(async (
+    taskId: string,
+    completedAt: string = new Date().toISOString()
+  ): Promise<boolean> => {
     if (!userId) return true; // Local only, mark as success
 
     try {
-      return await TasksAPI.complete(taskId);
+      if (await TasksAPI.complete(offlineQueueService.resolveId(taskId), completedAt)) return true;
     } catch (error) {
       console.error('Error completing task in Supabase:', error);
-      return false;
     }
+
+    await offlineQueueService.enqueue(taskId, { entity: 'task', op: 'complete', payload: { completed_at: completedAt } });
+    return false;
   }, [userId]);
 
-  // Update a task
-  const updateTask = useCallback(async (taskId: string, updates: Partial<LocalTask>): Promise<boolean> => {
+  // Update a task - only the fields being edited, stamped with when they were edited
+  const updateTask = useCallback(async (
+    taskId: string,
+    updates: Partial<Task>,
+    editedAt: string = new Date().toISOString()
+  ): Promise<boolean> => {
     if (!userId) return true;
 
+    const supabaseUpdates = taskUpdatesToRow(updates);
+
+    const versions: FieldVersions = {};
+    Object.keys(supabaseUpdates).forEach(column => { versions[column] = editedAt; });
+
     try {
-      const supabaseUpdates: Partial<SupabaseTask> = {
-        title: updates.title,
-        completed: updates.completed,
-        completed_at: updates.completedAt,
-        priority: updates.energy === 'high' ? 3 : updates.energy === 'medium' ? 2 : 1,
-      };
-      return await TasksAPI.update(taskId, supabaseUpdates);
+      const resolvedId = offlineQueueService.resolveId(taskId);
+      if (await conflictResolutionService.writeWithMerge(resolvedId, supabaseUpdates, versions)) return true;
     } catch (error) {
       console.error('Error updating task in Supabase:', error);
-      return false;
     }
+
+    await offlineQueueService.enqueue(taskId, {
+      entity: 'task',
+      op: 'update',
+      payload: { ...supabaseUpdates, field_versions: versions },
+    });
+    return false;
   }, [userId]);
 
   // Delete a task
@@ -151,40 +217,73 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
     if (!userId) return true;
 
     try {
-      return await TasksAPI.delete(taskId);
+      if (await TasksAPI.delete(offlineQueueService.resolveId(taskId))) return true;
     } catch (error) {
       console.error('Error deleting task in Supabase:', error);
-      return false;
     }
+
+    await offlineQueueService.enqueue(taskId, { entity: 'task', op: 'delete' });
+    return false;
   }, [userId]);
 
-  // Log a focus session
+  // Log a focus session. Called again as it goes on (each finished block, then stop),
+  // a session keeps one row that's updated with the latest numbers.
   const logFocusSession = useCallback(async (
+    sessionId: string,
     startedAt: Date,
     endedAt: Date,
     taskId?: string,
-    notes?: string
+    notes?: string,
+    stats?: { focusScore?: number; distractions?: number }
   ): Promise<boolean> => {
     if (!userId) return true;
 
-    try {
-      const durationMinutes = Math.round((endedAt.getTime() - startedAt.getTime()) / 60000);
-      
-      const session = await FocusSessionsAPI.create({
-        user_id: userId,
-        started_at: startedAt.toISOString(),
-        ended_at: endedAt.toISOString(),
-        duration_minutes: durationMinutes,
-        task_id: taskId,
-        notes: notes,
-        completed: true,
-      });
-      
-      return session !== null;
-    } catch (error) {
-      console.error('Error logging focus session:', error);
+    const durationMinutes = Math.round((endedAt.getTime() - startedAt.getTime()) / 60000);
+    // A task created offline has no server ID yet - the outbox links it once the task's create replays
+    const serverTaskId = taskId ? offlineQueueService.resolveId(taskId) : undefined;
+    const taskPending = !!serverTaskId && !isServerId(serverTaskId);
+    const row: Omit<SupabaseFocusSession, 'id'> = {
+      user_id: userId,
+      started_at: startedAt.toISOString(),
+      ended_at: endedAt.toISOString(),
+      duration_minutes: durationMinutes,
+      task_id: taskPending ? undefined : serverTaskId,
+      notes: notes,
+      completed: true,
+      focus_score: stats?.focusScore,
+      distractions: stats?.distractions,
+    };
+    const taskLink = { task_local_id: taskPending ? taskId : undefined };
+
+    const serverId = offlineQueueService.resolveId(sessionId);
+    const logged = isServerId(serverId) || offlineQueueService.hasPending('focus_session', sessionId);
+    if (logged) {
+      try {
+        if (isServerId(serverId) && !taskPending && await FocusSessionsAPI.update(serverId, row)) return true;
+      } catch (error) {
+        console.error('Error updating focus session:', error);
+      }
+
+      await offlineQueueService.enqueue(sessionId, { entity: 'focus_session', op: 'update', payload: { ...row, ...taskLink } });
       return false;
     }
+
+    realtimeSyncService.expectEcho('focus_session', row.started_at);
+
+    if (!taskPending) {
+      try {
+        const session = await FocusSessionsAPI.create(row);
+        if (session?.id) {
+          await offlineQueueService.registerId('focus_session', sessionId, session.id);
+          return true;
+        }
+      } catch (error) {
+        console.error('Error logging focus session:', error);
+      }
+    }
+
+    await offlineQueueService.enqueue(sessionId, { entity: 'focus_session', op: 'create', payload: { ...row, ...taskLink } });
+    return false;
   }, [userId]);
 
   // Get recent focus sessions
@@ -207,20 +306,24 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
   ): Promise<boolean> => {
     if (!userId) return true;
 
+    const row: Omit<SupabaseEnergyLog, 'id'> = {
+      user_id: userId,
+      logged_at: new Date().toISOString(),
+      energy_level: energyToNumber(energyLevel),
+      mood: mood,
+      notes: notes,
+    };
+    realtimeSyncService.expectEcho('energy_log', row.logged_at);
+
     try {
-      const log = await EnergyLogsAPI.create({
-        user_id: userId,
-        logged_at: new Date().toISOString(),
-        energy_level: energyToNumber(energyLevel),
-        mood: mood,
-        notes: notes,
-      });
-      
-      return log !== null;
+      const log = await EnergyLogsAPI.create(row);
+      if (log !== null) return true;
     } catch (error) {
       console.error('Error logging energy:', error);
-      return false;
     }
+
+    await offlineQueueService.enqueue(genId(), { entity: 'energy_log', op: 'create', payload: row });
+    return false;
   }, [userId]);
 
   // Get recent energy logs
@@ -236,7 +339,7 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
   }, [userId]);
 
   // Sync unsynced local tasks to Supabase
-  const syncLocalTasks = useCallback(async (localTasks: LocalTask[]): Promise<LocalTask[]> => {
+  const syncTasks = useCallback(async (localTasks: Task[]): Promise<Task[]> => {
     if (!userId || syncInProgress.current) return localTasks;
     
     syncInProgress.current = true;
@@ -245,7 +348,8 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
     try {
       for (let i = 0; i < updatedTasks.length; i++) {
         const task = updatedTasks[i];
-        if (!task.synced) {
+        // Tasks already sitting in the outbox will be replayed from there
+        if (!task.synced && !offlineQueueService.hasPending('task', task.id)) {
           const synced = await createTask(task);
           if (synced) {
             updatedTasks[i] = synced;
@@ -261,6 +365,21 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
     return updatedTasks;
   }, [userId, createTask]);
 
+  // Push queued offline writes now, skipping any backoff. Writes parked
+  // after too many failures get another go too.
+  const flushPending = useCallback(async (): Promise<number> => {
+    if (!userId) return 0;
+    if (offlineQueueService.getStatus().failed > 0) await offlineQueueService.requeueFailed();
+    return offlineQueueService.retryNow();
+  }, [userId]);
+
+  // Sign-out: set this account's queued writes aside until it signs back in,
+  // and drop its conflict log
+  const resetForSignOut = useCallback(() => {
+    offlineQueueService.suspend();
+    conflictResolutionService.reset();
+  }, []);
+
   return {
     // Task operations
     loadTasks,
@@ -268,7 +387,7 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
     completeTask,
     updateTask,
     deleteTask,
-    syncLocalTasks,
+    syncTasks,
     
     // Focus session operations
     logFocusSession,
@@ -277,6 +396,20 @@ export function useSupabaseSync({ userId, onTasksLoaded }: SyncHookOptions) {
     // Energy operations
     logEnergy,
     getEnergyLogs,
+
+    // Offline outbox
+    pendingCount: queueStatus.pending,
+    failedCount: queueStatus.failed,
+    isReplaying: queueStatus.isReplaying,
+    flushPending,
+    resetForSignOut,
+
+    // Realtime
+    realtimeStatus,
+
+    // Conflict log
+    conflicts,
+    clearConflicts: () => conflictResolutionService.clearConflictLog(),
   };
 }
 
@@ -0,0 +1,1037 @@
+/**
+ * CalendarProviderService - One interface for whichever calendar the user keeps
+ *
+ * The timeline, free-slot search and task scheduling only talk to a
+ * `CalendarProvider`, so they work the same whether events live in Google,
+ * on a CalDAV server (iCloud, Fastmail, Nextcloud...) or in a published feed.
+ *
+ * Features:
+ * - Google Calendar REST API (OAuth tokens from the sign-in flow)
+ * - CalDAV with an app password - read, create and delete events
+ * - Read-only ICS / webcal subscription URLs
+ * - Local calendar file on the device, for tests and trying things out
+ * - Change sync (Google sync tokens, CalDAV sync-collection) so edits made in
+ *   the calendar app find their way back to linked tasks
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { C, genId } from '../constants';
+import {
+  expandEvents,
+  getEventTimes,
+  ICalEvent,
+  ICalInstance,
+  parseEvents,
+  parseMultistatus,
+  parseSyncToken,
+  retitleEvents,
+  serializeEvent,
+  splitEvents,
+  wrapCalendar,
+} from './icalendar';
+import {
+  BusyPeriod,
+  CalendarChanges,
+  CalendarEvent,
+  CalendarEventChange,
+  CalendarEventDraft,
+  CalendarInfo,
+  CalendarProviderType,
+  CalendarSettings,
+  EnergyLevel,
+} from '../types';
+
+const STORAGE_KEY = 'nero_calendar_settings';
+const LOCAL_CALENDAR_KEY = 'nero_local_calendar';
+const LOCAL_CALENDAR_FILE = 'unfocused-calendar.ics';
+const FEED_CACHE_MS = 5 * 60 * 1000;
+const TOKEN_REFRESH_MARGIN_MS = 60 * 1000;
+const GOOGLE_API = 'https://www.googleapis.com/calendar/v3';
+const GOOGLE_PAGE_SIZE = 250;
+const GOOGLE_DONE_COLOR_ID = '8'; // Graphite
+const DONE_COLOR = 'gray'; // CSS color name, as RFC 7986 COLOR expects
+
+export const DONE_PREFIX = '✓ ';
+
+export interface CalendarProvider {
+  type: CalendarProviderType;
+  readOnly: boolean;
+  isConnected(): boolean;
+  // Throws with a readable message if the calendar can't be reached
+  testConnection(): Promise<void>;
+  getEvents(timeMin: Date, timeMax: Date): Promise<CalendarEvent[]>;
+  listCalendars(): Promise<CalendarInfo[]>;
+  // Busy time across `calendarIds`, or the main calendar if none are given
+  getBusy(timeMin: Date, timeMax: Date, calendarIds?: string[]): Promise<BusyPeriod[]>;
+  createEvent(draft: CalendarEventDraft): Promise<CalendarEvent | null>;
+  deleteEvent(eventId: string): Promise<boolean>;
+  // Events changed since `syncToken`, or all of them without one. Null if the calendar can't say
+  getChanges(syncToken?: string): Promise<CalendarChanges | null>;
+  // Title prefix, plus a muted color where the calendar keeps one
+  markEventDone(eventId: string): Promise<boolean>;
+}
+
+export const CALENDAR_PROVIDER_LABELS: Record<CalendarProviderType, string> = {
+  google: 'Google Calendar',
+  caldav: 'CalDAV',
+  ics: 'Calendar feed',
+  local: 'This device',
+};
+
+const ENERGY_COLORS: Record<EnergyLevel, string> = {
+  high: C.error,
+  medium: C.warning,
+  low: C.blue,
+};
+
+const draftColor = (draft: CalendarEventDraft): string =>
+  draft.kind === 'focus' ? C.primary : ENERGY_COLORS[draft.energy || 'low'];
+
+// Opaque timed events block time; all-day and "free" events don't
+const busyFrom = (instances: ICalInstance[]): BusyPeriod[] =>
+  instances
+    .filter(i => !i.allDay && !i.transparent)
+    .map(i => ({ start: i.start.toISOString(), end: i.end.toISOString() }));
+
+const doneTitle = (title: string): string => (title.startsWith(DONE_PREFIX) ? title : `${DONE_PREFIX}${title}`);
+
+const toCalendarEvent = (instance: ICalInstance, id: string, color: string = C.primary): CalendarEvent => ({
+  id,
+  title: instance.title,
+  start: instance.start.toISOString(),
+  end: instance.end.toISOString(),
+  allDay: instance.allDay,
+  color,
+  description: instance.description,
+  location: instance.location,
+});
+
+// A one-off event as it stands; recurring ones have no single time to report
+const toChangedEvent = (event: ICalEvent, id: string): CalendarEvent | undefined => {
+  const times = getEventTimes(event);
+  if (!times) return undefined;
+  return toCalendarEvent({
+    uid: event.uid,
+    title: event.summary,
+    description: event.description,
+    location: event.location,
+    start: times.start,
+    end: times.end,
+    allDay: event.start.dateOnly,
+    recurring: false,
+    transparent: event.transparent,
+  }, id);
+};
+
+// ============ GOOGLE ============
+
+export class GoogleCalendarProvider implements CalendarProvider {
+  type: CalendarProviderType = 'google';
+  readOnly = false;
+  private accessToken: string | null = null;
+  private refreshToken: string | null = null;
+  private tokenExpiry = 0;
+
+  constructor(private clientId: string) {}
+
+  setTokens(accessToken: string, refreshToken?: string, expiresIn?: number): void {
+    this.accessToken = accessToken;
+    if (refreshToken) this.refreshToken = refreshToken;
+    if (expiresIn) this.tokenExpiry = Date.now() + expiresIn * 1000;
+  }
+
+  isConnected(): boolean {
+    return !!this.accessToken;
+  }
+
+  async testConnection(): Promise<void> {
+    const now = new Date();
+    await this.fetchEvents(now, new Date(now.getTime() + 24 * 60 * 60 * 1000));
+  }
+
+  async getEvents(timeMin: Date, timeMax: Date): Promise<CalendarEvent[]> {
+    try {
+      return await this.fetchEvents(timeMin, timeMax);
+    } catch (error) {
+      console.error('Calendar error:', error);
+      return [];
+    }
+  }
+
+  async listCalendars(): Promise<CalendarInfo[]> {
+    if (!this.accessToken) return [];
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${GOOGLE_API}/users/me/calendarList?minAccessRole=freeBusyReader`, {
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+      });
+      if (!response.ok) return [];
+
+      const data = await response.json();
+      return (data.items || []).map((item: any) => ({
+        id: item.primary ? 'primary' : item.id,
+        name: item.summaryOverride || item.summary || item.id,
+        color: item.backgroundColor,
+        primary: !!item.primary,
+      }));
+    } catch {
+      return [];
+    }
+  }
+
+  async getBusy(timeMin: Date, timeMax: Date, calendarIds: string[] = ['primary']): Promise<BusyPeriod[]> {
+    if (!this.accessToken) return [];
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${GOOGLE_API}/freeBusy`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          timeMin: timeMin.toISOString(),
+          timeMax: timeMax.toISOString(),
+          items: calendarIds.map(id => ({ id })),
+        }),
+      });
+      if (!response.ok) return [];
+
+      const data = await response.json();
+      return Object.values(data.calendars || {}).flatMap((calendar: any) => calendar.busy || []);
+    } catch {
+      return [];
+    }
+  }
+
+  async createEvent(draft: CalendarEventDraft): Promise<CalendarEvent | null> {
+    if (!this.accessToken) return null;
+    await this.ensureFreshToken();
+
+    // Focus blocks in blue; tasks red / yellow / blue by energy
+    const colorId = draft.kind === 'focus' ? '9' : draft.energy === 'high' ? '11' : draft.energy === 'medium' ? '5' : '9';
+
+    try {
+      const response = await fetch(`${GOOGLE_API}/calendars/primary/events`, {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${this.accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          summary: draft.title,
+          description: draft.description,
+          start: { dateTime: draft.start.toISOString() },
+          end: { dateTime: draft.end.toISOString() },
+          colorId,
+          transparency: 'opaque', // Shows as busy
+          ...(draft.reminderMinutes && {
+            reminders: {
+              useDefault: false,
+              overrides: draft.reminderMinutes.map(minutes => ({ method: 'popup', minutes })),
+            },
+          }),
+        }),
+      });
+      if (!response.ok) throw new Error('Failed to create event');
+
+      const event = await response.json();
+      return {
+        id: event.id,
+        title: event.summary,
+        start: event.start.dateTime,
+        end: event.end.dateTime,
+        color: this.getColorById(colorId),
+      };
+    } catch (error) {
+      console.error('Create event error:', error);
+      return null;
+    }
+  }
+
+  async deleteEvent(eventId: string): Promise<boolean> {
+    if (!this.accessToken) return false;
+    await this.ensureFreshToken();
+
+    try {
+      const response = await fetch(`${GOOGLE_API}/calendars/primary/events/${eventId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${this.accessToken}` },
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Incremental sync with Google's sync tokens. Without a token (or once
+   * Google expires it) every event is listed, page by page.
+   */
+  async getChanges(syncToken?: string): Promise<CalendarChanges | null> {
+    if (!this.accessToken) return null;
+    await this.ensureFreshToken();
+
+    const changes: CalendarEventChange[] = [];
+    let pageToken: string | undefined;
+    try {
+      do {
+        const params = new URLSearchParams({ maxResults: String(GOOGLE_PAGE_SIZE) });
+        if (syncToken) params.set('syncToken', syncToken);
+        if (pageToken) params.set('pageToken', pageToken);
+
+        const response = await fetch(`${GOOGLE_API}/calendars/primary/events?${params.toString()}`, {
+          headers: { Authorization: `Bearer ${this.accessToken}` },
+        });
+        // 410 Gone: the token expired, so start over with a full listing
+        if (response.status === 410 && syncToken) return this.getChanges();
+        if (!response.ok) return null;
+
+        const data = await response.json();
+        (data.items || []).forEach((item: any) => {
+          changes.push(item.status === 'cancelled'
+            ? { id: item.id, deleted: true }
+            : { id: item.id, deleted: false, event: this.toEvent(item) });
+        });
+        if (data.nextSyncToken) return { changes, syncToken: data.nextSyncToken, full: !syncToken };
+        pageToken = data.nextPageToken;
+      } while (pageToken);
+      return null;
+    } catch (error) {
+      console.error('Calendar sync error:', error);
+      return null;
+    }
+  }
+
+  async markEventDone(eventId: string): Promise<boolean> {
+    if (!this.accessToken) return false;
+    await this.ensureFreshToken();
+    const url = `${GOOGLE_API}/calendars/primary/events/${eventId}`;
+
+    try {
+      const current = await fetch(url, { headers: { Authorization: `Bearer ${this.accessToken}` } });
+      if (!current.ok) return false;
+      const event = await current.json();
+
+      const response = await fetch(url, {
+        method: 'PATCH',
+        headers: { Authorization: `Bearer ${this.accessToken}`, 'Content-Type': 'application/json' },
+        body: JSON.stringify({ summary: doneTitle(event.summary || ''), colorId: GOOGLE_DONE_COLOR_ID }),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private async fetchEvents(timeMin: Date, timeMax: Date, retried = false): Promise<CalendarEvent[]> {
+    if (!this.accessToken) throw new Error('Not signed in to Google');
+    await this.ensureFreshToken();
+
+    const response = await fetch(
+      `${GOOGLE_API}/calendars/primary/events?` +
+      `timeMin=${timeMin.toISOString()}&timeMax=${timeMax.toISOString()}&singleEvents=true&orderBy=startTime&maxResults=50`,
+      { headers: { Authorization: `Bearer ${this.accessToken}` } }
+    );
+
+    if (!response.ok) {
+      if (response.status === 401 && !retried && await this.refreshAccessToken()) {
+        return this.fetchEvents(timeMin, timeMax, true);
+      }
+      throw new Error('Calendar API error');
+    }
+
+    const data = await response.json();
+    return (data.items || []).map((item: any) => this.toEvent(item));
+  }
+
+  private toEvent(item: any): CalendarEvent {
+    return {
+      id: item.id,
+      title: item.summary || 'Untitled',
+      start: item.start?.dateTime || item.start?.date,
+      end: item.end?.dateTime || item.end?.date,
+      allDay: !!item.start?.date,
+      color: item.colorId ? this.getColorById(item.colorId) : C.primary,
+      description: item.description,
+      location: item.location,
+    };
+  }
+
+  private async ensureFreshToken(): Promise<void> {
+    if (Date.now() > this.tokenExpiry - TOKEN_REFRESH_MARGIN_MS) {
+      await this.refreshAccessToken();
+    }
+  }
+
+  private async refreshAccessToken(): Promise<boolean> {
+    if (!this.refreshToken) return false;
+
+    try {
+      const response = await fetch('https://oauth2.googleapis.com/token', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({
+          refresh_token: this.refreshToken,
+          grant_type: 'refresh_token',
+          client_id: this.clientId,
+        }).toString(),
+      });
+      if (!response.ok) return false;
+
+      const data = await response.json();
+      this.accessToken = data.access_token;
+      this.tokenExpiry = Date.now() + data.expires_in * 1000;
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private getColorById(colorId: string): string {
+    const colors: Record<string, string> = {
+      '1': '#7986CB', '2': '#33B679', '3': '#8E24AA', '4': '#E67C73',
+      '5': '#F6BF26', '6': '#F4511E', '7': '#039BE5', '8': '#616161',
+      '9': '#3F51B5', '10': '#0B8043', '11': '#D50000',
+    };
+    return colors[colorId] || C.primary;
+  }
+}
+
+// ============ CALDAV ============
+
+// btoa only takes Latin-1, so UTF-8 encode credentials first
+const basicAuth = (username: string, password: string): string =>
+  `Basic ${btoa(unescape(encodeURIComponent(`${username}:${password}`)))}`;
+
+const escapeXml = (value: string): string => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatRangeTime = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/**
+ * A single CalDAV calendar collection. Event ids are the absolute URL of the
+ * event resource; instances of a recurring event add `#<start ms>`.
+ */
+export class CalDAVCalendarProvider implements CalendarProvider {
+  type: CalendarProviderType = 'caldav';
+  readOnly = false;
+  private calendarUrl: string;
+
+  constructor(url: string, private username: string, private password: string) {
+    this.calendarUrl = url.trim().replace(/\/?$/, '/');
+  }
+
+  isConnected(): boolean {
+    return !!this.calendarUrl && !!this.username;
+  }
+
+  async testConnection(): Promise<void> {
+    const now = new Date();
+    await this.fetchInstances(now, new Date(now.getTime() + 24 * 60 * 60 * 1000));
+  }
+
+  async getEvents(timeMin: Date, timeMax: Date): Promise<CalendarEvent[]> {
+    try {
+      const instances = await this.fetchInstances(timeMin, timeMax);
+      return instances.map(({ href, instance }) =>
+        toCalendarEvent(instance, instance.recurring ? `${href}#${instance.start.getTime()}` : href)
+      );
+    } catch (error) {
+      console.error('CalDAV error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Calendars next to the configured one, from the parent (calendar home)
+   * collection. Falls back to just the configured calendar.
+   */
+  async listCalendars(): Promise<CalendarInfo[]> {
+    const configured: CalendarInfo = { id: this.calendarUrl, name: 'Calendar', primary: true };
+    const homeUrl = this.calendarUrl.replace(/[^/]+\/$/, '');
+
+    try {
+      const response = await fetch(homeUrl, {
+        method: 'PROPFIND',
+        headers: {
+          Authorization: basicAuth(this.username, this.password),
+          'Content-Type': 'application/xml; charset=utf-8',
+          Depth: '1',
+        },
+        body:
+          '<?xml version="1.0" encoding="utf-8"?>' +
+          '<d:propfind xmlns:d="DAV:" xmlns:a="http://apple.com/ns/ical/">' +
+          '<d:prop><d:resourcetype/><d:displayname/><a:calendar-color/></d:prop>' +
+          '</d:propfind>',
+      });
+      if (!response.ok) return [configured];
+
+      const calendars = parseMultistatus(await response.text())
+        .filter(r => r.isCalendar)
+        .map(r => {
+          const id = this.absoluteUrl(r.href).replace(/\/?$/, '/');
+          return {
+            id,
+            name: r.displayName || decodeURIComponent(id.split('/').filter(Boolean).pop() || 'Calendar'),
+            color: r.color?.slice(0, 7),
+            primary: id === this.calendarUrl,
+          };
+        });
+      return calendars.some(c => c.primary) ? calendars : [configured, ...calendars];
+    } catch {
+      return [configured];
+    }
+  }
+
+  async getBusy(timeMin: Date, timeMax: Date, calendarIds: string[] = [this.calendarUrl]): Promise<BusyPeriod[]> {
+    const results = await Promise.all(calendarIds.map(async url => {
+      try {
+        const instances = await this.fetchInstances(timeMin, timeMax, url);
+        return busyFrom(instances.map(i => i.instance));
+      } catch {
+        return [];
+      }
+    }));
+    return results.flat();
+  }
+
+  async createEvent(draft: CalendarEventDraft): Promise<CalendarEvent | null> {
+    const uid = `${genId()}@unfocused`;
+    const href = `${this.calendarUrl}${encodeURIComponent(uid)}.ics`;
+
+    try {
+      const response = await fetch(href, {
+        method: 'PUT',
+        headers: {
+          Authorization: basicAuth(this.username, this.password),
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'If-None-Match': '*',
+        },
+        body: wrapCalendar([serializeEvent({
+          uid,
+          title: draft.title,
+          start: draft.start,
+          end: draft.end,
+          description: draft.description,
+          alarmMinutes: draft.reminderMinutes,
+        })]),
+      });
+      if (!response.ok) throw new Error(`CalDAV PUT failed: ${response.status}`);
+
+      return {
+        id: href,
+        title: draft.title,
+        start: draft.start.toISOString(),
+        end: draft.end.toISOString(),
+        color: draftColor(draft),
+        description: draft.description,
+      };
+    } catch (error) {
+      console.error('Create event error:', error);
+      return null;
+    }
+  }
+
+  async deleteEvent(eventId: string): Promise<boolean> {
+    try {
+      const response = await fetch(eventId.split('#')[0], {
+        method: 'DELETE',
+        headers: { Authorization: basicAuth(this.username, this.password) },
+      });
+      // Already gone counts as deleted
+      return response.ok || response.status === 404;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Changes through a sync-collection report (RFC 6578). Servers that don't
+   * support it give null, and linked tasks just don't follow calendar edits.
+   */
+  async getChanges(syncToken?: string): Promise<CalendarChanges | null> {
+    try {
+      const response = await fetch(this.calendarUrl, {
+        method: 'REPORT',
+        headers: {
+          Authorization: basicAuth(this.username, this.password),
+          'Content-Type': 'application/xml; charset=utf-8',
+          Depth: '0',
+        },
+        body:
+          '<?xml version="1.0" encoding="utf-8"?>' +
+          '<d:sync-collection xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+          `<d:sync-token>${escapeXml(syncToken || '')}</d:sync-token>` +
+          '<d:sync-level>1</d:sync-level>' +
+          '<d:prop><d:getetag/><c:calendar-data/></d:prop>' +
+          '</d:sync-collection>',
+      });
+      // The server no longer knows the token - start over with a full listing
+      if (syncToken && (response.status === 403 || response.status === 409)) return this.getChanges();
+      if (!response.ok) return null;
+
+      const xml = await response.text();
+      const token = parseSyncToken(xml);
+      if (!token) return null;
+
+      const changes = await Promise.all(
+        parseMultistatus(xml)
+          .map(r => ({ ...r, href: this.absoluteUrl(r.href) }))
+          .filter(r => r.href.replace(/\/?$/, '/') !== this.calendarUrl)
+          .map(async (r): Promise<CalendarEventChange> => {
+            if (r.status === 404) return { id: r.href, deleted: true };
+            // Some servers only send etags here
+            const data = r.calendarData ?? await this.fetchResource(r.href);
+            const event = data ? parseEvents(data).find(e => e.recurrenceId === undefined) : undefined;
+            return { id: r.href, deleted: false, event: event && toChangedEvent(event, r.href) };
+          })
+      );
+      return { changes, syncToken: token, full: !syncToken };
+    } catch (error) {
+      console.error('CalDAV sync error:', error);
+      return null;
+    }
+  }
+
+  async markEventDone(eventId: string): Promise<boolean> {
+    const href = eventId.split('#')[0];
+    try {
+      const current = await fetch(href, { headers: { Authorization: basicAuth(this.username, this.password) } });
+      if (!current.ok) return false;
+      const etag = current.headers.get('ETag');
+
+      const response = await fetch(href, {
+        method: 'PUT',
+        headers: {
+          Authorization: basicAuth(this.username, this.password),
+          'Content-Type': 'text/calendar; charset=utf-8',
+          // Don't overwrite an edit made in the meantime
+          ...(etag ? { 'If-Match': etag } : {}),
+        },
+        body: retitleEvents(await current.text(), doneTitle, DONE_COLOR),
+      });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  private async fetchResource(href: string): Promise<string | undefined> {
+    try {
+      const response = await fetch(href, { headers: { Authorization: basicAuth(this.username, this.password) } });
+      return response.ok ? await response.text() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async fetchInstances(
+    timeMin: Date,
+    timeMax: Date,
+    calendarUrl: string = this.calendarUrl
+  ): Promise<{ href: string; instance: ICalInstance }[]> {
+    const response = await fetch(calendarUrl, {
+      method: 'REPORT',
+      headers: {
+        Authorization: basicAuth(this.username, this.password),
+        'Content-Type': 'application/xml; charset=utf-8',
+        Depth: '1',
+      },
+      body:
+        '<?xml version="1.0" encoding="utf-8"?>' +
+        '<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">' +
+        '<d:prop><d:getetag/><c:calendar-data/></d:prop>' +
+        '<c:filter><c:comp-filter name="VCALENDAR"><c:comp-filter name="VEVENT">' +
+        `<c:time-range start="${formatRangeTime(timeMin)}" end="${formatRangeTime(timeMax)}"/>` +
+        '</c:comp-filter></c:comp-filter></c:filter>' +
+        '</c:calendar-query>',
+    });
+
+    if (response.status === 401) throw new Error('The username or app password was not accepted');
+    if (response.status === 404) throw new Error('No calendar found at that URL');
+    if (!response.ok) throw new Error(`CalDAV server error: ${response.status}`);
+
+    return parseMultistatus(await response.text())
+      .filter(r => r.calendarData)
+      .flatMap(r => {
+        const href = this.absoluteUrl(r.href);
+        return expandEvents(parseEvents(r.calendarData!), timeMin, timeMax).map(instance => ({ href, instance }));
+      });
+  }
+
+  // Servers answer with paths; ids are full URLs
+  private absoluteUrl(href: string): string {
+    if (/^https?:/.test(href)) return href;
+    return `${this.calendarUrl.match(/^https?:\/\/[^/]+/)?.[0] || ''}${href}`;
+  }
+}
+
+// ============ ICS FEED ============
+
+/**
+ * A published calendar (Outlook, Proton, school and team calendars...).
+ * Read-only: the feed is fetched whole and cached for a few minutes.
+ */
+export class IcsCalendarProvider implements CalendarProvider {
+  type: CalendarProviderType = 'ics';
+  readOnly = true;
+  private feedUrl: string;
+  private cache: { text: string; fetchedAt: number } | null = null;
+
+  constructor(url: string) {
+    this.feedUrl = url.trim().replace(/^webcals?:\/\//i, 'https://');
+  }
+
+  isConnected(): boolean {
+    return !!this.feedUrl;
+  }
+
+  async testConnection(): Promise<void> {
+    this.cache = null;
+    const text = await this.fetchFeed();
+    if (!text.includes('BEGIN:VCALENDAR')) throw new Error("That link didn't return a calendar");
+  }
+
+  async getEvents(timeMin: Date, timeMax: Date): Promise<CalendarEvent[]> {
+    try {
+      const instances = expandEvents(parseEvents(await this.fetchFeed()), timeMin, timeMax);
+      return instances.map(i => toCalendarEvent(i, `${i.uid}#${i.start.getTime()}`, C.teal));
+    } catch (error) {
+      console.error('Calendar feed error:', error);
+      return [];
+    }
+  }
+
+  async listCalendars(): Promise<CalendarInfo[]> {
+    return [{ id: this.feedUrl, name: CALENDAR_PROVIDER_LABELS.ics, color: C.teal, primary: true }];
+  }
+
+  // A feed is a single calendar
+  async getBusy(timeMin: Date, timeMax: Date): Promise<BusyPeriod[]> {
+    try {
+      return busyFrom(expandEvents(parseEvents(await this.fetchFeed()), timeMin, timeMax));
+    } catch {
+      return [];
+    }
+  }
+
+  async createEvent(): Promise<CalendarEvent | null> {
+    return null;
+  }
+
+  async deleteEvent(): Promise<boolean> {
+    return false;
+  }
+
+  // Nothing in a feed can be linked to a task
+  async getChanges(): Promise<CalendarChanges | null> {
+    return null;
+  }
+
+  async markEventDone(): Promise<boolean> {
+    return false;
+  }
+
+  private async fetchFeed(): Promise<string> {
+    if (this.cache && Date.now() - this.cache.fetchedAt < FEED_CACHE_MS) return this.cache.text;
+
+    const response = await fetch(this.feedUrl);
+    if (!response.ok) throw new Error(`Calendar feed error: ${response.status}`);
+    const text = await response.text();
+    this.cache = { text, fetchedAt: Date.now() };
+    return text;
+  }
+}
+
+// ============ LOCAL FILE ============
+
+export interface CalendarFileStore {
+  read(): Promise<string | null>;
+  write(text: string): Promise<void>;
+}
+
+// A file in the app's documents folder; AsyncStorage on web, which has no file system
+const defaultFileStore: CalendarFileStore = Platform.OS === 'web' || !FileSystem.documentDirectory
+  ? {
+      read: () => AsyncStorage.getItem(LOCAL_CALENDAR_KEY),
+      write: (text) => AsyncStorage.setItem(LOCAL_CALENDAR_KEY, text),
+    }
+  : {
+      read: async () => {
+        const path = `${FileSystem.documentDirectory}${LOCAL_CALENDAR_FILE}`;
+        const info = await FileSystem.getInfoAsync(path);
+        return info.exists ? FileSystem.readAsStringAsync(path) : null;
+      },
+      write: (text) => FileSystem.writeAsStringAsync(`${FileSystem.documentDirectory}${LOCAL_CALENDAR_FILE}`, text),
+    };
+
+/**
+ * Events kept in an .ics file on the device. Pass an in-memory store to
+ * exercise scheduling without any account or network.
+ */
+export class LocalCalendarProvider implements CalendarProvider {
+  type: CalendarProviderType = 'local';
+  readOnly = false;
+
+  constructor(private store: CalendarFileStore = defaultFileStore) {}
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async testConnection(): Promise<void> {
+    const text = await this.store.read();
+    if (text === null) await this.store.write(wrapCalendar([]));
+  }
+
+  async getEvents(timeMin: Date, timeMax: Date): Promise<CalendarEvent[]> {
+    const instances = expandEvents(parseEvents(await this.read()), timeMin, timeMax);
+    return instances.map(i => toCalendarEvent(i, i.recurring ? `${i.uid}#${i.start.getTime()}` : i.uid));
+  }
+
+  async listCalendars(): Promise<CalendarInfo[]> {
+    return [{ id: LOCAL_CALENDAR_FILE, name: CALENDAR_PROVIDER_LABELS.local, primary: true }];
+  }
+
+  async getBusy(timeMin: Date, timeMax: Date): Promise<BusyPeriod[]> {
+    return busyFrom(expandEvents(parseEvents(await this.read()), timeMin, timeMax));
+  }
+
+  async createEvent(draft: CalendarEventDraft): Promise<CalendarEvent | null> {
+    const uid = `${genId()}@unfocused`;
+    const blocks = splitEvents(await this.read()).map(e => e.block);
+    const block = serializeEvent({
+      uid,
+      title: draft.title,
+      start: draft.start,
+      end: draft.end,
+      description: draft.description,
+      alarmMinutes: draft.reminderMinutes,
+    });
+
+    try {
+      await this.store.write(wrapCalendar([...blocks, block]));
+    } catch (error) {
+      console.error('Create event error:', error);
+      return null;
+    }
+
+    return {
+      id: uid,
+      title: draft.title,
+      start: draft.start.toISOString(),
+      end: draft.end.toISOString(),
+      color: draftColor(draft),
+      description: draft.description,
+    };
+  }
+
+  async deleteEvent(eventId: string): Promise<boolean> {
+    const uid = eventId.split('#')[0];
+    const events = splitEvents(await this.read());
+    if (!events.some(e => e.uid === uid)) return false;
+
+    try {
+      await this.store.write(wrapCalendar(events.filter(e => e.uid !== uid).map(e => e.block)));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // The file keeps no change log, so every sync is a full listing
+  async getChanges(): Promise<CalendarChanges | null> {
+    let text: string | null;
+    try {
+      text = await this.store.read();
+    } catch {
+      return null; // Can't tell what's gone if the file can't be read
+    }
+    const changes = parseEvents(text || '')
+      .filter(e => e.recurrenceId === undefined && !e.cancelled)
+      .map(e => ({ id: e.uid, deleted: false, event: toChangedEvent(e, e.uid) }));
+    return { changes, syncToken: '', full: true };
+  }
+
+  async markEventDone(eventId: string): Promise<boolean> {
+    const uid = eventId.split('#')[0];
+    const events = splitEvents(await this.read());
+    if (!events.some(e => e.uid === uid)) return false;
+
+    try {
+      await this.store.write(wrapCalendar(events.map(e => (e.uid === uid ? retitleEvents(e.block, doneTitle, DONE_COLOR) : e.block))));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async read(): Promise<string> {
+    try {
+      return (await this.store.read()) || '';
+    } catch (error) {
+      console.error('Failed to read local calendar:', error);
+      return '';
+    }
+  }
+}
+
+// ============ SERVICE ============
+
+export class CalendarProviderService {
+  private settings: CalendarSettings | null = null;
+  private provider: CalendarProvider | null = null;
+  private loaded = false;
+  private savedGoogle: CalendarSettings | null = null; // Waiting for its OAuth tokens
+
+  /**
+   * Restore a saved CalDAV / feed / local calendar. Google reconnects through
+   * its saved OAuth tokens instead (see `useGoogle`).
+   */
+  async initialize(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      const saved: CalendarSettings | null = json ? JSON.parse(json) : null;
+      if (saved?.provider === 'google') {
+        this.savedGoogle = saved;
+      } else if (saved && !this.provider) {
+        this.settings = saved;
+        this.provider = this.createProvider(saved);
+      }
+    } catch (error) {
+      console.error('Failed to load calendar settings:', error);
+    }
+  }
+
+  /**
+   * Switch to a CalDAV, feed or local calendar. The calendar is only kept if
+   * it answers, so a typo in a URL or password shows up right away.
+   */
+  async configure(settings: CalendarSettings): Promise<{ ok: boolean; error?: string }> {
+    const provider = this.createProvider(settings);
+    if (!provider) return { ok: false, error: 'Use the Google sign-in to connect Google Calendar' };
+
+    try {
+      await provider.testConnection();
+    } catch (error: any) {
+      return { ok: false, error: error?.message || 'Could not reach that calendar' };
+    }
+
+    this.settings = settings;
+    this.provider = provider;
+    await this.save();
+    return { ok: true };
+  }
+
+  /**
+   * Use Google with tokens from the OAuth flow (or restored from storage).
+   */
+  async useGoogle(clientId: string, accessToken: string, refreshToken?: string, expiresIn?: number): Promise<void> {
+    const provider = this.provider instanceof GoogleCalendarProvider ? this.provider : new GoogleCalendarProvider(clientId);
+    provider.setTokens(accessToken, refreshToken, expiresIn);
+    this.provider = provider;
+    const previous = this.settings?.provider === 'google' ? this.settings : this.savedGoogle;
+    this.settings = { provider: 'google', busyCalendarIds: previous?.busyCalendarIds, syncToken: previous?.syncToken };
+    this.savedGoogle = null;
+    await this.save();
+  }
+
+  async disconnect(): Promise<void> {
+    this.provider = null;
+    this.settings = null;
+    this.savedGoogle = null;
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear calendar settings:', error);
+    }
+  }
+
+  getSettings(): CalendarSettings | null {
+    return this.settings;
+  }
+
+  async listCalendars(): Promise<CalendarInfo[]> {
+    return this.isConnected() ? this.provider!.listCalendars() : [];
+  }
+
+  /**
+   * Which calendars block time when looking for free slots.
+   */
+  async setBusyCalendars(calendarIds: string[]): Promise<void> {
+    if (!this.settings) return;
+    this.settings = { ...this.settings, busyCalendarIds: calendarIds };
+    await this.save();
+  }
+
+  async getBusy(timeMin: Date, timeMax: Date): Promise<BusyPeriod[]> {
+    if (!this.isConnected()) return [];
+    const calendarIds = this.settings?.busyCalendarIds;
+    return this.provider!.getBusy(timeMin, timeMax, calendarIds?.length ? calendarIds : undefined);
+  }
+
+  /**
+   * What changed on the calendar since the last sync. The first sync after
+   * connecting, or after the server forgets the token, lists everything.
+   */
+  async getChanges(): Promise<CalendarChanges | null> {
+    if (!this.isConnected() || !this.settings) return null;
+    const result = await this.provider!.getChanges(this.settings.syncToken);
+    if (!result) return null;
+
+    this.settings = { ...this.settings, syncToken: result.syncToken || undefined };
+    await this.save();
+    return result;
+  }
+
+  async markEventDone(eventId: string): Promise<boolean> {
+    return this.canWrite() ? this.provider!.markEventDone(eventId) : false;
+  }
+
+  getProvider(): CalendarProvider | null {
+    return this.provider;
+  }
+
+  isConnected(): boolean {
+    return !!this.provider?.isConnected();
+  }
+
+  canWrite(): boolean {
+    return this.isConnected() && !this.provider!.readOnly;
+  }
+
+  /**
+   * "CalDAV (cloud.example.com)" - which calendar is connected, for settings.
+   */
+  describe(): string | null {
+    if (!this.settings) return null;
+    const label = CALENDAR_PROVIDER_LABELS[this.settings.provider];
+    const host = this.settings.url?.match(/^\w+:\/\/([^/]+)/)?.[1];
+    return host ? `${label} (${host})` : label;
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.error('Failed to save calendar settings:', error);
+    }
+  }
+
+  private createProvider(settings: CalendarSettings): CalendarProvider | null {
+    switch (settings.provider) {
+      case 'caldav':
+        return new CalDAVCalendarProvider(settings.url || '', settings.username || '', settings.password || '');
+      case 'ics':
+        return new IcsCalendarProvider(settings.url || '');
+      case 'local':
+        return new LocalCalendarProvider();
+      default:
+        return null;
+    }
+  }
+}
+
+// Export singleton instance
+export const calendarProviderService = new CalendarProviderService();
+export default calendarProviderService;
@@ -0,0 +1,174 @@
+/**
+ * ClaudeStreamService - Stream Messages API responses over SSE
+ *
+ * React Native's fetch can't read a response body incrementally, so this
+ * uses XMLHttpRequest and parses the server-sent events as they arrive.
+ *
+ * Features:
+ * - Text and extended-thinking deltas reported as they stream in
+ * - Tool-use blocks reassembled from partial JSON
+ * - Final content blocks returned in the same shape as a non-streaming call
+ */
+
+export const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+
+export interface StreamHandlers {
+  onText?: (text: string) => void; // Full text so far
+  onThinking?: (thinking: string) => void; // Full thinking so far
+}
+
+export interface StreamResult {
+  content: any[]; // Messages API content blocks (text, thinking, tool_use)
+  text: string;
+  thinking: string;
+  stopReason?: string;
+}
+
+interface BlockState {
+  block: any;
+  partialJson: string;
+}
+
+export class ClaudeStreamService {
+  /**
+   * POST a Messages API request with `stream: true` and resolve once the
+   * message is complete. Rejects on HTTP, network or stream errors.
+   */
+  streamMessage(
+    request: Record<string, any>,
+    apiKey: string,
+    handlers: StreamHandlers = {},
+    baseUrl: string = ANTHROPIC_BASE_URL
+  ): Promise<StreamResult> {
+    return new Promise((resolve, reject) => {
+      const xhr = new XMLHttpRequest();
+      const blocks: BlockState[] = [];
+      let buffer = '';
+      let readIndex = 0;
+      let stopReason: string | undefined;
+      let settled = false;
+
+      const joinBlocks = (type: 'text' | 'thinking') =>
+        blocks
+          .filter(b => b.block.type === type)
+          .map(b => b.block[type])
+          .join('\n');
+
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        xhr.abort();
+        reject(error);
+      };
+
+      const finish = () => {
+        if (settled) return;
+        settled = true;
+        resolve({
+          content: blocks.map(b => b.block),
+          text: joinBlocks('text').trim(),
+          thinking: joinBlocks('thinking').trim(),
+          stopReason,
+        });
+      };
+
+      const handleEvent = (event: any) => {
+        switch (event.type) {
+          case 'content_block_start': {
+            const block = { ...event.content_block };
+            if (block.type === 'text') block.text = block.text || '';
+            if (block.type === 'thinking') block.thinking = block.thinking || '';
+            blocks[event.index] = { block, partialJson: '' };
+            break;
+          }
+          case 'content_block_delta': {
+            const state = blocks[event.index];
+            if (!state) break;
+            const { delta } = event;
+            if (delta.type === 'text_delta') {
+              state.block.text += delta.text;
+              handlers.onText?.(joinBlocks('text'));
+            } else if (delta.type === 'thinking_delta') {
+              state.block.thinking += delta.thinking;
+              handlers.onThinking?.(joinBlocks('thinking'));
+            } else if (delta.type === 'signature_delta') {
+              state.block.signature = (state.block.signature || '') + delta.signature;
+            } else if (delta.type === 'input_json_delta') {
+              state.partialJson += delta.partial_json;
+            }
+            break;
+          }
+          case 'content_block_stop': {
+            const state = blocks[event.index];
+            if (state?.block.type === 'tool_use' && state.partialJson) {
+              try {
+                state.block.input = JSON.parse(state.partialJson);
+              } catch {
+                state.block.input = {};
+              }
+            }
+            break;
+          }
+          case 'message_delta':
+            stopReason = event.delta?.stop_reason || stopReason;
+            break;
+          case 'message_stop':
+            finish();
+            break;
+          case 'error':
+            fail(new Error(event.error?.message || 'Stream error'));
+            break;
+        }
+      };
+
+      // Events are separated by a blank line; only `data:` lines matter
+      const consume = () => {
+        const chunk = xhr.responseText.slice(readIndex);
+        readIndex = xhr.responseText.length;
+        buffer += chunk;
+
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        events.forEach(raw => {
+          const data = raw
+            .split(/\r?\n/)
+            .filter(line => line.startsWith('data:'))
+            .map(line => line.slice(5).trim())
+            .join('');
+          if (!data) return;
+          try {
+            handleEvent(JSON.parse(data));
+          } catch (error) {
+            console.error('Bad stream event:', error);
+          }
+        });
+      };
+
+      xhr.open('POST', `${baseUrl.replace(/\/$/, '')}/messages`);
+      xhr.setRequestHeader('Content-Type', 'application/json');
+      xhr.setRequestHeader('x-api-key', apiKey);
+      xhr.setRequestHeader('anthropic-version', API_VERSION);
+
+      xhr.onreadystatechange = () => {
+        if (settled || xhr.readyState < 3) return;
+        if (xhr.status !== 200) {
+          if (xhr.readyState === 4) fail(new Error(`Claude API error: ${xhr.status}`));
+          return;
+        }
+        consume();
+        // Connection closed without message_stop - return what arrived
+        if (xhr.readyState === 4) finish();
+      };
+      xhr.onerror = () => fail(new Error('Network error'));
+      xhr.ontimeout = () => fail(new Error('Request timed out'));
+      xhr.timeout = 60000;
+
+      xhr.send(JSON.stringify({ ...request, stream: true }));
+    });
+  }
+}
+
+// Export singleton instance
+export const claudeStreamService = new ClaudeStreamService();
+export default claudeStreamService;
@@ -0,0 +1,379 @@
+/**
+ * ConflictResolutionService - Merge task edits made on more than one device
+ *
+ * Every synced task carries per-field edit timestamps (`fieldUpdatedAt` locally,
+ * `field_versions` in nero_tasks). When both sides changed, each field is merged
+ * independently:
+ * - Last writer wins, per field (editing the title on web doesn't undo a
+ *   reschedule made on the phone)
+ * - Completion is sticky: a stale write can never un-complete a task
+ * - Every real conflict is written to a log the user can inspect in settings,
+ *   kept per account
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TasksAPI, type Task as SupabaseTask } from './supabase';
+import { TASK_FIELD_COLUMNS } from './taskSchema';
+import { Task } from '../types';
+
+export type FieldVersions = Record<string, string>;
+
+export interface TaskConflict {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  field: string;
+  localValue: any;
+  remoteValue: any;
+  resolvedValue: any;
+  winner: 'local' | 'remote';
+  reason: 'newer_edit' | 'completion_kept';
+  localEditedAt?: string;
+  remoteEditedAt?: string;
+  detectedAt: string;
+}
+
+interface FieldMergeOptions {
+  fields: string[];
+  completedField: string;
+  completedAtField: string;
+  since?: string; // Last successful sync - edits older than this aren't conflicts
+}
+
+interface FieldMergeResult {
+  merged: Record<string, any>;
+  versions: FieldVersions;
+  changedFields: string[]; // Fields where the local side won and remote needs updating
+  conflicts: Omit<TaskConflict, 'id' | 'taskId' | 'taskTitle' | 'detectedAt'>[];
+}
+
+// Local task fields that take part in merging - everything that round-trips
+const MERGEABLE_TASK_FIELDS = Object.keys(TASK_FIELD_COLUMNS) as (keyof Task)[];
+
+// nero_tasks columns that take part in merging (priority follows energy)
+const MERGEABLE_DB_COLUMNS = [...Object.values(TASK_FIELD_COLUMNS), 'priority'] as (keyof SupabaseTask)[];
+
+const STORAGE_KEY = 'nero_conflict_log'; // Suffixed with the user ID
+const MAX_LOG_ENTRIES = 100;
+
+const isNewer = (a?: string, b?: string): boolean => {
+  if (!a) return false;
+  if (!b) return true;
+  return new Date(a).getTime() > new Date(b).getTime();
+};
+
+const sameValue = (a: any, b: any): boolean =>
+  JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * Core per-field merge shared by local-shape and DB-shape merging.
+ */
+export function mergeFields(
+  local: Record<string, any>,
+  localVersions: FieldVersions,
+  localFallback: string | undefined,
+  remote: Record<string, any>,
+  remoteVersions: FieldVersions,
+  remoteFallback: string | undefined,
+  options: FieldMergeOptions
+): FieldMergeResult {
+  const merged: Record<string, any> = {};
+  const versions: FieldVersions = {};
+  const changedFields: string[] = [];
+  const conflicts: FieldMergeResult['conflicts'] = [];
+
+  const { completedField, completedAtField } = options;
+
+  for (const field of options.fields) {
+    if (field === completedAtField) continue; // Resolved together with completion
+
+    const localValue = local[field];
+    const remoteValue = remote[field];
+    const localEditedAt = localVersions[field] || localFallback;
+    const remoteEditedAt = remoteVersions[field] || remoteFallback;
+
+    // Remote doesn't carry this field at all - nothing to merge against
+    if (remoteValue === undefined && !remoteVersions[field]) {
+      merged[field] = localValue;
+      if (localVersions[field]) versions[field] = localVersions[field];
+      if (localValue !== undefined) changedFields.push(field);
+      continue;
+    }
+
+    if (sameValue(localValue, remoteValue)) {
+      merged[field] = localValue;
+      const newest = isNewer(localEditedAt, remoteEditedAt) ? localEditedAt : remoteEditedAt;
+      if (newest) versions[field] = newest;
+      continue;
+    }
+
+    let winner: 'local' | 'remote' = isNewer(localEditedAt, remoteEditedAt) ? 'local' : 'remote';
+    let reason: TaskConflict['reason'] = 'newer_edit';
+
+    // Completion is sticky - only a strictly newer, explicit un-complete can undo it
+    if (field === completedField && localValue !== remoteValue) {
+      const completedSide = localValue ? 'local' : 'remote';
+      const uncompletedVersion = completedSide === 'local' ? remoteVersions[field] : localVersions[field];
+      const completedVersion = completedSide === 'local' ? localEditedAt : remoteEditedAt;
+      const completedAt = completedSide === 'local' ? local[completedAtField] : remote[completedAtField];
+
+      const explicitUndo = isNewer(uncompletedVersion, completedVersion) && isNewer(uncompletedVersion, completedAt);
+      if (!explicitUndo && winner !== completedSide) {
+        winner = completedSide;
+        reason = 'completion_kept';
+      }
+    }
+
+    const resolvedValue = winner === 'local' ? localValue : remoteValue;
+    merged[field] = resolvedValue;
+    const winningVersion = winner === 'local' ? localEditedAt : remoteEditedAt;
+    if (winningVersion) versions[field] = winningVersion;
+    if (winner === 'local') changedFields.push(field);
+
+    // Only a conflict if both sides really edited it since we last synced
+    const bothEdited = !!localVersions[field] && !!remoteVersions[field]
+      && (!options.since || (isNewer(localVersions[field], options.since) && isNewer(remoteVersions[field], options.since)));
+
+    if (bothEdited || reason === 'completion_kept') {
+      conflicts.push({
+        field,
+        localValue,
+        remoteValue,
+        resolvedValue,
+        winner,
+        reason,
+        localEditedAt,
+        remoteEditedAt,
+      });
+    }
+  }
+
+  // Completion timestamp follows completion: keep the earliest real completion
+  if (options.fields.includes(completedAtField)) {
+    if (merged[completedField]) {
+      const candidates = [local, remote]
+        .filter(side => side[completedField] && side[completedAtField])
+        .map(side => side[completedAtField] as string)
+        .sort();
+      merged[completedAtField] = candidates[0] ?? local[completedAtField] ?? remote[completedAtField];
+    } else {
+      merged[completedAtField] = undefined;
+    }
+    if (!sameValue(merged[completedAtField], remote[completedAtField])) {
+      changedFields.push(completedAtField);
+    }
+    if (versions[completedField]) versions[completedAtField] = versions[completedField];
+  }
+
+  return { merged, versions, changedFields, conflicts };
+}
+
+export class ConflictResolutionService {
+  private log: TaskConflict[] = [];
+  private userId: string | null = null;
+  private listeners: Set<(log: TaskConflict[]) => void> = new Set();
+
+  /**
+   * Load the signed-in user's conflict log, replacing whichever was showing.
+   */
+  async initialize(userId: string): Promise<void> {
+    if (this.userId === userId) return;
+    this.userId = userId;
+    this.log = [];
+    this.notifyListeners();
+
+    try {
+      const json = await AsyncStorage.getItem(`${STORAGE_KEY}_${userId}`);
+      if (this.userId !== userId) return; // Switched accounts while loading
+      this.log = json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('Failed to load conflict log:', error);
+    }
+    this.notifyListeners();
+  }
+
+  private async save(): Promise<void> {
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(`${STORAGE_KEY}_${this.userId}`, JSON.stringify(this.log));
+    } catch (error) {
+      console.error('Failed to save conflict log:', error);
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.log));
+  }
+
+  subscribe(listener: (log: TaskConflict[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.log);
+    return () => this.listeners.delete(listener);
+  }
+
+  // ============ VERSION STAMPING ============
+
+  /**
+   * Mark fields of a local task as edited right now.
+   */
+  touchFields<T extends Task>(task: T, fields: (keyof Task)[], at: string = new Date().toISOString()): T {
+    const fieldUpdatedAt = { ...(task.fieldUpdatedAt || {}) };
+    fields.forEach(f => { fieldUpdatedAt[f] = at; });
+    return { ...task, fieldUpdatedAt, updatedAt: at };
+  }
+
+  // ============ LOCAL MERGE ============
+
+  /**
+   * Merge a task pulled from the cloud into its local copy.
+   */
+  mergeTask<T extends Task>(local: T, remote: T): T {
+    const result = mergeFields(
+      local,
+      local.fieldUpdatedAt || {},
+      local.updatedAt || local.createdAt,
+      remote,
+      remote.fieldUpdatedAt || {},
+      remote.updatedAt || remote.createdAt,
+      {
+        fields: MERGEABLE_TASK_FIELDS as string[],
+        completedField: 'completed',
+        completedAtField: 'completedAt',
+        since: local.lastSyncedAt,
+      }
+    );
+
+    this.record(local.id, local.title, result.conflicts);
+
+    const now = new Date().toISOString();
+    return {
+      ...local,
+      ...result.merged,
+      id: remote.id,
+      fieldUpdatedAt: result.versions,
+      updatedAt: isNewer(local.updatedAt, remote.updatedAt) ? local.updatedAt : remote.updatedAt,
+      // Still dirty if local won a field the cloud doesn't have yet
+      synced: result.changedFields.length === 0,
+      lastSyncedAt: now,
+    } as T;
+  }
+
+  /**
+   * Merge a freshly-loaded cloud list with local state.
+   * Local-only tasks are kept; cloud-only tasks are added.
+   */
+  mergeTaskLists<T extends Task>(localTasks: T[], remoteTasks: T[]): T[] {
+    const localById = new Map(localTasks.map(t => [t.id, t]));
+    const remoteIds = new Set(remoteTasks.map(t => t.id));
+
+    const merged = remoteTasks.map(remote => {
+      const local = localById.get(remote.id);
+      return local ? this.mergeTask(local, remote) : remote;
+    });
+
+    const localOnly = localTasks.filter(t => !remoteIds.has(t.id) && !t.synced);
+    return [...merged, ...localOnly];
+  }
+
+  // ============ REMOTE MERGE ============
+
+  /**
+   * Write an update to nero_tasks without clobbering newer edits made elsewhere.
+   * Reads the current row, keeps remote fields that are newer, and only writes
+   * the fields where this device's edit wins.
+   */
+  async writeWithMerge(
+    taskId: string,
+    updates: Partial<SupabaseTask>,
+    versions: FieldVersions
+  ): Promise<boolean> {
+    const remote = await TasksAPI.getById(taskId);
+    if (!remote) {
+      // Row missing or unreachable - plain update will fail or succeed on its own
+      return TasksAPI.update(taskId, { ...updates, field_versions: versions });
+    }
+
+    const fields = MERGEABLE_DB_COLUMNS.filter(c => c in updates) as string[];
+    if ('completed' in updates && !fields.includes('completed_at')) fields.push('completed_at');
+
+    const result = mergeFields(
+      { ...remote, ...updates },
+      versions,
+      undefined,
+      remote,
+      remote.field_versions || {},
+      remote.updated_at,
+      { fields, completedField: 'completed', completedAtField: 'completed_at' }
+    );
+
+    this.record(taskId, remote.title, result.conflicts);
+
+    if (result.changedFields.length === 0) return true; // Remote already newer everywhere
+
+    const patch: Record<string, any> = {};
+    result.changedFields.forEach(f => { patch[f] = result.merged[f] ?? null; });
+
+    return TasksAPI.update(taskId, {
+      ...patch,
+      field_versions: { ...(remote.field_versions || {}), ...result.versions },
+    });
+  }
+
+  // ============ CONFLICT LOG ============
+
+  private record(taskId: string, taskTitle: string, conflicts: FieldMergeResult['conflicts']): void {
+    if (conflicts.length === 0) return;
+
+    const detectedAt = new Date().toISOString();
+    const entries: TaskConflict[] = conflicts.map(c => ({
+      ...c,
+      id: this.generateId(),
+      taskId,
+      taskTitle,
+      detectedAt,
+    }));
+
+    this.log = [...entries, ...this.log].slice(0, MAX_LOG_ENTRIES);
+    this.save();
+    this.notifyListeners();
+  }
+
+  getConflictLog(): TaskConflict[] {
+    return this.log;
+  }
+
+  getConflictsForTask(taskId: string): TaskConflict[] {
+    return this.log.filter(c => c.taskId === taskId);
+  }
+
+  async clearConflictLog(): Promise<void> {
+    this.log = [];
+    await this.save();
+    this.notifyListeners();
+  }
+
+  /**
+   * Sign-out: drop this user's conflict log so the next account starts clean.
+   */
+  async reset(): Promise<void> {
+    const userId = this.userId;
+    this.userId = null;
+    this.log = [];
+    this.notifyListeners();
+
+    if (!userId) return;
+    try {
+      await AsyncStorage.removeItem(`${STORAGE_KEY}_${userId}`);
+    } catch (error) {
+      console.error('Failed to clear conflict log:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const conflictResolutionService = new ConflictResolutionService();
+export default conflictResolutionService;
@@ -8,6 +8,7 @@ import {
   CalendarEvent
 } from '../types';
 import { genId } from '../constants';
+import { dueDateService } from './DueDateService';
 
 // ============ CONTEXT-AWARE SUGGESTION SERVICE ============
 // Suggests the best task to work on based on current context
@@ -169,6 +170,9 @@ export class ContextAwareSuggestionService {
       score += 10;
     }
 
+    // Deadlines pull a task forward gradually - up to +35 at the deadline
+    score += Math.round(dueDateService.getUrgency(task) * 35);
+
     // Older uncompleted tasks get slight priority
     const ageInDays = (Date.now() - new Date(task.createdAt).getTime()) / (1000 * 60 * 60 * 24);
     if (ageInDays > 2) {
@@ -181,6 +185,10 @@ export class ContextAwareSuggestionService {
   generateReason(task: Task, context: SuggestionContext, score: number): string {
     const reasons: string[] = [];
 
+    if (dueDateService.getUrgency(task) >= 0.5) {
+      reasons.push(`${dueDateService.describe(task)} - good moment to get it off your plate`);
+    }
+
     if (context.isPeakHour && task.energy === 'high') {
       reasons.push("It's your peak productivity hour");
     }
@@ -285,6 +293,11 @@ export class ContextAwareSuggestionService {
       parts.push("✨ Tiny step to get you started");
     }
 
+    const dueLabel = dueDateService.describe(task);
+    if (dueLabel && dueDateService.getUrgency(task) >= 0.3) {
+      parts.push(`🗓️ ${dueLabel}`);
+    }
+
     if (parts.length === 0) {
       parts.push("🎯 Solid choice based on your patterns");
     }
@@ -1,23 +1,17 @@
 /**
  * DataSyncService - Syncs local app data with Supabase backend
  * Handles tasks, focus sessions, and energy logs
+ *
+ * Writes that fail are saved locally and queued in the offline outbox,
+ * which replays them in order once we're back online.
  */
 
 import { supabase, TasksAPI, FocusSessionsAPI, EnergyLogsAPI } from './supabase';
+import { offlineQueueService } from './OfflineQueueService';
+import { taskToRow, rowToTask, taskUpdatesToRow, migrateStoredTasks, isServerId, TASK_SCHEMA_VERSION } from './taskSchema';
+import type { Task } from '../types';
 
-export interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  priority: 'low' | 'medium' | 'high';
-  status: 'pending' | 'in_progress' | 'completed';
-  estimatedMinutes?: number;
-  actualMinutes?: number;
-  dueDate?: string;
-  tags?: string[];
-  createdAt: string;
-  completedAt?: string;
-}
+export type { Task };
 
 export interface FocusSession {
   id: string;
@@ -58,6 +52,21 @@ class DataSyncService {
     return this.userId !== null;
   }
 
+  /**
+   * Number of writes waiting in the offline outbox
+   */
+  getPendingCount(): number {
+    return offlineQueueService.getPendingCount();
+  }
+
+  /**
+   * Push any queued offline writes to Supabase now
+   */
+  async flushPending(): Promise<number> {
+    if (!this.userId || this.isGuest) return 0;
+    return offlineQueueService.retryNow();
+  }
+
   // ==================== TASKS ====================
 
   /**
@@ -73,7 +82,7 @@ class DataSyncService {
 
     try {
       const tasks = await TasksAPI.getAll(this.userId);
-      return tasks.map(this.mapDbTaskToTask);
+      return tasks.map(rowToTask);
     } catch (error) {
       console.error('Error fetching tasks:', error);
       return this.getLocalTasks(); // Fallback to local
@@ -98,23 +107,18 @@ class DataSyncService {
       return newTask;
     }
 
+    const dbRow = taskToRow(newTask, this.userId);
+
     try {
-      const dbTask = await TasksAPI.create({
-        user_id: this.userId,
-        title: newTask.title,
-        description: newTask.description,
-        priority: newTask.priority,
-        status: newTask.status,
-        estimated_minutes: newTask.estimatedMinutes,
-        due_date: newTask.dueDate,
-        tags: newTask.tags,
-      });
+      const dbTask = await TasksAPI.create(dbRow);
+      if (!dbTask) throw new Error('Task insert failed');
 
-      return this.mapDbTaskToTask(dbTask);
+      return rowToTask(dbTask);
     } catch (error) {
       console.error('Error creating task:', error);
-      // Fallback: save locally
+      // Fallback: save locally and queue for replay
       this.saveLocalTask(newTask);
+      await offlineQueueService.enqueue(newTask.id, { entity: 'task', op: 'create', payload: dbRow });
       return newTask;
     }
   }
@@ -129,22 +133,23 @@ class DataSyncService {
       return this.updateLocalTask(taskId, updates);
     }
 
+    const dbUpdates = taskUpdatesToRow(updates);
+
     try {
-      const dbUpdates: any = {};
-      if (updates.title !== undefined) dbUpdates.title = updates.title;
-      if (updates.description !== undefined) dbUpdates.description = updates.description;
-      if (updates.priority !== undefined) dbUpdates.priority = updates.priority;
-      if (updates.status !== undefined) dbUpdates.status = updates.status;
-      if (updates.estimatedMinutes !== undefined) dbUpdates.estimated_minutes = updates.estimatedMinutes;
-      if (updates.actualMinutes !== undefined) dbUpdates.actual_minutes = updates.actualMinutes;
-      if (updates.dueDate !== undefined) dbUpdates.due_date = updates.dueDate;
-      if (updates.tags !== undefined) dbUpdates.tags = updates.tags;
-      if (updates.completedAt !== undefined) dbUpdates.completed_at = updates.completedAt;
-
-      const dbTask = await TasksAPI.update(taskId, dbUpdates);
-      return this.mapDbTaskToTask(dbTask);
+      const resolvedId = offlineQueueService.resolveId(taskId);
+      const updated = await TasksAPI.update(resolvedId, dbUpdates);
+      if (!updated) throw new Error('Task update failed');
+
+      const dbTask = await TasksAPI.getById(resolvedId);
+      return dbTask ? rowToTask(dbTask) : this.updateLocalTask(taskId, updates);
     } catch (error) {
       console.error('Error updating task:', error);
+      await offlineQueueService.enqueue(
+        taskId,
+        updates.completed
+          ? { entity: 'task', op: 'complete', payload: dbUpdates }
+          : { entity: 'task', op: 'update', payload: dbUpdates }
+      );
       return this.updateLocalTask(taskId, updates);
     }
   }
@@ -160,10 +165,12 @@ class DataSyncService {
     }
 
     try {
-      await TasksAPI.delete(taskId);
+      const deleted = await TasksAPI.delete(offlineQueueService.resolveId(taskId));
+      if (!deleted) throw new Error('Task delete failed');
       return true;
     } catch (error) {
       console.error('Error deleting task:', error);
+      await offlineQueueService.enqueue(taskId, { entity: 'task', op: 'delete' });
       return this.deleteLocalTask(taskId);
     }
   }
@@ -173,7 +180,7 @@ class DataSyncService {
    */
   async completeTask(taskId: string): Promise<Task | null> {
     return this.updateTask(taskId, {
-      status: 'completed',
+      completed: true,
       completedAt: new Date().toISOString(),
     });
   }
@@ -183,7 +190,7 @@ class DataSyncService {
   /**
    * Start a new focus session
    */
-  async startFocusSession(taskId?: string, taskTitle?: string): Promise<FocusSession | null> {
+  async startFocusSession(taskId?: string): Promise<FocusSession | null> {
     if (!this.userId) return null;
 
     const session: FocusSession = {
@@ -198,19 +205,29 @@ class DataSyncService {
       return session;
     }
 
+    // A task created offline has no server ID yet - the outbox links it once the task's create replays
+    const serverTaskId = taskId ? offlineQueueService.resolveId(taskId) : undefined;
+    const dbRow = {
+      user_id: this.userId,
+      task_id: isServerId(serverTaskId) ? serverTaskId : undefined,
+      started_at: session.startTime,
+      duration_minutes: 0,
+      completed: false,
+    };
+
     try {
-      const dbSession = await FocusSessionsAPI.create({
-        user_id: this.userId,
-        task_id: taskId,
-        task_title: taskTitle,
-        start_time: session.startTime,
-        duration_minutes: 0,
-      });
+      const dbSession = await FocusSessionsAPI.create(dbRow);
+      if (!dbSession) throw new Error('Focus session insert failed');
 
       return this.mapDbSessionToSession(dbSession);
     } catch (error) {
       console.error('Error starting focus session:', error);
       this.saveLocalFocusSession(session);
+      await offlineQueueService.enqueue(session.id, {
+        entity: 'focus_session',
+        op: 'create',
+        payload: { ...dbRow, task_local_id: taskId },
+      });
       return session;
     }
   }
@@ -239,18 +256,27 @@ class DataSyncService {
       });
     }
 
-    try {
-      const dbSession = await FocusSessionsAPI.update(sessionId, {
-        end_time: endTime,
-        duration_minutes: durationMinutes,
-        focus_score: focusScore,
-        distractions,
-        notes,
-      });
+    const dbUpdates = {
+      ended_at: endTime,
+      completed: true,
+      duration_minutes: durationMinutes,
+      focus_score: focusScore,
+      distractions,
+      notes,
+    };
 
-      return this.mapDbSessionToSession(dbSession);
+    try {
+      const resolvedId = offlineQueueService.resolveId(sessionId);
+      const updated = await FocusSessionsAPI.update(resolvedId, dbUpdates);
+      if (!updated) throw new Error('Focus session update failed');
+
+      const dbSession = await FocusSessionsAPI.getById(resolvedId);
+      return dbSession
+        ? this.mapDbSessionToSession(dbSession)
+        : this.updateLocalFocusSession(sessionId, { endTime, durationMinutes, focusScore, distractions, notes });
     } catch (error) {
       console.error('Error ending focus session:', error);
+      await offlineQueueService.enqueue(sessionId, { entity: 'focus_session', op: 'update', payload: dbUpdates });
       return this.updateLocalFocusSession(sessionId, {
         endTime,
         durationMinutes,
@@ -308,18 +334,27 @@ class DataSyncService {
       return log;
     }
 
+    const dbRow = {
+      user_id: this.userId,
+      energy_level: level,
+      mood,
+      notes,
+    };
+
     try {
-      const dbLog = await EnergyLogsAPI.create({
-        user_id: this.userId,
-        energy_level: level,
-        mood,
-        notes,
-      });
+      const dbLog = await EnergyLogsAPI.create(dbRow);
+      if (!dbLog) throw new Error('Energy log insert failed');
 
       return this.mapDbLogToLog(dbLog);
     } catch (error) {
       console.error('Error logging energy:', error);
       this.saveLocalEnergyLog(log);
+      // Keep the original timestamp so replayed logs land at the right time
+      await offlineQueueService.enqueue(log.id, {
+        entity: 'energy_log',
+        op: 'create',
+        payload: { ...dbRow, logged_at: log.timestamp },
+      });
       return log;
     }
   }
@@ -355,7 +390,16 @@ class DataSyncService {
   private getLocalTasks(): Task[] {
     try {
       const data = localStorage.getItem(`unfocused_tasks_${this.userId}`);
-      return data ? JSON.parse(data) : [];
+      if (!data) return [];
+
+      // Upgrade tasks saved by older builds to the canonical model
+      const version = Number(localStorage.getItem(`unfocused_tasks_version_${this.userId}`)) || 1;
+      const tasks = migrateStoredTasks(JSON.parse(data), version);
+      if (version < TASK_SCHEMA_VERSION) {
+        localStorage.setItem(`unfocused_tasks_${this.userId}`, JSON.stringify(tasks));
+        localStorage.setItem(`unfocused_tasks_version_${this.userId}`, String(TASK_SCHEMA_VERSION));
+      }
+      return tasks;
     } catch {
       return [];
     }
@@ -426,28 +470,12 @@ class DataSyncService {
 
   // ==================== MAPPERS ====================
 
-  private mapDbTaskToTask(dbTask: any): Task {
-    return {
-      id: dbTask.id,
-      title: dbTask.title,
-      description: dbTask.description,
-      priority: dbTask.priority || 'medium',
-      status: dbTask.status || 'pending',
-      estimatedMinutes: dbTask.estimated_minutes,
-      actualMinutes: dbTask.actual_minutes,
-      dueDate: dbTask.due_date,
-      tags: dbTask.tags || [],
-      createdAt: dbTask.created_at,
-      completedAt: dbTask.completed_at,
-    };
-  }
-
   private mapDbSessionToSession(dbSession: any): FocusSession {
     return {
       id: dbSession.id,
       taskId: dbSession.task_id,
-      startTime: dbSession.start_time,
-      endTime: dbSession.end_time,
+      startTime: dbSession.started_at,
+      endTime: dbSession.ended_at,
       durationMinutes: dbSession.duration_minutes || 0,
       focusScore: dbSession.focus_score,
       distractions: dbSession.distractions,
@@ -0,0 +1,254 @@
+/**
+ * DayPlannerService - "Plan my day" as time blocks
+ *
+ * Lays the task list out across today's free time, so the question "what
+ * now?" already has an answer. The plan is only a proposal until the user
+ * commits it, and it slides forward when the day runs long.
+ *
+ * Features:
+ * - Fills free time in working hours around existing events
+ * - Urgent tasks first; hard ones in peak hours; easy ones first on low-energy days
+ * - A short break after every long stretch, and a few minutes between tasks
+ * - Keeps a tweaked order when re-laying, and reflows unfinished blocks from now
+ */
+
+import { DEFAULT_SCHEDULING_PREFERENCES, genId } from '../constants';
+import { dueDateService } from './DueDateService';
+import { slotFinderService } from './SlotFinderService';
+import { BusyPeriod, CalendarEvent, DayPlan, EnergyLevel, PlannedBlock, SchedulingPreferences, Task } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const BREAK_AFTER_MINUTES = 90;
+const BREAK_MINUTES = 10;
+const TRANSITION_MINUTES = 5;
+const MIN_BLOCK_MINUTES = 5;
+// Running later than this is worth offering a reflow
+export const BEHIND_THRESHOLD_MINUTES = 10;
+// How long "how I feel right now" should steer the choice of task
+const ENERGY_HORIZON_MS = 2 * 60 * MINUTE_MS;
+const URGENCY_WEIGHT = 3;
+const ORDER_WEIGHT = 0.05;
+
+const PEAK_FIT: Record<EnergyLevel, number> = { high: 2, medium: 1, low: -0.5 };
+
+// Current energy -> task energy
+const ENERGY_FIT: Record<EnergyLevel, Record<EnergyLevel, number>> = {
+  low: { low: 1.5, medium: 0, high: -2 },
+  medium: { low: 0, medium: 0.5, high: 0 },
+  high: { low: -0.5, medium: 0, high: 1 },
+};
+
+export interface PlanItem {
+  task: Task;
+  minutes: number;
+}
+
+export interface PlanOptions {
+  from?: Date;
+  preferences?: SchedulingPreferences;
+  peakHours?: number[];
+  energy?: EnergyLevel | null; // How the user feels right now
+}
+
+export interface PlanResult {
+  blocks: PlannedBlock[];
+  unplacedTaskIds: string[];
+}
+
+const blockMinutes = (block: PlannedBlock): number =>
+  Math.round((new Date(block.end).getTime() - new Date(block.start).getTime()) / MINUTE_MS);
+
+export class DayPlannerService {
+  /**
+   * A fresh plan for the rest of today. At each free moment the best-fitting
+   * task that still fits before the next event goes next.
+   */
+  propose(items: PlanItem[], busy: BusyPeriod[], options: PlanOptions = {}): PlanResult {
+    const from = options.from || new Date();
+    const peakHours = options.peakHours || [];
+    const order = new Map(items.map((item, index) => [item, index]));
+
+    const score = (item: PlanItem, at: Date): number => {
+      const { task } = item;
+      let value = dueDateService.getUrgency(task, at) * URGENCY_WEIGHT;
+      if (peakHours.includes(at.getHours())) value += PEAK_FIT[task.energy];
+      if (options.energy && at.getTime() - from.getTime() < ENERGY_HORIZON_MS) {
+        value += ENERGY_FIT[options.energy][task.energy];
+      }
+      return value - order.get(item)! * ORDER_WEIGHT;
+    };
+
+    const { blocks, left } = this.fill(
+      items,
+      this.getWindows(busy, options),
+      (fitting, at) => fitting.reduce((best, item) => (score(item, at) > score(best, at) ? item : best)),
+      (item, start, end) => ({
+        id: genId(),
+        kind: 'task',
+        taskId: item.task.id,
+        title: item.task.title,
+        start: start.toISOString(),
+        end: end.toISOString(),
+        energy: item.task.energy,
+      })
+    );
+    return { blocks, unplacedTaskIds: left.map(item => item.task.id) };
+  }
+
+  /**
+   * Lay task blocks out again in the order given, keeping their lengths.
+   * Breaks are recalculated; a block that doesn't fit before the next event
+   * lets the next one that does go first.
+   */
+  layout(blocks: PlannedBlock[], busy: BusyPeriod[], options: PlanOptions = {}): PlanResult {
+    const items = blocks
+      .filter(b => b.kind === 'task')
+      .map(block => ({ block, minutes: blockMinutes(block) }));
+
+    const { blocks: placed, left } = this.fill(
+      items,
+      this.getWindows(busy, options),
+      fitting => fitting[0],
+      (item, start, end) => ({ ...item.block, start: start.toISOString(), end: end.toISOString() })
+    );
+    return { blocks: placed, unplacedTaskIds: left.map(item => item.block.taskId!).filter(Boolean) };
+  }
+
+  /**
+   * Keep what's done, and lay every unfinished task block out again from now.
+   */
+  reflow(plan: DayPlan, tasks: Task[], busy: BusyPeriod[], options: PlanOptions = {}): PlanResult {
+    const now = options.from || new Date();
+    const isDone = (block: PlannedBlock) => tasks.find(t => t.id === block.taskId)?.completed;
+
+    const kept = plan.blocks.filter(b => (b.kind === 'task' ? isDone(b) : new Date(b.end) <= now));
+    const open = plan.blocks.filter(b => b.kind === 'task' && !isDone(b) && tasks.some(t => t.id === b.taskId));
+    const result = this.layout(open, busy, { ...options, from: now });
+
+    const blocks = [...kept, ...result.blocks].sort((a, b) => new Date(a.start).getTime() - new Date(b.start).getTime());
+    return {
+      blocks,
+      unplacedTaskIds: [...new Set([...plan.unplacedTaskIds, ...result.unplacedTaskIds])]
+        .filter(id => !blocks.some(b => b.taskId === id)),
+    };
+  }
+
+  /**
+   * Move a task block `offset` places among the unfinished task blocks.
+   */
+  moveBlock(blocks: PlannedBlock[], blockId: string, offset: number, tasks: Task[]): PlannedBlock[] {
+    const open = blocks.filter(b => b.kind === 'task' && !tasks.find(t => t.id === b.taskId)?.completed);
+    const from = open.findIndex(b => b.id === blockId);
+    if (from < 0 || offset === 0) return blocks;
+
+    const to = Math.max(0, Math.min(open.length - 1, from + offset));
+    const reordered = [...open];
+    reordered.splice(to, 0, reordered.splice(from, 1)[0]);
+    return [...blocks.filter(b => !open.includes(b)), ...reordered];
+  }
+
+  resizeBlock(blocks: PlannedBlock[], blockId: string, deltaMinutes: number): PlannedBlock[] {
+    return blocks.map(block => {
+      if (block.id !== blockId) return block;
+      const minutes = Math.max(MIN_BLOCK_MINUTES, blockMinutes(block) + deltaMinutes);
+      return { ...block, end: new Date(new Date(block.start).getTime() + minutes * MINUTE_MS).toISOString() };
+    });
+  }
+
+  /**
+   * How far behind the plan is: the longest a block has run past its end
+   * with its task still open. 0 when on track.
+   */
+  getDelayMinutes(plan: DayPlan | null, tasks: Task[], now: Date = new Date()): number {
+    if (!plan) return 0;
+    return plan.blocks
+      .filter(b => b.kind === 'task')
+      .filter(b => {
+        const task = tasks.find(t => t.id === b.taskId);
+        return task && !task.completed;
+      })
+      .reduce((delay, b) => Math.max(delay, Math.floor((now.getTime() - new Date(b.end).getTime()) / MINUTE_MS)), 0);
+  }
+
+  /**
+   * Busy time minus the plan's own calendar events, so re-laying a committed
+   * plan isn't blocked by where its blocks used to be.
+   */
+  withoutPlan(busy: BusyPeriod[], plan: DayPlan | null, events: CalendarEvent[]): BusyPeriod[] {
+    const eventIds = new Set((plan?.blocks || []).map(b => b.eventId).filter(Boolean));
+    const own = events
+      .filter(e => eventIds.has(e.id))
+      .map(e => ({ start: new Date(e.start).getTime(), end: new Date(e.end).getTime() }));
+
+    return busy.flatMap(period => {
+      let pieces = [{ start: new Date(period.start).getTime(), end: new Date(period.end).getTime() }];
+      own.forEach(block => {
+        pieces = pieces.flatMap(piece =>
+          block.end <= piece.start || block.start >= piece.end
+            ? [piece]
+            : [{ start: piece.start, end: block.start }, { start: block.end, end: piece.end }].filter(p => p.end > p.start)
+        );
+      });
+      return pieces.map(p => ({ start: new Date(p.start).toISOString(), end: new Date(p.end).toISOString() }));
+    });
+  }
+
+  getBlockMinutes(block: PlannedBlock): number {
+    return blockMinutes(block);
+  }
+
+  private getWindows(busy: BusyPeriod[], options: PlanOptions): { start: Date; end: Date }[] {
+    const from = options.from || new Date();
+    return slotFinderService.getFreeWindows(busy, options.preferences || DEFAULT_SCHEDULING_PREFERENCES, from, from);
+  }
+
+  /**
+   * Walk the free windows in order, placing `choose`n items back to back
+   * with a short gap, and a break whenever work has run long.
+   */
+  private fill<T extends { minutes: number }>(
+    queue: T[],
+    windows: { start: Date; end: Date }[],
+    choose: (fitting: T[], at: Date) => T,
+    toBlock: (item: T, start: Date, end: Date) => PlannedBlock
+  ): { blocks: PlannedBlock[]; left: T[] } {
+    const blocks: PlannedBlock[] = [];
+    let left = [...queue];
+    let workedMinutes = 0;
+
+    for (const window of windows) {
+      let cursor = window.start.getTime();
+      const windowEnd = window.end.getTime();
+
+      while (left.length > 0) {
+        if (workedMinutes >= BREAK_AFTER_MINUTES) {
+          if (cursor + BREAK_MINUTES * MINUTE_MS > windowEnd) break;
+          blocks.push({
+            id: genId(),
+            kind: 'break',
+            title: '☕ Break',
+            start: new Date(cursor).toISOString(),
+            end: new Date(cursor + BREAK_MINUTES * MINUTE_MS).toISOString(),
+          });
+          cursor += BREAK_MINUTES * MINUTE_MS;
+          workedMinutes = 0;
+          continue;
+        }
+
+        const fitting = left.filter(item => cursor + item.minutes * MINUTE_MS <= windowEnd);
+        if (fitting.length === 0) break;
+
+        const item = choose(fitting, new Date(cursor));
+        blocks.push(toBlock(item, new Date(cursor), new Date(cursor + item.minutes * MINUTE_MS)));
+        left = left.filter(i => i !== item);
+        cursor += (item.minutes + TRANSITION_MINUTES) * MINUTE_MS;
+        workedMinutes += item.minutes;
+      }
+    }
+    return { blocks, left };
+  }
+}
+
+// Export singleton instance
+export const dayPlannerService = new DayPlannerService();
+export default dayPlannerService;
@@ -0,0 +1,135 @@
+/**
+ * DueDateService - Deadlines that nudge instead of nag
+ *
+ * A due date is a real deadline; a soft date is "would be nice by". Both
+ * raise a task's urgency smoothly as the day gets closer, rather than
+ * flipping to red the moment it passes.
+ *
+ * Features:
+ * - Urgency curve from 0 (a week or more away) to 1 (due now)
+ * - Soft dates count for half, and ease off once they've passed
+ * - Friendly labels ("Due tomorrow", "Nice by Fri", "Still open")
+ * - Quick picks for setting a date in one tap
+ */
+
+import { Task } from '../types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// Hours left at which a hard deadline reaches half urgency
+const HALF_URGENCY_HOURS = 24;
+const SOFT_WEIGHT = 0.5;
+const SOFT_PASSED_URGENCY = 0.2;
+
+export type DuePreset = 'today' | 'tomorrow' | 'this_week' | 'next_week';
+
+export const DUE_PRESETS: { id: DuePreset; label: string }[] = [
+  { id: 'today', label: 'Today' },
+  { id: 'tomorrow', label: 'Tomorrow' },
+  { id: 'this_week', label: 'This week' },
+  { id: 'next_week', label: 'Next week' },
+];
+
+export interface DueInfo {
+  date: Date;
+  soft: boolean;
+}
+
+export class DueDateService {
+  /**
+   * The date that matters for a task - a hard due date wins over a soft one.
+   */
+  getDue(task: Task): DueInfo | null {
+    if (task.dueDate) return { date: new Date(task.dueDate), soft: false };
+    if (task.softDueDate) return { date: new Date(task.softDueDate), soft: true };
+    return null;
+  }
+
+  /**
+   * 0-1. Rises gently over the last week, reaching 0.5 a day out and 1 at the
+   * deadline. Past deadlines stay at 1; past soft dates drop back to a low
+   * hum so they don't crowd out real deadlines.
+   */
+  getUrgency(task: Task, now: Date = new Date()): number {
+    const due = this.getDue(task);
+    if (!due || task.completed) return 0;
+
+    const hoursLeft = (due.date.getTime() - now.getTime()) / HOUR_MS;
+    if (hoursLeft <= 0) return due.soft ? SOFT_PASSED_URGENCY : 1;
+
+    const urgency = 1 / (1 + Math.pow(hoursLeft / HALF_URGENCY_HOURS, 1.5));
+    return due.soft ? urgency * SOFT_WEIGHT : urgency;
+  }
+
+  isDueSoon(task: Task, withinHours: number = 24, now: Date = new Date()): boolean {
+    const due = this.getDue(task);
+    if (!due || task.completed) return false;
+    const hoursLeft = (due.date.getTime() - now.getTime()) / HOUR_MS;
+    return hoursLeft > 0 && hoursLeft <= withinHours;
+  }
+
+  /**
+   * Most urgent first; tasks without dates keep their order at the end.
+   */
+  sortByUrgency(tasks: Task[], now: Date = new Date()): Task[] {
+    return tasks
+      .map((task, index) => ({ task, index, urgency: this.getUrgency(task, now) }))
+      .sort((a, b) => b.urgency - a.urgency || a.index - b.index)
+      .map(({ task }) => task);
+  }
+
+  /**
+   * Short label for task rows. Passed dates read as "still open", never overdue.
+   */
+  describe(task: Task, now: Date = new Date()): string | null {
+    const due = this.getDue(task);
+    if (!due) return null;
+
+    const prefix = due.soft ? 'Nice by' : 'Due';
+    const days = Math.round((this.startOfDay(due.date) - this.startOfDay(now)) / DAY_MS);
+    if (days < 0) return due.soft ? null : 'Still open';
+    if (days === 0) return due.soft ? 'Nice today' : 'Due today';
+    if (days === 1) return `${prefix} tomorrow`;
+    if (days < 7) return `${prefix} ${due.date.toLocaleDateString([], { weekday: 'short' })}`;
+    return `${prefix} ${due.date.toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+  }
+
+  /**
+   * End of the picked day, so "due today" means any time today.
+   */
+  fromPreset(preset: DuePreset, now: Date = new Date()): string {
+    const date = new Date(now);
+    switch (preset) {
+      case 'tomorrow':
+        date.setDate(date.getDate() + 1);
+        break;
+      case 'this_week':
+        // Friday, or today if it's already the weekend
+        date.setDate(date.getDate() + Math.max(0, 5 - date.getDay()));
+        break;
+      case 'next_week':
+        date.setDate(date.getDate() + 7);
+        break;
+    }
+    date.setHours(23, 59, 0, 0);
+    return date.toISOString();
+  }
+
+  /**
+   * Date-only or full ISO input (from Nero) to an end-of-day timestamp.
+   */
+  parseDate(input?: string): string | undefined {
+    if (!input) return undefined;
+    const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(input.trim());
+    const date = dateOnly ? new Date(`${input.trim()}T23:59:00`) : new Date(input);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+  }
+
+  private startOfDay(date: Date): number {
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  }
+}
+
+// Export singleton instance
+export const dueDateService = new DueDateService();
+export default dueDateService;
@@ -0,0 +1,405 @@
+/**
+ * FocusRoomService - Virtual body doubling
+ *
+ * Focusing is easier when someone else is focusing too. A room is a shared
+ * space where everyone's task and timer are visible in real time.
+ *
+ * Features:
+ * - Create a room and invite others with a short code
+ * - Live participant list built from each person's FocusTimerService session
+ * - Shared celebration whenever anyone finishes a focus block
+ * - Supabase Realtime presence, or an in-process channel for tests and offline use
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { FocusTimerService } from './FocusTimerService';
+import { genId } from '../constants';
+import { FocusSession, RoomCelebration, RoomParticipant } from '../types';
+
+const STORAGE_KEY = 'nero_focus_room';
+const CODE_LENGTH = 6;
+// No 0/O or 1/I - codes get read out loud and typed on phones
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export interface RoomChannelHandlers {
+  onParticipants: (participants: RoomParticipant[]) => void;
+  onCelebration: (celebration: RoomCelebration) => void;
+  onStatusChange?: (connected: boolean) => void;
+}
+
+/**
+ * A connection to one room. Implementations deliver the full participant list
+ * (including ourselves) whenever anyone joins, leaves or updates.
+ */
+export interface RoomChannel {
+  connect(self: RoomParticipant, handlers: RoomChannelHandlers): void;
+  update(self: RoomParticipant): void;
+  celebrate(celebration: RoomCelebration): void;
+  disconnect(): void;
+}
+
+export type RoomTransport = (code: string) => RoomChannel;
+
+// ============ SUPABASE CHANNEL ============
+
+class SupabaseRoomChannel implements RoomChannel {
+  private channel: RealtimeChannel | null = null;
+  private self: RoomParticipant | null = null;
+  private subscribed = false;
+
+  constructor(private code: string) {}
+
+  connect(self: RoomParticipant, handlers: RoomChannelHandlers): void {
+    this.self = self;
+    this.channel = supabase.channel(`focus-room-${this.code}`, {
+      config: {
+        presence: { key: self.id },
+        broadcast: { self: true },
+      },
+    });
+
+    this.channel
+      .on('presence', { event: 'sync' }, () => {
+        if (!this.channel) return;
+        const state = this.channel.presenceState<RoomParticipant>();
+        // A participant with two devices has several entries - keep the newest
+        const participants = Object.values(state).map(entries =>
+          entries.reduce((latest, entry) => (entry.updatedAt > latest.updatedAt ? entry : latest))
+        );
+        handlers.onParticipants(participants);
+      })
+      .on('broadcast', { event: 'celebrate' }, ({ payload }) => {
+        handlers.onCelebration(payload as RoomCelebration);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') {
+          this.subscribed = true;
+          handlers.onStatusChange?.(true);
+          if (this.self) this.channel?.track(this.self);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          this.subscribed = false;
+          handlers.onStatusChange?.(false);
+        }
+      });
+  }
+
+  update(self: RoomParticipant): void {
+    this.self = self;
+    // Tracked on subscribe if we're not connected yet
+    if (this.subscribed) this.channel?.track(self);
+  }
+
+  celebrate(celebration: RoomCelebration): void {
+    this.channel?.send({ type: 'broadcast', event: 'celebrate', payload: celebration });
+  }
+
+  disconnect(): void {
+    if (this.channel) {
+      this.channel.untrack();
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    this.subscribed = false;
+  }
+}
+
+// ============ LOCAL CHANNEL ============
+
+// Every LocalRoomChannel in this JS context, by room code
+const localRooms: Map<string, Set<LocalRoomChannel>> = new Map();
+
+/**
+ * In-process stand-in for the Supabase channel. Several instances with the
+ * same code see each other, which is enough to exercise rooms in tests
+ * without a backend.
+ */
+export class LocalRoomChannel implements RoomChannel {
+  private self: RoomParticipant | null = null;
+  private handlers: RoomChannelHandlers | null = null;
+
+  constructor(private code: string) {}
+
+  connect(self: RoomParticipant, handlers: RoomChannelHandlers): void {
+    this.self = self;
+    this.handlers = handlers;
+    if (!localRooms.has(this.code)) localRooms.set(this.code, new Set());
+    localRooms.get(this.code)!.add(this);
+    handlers.onStatusChange?.(true);
+    this.syncPeers();
+  }
+
+  update(self: RoomParticipant): void {
+    this.self = self;
+    this.syncPeers();
+  }
+
+  celebrate(celebration: RoomCelebration): void {
+    this.peers().forEach(peer => peer.handlers?.onCelebration(celebration));
+  }
+
+  disconnect(): void {
+    const room = localRooms.get(this.code);
+    room?.delete(this);
+    if (room?.size === 0) localRooms.delete(this.code);
+    this.handlers?.onStatusChange?.(false);
+    this.handlers = null;
+    this.syncPeers();
+  }
+
+  private peers(): LocalRoomChannel[] {
+    return Array.from(localRooms.get(this.code) || []);
+  }
+
+  private syncPeers() {
+    const peers = this.peers();
+    const participants = peers.map(peer => peer.self).filter((p): p is RoomParticipant => !!p);
+    peers.forEach(peer => peer.handlers?.onParticipants(participants));
+  }
+}
+
+export const supabaseRoomTransport: RoomTransport = code => new SupabaseRoomChannel(code);
+export const localRoomTransport: RoomTransport = code => new LocalRoomChannel(code);
+
+// ============ SERVICE ============
+
+interface PersistedRoom {
+  code: string;
+  isHost: boolean;
+}
+
+export interface FocusRoomState {
+  code: string;
+  isHost: boolean;
+  connected: boolean;
+  participants: RoomParticipant[];
+}
+
+export class FocusRoomService {
+  private transport: RoomTransport;
+  private channel: RoomChannel | null = null;
+  private room: FocusRoomState | null = null;
+  private participantId: string = genId();
+  private name: string = 'Someone';
+  private taskTitle?: string;
+  private timer: FocusTimerService | null = null;
+  private unsubscribeTimer: (() => void) | null = null;
+  private lastSession: { id: string; completedPomodoros: number } | null = null;
+  private listeners: Set<(room: FocusRoomState | null) => void> = new Set();
+  private celebrationListeners: Set<(celebration: RoomCelebration) => void> = new Set();
+
+  constructor(transport: RoomTransport = supabaseRoomTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Swap how rooms connect - `localRoomTransport` for tests or offline demos.
+   * Takes effect on the next join.
+   */
+  setTransport(transport: RoomTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Who we are to the room. Use the account ID so two devices count as one person.
+   */
+  setIdentity(participantId: string, name: string): void {
+    this.participantId = participantId;
+    this.name = name || 'Someone';
+    this.publish();
+  }
+
+  setTaskTitle(taskTitle?: string): void {
+    if (this.taskTitle === taskTitle) return;
+    this.taskTitle = taskTitle;
+    this.publish();
+  }
+
+  /**
+   * Share this timer's sessions with whatever room we're in.
+   */
+  attachTimer(timer: FocusTimerService): void {
+    this.unsubscribeTimer?.();
+    this.timer = timer;
+    this.unsubscribeTimer = timer.subscribe(() => this.handleTimerChange());
+    this.publish();
+  }
+
+  subscribe(listener: (room: FocusRoomState | null) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  onCelebration(listener: (celebration: RoomCelebration) => void): () => void {
+    this.celebrationListeners.add(listener);
+    return () => this.celebrationListeners.delete(listener);
+  }
+
+  getRoom(): FocusRoomState | null {
+    return this.room;
+  }
+
+  getParticipantId(): string {
+    return this.participantId;
+  }
+
+  // ============ JOINING ============
+
+  createRoom(): string {
+    let code = '';
+    for (let i = 0; i < CODE_LENGTH; i++) {
+      code += CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)];
+    }
+    this.connect(code, true);
+    return code;
+  }
+
+  /**
+   * Join by invite code. Returns false if the code can't be a room code.
+   */
+  joinRoom(code: string): boolean {
+    const normalized = this.normalizeCode(code);
+    if (!normalized) return false;
+    this.connect(normalized, false);
+    return true;
+  }
+
+  leaveRoom(): void {
+    this.channel?.disconnect();
+    this.channel = null;
+    this.room = null;
+    AsyncStorage.removeItem(STORAGE_KEY).catch(e => console.log('Failed to clear focus room:', e));
+    this.notifyListeners();
+  }
+
+  /**
+   * Rejoin the room we were in when the app closed.
+   */
+  async restore(): Promise<FocusRoomState | null> {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      const saved: PersistedRoom | null = json ? JSON.parse(json) : null;
+      if (saved?.code && !this.room) this.connect(saved.code, saved.isHost);
+    } catch (e) {
+      console.log('Failed to restore focus room:', e);
+    }
+    return this.room;
+  }
+
+  normalizeCode(code: string): string | null {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+    if (normalized.length !== CODE_LENGTH) return null;
+    return normalized.split('').every(c => CODE_ALPHABET.includes(c)) ? normalized : null;
+  }
+
+  private connect(code: string, isHost: boolean) {
+    this.channel?.disconnect();
+
+    const self = this.buildSelf();
+    this.room = { code, isHost, connected: false, participants: [self] };
+    this.channel = this.transport(code);
+    this.channel.connect(self, {
+      onParticipants: participants => {
+        if (!this.room) return;
+        this.room = { ...this.room, participants: this.sortParticipants(participants) };
+        this.notifyListeners();
+      },
+      onCelebration: celebration => {
+        this.celebrationListeners.forEach(listener => listener(celebration));
+      },
+      onStatusChange: connected => {
+        if (!this.room) return;
+        this.room = { ...this.room, connected };
+        this.notifyListeners();
+      },
+    });
+
+    const persisted: PersistedRoom = { code, isHost };
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(persisted)).catch(e => console.log('Failed to save focus room:', e));
+    this.notifyListeners();
+  }
+
+  // ============ TIMER STATE ============
+
+  private handleTimerChange() {
+    this.publish();
+
+    // Celebrate each focus block as it's credited - including the last one,
+    // which lands in history after the session is cleared
+    const session = this.timer?.getCurrentSession() || this.findFinishedSession();
+    if (!session) return;
+
+    if (this.lastSession?.id === session.id && session.completedPomodoros > this.lastSession.completedPomodoros) {
+      this.celebrate(session);
+    }
+    this.lastSession = { id: session.id, completedPomodoros: session.completedPomodoros };
+  }
+
+  private findFinishedSession(): FocusSession | null {
+    if (!this.lastSession || !this.timer) return null;
+    const history = this.timer.getSessionHistory();
+    return history.find(s => s.id === this.lastSession!.id) || null;
+  }
+
+  private celebrate(session: FocusSession) {
+    if (!this.channel) return;
+    this.channel.celebrate({
+      participantId: this.participantId,
+      name: this.name,
+      taskTitle: this.taskTitle,
+      completedPomodoros: session.completedPomodoros,
+      timestamp: Date.now(),
+    });
+  }
+
+  private publish() {
+    if (!this.channel || !this.room) return;
+    this.channel.update(this.buildSelf());
+  }
+
+  private buildSelf(): RoomParticipant {
+    const timer = this.timer;
+    const session = timer?.getCurrentSession();
+    const active = !!session && !!timer?.isActive();
+    const now = Date.now();
+    const flowing = !!timer?.isFlowing();
+    const status = active ? session!.status : 'idle';
+
+    let endsAt: number | null = null;
+    let pausedSeconds: number | null = null;
+    if (status === 'paused') {
+      pausedSeconds = timer!.getElapsedSeconds() || timer!.getRemainingSeconds();
+    } else if (active && !flowing) {
+      endsAt = now + timer!.getRemainingSeconds() * 1000;
+    }
+
+    return {
+      id: this.participantId,
+      name: this.name,
+      taskTitle: active ? this.taskTitle : undefined,
+      status,
+      mode: timer?.getSettings().mode || 'pomodoro',
+      endsAt,
+      flowStartedAt: flowing ? now - timer!.getElapsedSeconds() * 1000 : null,
+      pausedSeconds,
+      completedPomodoros: session?.completedPomodoros || 0,
+      updatedAt: now,
+    };
+  }
+
+  // Us first, then whoever is actually focusing
+  private sortParticipants(participants: RoomParticipant[]): RoomParticipant[] {
+    const rank = (p: RoomParticipant) =>
+      p.id === this.participantId ? 0 : p.status === 'running' ? 1 : p.status === 'idle' ? 3 : 2;
+    return [...participants].sort((a, b) => rank(a) - rank(b) || a.name.localeCompare(b.name));
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener(this.room));
+  }
+}
+
+// Export singleton instance
+export const focusRoomService = new FocusRoomService();
+export default focusRoomService;
@@ -1,13 +1,51 @@
-import { FocusSession, FocusTimerSettings, FocusTimerStatus, MoodLevel } from '../types';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus } from 'react-native';
+import { FocusDistraction, FocusSession, FocusTimerSettings, FocusTimerStatus, MoodLevel } from '../types';
 import { genId, DEFAULT_FOCUS_TIMER_SETTINGS } from '../constants';
 
+const STORAGE_KEY = 'nero_focus_timer_state';
+const MAX_CATCH_UP_PHASES = 500;
+const MIN_FLOW_BREAK_MINUTES = 1;
+const MAX_FLOW_BREAK_MINUTES = 30;
+// Each distraction per 25 minutes of session costs this many points
+const DISTRACTION_PENALTY = 15;
+const SCORE_WINDOW_MINUTES = 25;
+
+// Everything needed to rebuild the timer after the app is killed
+interface PersistedTimerState {
+  session: FocusSession;
+  settings: FocusTimerSettings;
+  phaseEndsAt: number | null; // Epoch ms; null while paused or flowing
+  pausedRemaining: number; // Seconds left when paused
+  resumeStatus: 'running' | 'break';
+  flowStartedAt?: number | null; // Epoch ms the current flowtime block (effectively) began
+  pausedElapsed?: number | null; // Flowtime seconds so far when paused
+  focusSince?: number | null; // Epoch ms focus time started counting towards focusedSeconds
+}
+
+export interface TimerRestoreResult {
+  session: FocusSession;
+  creditedPomodoros: number; // Focus blocks that finished while the app was closed
+  finished: boolean; // Nothing left running - report it like a normal completion
+}
+
 // ============ FOCUS TIMER SERVICE ============
-// Pomodoro-style timer with ADHD-friendly adaptations
+// Pomodoro-style timer with ADHD-friendly adaptations, plus an open-ended
+// flowtime mode that counts up until the user reaches a natural stopping point.
+// Time is measured against absolute end timestamps, never by counting ticks,
+// so it stays correct through backgrounding, JS thread sleeps and restarts.
 export class FocusTimerService {
   private currentSession: FocusSession | null = null;
   private settings: FocusTimerSettings = DEFAULT_FOCUS_TIMER_SETTINGS;
   private timerInterval: NodeJS.Timeout | null = null;
-  private remainingSeconds: number = 0;
+  private appStateSub: { remove: () => void } | null = null;
+  private phaseEndsAt: number | null = null;
+  private pausedRemaining: number = 0;
+  private resumeStatus: 'running' | 'break' = 'running';
+  private flowStartedAt: number | null = null;
+  private pausedElapsed: number | null = null;
+  private focusSince: number | null = null;
+  private listeners: Set<() => void> = new Set();
   private onTick: ((remaining: number) => void) | null = null;
   private onComplete: ((session: FocusSession) => void) | null = null;
   private onBreakStart: (() => void) | null = null;
@@ -22,7 +60,7 @@ export class FocusTimerService {
   }
 
   setCallbacks(callbacks: {
-    onTick?: (remaining: number) => void;
+    onTick?: (seconds: number) => void; // Remaining, or elapsed during a flowtime block
     onComplete?: (session: FocusSession) => void;
     onBreakStart?: () => void;
   }) {
@@ -31,7 +69,19 @@ export class FocusTimerService {
     if (callbacks.onBreakStart) this.onBreakStart = callbacks.onBreakStart;
   }
 
-  startFocusSession(taskId?: string, mood?: MoodLevel): FocusSession {
+  /**
+   * Notified on every state change (start, pause, break, stop, restore).
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * `focusMinutes` runs this one session as timed blocks of that length,
+   * leaving the saved settings alone.
+   */
+  startFocusSession(taskId?: string, mood?: MoodLevel, focusMinutes?: number): FocusSession {
     // Clear any existing timer
     this.stopTimer();
 
@@ -39,31 +89,70 @@ export class FocusTimerService {
       id: genId(),
       taskId,
       startTime: new Date().toISOString(),
-      duration: this.settings.focusDuration * 60,
+      duration: this.settings.mode === 'flowtime' && !focusMinutes ? 0 : (focusMinutes || this.settings.focusDuration) * 60,
       breakDuration: 0,
       status: 'running',
       completedPomodoros: 0,
       mood,
+      distractions: [],
+      focusedSeconds: 0,
+      focusMinutes,
     };
 
     this.currentSession = session;
-    this.remainingSeconds = this.settings.focusDuration * 60;
-    this.startTimer();
+    this.startFocusPhase();
 
     return session;
   }
 
+  // ============ CLOCK ============
+
+  private startFocusPhase(from: number = Date.now()) {
+    const focusMinutes = this.currentSession?.focusMinutes;
+    if (this.settings.mode === 'flowtime' && !focusMinutes) {
+      this.startFlow(from);
+    } else {
+      this.startPhase('running', (focusMinutes || this.settings.focusDuration) * 60, from);
+    }
+  }
+
+  // Flowtime blocks have no end - they count up from flowStartedAt
+  private startFlow(from: number = Date.now()) {
+    if (!this.currentSession) return;
+    // Resuming backdates `from` over time that's already been credited
+    this.creditFocus(from);
+    this.focusSince = this.pausedElapsed !== null ? Date.now() : from;
+    this.currentSession.status = 'running';
+    this.resumeStatus = 'running';
+    this.phaseEndsAt = null;
+    this.pausedRemaining = 0;
+    this.pausedElapsed = null;
+    this.flowStartedAt = from;
+    this.startTimer();
+    this.persist();
+  }
+
+  private startPhase(status: 'running' | 'break', seconds: number, from: number = Date.now()) {
+    if (!this.currentSession) return;
+    this.creditFocus(from);
+    if (status === 'running') this.focusSince = from;
+    this.currentSession.status = status;
+    this.resumeStatus = status;
+    this.phaseEndsAt = from + seconds * 1000;
+    this.pausedRemaining = 0;
+    this.pausedElapsed = null;
+    this.flowStartedAt = null;
+    this.startTimer();
+    this.persist();
+  }
+
   private startTimer() {
-    this.timerInterval = setInterval(() => {
-      if (this.remainingSeconds > 0) {
-        this.remainingSeconds--;
-        if (this.onTick) {
-          this.onTick(this.remainingSeconds);
-        }
-      } else {
-        this.handleTimerComplete();
-      }
-    }, 1000);
+    this.stopTimer();
+    this.timerInterval = setInterval(() => this.tick(), 1000);
+    // Timers don't run while backgrounded - catch up the moment we're back
+    this.appStateSub = AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') this.tick();
+    });
   }
 
   private stopTimer() {
@@ -71,12 +160,39 @@ export class FocusTimerService {
       clearInterval(this.timerInterval);
       this.timerInterval = null;
     }
+    this.appStateSub?.remove();
+    this.appStateSub = null;
   }
 
-  private handleTimerComplete() {
-    this.stopTimer();
+  private tick() {
+    if (this.isFlowing()) {
+      if (this.onTick) this.onTick(this.getElapsedSeconds());
+      return;
+    }
+    if (this.phaseEndsAt === null) return;
+    this.catchUp(Date.now(), true);
+    if (this.phaseEndsAt !== null && this.onTick) {
+      this.onTick(this.getRemainingSeconds());
+    }
+  }
 
-    if (!this.currentSession) return;
+  /**
+   * Complete every phase that ended by `now`. Each phase ends at its own
+   * scheduled time, so auto-started breaks and blocks chain without drift.
+   */
+  private catchUp(now: number, notify: boolean) {
+    let guard = 0;
+    while (this.phaseEndsAt !== null && this.phaseEndsAt <= now && guard++ < MAX_CATCH_UP_PHASES) {
+      this.handleTimerComplete(this.phaseEndsAt, notify);
+    }
+  }
+
+  private handleTimerComplete(endedAt: number, notify: boolean) {
+    if (!this.currentSession) {
+      this.phaseEndsAt = null;
+      this.stopTimer();
+      return;
+    }
 
     if (this.currentSession.status === 'running') {
       // Focus session completed - start break
@@ -88,59 +204,91 @@ export class FocusTimerService {
         : this.settings.shortBreakDuration;
 
       if (this.settings.autoStartBreaks) {
-        this.currentSession.status = 'break';
-        this.remainingSeconds = breakDuration * 60;
         this.currentSession.breakDuration = breakDuration * 60;
-        this.startTimer();
-        if (this.onBreakStart) {
+        this.startPhase('break', breakDuration * 60, endedAt);
+        if (notify && this.onBreakStart) {
           this.onBreakStart();
         }
       } else {
+        this.stopTimer();
+        this.creditFocus(endedAt);
+        this.phaseEndsAt = null;
+        this.pausedRemaining = 0;
         this.currentSession.status = 'paused';
-        if (this.onComplete) {
+        this.currentSession.endTime = new Date(endedAt).toISOString();
+        this.currentSession.focusScore = this.getFocusScore(this.currentSession);
+        this.persist();
+        if (notify && this.onComplete) {
           this.onComplete(this.currentSession);
         }
       }
     } else if (this.currentSession.status === 'break') {
       // Break completed
       if (this.settings.autoStartNextPomodoro) {
-        this.currentSession.status = 'running';
-        this.remainingSeconds = this.settings.focusDuration * 60;
-        this.startTimer();
+        this.startFocusPhase(endedAt);
       } else {
+        this.stopTimer();
+        this.phaseEndsAt = null;
         this.currentSession.status = 'completed';
-        this.currentSession.endTime = new Date().toISOString();
-        this.sessionHistory.push(this.currentSession);
-        if (this.onComplete) {
+        this.currentSession.endTime = new Date(endedAt).toISOString();
+        this.currentSession.focusScore = this.getFocusScore(this.currentSession);
+        this.recordSession(this.currentSession);
+        this.persist();
+        if (notify && this.onComplete) {
           this.onComplete(this.currentSession);
         }
       }
     }
   }
 
+  // ============ CONTROLS ============
+
   pause(): void {
+    this.creditFocus(Date.now());
+    if (this.isFlowing()) {
+      this.pausedElapsed = this.getElapsedSeconds();
+      this.flowStartedAt = null;
+      this.resumeStatus = 'running';
+      this.stopTimer();
+      this.currentSession!.status = 'paused';
+      this.persist();
+      return;
+    }
     if (this.currentSession?.status === 'running' || this.currentSession?.status === 'break') {
+      this.pausedRemaining = this.getRemainingSeconds();
+      this.resumeStatus = this.currentSession.status;
+      this.phaseEndsAt = null;
       this.stopTimer();
       this.currentSession.status = 'paused';
+      this.persist();
     }
   }
 
   resume(): void {
     if (this.currentSession?.status === 'paused') {
-      this.currentSession.status = 'running';
-      this.startTimer();
+      this.currentSession.endTime = undefined;
+      if (this.pausedElapsed !== null) {
+        // Backdate the start so paused time doesn't count
+        this.startFlow(Date.now() - this.pausedElapsed * 1000);
+      } else if (this.pausedRemaining > 0) {
+        this.startPhase(this.resumeStatus, this.pausedRemaining);
+      } else {
+        // Paused because a block finished - resuming starts the next one
+        this.startFocusPhase();
+      }
     }
   }
 
   startBreak(isLong: boolean = false): void {
     if (!this.currentSession) return;
+    if (this.isFlowing() || this.pausedElapsed !== null) {
+      this.creditFlow();
+    }
 
-    this.stopTimer();
-    this.currentSession.status = 'break';
     const breakDuration = isLong ? this.settings.longBreakDuration : this.settings.shortBreakDuration;
-    this.remainingSeconds = breakDuration * 60;
     this.currentSession.breakDuration = breakDuration * 60;
-    this.startTimer();
+    this.currentSession.endTime = undefined;
+    this.startPhase('break', breakDuration * 60);
     if (this.onBreakStart) {
       this.onBreakStart();
     }
@@ -148,32 +296,245 @@ export class FocusTimerService {
 
   skipBreak(): void {
     if (this.currentSession?.status === 'break') {
-      this.stopTimer();
-      this.currentSession.status = 'running';
-      this.remainingSeconds = this.settings.focusDuration * 60;
-      this.startTimer();
+      this.startFocusPhase();
+    }
+  }
+
+  /**
+   * Flowtime: the user reached a natural stopping point. Credits the block and
+   * starts a break proportional to how long they focused. Returns the break
+   * length in minutes.
+   */
+  endFlow(): number {
+    if (!this.currentSession || (!this.isFlowing() && this.pausedElapsed === null)) return 0;
+
+    const focusedSeconds = this.creditFlow();
+    const breakMinutes = this.getFlowBreakMinutes(focusedSeconds);
+    this.currentSession.breakDuration = breakMinutes * 60;
+    this.startPhase('break', breakMinutes * 60);
+    if (this.onBreakStart) {
+      this.onBreakStart();
     }
+    return breakMinutes;
+  }
+
+  getFlowBreakMinutes(focusedSeconds: number): number {
+    const minutes = Math.round(focusedSeconds / 60 / Math.max(this.settings.flowtimeBreakRatio, 1));
+    return Math.min(Math.max(minutes, MIN_FLOW_BREAK_MINUTES), MAX_FLOW_BREAK_MINUTES);
+  }
+
+  // Add the current flow to the session totals and leave flow state
+  private creditFlow(): number {
+    const focusedSeconds = this.getElapsedSeconds();
+    if (this.currentSession) {
+      this.currentSession.duration += focusedSeconds;
+      if (focusedSeconds >= 60) this.currentSession.completedPomodoros++;
+    }
+    this.flowStartedAt = null;
+    this.pausedElapsed = null;
+    return focusedSeconds;
+  }
+
+  // A session can finish a break and then be stopped - keep it once
+  private recordSession(session: FocusSession) {
+    this.sessionHistory = [...this.sessionHistory.filter(s => s.id !== session.id), session];
+  }
+
+  // Add focus time since the last credit to the session
+  private creditFocus(until: number) {
+    if (this.focusSince === null || !this.currentSession) return;
+    const seconds = Math.max(0, Math.round((until - this.focusSince) / 1000));
+    this.currentSession.focusedSeconds = (this.currentSession.focusedSeconds || 0) + seconds;
+    this.focusSince = null;
+  }
+
+  /**
+   * Seconds focused so far this session, including the block in progress.
+   */
+  getFocusedSeconds(): number {
+    if (!this.currentSession) return 0;
+    const ongoing = this.focusSince !== null ? Math.max(0, Math.round((Date.now() - this.focusSince) / 1000)) : 0;
+    return (this.currentSession.focusedSeconds || 0) + ongoing;
   }
 
   stop(): FocusSession | null {
+    this.creditFocus(Date.now());
+    if (this.isFlowing() || this.pausedElapsed !== null) {
+      this.creditFlow();
+    }
     this.stopTimer();
+    this.phaseEndsAt = null;
     if (this.currentSession) {
       this.currentSession.status = 'completed';
       this.currentSession.endTime = new Date().toISOString();
+      this.currentSession.focusScore = this.getFocusScore(this.currentSession);
       const session = this.currentSession;
-      this.sessionHistory.push(session);
+      this.recordSession(session);
       this.currentSession = null;
+      this.persist();
       return session;
     }
     return null;
   }
 
+  // ============ DISTRACTIONS ============
+
+  /**
+   * Note that the user just got pulled away. Only counts while focusing -
+   * wandering off during a break is the point of a break.
+   */
+  logDistraction(reason?: string): FocusDistraction | null {
+    if (!this.currentSession || this.currentSession.status === 'break' || !this.isActive()) return null;
+
+    const distraction: FocusDistraction = {
+      id: genId(),
+      timestamp: new Date().toISOString(),
+      reason,
+    };
+    this.currentSession.distractions = [...(this.currentSession.distractions || []), distraction];
+    this.persist();
+    return distraction;
+  }
+
+  setDistractionReason(distractionId: string, reason: string): void {
+    const distraction = this.currentSession?.distractions?.find(d => d.id === distractionId);
+    if (!distraction) return;
+    distraction.reason = reason;
+    this.persist();
+  }
+
+  /**
+   * 0-100, falling with distractions per 25 minutes of session. Sessions
+   * still in progress are measured up to now.
+   */
+  getFocusScore(session: FocusSession): number {
+    const count = session.distractions?.length || 0;
+    if (count === 0) return 100;
+
+    const end = session.endTime ? new Date(session.endTime).getTime() : Date.now();
+    const minutes = Math.max((end - new Date(session.startTime).getTime()) / 60000, 1);
+    const perWindow = count / Math.max(minutes / SCORE_WINDOW_MINUTES, 1);
+    return Math.max(0, Math.round(100 - perWindow * DISTRACTION_PENALTY));
+  }
+
+  /**
+   * Distractions logged in each hour of the day (index 0-23).
+   */
+  getDistractionsByHour(sessions: FocusSession[] = this.sessionHistory): number[] {
+    const hours = new Array(24).fill(0);
+    sessions.forEach(session => {
+      session.distractions?.forEach(d => {
+        hours[new Date(d.timestamp).getHours()]++;
+      });
+    });
+    return hours;
+  }
+
+  getAverageFocusScore(sessions: FocusSession[] = this.sessionHistory): number | null {
+    const scored = sessions.filter(s => typeof s.focusScore === 'number');
+    if (scored.length === 0) return null;
+    return Math.round(scored.reduce((sum, s) => sum + s.focusScore!, 0) / scored.length);
+  }
+
   getCurrentSession(): FocusSession | null {
     return this.currentSession;
   }
 
+  /**
+   * A session is in progress: counting down, or paused with time left.
+   */
+  isActive(): boolean {
+    const status = this.currentSession?.status;
+    return status === 'running' || status === 'break'
+      || (status === 'paused' && (this.pausedRemaining > 0 || this.pausedElapsed !== null));
+  }
+
+  isFlowing(): boolean {
+    return this.currentSession?.status === 'running' && this.flowStartedAt !== null;
+  }
+
+  /**
+   * Seconds into the current flowtime block (0 outside flowtime).
+   */
+  getElapsedSeconds(): number {
+    if (this.flowStartedAt !== null) return Math.max(0, Math.floor((Date.now() - this.flowStartedAt) / 1000));
+    return this.pausedElapsed ?? 0;
+  }
+
+  /**
+   * When the current flow reaches the hyperfocus ceiling (epoch ms), or null
+   * if nothing is flowing.
+   */
+  getHyperfocusDeadline(): number | null {
+    if (!this.isFlowing()) return null;
+    return this.flowStartedAt! + this.settings.hyperfocusCeilingMinutes * 60 * 1000;
+  }
+
   getRemainingSeconds(): number {
-    return this.remainingSeconds;
+    if (this.phaseEndsAt === null) return this.pausedRemaining;
+    return Math.max(0, Math.ceil((this.phaseEndsAt - Date.now()) / 1000));
+  }
+
+  // ============ PERSISTENCE ============
+
+  private persist(): void {
+    this.listeners.forEach(listener => listener());
+
+    if (!this.currentSession || !this.isActive()) {
+      AsyncStorage.removeItem(STORAGE_KEY).catch(e => console.log('Failed to clear timer state:', e));
+      return;
+    }
+
+    const state: PersistedTimerState = {
+      session: this.currentSession,
+      settings: this.settings,
+      phaseEndsAt: this.phaseEndsAt,
+      pausedRemaining: this.pausedRemaining,
+      resumeStatus: this.resumeStatus,
+      flowStartedAt: this.flowStartedAt,
+      pausedElapsed: this.pausedElapsed,
+      focusSince: this.focusSince,
+    };
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(state)).catch(e => console.log('Failed to save timer state:', e));
+  }
+
+  /**
+   * Rebuild the session that was active when the app last closed. Phases that
+   * ended in the meantime are completed at the time they actually ended.
+   * Callbacks aren't fired - the caller decides how to report the result.
+   */
+  async restore(): Promise<TimerRestoreResult | null> {
+    let state: PersistedTimerState | null = null;
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      state = json ? JSON.parse(json) : null;
+    } catch (e) {
+      console.log('Failed to load timer state:', e);
+    }
+    if (!state?.session) return null;
+
+    this.stopTimer();
+    this.settings = { ...this.settings, ...state.settings };
+    this.currentSession = state.session;
+    this.phaseEndsAt = state.phaseEndsAt;
+    this.pausedRemaining = state.pausedRemaining;
+    this.resumeStatus = state.resumeStatus;
+    this.flowStartedAt = state.flowStartedAt ?? null;
+    this.pausedElapsed = state.pausedElapsed ?? null;
+    this.focusSince = state.focusSince ?? null;
+
+    const before = state.session.completedPomodoros;
+    this.catchUp(Date.now(), false);
+
+    const finished = !this.isActive();
+    if (!finished && (this.phaseEndsAt !== null || this.flowStartedAt !== null)) this.startTimer();
+    this.persist();
+
+    return {
+      session: this.currentSession,
+      creditedPomodoros: this.currentSession.completedPomodoros - before,
+      finished,
+    };
   }
 
   getSessionHistory(): FocusSession[] {
@@ -0,0 +1,234 @@
+/**
+ * LLMProviderService - One interface for every model Nero can talk to
+ *
+ * Chat, task breakdown and insights all go through `complete()`, so switching
+ * the user's provider switches all of them.
+ *
+ * Features:
+ * - Anthropic Messages API (streaming, tools, extended thinking)
+ * - Any OpenAI-compatible /chat/completions endpoint - OpenAI itself, or a
+ *   local Ollama / llama.cpp / vLLM server for fully on-prem use
+ * - Mock provider with scripted replies for tests and offline development
+ */
+
+import { claudeStreamService, ANTHROPIC_BASE_URL, type StreamHandlers } from './ClaudeStreamService';
+import {
+  LLMProviderType,
+  LLMRequest,
+  LLMResponse,
+  LLMSettings,
+  LLMToolCall,
+} from '../types';
+
+export interface LLMProvider {
+  type: LLMProviderType;
+  complete(request: LLMRequest, handlers?: StreamHandlers): Promise<LLMResponse>;
+}
+
+export const DEFAULT_MODELS: Record<LLMProviderType, string> = {
+  anthropic: 'claude-sonnet-4-20250514',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+// ============ ANTHROPIC ============
+
+class AnthropicProvider implements LLMProvider {
+  type: LLMProviderType = 'anthropic';
+
+  constructor(private settings: LLMSettings) {}
+
+  async complete(request: LLMRequest, handlers: StreamHandlers = {}): Promise<LLMResponse> {
+    const model = this.settings.model || DEFAULT_MODELS.anthropic;
+    const { thinkingBudget } = request;
+
+    const result = await claudeStreamService.streamMessage(
+      {
+        model,
+        // Extended thinking needs its budget inside max_tokens
+        max_tokens: thinkingBudget ? request.maxTokens + thinkingBudget : request.maxTokens,
+        system: request.system,
+        messages: request.messages,
+        ...(request.tools?.length && { tools: request.tools }),
+        ...(thinkingBudget && { thinking: { type: 'enabled', budget_tokens: thinkingBudget } }),
+      },
+      this.settings.apiKey,
+      handlers,
+      this.settings.baseUrl || ANTHROPIC_BASE_URL
+    );
+
+    return {
+      text: result.text,
+      thinking: result.thinking || undefined,
+      toolCalls: result.content
+        .filter(block => block?.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, input: block.input || {} })),
+      model,
+    };
+  }
+}
+
+// ============ OPENAI-COMPATIBLE ============
+
+/**
+ * Non-streaming /chat/completions. Local servers vary a lot in their SSE
+ * support, so the whole reply is delivered to onText at once.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  type: LLMProviderType = 'openai';
+
+  constructor(private settings: LLMSettings) {}
+
+  async complete(request: LLMRequest, handlers: StreamHandlers = {}): Promise<LLMResponse> {
+    const model = this.settings.model || DEFAULT_MODELS.openai;
+    const baseUrl = (this.settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/$/, '');
+
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.settings.apiKey && { Authorization: `Bearer ${this.settings.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens,
+        messages: [{ role: 'system', content: request.system }, ...request.messages],
+        ...(request.tools?.length && {
+          tools: request.tools.map(tool => ({
+            type: 'function',
+            function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+          })),
+        }),
+      }),
+    });
+
+    if (!response.ok) throw new Error(`LLM API error: ${response.status}`);
+
+    const data = await response.json();
+    const message = data.choices?.[0]?.message || {};
+    const text = (message.content || '').trim();
+    // Reasoning models served by llama.cpp / vLLM / DeepSeek return this
+    const thinking = message.reasoning_content?.trim() || undefined;
+
+    if (thinking) handlers.onThinking?.(thinking);
+    if (text) handlers.onText?.(text);
+
+    return {
+      text,
+      thinking,
+      toolCalls: (message.tool_calls || []).map((call: any): LLMToolCall => ({
+        id: call.id || `call-${Math.random().toString(36).substr(2, 9)}`,
+        name: call.function?.name,
+        input: this.parseArguments(call.function?.arguments),
+      })),
+      model: data.model || model,
+    };
+  }
+
+  private parseArguments(args: any): Record<string, any> {
+    if (args && typeof args === 'object') return args;
+    try {
+      return JSON.parse(args || '{}');
+    } catch {
+      return {};
+    }
+  }
+}
+
+// ============ MOCK ============
+
+class MockProvider implements LLMProvider {
+  type: LLMProviderType = 'mock';
+
+  constructor(private replies: Partial<LLMResponse>[]) {}
+
+  async complete(request: LLMRequest, handlers: StreamHandlers = {}): Promise<LLMResponse> {
+    const scripted = this.replies.shift();
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+    const text = scripted?.text ?? `(mock) You said: ${lastUser?.content || ''}`;
+
+    if (scripted?.thinking) handlers.onThinking?.(scripted.thinking);
+    if (text) handlers.onText?.(text);
+
+    return {
+      text,
+      thinking: scripted?.thinking,
+      toolCalls: scripted?.toolCalls || [],
+      model: scripted?.model || DEFAULT_MODELS.mock,
+    };
+  }
+}
+
+// ============ SERVICE ============
+
+export class LLMProviderService {
+  private settings: LLMSettings = { provider: 'anthropic', apiKey: '' };
+  private provider: LLMProvider = new AnthropicProvider(this.settings);
+  private mockReplies: Partial<LLMResponse>[] = [];
+
+  configure(settings: LLMSettings): void {
+    this.settings = settings;
+    this.provider = this.createProvider(settings);
+  }
+
+  getSettings(): LLMSettings {
+    return this.settings;
+  }
+
+  getProvider(): LLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Whether calls can be attempted at all. Anthropic needs a key; local
+   * OpenAI-compatible servers usually don't, and fall back to the default URL.
+   */
+  isConfigured(): boolean {
+    switch (this.settings.provider) {
+      case 'anthropic':
+        return !!this.settings.apiKey;
+      case 'openai':
+      case 'mock':
+        return true;
+    }
+  }
+
+  getModelName(): string {
+    return this.settings.model || DEFAULT_MODELS[this.settings.provider];
+  }
+
+  /**
+   * Queue replies for the mock provider, returned in order before it falls
+   * back to echoing the user.
+   */
+  setMockReplies(replies: Partial<LLMResponse>[]): void {
+    this.mockReplies = [...replies];
+    if (this.settings.provider === 'mock') this.provider = this.createProvider(this.settings);
+  }
+
+  /**
+   * Send a request to the current provider. Throws on failure so each
+   * caller can choose its own fallback.
+   */
+  async complete(request: LLMRequest, handlers?: StreamHandlers): Promise<LLMResponse> {
+    if (!this.isConfigured()) throw new Error('No AI provider configured');
+    return this.provider.complete(request, handlers);
+  }
+
+  private createProvider(settings: LLMSettings): LLMProvider {
+    switch (settings.provider) {
+      case 'openai':
+        return new OpenAICompatibleProvider(settings);
+      case 'mock':
+        return new MockProvider(this.mockReplies);
+      default:
+        return new AnthropicProvider(settings);
+    }
+  }
+}
+
+// Export singleton instance
+export const llmProviderService = new LLMProviderService();
+export default llmProviderService;
@@ -0,0 +1,386 @@
+/**
+ * NeroMemoryService - What Nero learns about the user over time
+ *
+ * After a few exchanges the recent conversation is scanned for lasting facts
+ * ("phone calls are a trigger"). New facts are only proposals until the user
+ * approves them in settings; only approved facts reach the system prompt.
+ *
+ * Features:
+ * - AI extraction through the configured provider, keyword fallback without one
+ * - Near-duplicate detection; repeats reinforce an existing fact instead
+ * - Aging: facts that haven't come up in a while fade out of the prompt and
+ *   unreviewed proposals expire
+ * - Synced to nero_memories, last edit wins per fact
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { MemoriesAPI, type NeroMemoryRow } from './supabase';
+import { llmProviderService } from './LLMProviderService';
+import { MemoryCategory, MemoryFact, NeroMemory } from '../types';
+
+const STORAGE_KEY = 'nero_memory_facts';
+const CATEGORIES: MemoryCategory[] = ['likes', 'dislikes', 'triggers', 'patterns'];
+const MAX_PER_CATEGORY_IN_PROMPT = 8;
+const FADE_HALF_LIFE_DAYS = 60;
+const MIN_PROMPT_SCORE = 0.25;
+const PROPOSAL_EXPIRY_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const STOPWORDS = new Set(['the', 'a', 'an', 'and', 'or', 'to', 'of', 'is', 'are', 'i', 'me', 'my', 'user', 'they', 'them', 'their', 'really', 'very']);
+
+// Keyword fallback - only catches the clearest first-person statements
+const FALLBACK_PATTERNS: { category: MemoryCategory; pattern: RegExp }[] = [
+  { category: 'triggers', pattern: /(.{3,60}?)\s+(?:stress(?:es)? me out|make[s]? me (?:anxious|panic|freeze|shut down)|overwhelm[s]? me|(?:is|are) (?:a )?triggers?)/i },
+  { category: 'dislikes', pattern: /\bi (?:hate|can't stand|dread|really dislike|don't like)\s+(.{3,60}?)(?:[.!,]|$)/i },
+  { category: 'likes', pattern: /\bi (?:love|really like|enjoy|work best with)\s+(.{3,60}?)(?:[.!,]|$)/i },
+  { category: 'patterns', pattern: /\bi (?:always|usually|tend to|never)\s+(.{3,60}?)(?:[.!,]|$)/i },
+];
+
+export interface ConversationLine {
+  role: string; // 'user' or the assistant's role name
+  content: string;
+}
+
+const normalize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w && !STOPWORDS.has(w));
+
+const isSameFact = (a: string, b: string): boolean => {
+  const wa = new Set(normalize(a));
+  const wb = new Set(normalize(b));
+  if (wa.size === 0 || wb.size === 0) return false;
+  const shared = [...wa].filter(w => wb.has(w)).length;
+  return shared / new Set([...wa, ...wb]).size >= 0.6;
+};
+
+const isCategory = (value: any): value is MemoryCategory => CATEGORIES.includes(value);
+
+export class NeroMemoryService {
+  private facts: MemoryFact[] = [];
+  private loaded = false;
+  private userId: string | null = null;
+  private listeners: Set<(facts: MemoryFact[]) => void> = new Set();
+
+  async initialize(): Promise<void> {
+    if (this.loaded) return;
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      this.facts = json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('Failed to load Nero memory:', error);
+    }
+    this.loaded = true;
+    this.expireProposals();
+    this.notifyListeners();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.facts));
+    } catch (error) {
+      console.error('Failed to save Nero memory:', error);
+    }
+  }
+
+  private generateId(): string {
+    return `mem-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.facts));
+  }
+
+  subscribe(listener: (facts: MemoryFact[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.facts);
+    return () => this.listeners.delete(listener);
+  }
+
+  private async commit(changed: MemoryFact[]): Promise<void> {
+    await this.save();
+    this.notifyListeners();
+    if (this.userId && changed.length > 0) {
+      await MemoriesAPI.upsert(changed.map(f => this.toRow(f, this.userId!)));
+    }
+  }
+
+  // ============ READING ============
+
+  getFacts(status?: MemoryFact['status']): MemoryFact[] {
+    return status ? this.facts.filter(f => f.status === status) : this.facts;
+  }
+
+  /**
+   * Recency-weighted strength: each mention counts, halving every
+   * FADE_HALF_LIFE_DAYS since the fact last came up.
+   */
+  getScore(fact: MemoryFact, now: number = Date.now()): number {
+    const ageDays = (now - new Date(fact.lastSeenAt).getTime()) / DAY_MS;
+    return fact.mentions * Math.pow(0.5, Math.max(ageDays, 0) / FADE_HALF_LIFE_DAYS);
+  }
+
+  isFading(fact: MemoryFact): boolean {
+    return this.getScore(fact) < MIN_PROMPT_SCORE;
+  }
+
+  /**
+   * Approved, non-faded facts in the shape the system prompt expects.
+   */
+  getActiveMemory(): NeroMemory {
+    const memory: NeroMemory = { likes: [], dislikes: [], triggers: [], patterns: [] };
+    CATEGORIES.forEach(category => {
+      memory[category] = this.facts
+        .filter(f => f.category === category && f.status === 'approved' && !this.isFading(f))
+        .sort((a, b) => this.getScore(b) - this.getScore(a))
+        .slice(0, MAX_PER_CATEGORY_IN_PROMPT)
+        .map(f => f.text);
+    });
+    return memory;
+  }
+
+  // ============ LEARNING ============
+
+  /**
+   * Scan recent conversation for new facts and record them as proposals.
+   * Returns the newly proposed facts. Never throws.
+   */
+  async extractFromConversation(lines: ConversationLine[]): Promise<MemoryFact[]> {
+    const userLines = lines.filter(l => l.role === 'user' && l.content.trim());
+    if (userLines.length === 0) return [];
+
+    let candidates: { category: MemoryCategory; text: string; source?: string }[] = [];
+    if (llmProviderService.isConfigured()) {
+      try {
+        candidates = await this.extractWithAI(lines);
+      } catch (error) {
+        console.error('Memory extraction failed:', error);
+        candidates = this.extractWithKeywords(userLines);
+      }
+    } else {
+      candidates = this.extractWithKeywords(userLines);
+    }
+
+    return this.addCandidates(candidates);
+  }
+
+  private async extractWithAI(lines: ConversationLine[]) {
+    const known = this.facts
+      .filter(f => f.status !== 'proposed')
+      .map(f => `- (${f.category}) ${f.text}`)
+      .join('\n');
+
+    const response = await llmProviderService.complete({
+      maxTokens: 400,
+      system: `You maintain long-term memory for an ADHD support companion.
+From the conversation, pick out lasting facts about the user that would help support them in future chats:
+likes (what helps or motivates them), dislikes, triggers (what causes stress, avoidance or overwhelm), patterns (habits, routines, when they work best).
+Ignore one-off events, moods of the moment and anything already known. Write each fact in a few words, third person ("Phone calls", "Works best after coffee").
+Respond with ONLY a JSON array, possibly empty: [{"category": "likes" | "dislikes" | "triggers" | "patterns", "text": "...", "quote": "the user's words"}]`,
+      messages: [{
+        role: 'user',
+        content: `Already known:
+${known || '(nothing yet)'}
+
+Conversation:
+${lines.map(l => `${l.role === 'user' ? 'User' : 'Nero'}: ${l.content}`).join('\n')}`,
+      }],
+    });
+
+    const match = response.text.match(/\[[\s\S]*\]/);
+    if (!match) return [];
+    const raw = JSON.parse(match[0]);
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+      .filter(item => item && isCategory(item.category) && typeof item.text === 'string' && item.text.trim())
+      .map(item => ({
+        category: item.category as MemoryCategory,
+        text: item.text.trim().slice(0, 80),
+        source: typeof item.quote === 'string' ? item.quote.slice(0, 140) : undefined,
+      }));
+  }
+
+  private extractWithKeywords(userLines: ConversationLine[]) {
+    const found: { category: MemoryCategory; text: string; source: string }[] = [];
+    userLines.forEach(line => {
+      FALLBACK_PATTERNS.forEach(({ category, pattern }) => {
+        const match = line.content.match(pattern);
+        if (match?.[1]) {
+          const text = match[1].trim().replace(/^(that|when|how)\s+/i, '');
+          found.push({ category, text: text.charAt(0).toUpperCase() + text.slice(1), source: line.content.slice(0, 140) });
+        }
+      });
+    });
+    return found;
+  }
+
+  /**
+   * Dedupe candidates against what we already have. A repeat of an approved
+   * fact counts as another mention; a repeat of a forgotten one is dropped.
+   */
+  private async addCandidates(candidates: { category: MemoryCategory; text: string; source?: string }[]): Promise<MemoryFact[]> {
+    const now = new Date().toISOString();
+    const added: MemoryFact[] = [];
+    const changed: MemoryFact[] = [];
+
+    candidates.forEach(candidate => {
+      const existing = this.facts.find(f => f.category === candidate.category && isSameFact(f.text, candidate.text));
+      if (existing) {
+        if (existing.status === 'forgotten') return;
+        existing.mentions += 1;
+        existing.lastSeenAt = now;
+        existing.updatedAt = now;
+        if (!changed.includes(existing)) changed.push(existing);
+        return;
+      }
+
+      const fact: MemoryFact = {
+        id: this.generateId(),
+        category: candidate.category,
+        text: candidate.text,
+        status: 'proposed',
+        mentions: 1,
+        source: candidate.source,
+        createdAt: now,
+        lastSeenAt: now,
+        updatedAt: now,
+      };
+      this.facts.push(fact);
+      added.push(fact);
+      changed.push(fact);
+    });
+
+    if (changed.length > 0) await this.commit(changed);
+    return added;
+  }
+
+  /**
+   * One-time import of the old flat NeroMemory lists as approved facts.
+   */
+  async importLegacy(memory: NeroMemory): Promise<void> {
+    await this.initialize();
+    const now = new Date().toISOString();
+    const imported: MemoryFact[] = [];
+    CATEGORIES.forEach(category => {
+      (memory[category] || []).forEach(text => {
+        if (this.facts.some(f => f.category === category && isSameFact(f.text, text))) return;
+        const fact: MemoryFact = {
+          id: this.generateId(),
+          category,
+          text,
+          status: 'approved',
+          mentions: 1,
+          createdAt: now,
+          lastSeenAt: now,
+          updatedAt: now,
+        };
+        this.facts.push(fact);
+        imported.push(fact);
+      });
+    });
+    if (imported.length > 0) await this.commit(imported);
+  }
+
+  // ============ USER REVIEW ============
+
+  async approve(id: string, text?: string): Promise<void> {
+    await this.updateFact(id, { status: 'approved', ...(text?.trim() && { text: text.trim() }) });
+  }
+
+  /**
+   * Forget a fact. It's kept as a tombstone so other devices forget it too and
+   * it isn't proposed again.
+   */
+  async forget(id: string): Promise<void> {
+    await this.updateFact(id, { status: 'forgotten' });
+  }
+
+  private async updateFact(id: string, updates: Partial<MemoryFact>): Promise<void> {
+    const fact = this.facts.find(f => f.id === id);
+    if (!fact) return;
+    const now = new Date().toISOString();
+    Object.assign(fact, updates, { updatedAt: now });
+    if (updates.status === 'approved') fact.lastSeenAt = now;
+    await this.commit([fact]);
+  }
+
+  private expireProposals(): void {
+    const cutoff = Date.now() - PROPOSAL_EXPIRY_DAYS * DAY_MS;
+    this.facts = this.facts.filter(f => f.status !== 'proposed' || new Date(f.createdAt).getTime() > cutoff);
+  }
+
+  // ============ CLOUD SYNC ============
+
+  /**
+   * Pull the user's memories, keep the newer copy of each fact, and push
+   * whatever the cloud is missing or has older.
+   */
+  async syncWithCloud(userId: string): Promise<void> {
+    this.userId = userId;
+    await this.initialize();
+
+    const rows = await MemoriesAPI.getAll(userId);
+    const localById = new Map(this.facts.map(f => [f.id, f]));
+    const remoteIds = new Set(rows.map(r => r.id));
+    const toPush: MemoryFact[] = [];
+
+    rows.forEach(row => {
+      const remote = this.fromRow(row);
+      const local = localById.get(row.id);
+      if (!local || new Date(remote.updatedAt).getTime() > new Date(local.updatedAt).getTime()) {
+        localById.set(row.id, remote);
+      } else if (new Date(local.updatedAt).getTime() > new Date(remote.updatedAt).getTime()) {
+        toPush.push(local);
+      }
+    });
+    this.facts.forEach(f => {
+      if (!remoteIds.has(f.id)) toPush.push(f);
+    });
+
+    this.facts = [...localById.values()];
+    this.expireProposals();
+    await this.save();
+    this.notifyListeners();
+    await MemoriesAPI.upsert(toPush.map(f => this.toRow(f, userId)));
+  }
+
+  stopSync(): void {
+    this.userId = null;
+  }
+
+  private toRow(fact: MemoryFact, userId: string): NeroMemoryRow {
+    return {
+      id: fact.id,
+      user_id: userId,
+      category: fact.category,
+      text: fact.text,
+      status: fact.status,
+      mentions: fact.mentions,
+      source: fact.source,
+      created_at: fact.createdAt,
+      last_seen_at: fact.lastSeenAt,
+      updated_at: fact.updatedAt,
+    };
+  }
+
+  private fromRow(row: NeroMemoryRow): MemoryFact {
+    return {
+      id: row.id,
+      category: row.category,
+      text: row.text,
+      status: row.status,
+      mentions: row.mentions,
+      source: row.source || undefined,
+      createdAt: row.created_at,
+      lastSeenAt: row.last_seen_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+// Export singleton instance
+export const neroMemoryService = new NeroMemoryService();
+export default neroMemoryService;
@@ -0,0 +1,308 @@
+/**
+ * NeroToolsService - Actions Nero can take from chat
+ *
+ * Defines the tools the model may call (add/complete/break down/schedule tasks,
+ * plan the day, start a focus timer, log mood) and turns the calls it returns into
+ * proposed actions the user confirms before anything changes.
+ *
+ * Features:
+ * - Tool definitions with JSON schemas (translated per provider)
+ * - Forgiving task lookup (ID, exact title, or closest title match)
+ * - Plain-language summaries for the confirmation card
+ */
+
+import { EnergyLevel, LLMTool, LLMToolCall, MoodLevel, Task } from '../types';
+import { dueDateService } from './DueDateService';
+
+export type NeroToolName =
+  | 'add_task'
+  | 'set_due_date'
+  | 'complete_task'
+  | 'breakdown_task'
+  | 'schedule_on_calendar'
+  | 'plan_my_day'
+  | 'start_focus_timer'
+  | 'log_mood';
+
+export interface NeroToolCall {
+  id: string;
+  name: NeroToolName;
+  input: Record<string, any>;
+}
+
+export interface NeroAction extends NeroToolCall {
+  status: 'pending' | 'done' | 'dismissed' | 'failed';
+  error?: string;
+}
+
+export interface NeroActionSummary {
+  icon: string;
+  label: string;
+  detail?: string;
+  valid: boolean; // False when e.g. the referenced task can't be found
+}
+
+// ============ TOOL DEFINITIONS ============
+
+const TASK_REF_DESCRIPTION = 'The task, by its [id] from the pending task list, or its title';
+
+export const NERO_TOOLS: LLMTool[] = [
+  {
+    name: 'add_task',
+    description: 'Add a new task to the user\'s list. Use for anything the user says they need or want to do.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        title: { type: 'string', description: 'Short, actionable task title' },
+        energy: { type: 'string', enum: ['low', 'medium', 'high'], description: 'Energy the task needs' },
+        parent_task: { type: 'string', description: `Optional parent task. ${TASK_REF_DESCRIPTION}` },
+        due_date: { type: 'string', description: 'Optional. Local date (YYYY-MM-DD) or ISO 8601 time the task is due' },
+        due_type: {
+          type: 'string',
+          enum: ['hard', 'soft'],
+          description: 'hard = real deadline; soft = "would be nice by". Defaults to soft unless the user names a real deadline',
+        },
+      },
+      required: ['title'],
+    },
+  },
+  {
+    name: 'set_due_date',
+    description: 'Set, change or clear when an existing task is due.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: TASK_REF_DESCRIPTION },
+        due_date: { type: 'string', description: 'Local date (YYYY-MM-DD) or ISO 8601 time. Omit to clear the date' },
+        due_type: { type: 'string', enum: ['hard', 'soft'], description: 'Defaults to soft' },
+      },
+      required: ['task'],
+    },
+  },
+  {
+    name: 'complete_task',
+    description: 'Mark a task as done when the user says they finished it.',
+    input_schema: {
+      type: 'object',
+      properties: { task: { type: 'string', description: TASK_REF_DESCRIPTION } },
+      required: ['task'],
+    },
+  },
+  {
+    name: 'breakdown_task',
+    description: 'Break a task into tiny micro-steps when the user feels stuck or overwhelmed by it.',
+    input_schema: {
+      type: 'object',
+      properties: { task: { type: 'string', description: TASK_REF_DESCRIPTION } },
+      required: ['task'],
+    },
+  },
+  {
+    name: 'schedule_on_calendar',
+    description: 'Schedule (or move) a task to a specific time.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        task: { type: 'string', description: TASK_REF_DESCRIPTION },
+        start_time: { type: 'string', description: 'Local start time in ISO 8601, e.g. 2026-03-02T13:30:00' },
+        duration_minutes: { type: 'number', description: 'Defaults to the task\'s estimate, or 30' },
+      },
+      required: ['task', 'start_time'],
+    },
+  },
+  {
+    name: 'plan_my_day',
+    description: 'Lay out the rest of today as time blocks around the calendar, for the user to review and tweak.',
+    input_schema: { type: 'object', properties: {} },
+  },
+  {
+    name: 'start_focus_timer',
+    description: 'Start a focus timer, optionally for a specific task.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        minutes: { type: 'number', description: 'Focus length in minutes' },
+        task: { type: 'string', description: `Optional. ${TASK_REF_DESCRIPTION}` },
+      },
+      required: ['minutes'],
+    },
+  },
+  {
+    name: 'log_mood',
+    description: 'Record how the user is feeling when they tell you.',
+    input_schema: {
+      type: 'object',
+      properties: {
+        mood: { type: 'string', enum: ['low', 'neutral', 'high'] },
+        energy: { type: 'string', enum: ['low', 'medium', 'high'] },
+      },
+      required: ['mood'],
+    },
+  },
+];
+
+const TOOL_NAMES = NERO_TOOLS.map(t => t.name);
+
+export class NeroToolsService {
+  /**
+   * Keep only the provider's tool calls that name one of Nero's tools.
+   */
+  parseToolCalls(calls: LLMToolCall[]): NeroToolCall[] {
+    if (!Array.isArray(calls)) return [];
+    return calls
+      .filter(call => TOOL_NAMES.includes(call.name))
+      .map(call => ({ id: call.id, name: call.name as NeroToolName, input: call.input || {} }));
+  }
+
+  /**
+   * Task list for the system prompt, with IDs the model can refer back to.
+   */
+  formatTaskContext(tasks: Task[], limit = 15): string {
+    const pending = tasks.filter(t => !t.completed).slice(0, limit);
+    if (pending.length === 0) return 'none';
+    return pending
+      .map(t => {
+        const notes = [
+          t.scheduledTime && `scheduled ${t.scheduledTime}`,
+          t.dueDate && `due ${t.dueDate}`,
+          t.softDueDate && `nice by ${t.softDueDate}`,
+        ].filter(Boolean);
+        return `[${t.id}] ${t.title}${notes.length ? ` (${notes.join(', ')})` : ''}`;
+      })
+      .join('\n');
+  }
+
+  /**
+   * Find the task a tool call refers to.
+   */
+  resolveTask(tasks: Task[], ref?: string): Task | null {
+    if (!ref) return null;
+    const pending = tasks.filter(t => !t.completed);
+    const needle = ref.replace(/^\[|\]$/g, '').trim().toLowerCase();
+
+    const byId = tasks.find(t => t.id.toLowerCase() === needle);
+    if (byId) return byId;
+
+    const byTitle = pending.find(t => t.title.toLowerCase() === needle)
+      || pending.find(t => t.title.toLowerCase().includes(needle) || needle.includes(t.title.toLowerCase()));
+    if (byTitle) return byTitle;
+
+    // Closest by shared words ("dentist call" -> "Call the dentist")
+    const words = needle.split(/\W+/).filter(w => w.length > 2);
+    let best: Task | null = null;
+    let bestScore = 0;
+    pending.forEach(t => {
+      const title = t.title.toLowerCase();
+      const score = words.filter(w => title.includes(w)).length;
+      if (score > bestScore) {
+        best = t;
+        bestScore = score;
+      }
+    });
+    return bestScore > 0 ? best : null;
+  }
+
+  /**
+   * One line for the confirmation card.
+   */
+  describe(call: NeroToolCall, tasks: Task[]): NeroActionSummary {
+    const { input } = call;
+    const task = this.resolveTask(tasks, input.task);
+    const missing = (ref?: string): NeroActionSummary => ({
+      icon: '❓',
+      label: `Couldn't find "${ref || 'that task'}"`,
+      valid: false,
+    });
+
+    switch (call.name) {
+      case 'add_task': {
+        const parent = input.parent_task ? this.resolveTask(tasks, input.parent_task) : null;
+        return {
+          icon: '➕',
+          label: `Add "${input.title}"`,
+          detail: [
+            input.energy && `${input.energy} energy`,
+            parent && `under "${parent.title}"`,
+            this.describeDue(input),
+          ].filter(Boolean).join(' • ') || undefined,
+          valid: !!input.title,
+        };
+      }
+      case 'set_due_date': {
+        if (!task) return missing(input.task);
+        if (input.due_date && !this.getDue(input)) {
+          return { icon: '🗓️', label: `Set a date for "${task.title}"`, detail: 'Invalid date', valid: false };
+        }
+        return {
+          icon: '🗓️',
+          label: input.due_date ? `Set a date for "${task.title}"` : `Clear the date on "${task.title}"`,
+          detail: this.describeDue(input),
+          valid: true,
+        };
+      }
+      case 'complete_task':
+        return task ? { icon: '✅', label: `Complete "${task.title}"`, valid: true } : missing(input.task);
+      case 'breakdown_task':
+        return task ? { icon: '🔨', label: `Break down "${task.title}"`, valid: true } : missing(input.task);
+      case 'schedule_on_calendar': {
+        if (!task) return missing(input.task);
+        const start = new Date(input.start_time);
+        if (isNaN(start.getTime())) return { icon: '📅', label: `Schedule "${task.title}"`, detail: 'Invalid time', valid: false };
+        return {
+          icon: '📅',
+          label: `${task.scheduledTime ? 'Move' : 'Schedule'} "${task.title}"`,
+          detail: `${start.toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' })} • ${input.duration_minutes || task.estimatedMinutes || 30} min`,
+          valid: true,
+        };
+      }
+      case 'plan_my_day':
+        return { icon: '🗓️', label: 'Plan your day', detail: 'Time blocks around your calendar', valid: true };
+      case 'start_focus_timer':
+        return {
+          icon: '⏱️',
+          label: `Start a ${Math.round(input.minutes) || 25}-minute focus timer`,
+          detail: task ? `on "${task.title}"` : undefined,
+          valid: true,
+        };
+      case 'log_mood':
+        return {
+          icon: input.mood === 'high' ? '😊' : input.mood === 'low' ? '😔' : '😐',
+          label: `Log mood: ${input.mood}`,
+          detail: input.energy ? `${input.energy} energy` : undefined,
+          valid: ['low', 'neutral', 'high'].includes(input.mood),
+        };
+    }
+  }
+
+  // ============ INPUT HELPERS ============
+
+  getEnergy(input: Record<string, any>): EnergyLevel | undefined {
+    return ['low', 'medium', 'high'].includes(input.energy) ? input.energy : undefined;
+  }
+
+  getMood(input: Record<string, any>): MoodLevel | undefined {
+    return ['low', 'neutral', 'high'].includes(input.mood) ? input.mood : undefined;
+  }
+
+  /**
+   * The task fields a due_date/due_type pair maps to. Soft unless the model
+   * says it's a real deadline.
+   */
+  getDue(input: Record<string, any>): Pick<Task, 'dueDate' | 'softDueDate'> | null {
+    const date = dueDateService.parseDate(input.due_date);
+    if (!date) return null;
+    return input.due_type === 'hard' ? { dueDate: date } : { softDueDate: date };
+  }
+
+  private describeDue(input: Record<string, any>): string | undefined {
+    const due = this.getDue(input);
+    if (!due) return undefined;
+    const date = new Date((due.dueDate || due.softDueDate)!);
+    const day = date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+    return due.dueDate ? `due ${day}` : `nice by ${day}`;
+  }
+}
+
+// Export singleton instance
+export const neroToolsService = new NeroToolsService();
+export default neroToolsService;
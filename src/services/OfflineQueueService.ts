@@ -0,0 +1,561 @@
+/**
+ * OfflineQueueService - Durable outbox for Supabase writes
+ *
+ * When a write fails (subway, airplane mode, flaky wifi) the mutation is
+ * appended here instead of being dropped, and replayed once we're back online.
+ *
+ * Features:
+ * - Persisted to AsyncStorage so queued writes survive app restarts
+ * - Kept per account, so writes never replay as someone else; a signed-out
+ *   account's writes wait on disk until it signs back in
+ * - Strict FIFO replay (an update never lands before its create)
+ * - Exponential backoff between failed replay attempts
+ * - Local -> server ID remapping for records created offline
+ * - Deferred parent links for subtasks created before their parent synced,
+ *   and task links for focus sessions logged against a task still offline
+ * - Pending-count subscription for the UI
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import {
+  TasksAPI,
+  FocusSessionsAPI,
+  EnergyLogsAPI,
+  type Task as SupabaseTask,
+  type FocusSession as SupabaseFocusSession,
+  type EnergyLog as SupabaseEnergyLog,
+} from './supabase';
+import { conflictResolutionService } from './ConflictResolutionService';
+import { isServerId } from './taskSchema';
+
+export type MutationEntity = 'task' | 'focus_session' | 'energy_log';
+export type MutationOp = 'create' | 'update' | 'delete' | 'complete';
+
+// Local task IDs are resolved at replay time, once the task's own create has gone through
+type TaskCreateRow = Omit<SupabaseTask, 'id'> & { parent_local_id?: string };
+type FocusSessionRow = Omit<SupabaseFocusSession, 'id'> & { task_local_id?: string };
+type FocusSessionUpdates = Partial<FocusSessionRow>;
+
+/**
+ * What to write, in DB shape: the row for a create, the changed columns for an update.
+ */
+export type Mutation =
+  | { entity: 'task'; op: 'create'; payload: TaskCreateRow }
+  | { entity: 'task'; op: 'update'; payload: Partial<SupabaseTask> }
+  | { entity: 'task'; op: 'complete'; payload: { completed_at?: string } }
+  | { entity: 'task'; op: 'delete'; payload?: undefined }
+  | { entity: 'focus_session'; op: 'create'; payload: FocusSessionRow }
+  | { entity: 'focus_session'; op: 'update'; payload: FocusSessionUpdates }
+  | { entity: 'focus_session'; op: 'complete'; payload: { ended_at?: string } }
+  | { entity: 'focus_session'; op: 'delete'; payload?: undefined }
+  | { entity: 'energy_log'; op: 'create'; payload: Omit<SupabaseEnergyLog, 'id'> }
+  | { entity: 'energy_log'; op: 'update'; payload: Partial<SupabaseEnergyLog> }
+  | { entity: 'energy_log'; op: 'delete'; payload?: undefined };
+
+export type PendingMutation = Mutation & {
+  id: string;
+  entityId: string; // Local ID until the create has replayed, then the server ID
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt?: number;
+  lastError?: string;
+};
+
+export interface QueueStatus {
+  pending: number;
+  failed: number;
+  isReplaying: boolean;
+  lastReplayAt?: string;
+}
+
+// Suffixed with the user ID - see storageKey()
+const STORAGE_KEYS = {
+  QUEUE: 'nero_offline_queue',
+  FAILED: 'nero_offline_queue_failed',
+  ID_MAP: 'nero_offline_id_map',
+  PARENT_LINKS: 'nero_offline_parent_links',
+};
+
+const BASE_BACKOFF_MS = 2000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 12; // ~40 minutes of retrying before we park it
+const MAX_ID_MAP_SIZE = 200;
+
+export class OfflineQueueService {
+  private queue: PendingMutation[] = [];
+  private failed: PendingMutation[] = [];
+  private idMap: Record<string, string> = {};
+  private parentLinks: Record<string, string[]> = {}; // Parent local ID -> child server IDs waiting on it
+  private isReplaying = false;
+  private lastReplayAt?: string;
+  private initialized = false;
+  private userId: string | null = null;
+  private loading: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private statusListeners: Set<(status: QueueStatus) => void> = new Set();
+  private idListeners: Set<(entity: MutationEntity, localId: string, serverId: string) => void> = new Set();
+
+  /**
+   * Load the outbox of the signed-in user. Switching users swaps in the
+   * other account's outbox; the previous one stays on disk for them.
+   */
+  initialize(userId: string): Promise<void> {
+    if (this.loading && this.userId === userId) return this.loading;
+
+    this.clearRetryTimer();
+    this.userId = userId;
+    this.initialized = false;
+    this.queue = [];
+    this.failed = [];
+    this.idMap = {};
+    this.parentLinks = {};
+    this.loading = this.load(userId);
+    return this.loading;
+  }
+
+  private async load(userId: string): Promise<void> {
+    try {
+      const [queueJson, failedJson, idMapJson, parentLinksJson] = await Promise.all([
+        AsyncStorage.getItem(this.storageKey(STORAGE_KEYS.QUEUE, userId)),
+        AsyncStorage.getItem(this.storageKey(STORAGE_KEYS.FAILED, userId)),
+        AsyncStorage.getItem(this.storageKey(STORAGE_KEYS.ID_MAP, userId)),
+        AsyncStorage.getItem(this.storageKey(STORAGE_KEYS.PARENT_LINKS, userId)),
+      ]);
+      if (this.userId !== userId) return; // Signed out or switched while loading
+
+      this.queue = queueJson ? JSON.parse(queueJson) : [];
+      this.failed = failedJson ? JSON.parse(failedJson) : [];
+      this.idMap = idMapJson ? JSON.parse(idMapJson) : {};
+      this.parentLinks = parentLinksJson ? JSON.parse(parentLinksJson) : {};
+    } catch (error) {
+      console.error('Failed to load offline queue:', error);
+    }
+
+    if (this.userId !== userId) return;
+    this.initialized = true;
+    this.notifyStatus();
+  }
+
+  // Whether there's a user's outbox to work with, waiting for it to load if needed
+  private async ready(): Promise<boolean> {
+    if (this.loading) await this.loading;
+    return this.initialized;
+  }
+
+  private storageKey(key: string, userId: string | null = this.userId): string {
+    return `${key}_${userId}`;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.userId) return;
+    try {
+      await Promise.all([
+        AsyncStorage.setItem(this.storageKey(STORAGE_KEYS.QUEUE), JSON.stringify(this.queue)),
+        AsyncStorage.setItem(this.storageKey(STORAGE_KEYS.FAILED), JSON.stringify(this.failed)),
+        AsyncStorage.setItem(this.storageKey(STORAGE_KEYS.ID_MAP), JSON.stringify(this.idMap)),
+        AsyncStorage.setItem(this.storageKey(STORAGE_KEYS.PARENT_LINKS), JSON.stringify(this.parentLinks)),
+      ]);
+    } catch (error) {
+      console.error('Failed to save offline queue:', error);
+    }
+  }
+
+  private generateId(): string {
+    return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // ============ SUBSCRIPTIONS ============
+
+  getStatus(): QueueStatus {
+    return {
+      pending: this.queue.length,
+      failed: this.failed.length,
+      isReplaying: this.isReplaying,
+      lastReplayAt: this.lastReplayAt,
+    };
+  }
+
+  getPendingCount(): number {
+    return this.queue.length;
+  }
+
+  subscribe(listener: (status: QueueStatus) => void): () => void {
+    this.statusListeners.add(listener);
+    listener(this.getStatus());
+    return () => this.statusListeners.delete(listener);
+  }
+
+  /**
+   * Called when a record created offline gets its real server ID,
+   * so callers can swap the ID in their local state.
+   */
+  onIdRemapped(listener: (entity: MutationEntity, localId: string, serverId: string) => void): () => void {
+    this.idListeners.add(listener);
+    return () => this.idListeners.delete(listener);
+  }
+
+  private notifyStatus(): void {
+    const status = this.getStatus();
+    this.statusListeners.forEach(listener => listener(status));
+  }
+
+  // ============ ENQUEUE ============
+
+  async enqueue(entityId: string, write: Mutation): Promise<PendingMutation | null> {
+    if (!(await this.ready())) return null;
+
+    const { entity, op } = write;
+    const resolvedId = this.resolveId(entityId);
+
+    // Deleting something that never reached the server: just forget it ever existed
+    if (op === 'delete') {
+      const queuedCreate = this.queue.find(
+        m => m.entity === entity && m.op === 'create' && m.entityId === resolvedId
+      );
+      if (queuedCreate) {
+        this.queue = this.queue.filter(m => !(m.entity === entity && m.entityId === resolvedId));
+        await this.save();
+        this.notifyStatus();
+        return null;
+      }
+    }
+
+    const mutation: PendingMutation = {
+      ...write,
+      id: this.generateId(),
+      entityId: resolvedId,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+    };
+
+    this.queue.push(mutation);
+    await this.save();
+    this.notifyStatus();
+    return mutation;
+  }
+
+  /**
+   * Whether a record still has writes waiting in the outbox
+   */
+  hasPending(entity: MutationEntity, entityId: string): boolean {
+    const resolvedId = this.resolveId(entityId);
+    return this.queue.some(m => m.entity === entity && m.entityId === resolvedId);
+  }
+
+  /**
+   * Map a local ID to its server ID if the create has already replayed.
+   */
+  resolveId(id: string): string {
+    return this.idMap[id] || id;
+  }
+
+  // ============ REPLAY ============
+
+  async replay(): Promise<number> {
+    if (!(await this.ready())) return 0;
+    if (this.isReplaying || this.queue.length === 0) return 0;
+
+    this.clearRetryTimer();
+    this.isReplaying = true;
+    this.notifyStatus();
+
+    let replayed = 0;
+    const userId = this.userId;
+
+    try {
+      while (this.queue.length > 0) {
+        const mutation = this.queue[0];
+
+        // Respect backoff - head of line blocks so ordering is preserved
+        if (mutation.nextAttemptAt && mutation.nextAttemptAt > Date.now()) {
+          this.scheduleRetry(mutation.nextAttemptAt - Date.now());
+          break;
+        }
+
+        let success = false;
+        try {
+          success = await this.execute(mutation);
+          if (!success) mutation.lastError = 'Supabase rejected the write';
+        } catch (error) {
+          mutation.lastError = error instanceof Error ? error.message : String(error);
+        }
+        // Signed out mid-write - the queue in hand isn't this user's any more
+        if (this.userId !== userId) break;
+
+        if (success) {
+          this.queue.shift();
+          replayed++;
+          await this.save();
+          this.notifyStatus();
+          continue;
+        }
+
+        mutation.attempts++;
+        if (mutation.attempts >= MAX_ATTEMPTS) {
+          // Park it so one bad write can't block everything behind it forever
+          console.warn('Offline mutation parked after max attempts:', mutation);
+          this.queue.shift();
+          this.failed.push(mutation);
+          await this.save();
+          this.notifyStatus();
+          continue;
+        }
+
+        const delay = Math.min(BASE_BACKOFF_MS * Math.pow(2, mutation.attempts - 1), MAX_BACKOFF_MS);
+        mutation.nextAttemptAt = Date.now() + delay;
+        await this.save();
+        this.scheduleRetry(delay);
+        break;
+      }
+    } finally {
+      this.isReplaying = false;
+      this.lastReplayAt = new Date().toISOString();
+      this.notifyStatus();
+    }
+
+    return replayed;
+  }
+
+  private async execute(mutation: PendingMutation): Promise<boolean> {
+    const id = this.resolveId(mutation.entityId);
+
+    switch (mutation.entity) {
+      case 'task':
+        switch (mutation.op) {
+          case 'create': {
+            // Parent may have been created offline too - link it now that it has a server ID
+            const { parent_local_id, ...row } = mutation.payload;
+            if (parent_local_id) {
+              const parentId = this.resolveId(parent_local_id);
+              if (isServerId(parentId)) row.parent_id = parentId;
+            }
+            const created = await TasksAPI.create(row);
+            if (!created?.id) return false;
+            this.remapId(mutation.entity, mutation.entityId, created.id);
+            return true;
+          }
+          case 'update': {
+            // Versioned edits are merged field-by-field so a late replay can't clobber newer edits
+            const { field_versions, ...updates } = mutation.payload;
+            return field_versions
+              ? conflictResolutionService.writeWithMerge(id, updates, field_versions)
+              : TasksAPI.update(id, mutation.payload);
+          }
+          case 'complete':
+            return TasksAPI.complete(id, mutation.payload.completed_at || mutation.createdAt);
+          case 'delete':
+            return TasksAPI.delete(id);
+        }
+        break;
+
+      case 'focus_session':
+        switch (mutation.op) {
+          case 'create': {
+            const created = await FocusSessionsAPI.create(this.withTaskLink(mutation.payload));
+            if (!created?.id) return false;
+            this.remapId(mutation.entity, mutation.entityId, created.id);
+            return true;
+          }
+          case 'update':
+            return FocusSessionsAPI.update(id, this.withTaskLink(mutation.payload));
+          case 'complete':
+            return FocusSessionsAPI.update(id, {
+              completed: true,
+              ended_at: mutation.payload.ended_at || mutation.createdAt,
+            });
+          case 'delete':
+            return FocusSessionsAPI.delete(id);
+        }
+        break;
+
+      case 'energy_log':
+        switch (mutation.op) {
+          case 'create': {
+            const created = await EnergyLogsAPI.create(mutation.payload);
+            if (!created?.id) return false;
+            this.remapId(mutation.entity, mutation.entityId, created.id);
+            return true;
+          }
+          case 'update':
+            return EnergyLogsAPI.update(id, mutation.payload);
+          case 'delete':
+            return EnergyLogsAPI.delete(id);
+        }
+        break;
+    }
+
+    return false;
+  }
+
+  // A task still without a server ID can't go in the uuid column - the session is kept unlinked
+  private withTaskLink<T extends FocusSessionUpdates>(payload: T): Omit<T, 'task_local_id'> {
+    const { task_local_id, ...row } = payload;
+    const taskId = task_local_id ? this.resolveId(task_local_id) : row.task_id;
+    if (taskId === undefined) return row;
+    return { ...row, task_id: isServerId(taskId) ? taskId : undefined };
+  }
+
+  /**
+   * Record a local -> server ID mapping for a record that was created online,
+   * so queued writes and children referencing the local ID resolve correctly.
+   */
+  async registerId(entity: MutationEntity, localId: string, serverId: string): Promise<void> {
+    if (!(await this.ready())) return;
+    if (localId === serverId || this.idMap[localId] === serverId) return;
+    this.remapId(entity, localId, serverId);
+    await this.save();
+    this.notifyStatus();
+    this.replay();
+  }
+
+  /**
+   * A subtask reached the server before its parent did. Once the parent gets
+   * its server ID, an update linking the child is queued automatically.
+   */
+  async linkWhenCreated(childId: string, parentLocalId: string): Promise<void> {
+    if (!(await this.ready())) return;
+
+    const parentId = this.resolveId(parentLocalId);
+    if (isServerId(parentId)) {
+      await this.enqueue(childId, { entity: 'task', op: 'update', payload: { parent_id: parentId } });
+      this.replay();
+      return;
+    }
+
+    this.parentLinks[parentLocalId] = [...(this.parentLinks[parentLocalId] || []), childId];
+    await this.save();
+  }
+
+  private remapId(entity: MutationEntity, localId: string, serverId: string): void {
+    if (localId === serverId) return;
+
+    this.idMap[localId] = serverId;
+
+    // Keep the map from growing forever
+    const keys = Object.keys(this.idMap);
+    if (keys.length > MAX_ID_MAP_SIZE) {
+      keys.slice(0, keys.length - MAX_ID_MAP_SIZE).forEach(k => delete this.idMap[k]);
+    }
+
+    this.queue.forEach(m => {
+      if (m.entity === entity && m.entityId === localId) m.entityId = serverId;
+    });
+
+    // Children that synced first can now point at their parent
+    if (entity === 'task' && this.parentLinks[localId]) {
+      this.parentLinks[localId].forEach(childId => {
+        this.queue.push({
+          id: this.generateId(),
+          entity: 'task',
+          op: 'update',
+          entityId: this.resolveId(childId),
+          payload: { parent_id: serverId },
+          createdAt: new Date().toISOString(),
+          attempts: 0,
+        });
+      });
+      delete this.parentLinks[localId];
+    }
+
+    this.idListeners.forEach(listener => listener(entity, localId, serverId));
+  }
+
+  // ============ CONNECTIVITY ============
+
+  private scheduleRetry(delayMs: number): void {
+    this.clearRetryTimer();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.replay();
+    }, Math.max(0, delayMs));
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Replay whenever connectivity is likely to have come back:
+   * app returning to the foreground, or the browser firing `online`.
+   * Returns a cleanup function.
+   */
+  startAutoReplay(): () => void {
+    const handleAppState = (state: AppStateStatus) => {
+      if (state === 'active') this.retryNow();
+    };
+    const appStateSub = AppState.addEventListener('change', handleAppState);
+
+    const handleOnline = () => this.retryNow();
+    const hasWindowEvents = Platform.OS === 'web' && typeof window !== 'undefined' && !!window.addEventListener;
+    if (hasWindowEvents) {
+      window.addEventListener('online', handleOnline);
+    }
+
+    this.replay();
+
+    return () => {
+      appStateSub.remove();
+      if (hasWindowEvents) {
+        window.removeEventListener('online', handleOnline);
+      }
+      this.clearRetryTimer();
+    };
+  }
+
+  /**
+   * Skip any backoff and try again immediately (e.g. a "sync now" tap).
+   */
+  async retryNow(): Promise<number> {
+    this.queue.forEach(m => { m.nextAttemptAt = undefined; });
+    return this.replay();
+  }
+
+  // ============ FAILED MUTATIONS ============
+
+  getFailed(): PendingMutation[] {
+    return this.failed;
+  }
+
+  async requeueFailed(): Promise<void> {
+    if (!(await this.ready())) return;
+    this.queue.push(...this.failed.map(m => ({ ...m, attempts: 0, nextAttemptAt: undefined })));
+    this.failed = [];
+    await this.save();
+    this.notifyStatus();
+    this.replay();
+  }
+
+  async clear(): Promise<void> {
+    this.clearRetryTimer();
+    this.queue = [];
+    this.failed = [];
+    this.idMap = {};
+    this.parentLinks = {};
+    await this.save();
+    this.notifyStatus();
+  }
+
+  /**
+   * Sign-out: stop replaying and let go of this user's outbox. It stays on
+   * disk under their ID and picks up again when they sign back in.
+   */
+  suspend(): void {
+    this.clearRetryTimer();
+    this.userId = null;
+    this.loading = null;
+    this.initialized = false;
+    this.queue = [];
+    this.failed = [];
+    this.idMap = {};
+    this.parentLinks = {};
+    this.notifyStatus();
+  }
+}
+
+// Export singleton instance
+export const offlineQueueService = new OfflineQueueService();
+export default offlineQueueService;
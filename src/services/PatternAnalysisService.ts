@@ -6,13 +6,18 @@ import {
   PatternData,
   WeeklyInsight,
   UserProfile,
-  MoodLevel
+  MoodLevel,
+  RoutineStepRecord,
+  RoutineStepStats
 } from '../types';
+import { timeEstimateService } from './TimeEstimateService';
 import { genId, PERSONALITIES } from '../constants';
+import { llmProviderService } from './LLMProviderService';
 
 // ============ PATTERN ANALYSIS SERVICE ============
 export class PatternAnalysisService {
   private completionHistory: CompletionRecord[] = [];
+  private routineStepHistory: RoutineStepRecord[] = [];
 
   setHistory(history: CompletionRecord[]) {
     this.completionHistory = history;
@@ -34,11 +39,80 @@ export class PatternAnalysisService {
       dayOfWeek: now.getDay(),
       completionTimeMs: task.completionTimeMs,
       mood,
+      estimatedMinutes: task.estimatedMinutes,
+      estimateSource: task.estimateSource,
+      actualMinutes: task.actualMinutes,
+      category: timeEstimateService.categorize(task.title, task.tags),
     };
     this.completionHistory.push(record);
     return record;
   }
 
+  // ============ ROUTINE STEPS ============
+
+  setRoutineStepHistory(history: RoutineStepRecord[]) {
+    this.routineStepHistory = history;
+  }
+
+  recordRoutineStep(
+    routineId: string,
+    stepTitle: string,
+    seconds: number,
+    options: { plannedMinutes?: number; skipped?: boolean; snoozes?: number } = {}
+  ): RoutineStepRecord {
+    const record: RoutineStepRecord = {
+      id: genId(),
+      routineId,
+      stepTitle,
+      seconds: Math.round(seconds),
+      plannedMinutes: options.plannedMinutes,
+      skipped: options.skipped || false,
+      snoozes: options.snoozes || 0,
+      completedAt: new Date().toISOString(),
+    };
+    this.routineStepHistory.push(record);
+    return record;
+  }
+
+  /**
+   * Per-step timing for one routine, slowest first. A step drags when it
+   * usually runs 50% over its planned time or, with no plan, takes twice as
+   * long as the routine's typical step.
+   */
+  getRoutineStepStats(routineId: string): RoutineStepStats[] {
+    const minSamples = 3;
+    const median = (values: number[]) => {
+      if (values.length === 0) return 0;
+      const sorted = [...values].sort((a, b) => a - b);
+      const mid = Math.floor(sorted.length / 2);
+      return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    };
+
+    const records = this.routineStepHistory.filter(r => r.routineId === routineId);
+    const typicalSeconds = median(records.filter(r => !r.skipped).map(r => r.seconds));
+    const byStep = new Map<string, RoutineStepRecord[]>();
+    records.forEach(r => byStep.set(r.stepTitle, [...(byStep.get(r.stepTitle) || []), r]));
+
+    return Array.from(byStep.entries())
+      .map(([stepTitle, stepRecords]) => {
+        const done = stepRecords.filter(r => !r.skipped).map(r => r.seconds);
+        const medianSeconds = median(done);
+        const plannedMinutes = stepRecords[stepRecords.length - 1].plannedMinutes;
+        const drags = done.length >= minSamples && (plannedMinutes
+          ? medianSeconds > plannedMinutes * 60 * 1.5
+          : typicalSeconds > 0 && medianSeconds > typicalSeconds * 2);
+        return {
+          stepTitle,
+          medianSeconds,
+          plannedMinutes,
+          samples: stepRecords.length,
+          skipRate: stepRecords.filter(r => r.skipped).length / stepRecords.length,
+          drags,
+        };
+      })
+      .sort((a, b) => b.medianSeconds - a.medianSeconds);
+  }
+
   getHourlyStats(): HourlyProductivity[] {
     const hourlyData: Record<number, { completions: number; energySum: number; count: number }> = {};
 
@@ -236,26 +310,18 @@ export class PatternAnalysisService {
     return insights.sort((a, b) => a.priority - b.priority);
   }
 
-  async generateAIInsights(apiKey: string, patterns: PatternData, profile: UserProfile): Promise<string> {
-    if (!apiKey) {
+  async generateAIInsights(patterns: PatternData, profile: UserProfile): Promise<string> {
+    if (!llmProviderService.isConfigured()) {
       return this.generateLocalInsight(patterns);
     }
 
     try {
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: 'claude-sonnet-4-20250514',
-          max_tokens: 200,
-          system: `You are Nero, an AI companion helping someone with ADHD understand their productivity patterns. Be warm, encouraging, and specific. Keep it under 50 words. Never guilt or shame.`,
-          messages: [{
-            role: 'user',
-            content: `Based on my productivity data:
+      const response = await llmProviderService.complete({
+        maxTokens: 200,
+        system: `You are Nero, an AI companion helping someone with ADHD understand their productivity patterns. Be warm, encouraging, and specific. Keep it under 50 words. Never guilt or shame.`,
+        messages: [{
+          role: 'user',
+          content: `Based on my productivity data:
 - Peak hours: ${patterns.peakHours.map(h => `${h}:00`).join(', ')}
 - Total completions: ${patterns.totalCompletions}
 - Weekly trend: ${patterns.weeklyTrend}
@@ -263,13 +329,9 @@ export class PatternAnalysisService {
 - Best for low energy tasks: ${patterns.avgCompletionsByEnergy.low} completions
 
 Give me ONE specific, actionable insight about my ADHD productivity patterns.`
-          }],
-        }),
+        }],
       });
-
-      if (!response.ok) throw new Error('API error');
-      const data = await response.json();
-      return data.content[0]?.text || this.generateLocalInsight(patterns);
+      return response.text || this.generateLocalInsight(patterns);
     } catch {
       return this.generateLocalInsight(patterns);
     }
@@ -25,7 +25,34 @@ export type NudgeNotificationType =
   | 'daily_planning'  // Morning planning prompt
   | 'weekly_review'   // Weekly review reminder
   | 'gentle_return'   // Gentle "come back" nudge
-  | 'celebration';    // Achievement/milestone celebration
+  | 'celebration'     // Achievement/milestone celebration
+  | 'transition_warning' // Heads-up before an event or scheduled task starts
+  | 'due_soon'        // A task's due or would-be-nice-by date is coming up
+  | 'travel_prompt';  // Get ready / leave now for an event somewhere else
+
+// Something on the clock that deserves a heads-up before it starts
+export interface TransitionItem {
+  key: string; // Stable per item, e.g. `event:<id>` or `task:<id>`
+  title: string;
+  start: Date;
+  kind: 'event' | 'task';
+}
+
+// A task with a date coming up
+export interface DueReminderItem {
+  key: string;
+  title: string;
+  due: Date;
+  soft: boolean; // "Would be nice by" rather than a real deadline
+}
+
+// One step of getting out the door for an event with a location
+export interface TravelPromptItem {
+  key: string; // `<eventId>:<stage>`
+  title: string;
+  body: string;
+  at: Date;
+}
 
 export interface ScheduledNotification {
   id: string;
@@ -65,6 +92,9 @@ const DEFAULT_SETTINGS: NotificationSettings = {
     'weekly_review',
     'gentle_return',
     'celebration',
+    'transition_warning',
+    'due_soon',
+    'travel_prompt',
   ],
 };
 
@@ -192,6 +222,7 @@ export class PushNotificationService {
     options?: {
       data?: Record<string, any>;
       repeats?: 'daily' | 'weekly' | 'none';
+      skipQuietHours?: boolean; // Drop instead of delaying - for time-sensitive nudges
     }
   ): Promise<ScheduledNotification | null> {
     // Check if notifications are enabled
@@ -208,6 +239,7 @@ export class PushNotificationService {
 
     // Check quiet hours
     if (this.isInQuietHours(scheduledTime)) {
+      if (options?.skipQuietHours) return null;
       // Adjust to after quiet hours
       scheduledTime = this.adjustForQuietHours(scheduledTime);
     }
@@ -396,6 +428,101 @@ export class PushNotificationService {
     );
   }
 
+  /**
+   * Replace all transition warnings with fresh ones: one per offset before each
+   * item's start, skipping times already past. Warnings are dropped rather than
+   * delayed in quiet hours - a late heads-up is worse than none.
+   */
+  async scheduleTransitionWarnings(items: TransitionItem[], offsetsMinutes: number[]): Promise<ScheduledNotification[]> {
+    const stale = this.scheduledNotifications.filter(n => n.type === 'transition_warning');
+    for (const notification of stale) {
+      await this.cancelNotification(notification.id);
+    }
+
+    const now = Date.now();
+    const scheduled: ScheduledNotification[] = [];
+    for (const item of items) {
+      for (const offset of offsetsMinutes) {
+        const time = new Date(item.start.getTime() - offset * 60 * 1000);
+        if (time.getTime() <= now) continue;
+
+        const notification = await this.scheduleNotification(
+          'transition_warning',
+          offset <= 5 ? `⏰ ${item.title} in ${offset} min` : `🕐 ${item.title} in ${offset} min`,
+          offset <= 5
+            ? 'Time to wrap up and head over. Save your place first!'
+            : item.kind === 'event'
+              ? 'Start finding a stopping point so the switch is easier.'
+              : "Coming up soon - anything you need to get ready?",
+          time,
+          { data: { transitionKey: item.key, offset }, skipQuietHours: true }
+        );
+        if (notification) scheduled.push(notification);
+      }
+    }
+    return scheduled;
+  }
+
+  /**
+   * Replace all due-date reminders. Real deadlines get a heads-up the evening
+   * before and the morning of; soft dates only the morning of.
+   */
+  async scheduleDueReminders(items: DueReminderItem[]): Promise<ScheduledNotification[]> {
+    const stale = this.scheduledNotifications.filter(n => n.type === 'due_soon');
+    for (const notification of stale) {
+      await this.cancelNotification(notification.id);
+    }
+
+    const now = Date.now();
+    const scheduled: ScheduledNotification[] = [];
+    for (const item of items) {
+      const morningOf = new Date(item.due);
+      morningOf.setHours(9, 0, 0, 0);
+      const eveningBefore = new Date(morningOf);
+      eveningBefore.setDate(eveningBefore.getDate() - 1);
+      eveningBefore.setHours(18, 0, 0, 0);
+
+      const reminders = item.soft
+        ? [{ time: morningOf, title: `🌱 ${item.title}`, body: 'Would be nice to get to today - no pressure if not.' }]
+        : [
+            { time: eveningBefore, title: `📌 ${item.title} is due tomorrow`, body: 'Want to pick a time for it now, so tomorrow-you doesn\'t have to?' },
+            { time: morningOf, title: `📌 ${item.title} is due today`, body: 'One small step on it counts. What\'s the first bit?' },
+          ];
+
+      for (const reminder of reminders) {
+        if (reminder.time.getTime() <= now || reminder.time.getTime() > item.due.getTime()) continue;
+        const notification = await this.scheduleNotification('due_soon', reminder.title, reminder.body, reminder.time, {
+          data: { dueKey: item.key },
+        });
+        if (notification) scheduled.push(notification);
+      }
+    }
+    return scheduled;
+  }
+
+  /**
+   * Replace all travel prompts. Like transition warnings, ones in quiet
+   * hours are dropped - a delayed "leave now" is no use.
+   */
+  async scheduleTravelPrompts(items: TravelPromptItem[]): Promise<ScheduledNotification[]> {
+    const stale = this.scheduledNotifications.filter(n => n.type === 'travel_prompt');
+    for (const notification of stale) {
+      await this.cancelNotification(notification.id);
+    }
+
+    const now = Date.now();
+    const scheduled: ScheduledNotification[] = [];
+    for (const item of items) {
+      if (item.at.getTime() <= now) continue;
+      const notification = await this.scheduleNotification('travel_prompt', item.title, item.body, item.at, {
+        data: { travelKey: item.key },
+        skipQuietHours: true,
+      });
+      if (notification) scheduled.push(notification);
+    }
+    return scheduled;
+  }
+
   async sendCelebration(achievement: string): Promise<void> {
     await Notifications.scheduleNotificationAsync({
       content: {
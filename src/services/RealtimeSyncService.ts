@@ -0,0 +1,167 @@
+/**
+ * RealtimeSyncService - Live change feeds from Supabase
+ *
+ * Listens to nero_tasks, nero_focus_sessions and nero_energy_logs so a change
+ * made on the phone shows up in the web tab (and vice versa) without a reload.
+ *
+ * Features:
+ * - One channel per signed-in user, filtered to their rows
+ * - Inserts/updates/deletes delivered as typed callbacks
+ * - Echo suppression for sessions and energy logs this device just wrote
+ *   (task echoes are matched by ID instead - titles aren't unique)
+ * - Connection status for the UI
+ */
+
+import type { RealtimeChannel, RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import {
+  supabase,
+  type Task as SupabaseTask,
+  type FocusSession as SupabaseFocusSession,
+  type EnergyLog as SupabaseEnergyLog,
+} from './supabase';
+
+export type RealtimeStatus = 'disconnected' | 'connecting' | 'live' | 'error';
+
+export interface RealtimeHandlers {
+  onTaskUpsert?: (task: SupabaseTask, isInsert: boolean) => void;
+  onTaskDelete?: (taskId: string) => void;
+  onFocusSessionUpsert?: (session: SupabaseFocusSession, isInsert: boolean) => void;
+  onFocusSessionDelete?: (sessionId: string) => void;
+  onEnergyLogInsert?: (log: SupabaseEnergyLog) => void;
+  onStatusChange?: (status: RealtimeStatus) => void;
+}
+
+const ECHO_WINDOW_MS = 30 * 1000;
+
+export class RealtimeSyncService {
+  private channel: RealtimeChannel | null = null;
+  private status: RealtimeStatus = 'disconnected';
+  private expectedEchoes: Map<string, number> = new Map();
+
+  getStatus(): RealtimeStatus {
+    return this.status;
+  }
+
+  /**
+   * Start listening for the given user. Returns a cleanup function.
+   */
+  subscribe(userId: string, handlers: RealtimeHandlers): () => void {
+    this.unsubscribe();
+
+    const filter = `user_id=eq.${userId}`;
+    this.setStatus('connecting', handlers);
+
+    this.channel = supabase
+      .channel(`nero-sync-${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'nero_tasks', filter }, payload =>
+        this.handleTaskChange(payload as RealtimePostgresChangesPayload<SupabaseTask>, handlers)
+      )
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'nero_focus_sessions', filter }, payload =>
+        this.handleFocusSessionChange(payload as RealtimePostgresChangesPayload<SupabaseFocusSession>, handlers)
+      )
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'nero_energy_logs', filter }, payload => {
+        const log = payload.new as SupabaseEnergyLog;
+        if (this.isEcho('energy_log', log.logged_at)) return;
+        handlers.onEnergyLogInsert?.(log);
+      })
+      .subscribe(status => {
+        if (status === 'SUBSCRIBED') this.setStatus('live', handlers);
+        else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') this.setStatus('error', handlers);
+        else if (status === 'CLOSED') this.setStatus('disconnected', handlers);
+      });
+
+    return () => this.unsubscribe(handlers);
+  }
+
+  unsubscribe(handlers?: RealtimeHandlers): void {
+    if (this.channel) {
+      supabase.removeChannel(this.channel);
+      this.channel = null;
+    }
+    this.expectedEchoes.clear();
+    this.setStatus('disconnected', handlers);
+  }
+
+  /**
+   * Note a write this device is about to make, so its change-feed echo is ignored.
+   * Keys are natural keys available before the server assigns an ID
+   * (session start time, energy log time).
+   */
+  expectEcho(kind: 'focus_session' | 'energy_log', key: string): void {
+    this.pruneEchoes();
+    this.expectedEchoes.set(`${kind}:${key}`, Date.now());
+  }
+
+  // ============ CHANGE HANDLERS ============
+
+  private handleTaskChange(
+    payload: RealtimePostgresChangesPayload<SupabaseTask>,
+    handlers: RealtimeHandlers
+  ): void {
+    if (payload.eventType === 'DELETE') {
+      const id = (payload.old as Partial<SupabaseTask>).id;
+      if (id) handlers.onTaskDelete?.(id);
+      return;
+    }
+
+    handlers.onTaskUpsert?.(payload.new as SupabaseTask, payload.eventType === 'INSERT');
+  }
+
+  private handleFocusSessionChange(
+    payload: RealtimePostgresChangesPayload<SupabaseFocusSession>,
+    handlers: RealtimeHandlers
+  ): void {
+    if (payload.eventType === 'DELETE') {
+      const id = (payload.old as Partial<SupabaseFocusSession>).id;
+      if (id) handlers.onFocusSessionDelete?.(id);
+      return;
+    }
+
+    const session = payload.new as SupabaseFocusSession;
+    const isInsert = payload.eventType === 'INSERT';
+    if (isInsert && this.isEcho('focus_session', session.started_at)) return;
+    handlers.onFocusSessionUpsert?.(session, isInsert);
+  }
+
+  // ============ ECHO SUPPRESSION ============
+
+  private isEcho(kind: string, key?: string): boolean {
+    if (!key) return false;
+    this.pruneEchoes();
+
+    const echoKey = `${kind}:${key}`;
+    if (this.expectedEchoes.has(echoKey)) {
+      this.expectedEchoes.delete(echoKey);
+      return true;
+    }
+
+    // Timestamps can come back reformatted by Postgres - compare as instants
+    const time = new Date(key).getTime();
+    for (const existing of this.expectedEchoes.keys()) {
+      const [existingKind, ...rest] = existing.split(':');
+      if (existingKind === kind && new Date(rest.join(':')).getTime() === time) {
+        this.expectedEchoes.delete(existing);
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  private pruneEchoes(): void {
+    const cutoff = Date.now() - ECHO_WINDOW_MS;
+    this.expectedEchoes.forEach((at, key) => {
+      if (at < cutoff) this.expectedEchoes.delete(key);
+    });
+  }
+
+  private setStatus(status: RealtimeStatus, handlers?: RealtimeHandlers): void {
+    if (this.status === status) return;
+    this.status = status;
+    handlers?.onStatusChange?.(status);
+  }
+}
+
+// Export singleton instance
+export const realtimeSyncService = new RealtimeSyncService();
+export default realtimeSyncService;
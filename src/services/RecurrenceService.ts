@@ -0,0 +1,339 @@
+/**
+ * RecurrenceService - Repeating tasks and routines, without the guilt pile
+ *
+ * A repeating task is a series with one live instance at a time. Finishing it
+ * creates the next one; missing it just moves it to the next day it applies,
+ * so nothing ever stacks up as overdue.
+ *
+ * Features:
+ * - Daily, weekdays, every N days, monthly by date and "N days after done"
+ * - Instances stay hidden until their day comes
+ * - Missed instances roll forward quietly instead of piling up
+ * - Named routines: ordered checklists that repeat as a parent task with steps
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { genId } from '../constants';
+import { EnergyLevel, RecurrenceRule, Routine, Task } from '../types';
+
+const STORAGE_KEY = 'nero_routines';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Far enough to find any rule's next day (monthly on the 31st included)
+const MAX_LOOKAHEAD_DAYS = 400;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// ============ DATE KEYS ============
+
+// Local calendar day as YYYY-MM-DD
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+const addDays = (key: string, days: number): string => {
+  const date = fromDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
+
+const daysBetween = (fromKey: string, toKey: string): number =>
+  Math.round((fromDateKey(toKey).getTime() - fromDateKey(fromKey).getTime()) / DAY_MS);
+
+const ordinal = (n: number): string => {
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+export class RecurrenceService {
+  private routines: Routine[] = [];
+  private loaded = false;
+  private listeners: Set<(routines: Routine[]) => void> = new Set();
+
+  // ============ RULES ============
+
+  /**
+   * Whether the rule lands on `dateKey`. `anchorKey` is a day the series is
+   * known to land on, which fixes the phase of "every N days".
+   */
+  occursOn(rule: RecurrenceRule, dateKey: string, anchorKey: string): boolean {
+    const date = fromDateKey(dateKey);
+    switch (rule.type) {
+      case 'daily':
+        return true;
+      case 'weekdays':
+        return date.getDay() >= 1 && date.getDay() <= 5;
+      case 'every_n_days':
+        return ((daysBetween(anchorKey, dateKey) % rule.interval) + rule.interval) % rule.interval === 0;
+      case 'monthly': {
+        const lastDay = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+        return date.getDate() === Math.min(rule.dayOfMonth, lastDay);
+      }
+      case 'after_completion':
+        return dateKey === anchorKey;
+    }
+  }
+
+  /**
+   * First day on or after `fromKey` the rule lands on.
+   */
+  nextOccurrence(rule: RecurrenceRule, fromKey: string, anchorKey: string): string {
+    if (rule.type === 'after_completion') return fromKey;
+    for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+      const key = addDays(fromKey, i);
+      if (this.occursOn(rule, key, anchorKey)) return key;
+    }
+    return fromKey;
+  }
+
+  describe(rule: RecurrenceRule): string {
+    switch (rule.type) {
+      case 'daily':
+        return 'Every day';
+      case 'weekdays':
+        return 'Weekdays';
+      case 'every_n_days':
+        return rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`;
+      case 'monthly':
+        return `Monthly on the ${ordinal(rule.dayOfMonth)}`;
+      case 'after_completion':
+        return rule.days === 1 ? 'A day after done' : `${rule.days} days after done`;
+    }
+  }
+
+  // ============ INSTANCES ============
+
+  /**
+   * Instances for a future day stay out of today's list.
+   */
+  isVisible(task: Task, now: Date = new Date()): boolean {
+    return !task.instanceDate || task.instanceDate <= toDateKey(now);
+  }
+
+  /**
+   * Start a series from a new task: the first instance is today if the rule
+   * lands on today, otherwise the next day it does.
+   */
+  startSeries(task: Task, rule: RecurrenceRule, now: Date = new Date()): Task {
+    const today = toDateKey(now);
+    return {
+      ...task,
+      recurrence: rule,
+      seriesId: task.seriesId || task.id,
+      instanceDate: this.nextOccurrence(rule, today, today),
+    };
+  }
+
+  /**
+   * The next instance once `completed` is done - the parent task plus fresh
+   * copies of its steps. Routines take their steps from the current routine
+   * so edits apply from the next time on.
+   */
+  getNextInstance(completed: Task, allTasks: Task[], now: Date = new Date()): Task[] {
+    const rule = completed.recurrence;
+    if (!rule) return [];
+
+    const today = toDateKey(now);
+    const instanceDate = completed.instanceDate || today;
+    const nextDate = rule.type === 'after_completion'
+      ? addDays(today, rule.days)
+      : this.nextOccurrence(rule, addDays(instanceDate > today ? instanceDate : today, 1), instanceDate);
+
+    const routine = completed.routineId ? this.getRoutine(completed.routineId) : undefined;
+    if (routine) return this.instantiateRoutine(routine, nextDate, completed.seriesId || completed.id);
+
+    const parent = this.copyInstance(completed, nextDate);
+    const steps = allTasks
+      .filter(t => t.parentId === completed.id)
+      .map(step => ({ ...this.copyInstance(step, nextDate), parentId: parent.id, recurrence: undefined, seriesId: undefined }));
+    return [parent, ...steps];
+  }
+
+  /**
+   * Unfinished instances whose day has passed move to the next day the rule
+   * lands on, with their steps unticked. "After done" instances wait as they
+   * are - the next one can't be placed until this one is finished.
+   */
+  getRollovers(tasks: Task[], now: Date = new Date()): { task: Task; instanceDate: string; resetStepIds: string[] }[] {
+    const today = toDateKey(now);
+    return tasks
+      .filter(t =>
+        t.recurrence &&
+        t.recurrence.type !== 'after_completion' &&
+        !t.completed &&
+        t.instanceDate &&
+        t.instanceDate < today
+      )
+      .map(task => ({
+        task,
+        instanceDate: this.nextOccurrence(task.recurrence!, today, task.instanceDate!),
+        resetStepIds: tasks.filter(t => t.parentId === task.id && t.completed).map(t => t.id),
+      }));
+  }
+
+  private copyInstance(task: Task, instanceDate: string): Task {
+    const scheduledTime = task.scheduledTime ? this.moveToDay(task.scheduledTime, instanceDate) : undefined;
+    return {
+      id: genId(),
+      title: task.title,
+      description: task.description,
+      energy: task.energy,
+      completed: false,
+      isMicroStep: task.isMicroStep,
+      tags: task.tags,
+      estimatedMinutes: task.estimatedMinutes,
+      estimateSource: task.estimateSource,
+      createdAt: new Date().toISOString(),
+      scheduledTime,
+      recurrence: task.recurrence,
+      seriesId: task.seriesId || task.id,
+      instanceDate,
+      routineId: task.routineId,
+      synced: false,
+    };
+  }
+
+  // Same time of day, on another day
+  private moveToDay(iso: string, dateKey: string): string {
+    const time = new Date(iso);
+    const day = fromDateKey(dateKey);
+    day.setHours(time.getHours(), time.getMinutes(), 0, 0);
+    return day.toISOString();
+  }
+
+  // ============ ROUTINES ============
+
+  async initialize(): Promise<void> {
+    if (this.loaded) return;
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      this.routines = json ? JSON.parse(json) : [];
+    } catch (error) {
+      console.error('Failed to load routines:', error);
+    }
+    this.loaded = true;
+    this.notifyListeners();
+  }
+
+  private async save(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.routines));
+    } catch (error) {
+      console.error('Failed to save routines:', error);
+    }
+  }
+
+  private notifyListeners(): void {
+    this.listeners.forEach(listener => listener(this.routines));
+  }
+
+  subscribe(listener: (routines: Routine[]) => void): () => void {
+    this.listeners.add(listener);
+    listener(this.routines);
+    return () => this.listeners.delete(listener);
+  }
+
+  getRoutines(): Routine[] {
+    return this.routines;
+  }
+
+  getRoutine(id: string): Routine | undefined {
+    return this.routines.find(r => r.id === id);
+  }
+
+  async createRoutine(
+    name: string,
+    emoji: string,
+    stepTitles: string[],
+    recurrence: RecurrenceRule,
+    energy: EnergyLevel = 'low'
+  ): Promise<Routine> {
+    const routine: Routine = {
+      id: genId(),
+      name: name.trim(),
+      emoji,
+      steps: stepTitles.map(title => title.trim()).filter(Boolean).map(title => ({ id: genId(), title })),
+      recurrence,
+      energy,
+      createdAt: new Date().toISOString(),
+    };
+    this.routines = [...this.routines, routine];
+    await this.save();
+    this.notifyListeners();
+    return routine;
+  }
+
+  async updateRoutine(id: string, updates: Partial<Omit<Routine, 'id' | 'createdAt'>>): Promise<void> {
+    this.routines = this.routines.map(r => r.id === id ? { ...r, ...updates } : r);
+    await this.save();
+    this.notifyListeners();
+  }
+
+  async deleteRoutine(id: string): Promise<void> {
+    this.routines = this.routines.filter(r => r.id !== id);
+    await this.save();
+    this.notifyListeners();
+  }
+
+  /**
+   * A routine as tasks: a parent carrying the recurrence, then one micro-step
+   * per routine step in order.
+   */
+  instantiateRoutine(routine: Routine, instanceDate: string, seriesId?: string): Task[] {
+    const createdAt = new Date().toISOString();
+    const totalMinutes = routine.steps.reduce((sum, step) => sum + (step.minutes || 0), 0);
+    const parent: Task = {
+      id: genId(),
+      title: `${routine.emoji} ${routine.name}`,
+      energy: routine.energy,
+      completed: false,
+      isMicroStep: false,
+      tags: ['routine'],
+      estimatedMinutes: totalMinutes || undefined,
+      createdAt,
+      recurrence: routine.recurrence,
+      instanceDate,
+      routineId: routine.id,
+      synced: false,
+    };
+    parent.seriesId = seriesId || parent.id;
+
+    const steps: Task[] = routine.steps.map(step => ({
+      id: genId(),
+      title: step.title,
+      energy: routine.energy,
+      completed: false,
+      isMicroStep: true,
+      parentId: parent.id,
+      estimatedMinutes: step.minutes,
+      createdAt,
+      instanceDate,
+      synced: false,
+    }));
+    return [parent, ...steps];
+  }
+
+  /**
+   * First instance of a routine, on the next day it applies (today included).
+   */
+  startRoutine(routine: Routine, now: Date = new Date()): Task[] {
+    const today = toDateKey(now);
+    return this.instantiateRoutine(routine, this.nextOccurrence(routine.recurrence, today, today));
+  }
+
+  describeNext(task: Task, now: Date = new Date()): string | null {
+    if (!task.instanceDate) return null;
+    const days = daysBetween(toDateKey(now), task.instanceDate);
+    if (days <= 0) return 'Today';
+    if (days === 1) return 'Tomorrow';
+    if (days < 7) return WEEKDAY_NAMES[fromDateKey(task.instanceDate).getDay()];
+    return fromDateKey(task.instanceDate).toLocaleDateString([], { month: 'short', day: 'numeric' });
+  }
+}
+
+// Export singleton instance
+export const recurrenceService = new RecurrenceService();
+export default recurrenceService;
@@ -0,0 +1,150 @@
+/**
+ * SlotFinderService - Finding a time that actually fits
+ *
+ * Looks through the coming days for a gap that fits a task, inside the
+ * user's working hours and with breathing room around meetings. Within a
+ * day, demanding tasks lean toward the hours the user usually gets things
+ * done, and easy ones leave those hours free.
+ *
+ * Features:
+ * - Working hours per weekday, with days off
+ * - Buffer before and after every busy event
+ * - Multi-day search - the soonest day with room wins
+ * - Peak-hour preference by task energy
+ */
+
+import { DEFAULT_SCHEDULING_PREFERENCES } from '../constants';
+import { BusyPeriod, EnergyLevel, SchedulingPreferences, TimeSlot } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const STEP_MINUTES = 15;
+// Score per hour of waiting, so an earlier slot wins unless a peak hour is worth it
+const DELAY_COST_PER_HOUR = 0.1;
+
+const PEAK_BONUS: Record<EnergyLevel, number> = {
+  high: 3,
+  medium: 1.5,
+  low: -1, // Save peak hours for harder work
+};
+
+export interface SlotSearchOptions {
+  from?: Date;
+  energy?: EnergyLevel;
+  peakHours?: number[];
+}
+
+export class SlotFinderService {
+  /**
+   * Best slot for a task of `durationMinutes` on the soonest day that has
+   * room, or null if nothing fits within `searchDays`.
+   */
+  findSlot(
+    busy: BusyPeriod[],
+    durationMinutes: number,
+    preferences: SchedulingPreferences = DEFAULT_SCHEDULING_PREFERENCES,
+    options: SlotSearchOptions = {}
+  ): TimeSlot | null {
+    const from = this.roundUp(options.from || new Date());
+    const peakHours = options.peakHours || [];
+    const durationMs = durationMinutes * MINUTE_MS;
+
+    for (let offset = 0; offset < preferences.searchDays; offset++) {
+      const day = new Date(from.getFullYear(), from.getMonth(), from.getDate() + offset);
+
+      let best: { slot: TimeSlot; score: number } | null = null;
+      for (const window of this.getFreeWindows(busy, preferences, day, from)) {
+        for (let start = window.start.getTime(); start + durationMs <= window.end.getTime(); start += STEP_MINUTES * MINUTE_MS) {
+          const slot = { start: new Date(start), end: new Date(start + durationMs), peak: false };
+          slot.peak = peakHours.includes(slot.start.getHours());
+          const score = (slot.peak && options.energy ? PEAK_BONUS[options.energy] : 0)
+            - ((start - from.getTime()) / HOUR_MS) * DELAY_COST_PER_HOUR;
+          if (!best || score > best.score) best = { slot, score };
+        }
+      }
+      if (best) return best.slot;
+    }
+    return null;
+  }
+
+  /**
+   * Free stretches of `day` inside its working hours and after `from`, with
+   * the buffer kept around busy events. Starts fall on the 15-minute grid.
+   */
+  getFreeWindows(
+    busy: BusyPeriod[],
+    preferences: SchedulingPreferences,
+    day: Date,
+    from: Date = new Date()
+  ): { start: Date; end: Date }[] {
+    const hours = preferences.workingHours[day.getDay()];
+    if (!hours || hours.end <= hours.start) return [];
+
+    const dayStart = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    dayStart.setMinutes(hours.start);
+    const dayEnd = new Date(day.getFullYear(), day.getMonth(), day.getDate());
+    dayEnd.setMinutes(hours.end);
+    const windowStart = Math.max(dayStart.getTime(), this.roundUp(from).getTime());
+
+    return this.freeGaps(this.mergeBusy(busy, preferences.bufferMinutes), windowStart, dayEnd.getTime())
+      .filter(gap => gap.end > gap.start)
+      .map(gap => ({ start: new Date(gap.start), end: new Date(gap.end) }));
+  }
+
+  /**
+   * "at 2:30 PM", "tomorrow at 9:00 AM", "Thu at 10:00 AM"
+   */
+  describe(date: Date, now: Date = new Date()): string {
+    const time = date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+    const days = Math.round(
+      (new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() -
+        new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (24 * HOUR_MS)
+    );
+    if (days <= 0) return `at ${time}`;
+    if (days === 1) return `tomorrow at ${time}`;
+    if (days < 7) return `${date.toLocaleDateString([], { weekday: 'short' })} at ${time}`;
+    return `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} at ${time}`;
+  }
+
+  // Busy periods widened by the buffer, sorted and merged where they overlap
+  private mergeBusy(busy: BusyPeriod[], bufferMinutes: number): { start: number; end: number }[] {
+    const buffer = bufferMinutes * MINUTE_MS;
+    const sorted = busy
+      .map(b => ({ start: new Date(b.start).getTime() - buffer, end: new Date(b.end).getTime() + buffer }))
+      .filter(b => !isNaN(b.start) && !isNaN(b.end))
+      .sort((a, b) => a.start - b.start);
+
+    const merged: { start: number; end: number }[] = [];
+    sorted.forEach(b => {
+      const last = merged[merged.length - 1];
+      if (last && b.start <= last.end) last.end = Math.max(last.end, b.end);
+      else merged.push({ ...b });
+    });
+    return merged;
+  }
+
+  private freeGaps(blocked: { start: number; end: number }[], windowStart: number, windowEnd: number): { start: number; end: number }[] {
+    const gaps: { start: number; end: number }[] = [];
+    let cursor = windowStart;
+    for (const b of blocked) {
+      if (b.end <= cursor) continue;
+      if (b.start >= windowEnd) break;
+      if (b.start > cursor) gaps.push({ start: cursor, end: b.start });
+      cursor = Math.max(cursor, b.end);
+    }
+    if (cursor < windowEnd) gaps.push({ start: cursor, end: windowEnd });
+    // Gaps opened by a buffer end may fall off the 15-minute grid
+    return gaps.map(g => ({ start: this.roundUp(new Date(g.start)).getTime(), end: g.end }));
+  }
+
+  private roundUp(date: Date): Date {
+    const rounded = new Date(date);
+    const minutes = Math.ceil((rounded.getMinutes() + rounded.getSeconds() / 60) / STEP_MINUTES) * STEP_MINUTES;
+    rounded.setMinutes(minutes, 0, 0);
+    return rounded;
+  }
+}
+
+// Export singleton instance
+export const slotFinderService = new SlotFinderService();
+export default slotFinderService;
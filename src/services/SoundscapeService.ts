@@ -0,0 +1,392 @@
+/**
+ * SoundscapeService - Background noise and chimes for focus sessions
+ *
+ * Steady noise masks the small sounds that pull an ADHD brain off task, and a
+ * distinct chime per event makes transitions noticeable without looking.
+ *
+ * Features:
+ * - Brown, pink and white noise generated on-device; bundled rain and ocean loops
+ * - Plays while focusing, fades down during breaks, stops when the timer stops
+ * - Separate chimes for session end, break end and check-ins
+ * - Volume levels and mute schedules (quiet hours)
+ */
+
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Audio, AVPlaybackSource } from 'expo-av';
+import * as FileSystem from 'expo-file-system';
+import { FocusTimerService } from './FocusTimerService';
+import { DEFAULT_SOUND_SETTINGS } from '../constants';
+import { ChimeEvent, ChimeId, FocusTimerStatus, SoundscapeId, SoundSettings } from '../types';
+
+const STORAGE_KEY = 'nero_sound_settings';
+const NOISE_SAMPLE_RATE = 22050;
+const NOISE_SECONDS = 10;
+const LOOP_CROSSFADE_SECONDS = 0.5;
+const FADE_MS = 1500;
+const FADE_STEPS = 15;
+const MUTE_CHECK_MS = 60 * 1000;
+// A phase that ends within this much of its scheduled end ended by itself
+const NATURAL_END_SLACK_MS = 1500;
+
+const BUNDLED_LOOPS: Partial<Record<SoundscapeId, AVPlaybackSource>> = {
+  rain: require('../../assets/sounds/rain.wav'),
+  ocean: require('../../assets/sounds/ocean.wav'),
+};
+
+const CHIME_SOURCES: Record<Exclude<ChimeId, 'none'>, AVPlaybackSource> = {
+  bell: require('../../assets/sounds/chime-bell.wav'),
+  soft: require('../../assets/sounds/chime-soft.wav'),
+  bright: require('../../assets/sounds/chime-bright.wav'),
+};
+
+export const SOUNDSCAPE_OPTIONS: { id: SoundscapeId; label: string }[] = [
+  { id: 'off', label: '🔇 Off' },
+  { id: 'brown', label: '🟤 Brown' },
+  { id: 'pink', label: '🌸 Pink' },
+  { id: 'white', label: '⚪ White' },
+  { id: 'rain', label: '🌧️ Rain' },
+  { id: 'ocean', label: '🌊 Ocean' },
+];
+
+export const CHIME_OPTIONS: { id: ChimeId; label: string }[] = [
+  { id: 'bell', label: '🔔 Bell' },
+  { id: 'soft', label: '🎐 Soft' },
+  { id: 'bright', label: '✨ Bright' },
+  { id: 'none', label: '🔕 None' },
+];
+
+// ============ NOISE GENERATION ============
+
+type NoiseColor = 'brown' | 'pink' | 'white';
+
+function generateNoise(color: NoiseColor, length: number): Float32Array {
+  const samples = new Float32Array(length);
+  let brown = 0;
+  // Paul Kellet's pink noise filter
+  let b0 = 0, b1 = 0, b2 = 0, b3 = 0, b4 = 0, b5 = 0, b6 = 0;
+
+  for (let i = 0; i < length; i++) {
+    const white = Math.random() * 2 - 1;
+    if (color === 'white') {
+      samples[i] = white * 0.5;
+    } else if (color === 'brown') {
+      brown = (brown + 0.02 * white) / 1.02;
+      samples[i] = brown * 3.5;
+    } else {
+      b0 = 0.99886 * b0 + white * 0.0555179;
+      b1 = 0.99332 * b1 + white * 0.0750759;
+      b2 = 0.969 * b2 + white * 0.153852;
+      b3 = 0.8665 * b3 + white * 0.3104856;
+      b4 = 0.55 * b4 + white * 0.5329522;
+      b5 = -0.7616 * b5 - white * 0.016898;
+      samples[i] = (b0 + b1 + b2 + b3 + b4 + b5 + b6 + white * 0.5362) * 0.11;
+      b6 = white * 0.115926;
+    }
+  }
+  return samples;
+}
+
+/**
+ * Blend the tail into the head so the loop point doesn't click.
+ */
+function makeSeamless(samples: Float32Array, fadeLength: number): Float32Array {
+  const loop = samples.slice(fadeLength);
+  const tailStart = loop.length - fadeLength;
+  for (let i = 0; i < fadeLength; i++) {
+    const mix = i / fadeLength;
+    loop[tailStart + i] = loop[tailStart + i] * (1 - mix) + samples[i] * mix;
+  }
+  return loop;
+}
+
+// 16-bit mono PCM WAV, base64 encoded
+function encodeWav(samples: Float32Array, sampleRate: number): string {
+  const dataSize = samples.length * 2;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) bytes[offset + i] = text.charCodeAt(i);
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+  samples.forEach((sample, i) => {
+    view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, sample)) * 0x7fff, true);
+  });
+
+  return toBase64(bytes);
+}
+
+const BASE64_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+function toBase64(bytes: Uint8Array): string {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += 3) {
+    const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    chunks.push(
+      BASE64_CHARS[(n >> 18) & 63] +
+      BASE64_CHARS[(n >> 12) & 63] +
+      (i + 1 < bytes.length ? BASE64_CHARS[(n >> 6) & 63] : '=') +
+      (i + 2 < bytes.length ? BASE64_CHARS[n & 63] : '=')
+    );
+  }
+  return chunks.join('');
+}
+
+// ============ SERVICE ============
+
+export class SoundscapeService {
+  private settings: SoundSettings = DEFAULT_SOUND_SETTINGS;
+  private sound: Audio.Sound | null = null;
+  private playing: SoundscapeId = 'off';
+  private targetVolume = 0;
+  private fadeInterval: NodeJS.Timeout | null = null;
+  private muteInterval: NodeJS.Timeout | null = null;
+  private noiseUris: Partial<Record<SoundscapeId, string>> = {};
+  private timer: FocusTimerService | null = null;
+  private unsubscribeTimer: (() => void) | null = null;
+  private lastStatus: FocusTimerStatus = 'idle';
+  private lastPhaseEndsAt: number | null = null;
+  private listeners: Set<(settings: SoundSettings) => void> = new Set();
+
+  async initialize(): Promise<void> {
+    try {
+      const json = await AsyncStorage.getItem(STORAGE_KEY);
+      if (json) this.settings = { ...DEFAULT_SOUND_SETTINGS, ...JSON.parse(json) };
+      await Audio.setAudioModeAsync({ playsInSilentModeIOS: true, allowsRecordingIOS: false });
+    } catch (error) {
+      console.error('Failed to initialize sounds:', error);
+    }
+    this.notifyListeners();
+  }
+
+  getSettings(): SoundSettings {
+    return this.settings;
+  }
+
+  updateSettings(updates: Partial<SoundSettings>): void {
+    this.settings = { ...this.settings, ...updates };
+    AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings)).catch(e => console.log('Failed to save sound settings:', e));
+    this.notifyListeners();
+    this.sync();
+  }
+
+  subscribe(listener: (settings: SoundSettings) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Follow a timer: soundscape while focusing, quieter on breaks, chimes when
+   * a phase runs out on its own.
+   */
+  attachTimer(timer: FocusTimerService): void {
+    this.unsubscribeTimer?.();
+    this.timer = timer;
+    this.unsubscribeTimer = timer.subscribe(() => this.handleTimerChange());
+    this.handleTimerChange();
+  }
+
+  /**
+   * Quiet hours - true while any mute schedule covers `date`.
+   */
+  isMuted(date: Date = new Date()): boolean {
+    const hour = date.getHours();
+    const day = date.getDay();
+    return this.settings.muteSchedules.some(schedule => {
+      if (schedule.days && !schedule.days.includes(day)) return false;
+      return schedule.startHour <= schedule.endHour
+        ? hour >= schedule.startHour && hour < schedule.endHour
+        : hour >= schedule.startHour || hour < schedule.endHour;
+    });
+  }
+
+  // ============ CHIMES ============
+
+  async playChime(event: ChimeEvent): Promise<void> {
+    const chime = this.settings.chimes[event];
+    if (!this.isEnabled() || chime === 'none' || this.isMuted()) return;
+    await this.playChimeSound(chime);
+  }
+
+  /**
+   * Play a chime regardless of mutes - for previewing in settings.
+   */
+  async previewChime(chime: ChimeId): Promise<void> {
+    if (chime !== 'none') await this.playChimeSound(chime);
+  }
+
+  private async playChimeSound(chime: Exclude<ChimeId, 'none'>) {
+    try {
+      const { sound } = await Audio.Sound.createAsync(CHIME_SOURCES[chime], {
+        shouldPlay: true,
+        volume: this.settings.chimeVolume,
+      });
+      sound.setOnPlaybackStatusUpdate(status => {
+        if (status.isLoaded && status.didJustFinish) sound.unloadAsync();
+      });
+    } catch (error) {
+      console.error('Failed to play chime:', error);
+    }
+  }
+
+  // ============ TIMER ============
+
+  private handleTimerChange() {
+    const timer = this.timer;
+    if (!timer) return;
+
+    const session = timer.getCurrentSession();
+    const status: FocusTimerStatus = session && timer.isActive() ? session.status : 'idle';
+    const endedNaturally = this.lastPhaseEndsAt !== null && Date.now() >= this.lastPhaseEndsAt - NATURAL_END_SLACK_MS;
+
+    if (status !== this.lastStatus && endedNaturally) {
+      if (this.lastStatus === 'running') this.playChime('session_end');
+      else if (this.lastStatus === 'break') this.playChime('break_end');
+    }
+
+    this.lastStatus = status;
+    this.lastPhaseEndsAt = (status === 'running' || status === 'break') && !timer.isFlowing()
+      ? Date.now() + timer.getRemainingSeconds() * 1000
+      : null;
+    this.sync();
+  }
+
+  // FocusTimerSettings.playSound is the master switch
+  private isEnabled(): boolean {
+    return this.timer?.getSettings().playSound ?? true;
+  }
+
+  // ============ SOUNDSCAPE ============
+
+  /**
+   * Bring playback in line with the timer state, settings and mute schedules.
+   * Call after changing the timer's `playSound` setting.
+   */
+  sync(): void {
+    const status = this.lastStatus;
+    const active = status === 'running' || status === 'break';
+    const wanted = active && this.isEnabled() && !this.isMuted() ? this.settings.soundscape : 'off';
+    const volume = status === 'break' ? this.settings.breakVolume : this.settings.soundscapeVolume;
+
+    // Quiet hours can start or end in the middle of a long session
+    if (active && this.settings.muteSchedules.length > 0) {
+      if (!this.muteInterval) this.muteInterval = setInterval(() => this.sync(), MUTE_CHECK_MS);
+    } else if (this.muteInterval) {
+      clearInterval(this.muteInterval);
+      this.muteInterval = null;
+    }
+
+    if (wanted === 'off') {
+      this.stopSoundscape();
+    } else if (wanted !== this.playing) {
+      this.startSoundscape(wanted, volume);
+    } else {
+      this.fadeTo(volume);
+    }
+  }
+
+  private async startSoundscape(id: SoundscapeId, volume: number) {
+    this.playing = id;
+    await this.unloadSound();
+
+    try {
+      const source = BUNDLED_LOOPS[id] || { uri: await this.getNoiseUri(id as NoiseColor) };
+      const { sound } = await Audio.Sound.createAsync(source, { isLooping: true, volume: 0, shouldPlay: true });
+      // Settings may have changed while loading
+      if (this.playing !== id) {
+        sound.unloadAsync();
+        return;
+      }
+      this.sound = sound;
+      this.fadeTo(volume);
+    } catch (error) {
+      console.error('Failed to start soundscape:', error);
+      this.playing = 'off';
+    }
+  }
+
+  private stopSoundscape() {
+    if (this.playing === 'off') return;
+    this.playing = 'off';
+    const sound = this.sound;
+    this.fadeTo(0, () => {
+      // A new soundscape may have replaced this one mid-fade
+      if (this.sound === sound) this.unloadSound();
+    });
+  }
+
+  private fadeTo(volume: number, onDone?: () => void) {
+    if (this.fadeInterval) clearInterval(this.fadeInterval);
+    const sound = this.sound;
+    if (!sound) {
+      onDone?.();
+      return;
+    }
+
+    const from = this.targetVolume;
+    this.targetVolume = volume;
+    let step = 0;
+    this.fadeInterval = setInterval(() => {
+      step++;
+      sound.setVolumeAsync(from + ((volume - from) * step) / FADE_STEPS).catch(() => {});
+      if (step >= FADE_STEPS) {
+        clearInterval(this.fadeInterval!);
+        this.fadeInterval = null;
+        onDone?.();
+      }
+    }, FADE_MS / FADE_STEPS);
+  }
+
+  private async unloadSound() {
+    if (this.fadeInterval) {
+      clearInterval(this.fadeInterval);
+      this.fadeInterval = null;
+    }
+    const sound = this.sound;
+    this.sound = null;
+    this.targetVolume = 0;
+    if (sound) await sound.unloadAsync().catch(() => {});
+  }
+
+  /**
+   * Noise is generated once per color. Native players need a file; the web
+   * can play a data URI directly.
+   */
+  private async getNoiseUri(color: NoiseColor): Promise<string> {
+    const cached = this.noiseUris[color];
+    if (cached) return cached;
+
+    const length = NOISE_SAMPLE_RATE * NOISE_SECONDS;
+    const fade = NOISE_SAMPLE_RATE * LOOP_CROSSFADE_SECONDS;
+    const wav = encodeWav(makeSeamless(generateNoise(color, length + fade), fade), NOISE_SAMPLE_RATE);
+
+    let uri = `data:audio/wav;base64,${wav}`;
+    if (Platform.OS !== 'web') {
+      uri = `${FileSystem.cacheDirectory}noise-${color}.wav`;
+      await FileSystem.writeAsStringAsync(uri, wav, { encoding: FileSystem.EncodingType.Base64 });
+    }
+    this.noiseUris[color] = uri;
+    return uri;
+  }
+
+  private notifyListeners() {
+    this.listeners.forEach(listener => listener(this.settings));
+  }
+}
+
+// Export singleton instance
+export const soundscapeService = new SoundscapeService();
+export default soundscapeService;
@@ -0,0 +1,126 @@
+/**
+ * TaskBreakdownService - Split a task into concrete micro-steps
+ *
+ * Features:
+ * - Asks the configured AI provider for 3-7 task-specific steps with time estimates and energy tags
+ * - Falls back to the generic starter steps when offline or without a provider
+ * - Tolerant parsing of the model's JSON (code fences, stray prose)
+ */
+
+import { EnergyLevel, Task } from '../types';
+import { llmProviderService } from './LLMProviderService';
+
+export interface BreakdownStep {
+  id: string;
+  title: string;
+  estimatedMinutes: number;
+  energy: EnergyLevel;
+}
+
+export interface BreakdownResult {
+  steps: BreakdownStep[];
+  source: 'ai' | 'fallback';
+}
+
+const MIN_STEPS = 3;
+const MAX_STEPS = 7;
+const MAX_STEP_MINUTES = 60;
+
+const generateStepId = () => `step-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`;
+
+export class TaskBreakdownService {
+  /**
+   * Break a task down, using the AI provider when one is configured.
+   * Never throws - any failure returns the fallback steps.
+   */
+  async generateBreakdown(
+    task: Pick<Task, 'title' | 'energy' | 'description'>,
+    currentEnergy?: EnergyLevel | null
+  ): Promise<BreakdownResult> {
+    if (!llmProviderService.isConfigured()) {
+      return { steps: this.getFallbackSteps(task.title), source: 'fallback' };
+    }
+
+    try {
+      const steps = await this.requestAIBreakdown(task, currentEnergy);
+      if (steps.length >= MIN_STEPS) {
+        return { steps, source: 'ai' };
+      }
+    } catch (error) {
+      console.error('AI breakdown failed:', error);
+    }
+
+    return { steps: this.getFallbackSteps(task.title), source: 'fallback' };
+  }
+
+  /**
+   * The original canned steps - generic, but always available.
+   */
+  getFallbackSteps(title: string): BreakdownStep[] {
+    return [
+      `Just open/look at: ${title.slice(0, 20)}`,
+      `Do the tiniest first part`,
+      `Continue for 2 more minutes`,
+    ].map(step => ({
+      id: generateStepId(),
+      title: step,
+      estimatedMinutes: 2,
+      energy: 'low' as EnergyLevel,
+    }));
+  }
+
+  createEmptyStep(): BreakdownStep {
+    return { id: generateStepId(), title: '', estimatedMinutes: 5, energy: 'low' };
+  }
+
+  // ============ AI ============
+
+  private async requestAIBreakdown(
+    task: Pick<Task, 'title' | 'energy' | 'description'>,
+    currentEnergy?: EnergyLevel | null
+  ): Promise<BreakdownStep[]> {
+    const response = await llmProviderService.complete({
+      maxTokens: 600,
+      system: `You help people with ADHD start tasks by breaking them into tiny, concrete micro-steps.
+Each step must be a specific physical or mental action for THIS task (never generic advice like "get started").
+The first step should take under 2 minutes and be almost impossible to refuse.
+Respond with ONLY a JSON array of ${MIN_STEPS}-${MAX_STEPS} objects, no prose:
+[{"title": "...", "minutes": 5, "energy": "low" | "medium" | "high"}]`,
+      messages: [{
+        role: 'user',
+        content: `Task: ${task.title}
+${task.description ? `Details: ${task.description}\n` : ''}Task energy: ${task.energy}
+My energy right now: ${currentEnergy || 'unknown'}`,
+      }],
+    });
+
+    return this.parseSteps(response.text);
+  }
+
+  private parseSteps(text: string): BreakdownStep[] {
+    const match = text.match(/\[[\s\S]*\]/);
+    if (!match) return [];
+
+    let raw: any[];
+    try {
+      raw = JSON.parse(match[0]);
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(raw)) return [];
+
+    return raw
+      .filter(item => item && typeof item.title === 'string' && item.title.trim())
+      .slice(0, MAX_STEPS)
+      .map(item => ({
+        id: generateStepId(),
+        title: item.title.trim(),
+        estimatedMinutes: Math.min(Math.max(Math.round(Number(item.minutes) || 5), 1), MAX_STEP_MINUTES),
+        energy: (['low', 'medium', 'high'].includes(item.energy) ? item.energy : 'low') as EnergyLevel,
+      }));
+  }
+}
+
+// Export singleton instance
+export const taskBreakdownService = new TaskBreakdownService();
+export default taskBreakdownService;
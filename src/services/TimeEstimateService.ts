@@ -0,0 +1,143 @@
+/**
+ * TimeEstimateService - Learn how long things really take
+ *
+ * Time blindness means guesses are off, but usually off in a consistent way.
+ * Comparing estimates with the focused time actually spent gives a personal
+ * correction per kind of task.
+ *
+ * Features:
+ * - Task categories from tags or title keywords
+ * - Actual minutes from the focus sessions linked to a task
+ * - Median actual/estimate ratio per category ("1.8x for admin tasks")
+ * - Pre-filled estimates for new tasks based on past ones
+ *   (kept out of the ratios, so it never learns from its own guesses)
+ */
+
+import { CompletionRecord, EstimateCorrection, FocusSession, TaskCategory } from '../types';
+
+const MIN_SAMPLES = 3;
+const RECENT_SAMPLES = 20;
+// Ratios this close to 1 aren't worth mentioning
+const ACCURATE_MARGIN = 0.15;
+
+const CATEGORY_KEYWORDS: Record<Exclude<TaskCategory, 'other'>, RegExp> = {
+  admin: /\b(bill|bills|pay|tax|taxes|form|forms|paperwork|invoice|insurance|bank|budget|expense|receipt|renew|file|filing|admin|appointment|book)\b/i,
+  communication: /\b(email|emails|e-mail|call|phone|text|message|reply|respond|write back|slack|meeting|contact)\b/i,
+  chores: /\b(clean|cleaning|laundry|dishes|vacuum|tidy|organi[sz]e|declutter|cook|trash|garbage|wash|fold|sweep|mop)\b/i,
+  errands: /\b(buy|shop|shopping|groceries|grocery|pick up|pickup|drop off|return|post office|store|pharmacy|errand)\b/i,
+  creative: /\b(write|writing|draft|design|draw|paint|edit|blog|post|video|music|sketch|plan|brainstorm)\b/i,
+  learning: /\b(study|read|reading|learn|course|class|homework|research|practice|review|lesson|exam)\b/i,
+};
+
+export const CATEGORY_LABELS: Record<TaskCategory, string> = {
+  admin: 'admin',
+  communication: 'communication',
+  chores: 'chore',
+  errands: 'errand',
+  creative: 'creative',
+  learning: 'learning',
+  other: 'other',
+};
+
+export class TimeEstimateService {
+  /**
+   * Category from the first recognizable tag, else from title keywords.
+   */
+  categorize(title: string, tags?: string[]): TaskCategory {
+    const categories = Object.keys(CATEGORY_KEYWORDS) as Exclude<TaskCategory, 'other'>[];
+    const tagged = tags?.map(t => t.toLowerCase()).find(t => (categories as string[]).includes(t));
+    if (tagged) return tagged as TaskCategory;
+    return categories.find(category => CATEGORY_KEYWORDS[category].test(title)) || 'other';
+  }
+
+  /**
+   * Minutes actually spent focusing on a task across its focus sessions.
+   * `ongoingSeconds` covers a session that hasn't ended yet.
+   */
+  getFocusedMinutes(taskId: string, sessions: FocusSession[], ongoingSeconds: number = 0): number {
+    const seconds = sessions
+      .filter(s => s.taskId === taskId)
+      .reduce((total, s) => total + (s.focusedSeconds || 0), ongoingSeconds);
+    return Math.round(seconds / 60);
+  }
+
+  /**
+   * Correction for one category once there are enough estimated, measured
+   * completions. Falls back to all categories combined.
+   */
+  getCorrection(category: TaskCategory, history: CompletionRecord[]): EstimateCorrection | null {
+    const measured = this.getMeasured(history);
+    const own = measured.filter(r => this.categoryOf(r) === category);
+    if (own.length >= MIN_SAMPLES) return this.buildCorrection(category, own);
+    if (category !== 'other' && measured.length >= MIN_SAMPLES) return this.buildCorrection('other', measured);
+    return null;
+  }
+
+  getCorrections(history: CompletionRecord[]): EstimateCorrection[] {
+    const byCategory = new Map<TaskCategory, CompletionRecord[]>();
+    this.getMeasured(history).forEach(r => {
+      const category = this.categoryOf(r);
+      byCategory.set(category, [...(byCategory.get(category) || []), r]);
+    });
+
+    return Array.from(byCategory.entries())
+      .filter(([, records]) => records.length >= MIN_SAMPLES)
+      .map(([category, records]) => this.buildCorrection(category, records))
+      .sort((a, b) => Math.abs(b.ratio - 1) - Math.abs(a.ratio - 1));
+  }
+
+  /**
+   * What to pre-fill for a new task: the typical time tasks like it have
+   * really taken, rounded to 5 minutes.
+   */
+  suggestEstimate(title: string, history: CompletionRecord[], tags?: string[]): number | null {
+    const correction = this.getCorrection(this.categorize(title, tags), history);
+    if (!correction) return null;
+    return Math.max(5, Math.round(correction.typicalMinutes / 5) * 5);
+  }
+
+  /**
+   * Apply a correction to a raw guess.
+   */
+  adjustEstimate(minutes: number, correction: EstimateCorrection): number {
+    return Math.max(5, Math.round((minutes * correction.ratio) / 5) * 5);
+  }
+
+  describeCorrection(correction: EstimateCorrection): string {
+    const kind = correction.category === 'other' ? '' : `${CATEGORY_LABELS[correction.category]} `;
+    if (Math.abs(correction.ratio - 1) <= ACCURATE_MARGIN) {
+      return `Your estimates for ${kind}tasks are spot on`;
+    }
+    return `You usually take ${correction.ratio.toFixed(1)}x your estimate for ${kind}tasks`;
+  }
+
+  // Completions with both the user's own estimate and a measured time
+  private getMeasured(history: CompletionRecord[]): CompletionRecord[] {
+    return history.filter(r => r.estimatedMinutes && r.actualMinutes && r.estimateSource !== 'suggested');
+  }
+
+  // Older records predate stored categories
+  private categoryOf(record: CompletionRecord): TaskCategory {
+    return record.category ?? this.categorize(record.taskTitle);
+  }
+
+  private buildCorrection(category: TaskCategory, records: CompletionRecord[]): EstimateCorrection {
+    const recent = records.slice(-RECENT_SAMPLES);
+    return {
+      category,
+      ratio: Math.round(this.median(recent.map(r => r.actualMinutes! / r.estimatedMinutes!)) * 10) / 10,
+      samples: recent.length,
+      typicalMinutes: Math.round(this.median(recent.map(r => r.actualMinutes!))),
+    };
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+  }
+}
+
+// Export singleton instance
+export const timeEstimateService = new TimeEstimateService();
+export default timeEstimateService;
@@ -0,0 +1,234 @@
+/**
+ * TravelService - When to leave, and when to start getting ready
+ *
+ * Works out the trip to events that have a location: which saved place it
+ * is, how long getting there takes, and so when to walk out the door. Getting
+ * ready is its own buffer in front of that - it's the part that quietly eats
+ * the time - and it learns from how long it really takes.
+ *
+ * Features:
+ * - Location parsing: saved places by address or name, "home" / "work", video calls need no trip
+ * - Leave-by times from the place's travel time and transport mode
+ * - Escalating prompts: heads-up, get ready, leave soon, leave now, running late
+ * - Getting-ready time learned from the last few departures
+ */
+
+import { DEFAULT_TRAVEL_SETTINGS } from '../constants';
+import { SavedPlace, TransportMode, TravelSettings } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HEADS_UP_MINUTES = 15; // Before it's time to get ready
+const LEAVE_SOON_MINUTES = 5;
+const LATE_AFTER_MINUTES = 5; // Past leave-by before "running late"
+const MIN_READY_SAMPLES = 3;
+const MAX_READY_SAMPLES = 10;
+const MAX_READY_MINUTES = 120; // Longer than this wasn't getting ready
+
+// Parking, waiting for the bus, locking up the bike
+const MODE_BUFFER_MINUTES: Record<TransportMode, number> = {
+  walk: 0,
+  bike: 5,
+  transit: 5,
+  drive: 10,
+};
+
+export const TRANSPORT_MODES: { id: TransportMode; icon: string; label: string }[] = [
+  { id: 'walk', icon: '🚶', label: 'Walk' },
+  { id: 'bike', icon: '🚲', label: 'Bike' },
+  { id: 'transit', icon: '🚌', label: 'Transit' },
+  { id: 'drive', icon: '🚗', label: 'Drive' },
+];
+
+const VIRTUAL_LOCATION =
+  /zoom\.us|meet\.google|teams\.microsoft|teams\.live|webex|whereby|jitsi|https?:\/\/|^\s*(online|virtual|remote|video call|phone( call)?|call)\s*$/i;
+
+const PLACE_KEYWORDS: Record<SavedPlace['kind'], RegExp | null> = {
+  home: /\bhome\b/i,
+  work: /\b(work|office)\b/i,
+  other: null,
+};
+
+export type TravelStage = 'heads_up' | 'get_ready' | 'leave_soon' | 'leave_now' | 'running_late';
+
+const STAGE_ORDER: TravelStage[] = ['heads_up', 'get_ready', 'leave_soon', 'leave_now', 'running_late'];
+
+export interface TravelPlan {
+  eventId: string;
+  title: string;
+  location: string;
+  place?: SavedPlace; // The saved place the location matched
+  mode: TransportMode;
+  travelMinutes: number; // Including the mode's buffer
+  readyMinutes: number;
+  eventStart: Date;
+  leaveBy: Date;
+  getReadyAt: Date;
+}
+
+export interface TravelPrompt {
+  stage: TravelStage;
+  at: Date;
+  title: string;
+  body: string;
+}
+
+interface TripEvent {
+  id: string;
+  title: string;
+  start: string;
+  location?: string;
+  allDay?: boolean;
+}
+
+// Lowercase words only, so "123 Main St." matches "123 main st"
+const normalize = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+const formatTime = (date: Date): string => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+export class TravelService {
+  /**
+   * Whether an event's location means going somewhere.
+   */
+  parseLocation(location?: string): { kind: 'none' | 'virtual' | 'physical'; text: string } {
+    const text = (location || '').trim();
+    if (!text) return { kind: 'none', text };
+    if (VIRTUAL_LOCATION.test(text)) return { kind: 'virtual', text };
+    return { kind: 'physical', text };
+  }
+
+  /**
+   * The saved place a location refers to: by the first line of its address,
+   * by its name, or by "home" / "work" in the location.
+   */
+  matchPlace(location: string, places: SavedPlace[]): SavedPlace | undefined {
+    const text = normalize(location);
+    const firstLine = (value?: string) => normalize((value || '').split(/[,\n]/)[0]);
+
+    return places.find(p => firstLine(p.address) && text.includes(firstLine(p.address)))
+      || places.find(p => normalize(p.name).length > 2 && text.includes(normalize(p.name)))
+      || places.find(p => PLACE_KEYWORDS[p.kind]?.test(location));
+  }
+
+  /**
+   * Minutes to allow for getting ready: the typical recent time once there
+   * are a few real timings, the user's own setting until then.
+   */
+  getReadyMinutes(settings: TravelSettings = DEFAULT_TRAVEL_SETTINGS): number {
+    if (!this.hasLearnedReadyTime(settings)) return settings.gettingReadyMinutes;
+    const samples = settings.readySamples.slice(-MAX_READY_SAMPLES);
+
+    const sorted = [...samples].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+    return Math.max(5, Math.ceil(median / 5) * 5);
+  }
+
+  hasLearnedReadyTime(settings: TravelSettings): boolean {
+    return settings.readySamples.length >= MIN_READY_SAMPLES;
+  }
+
+  /**
+   * Settings with one more real getting-ready timing. Implausible ones are
+   * ignored.
+   */
+  recordReadyTime(settings: TravelSettings, minutes: number): TravelSettings {
+    if (!(minutes >= 1 && minutes <= MAX_READY_MINUTES)) return settings;
+    return { ...settings, readySamples: [...settings.readySamples, Math.round(minutes)].slice(-MAX_READY_SAMPLES) };
+  }
+
+  /**
+   * The trip to an event, or null when there's nowhere to go.
+   */
+  planTrip(event: TripEvent, settings: TravelSettings = DEFAULT_TRAVEL_SETTINGS): TravelPlan | null {
+    if (event.allDay) return null;
+    const location = this.parseLocation(event.location);
+    if (location.kind !== 'physical') return null;
+
+    const place = this.matchPlace(location.text, settings.places);
+    const mode = place?.mode || settings.defaultMode;
+    const travelMinutes = (place?.travelMinutes ?? settings.defaultTravelMinutes) + MODE_BUFFER_MINUTES[mode];
+    const readyMinutes = this.getReadyMinutes(settings);
+
+    const eventStart = new Date(event.start);
+    const leaveBy = new Date(eventStart.getTime() - travelMinutes * MINUTE_MS);
+    return {
+      eventId: event.id,
+      title: event.title,
+      location: location.text,
+      place,
+      mode,
+      travelMinutes,
+      readyMinutes,
+      eventStart,
+      leaveBy,
+      getReadyAt: new Date(leaveBy.getTime() - readyMinutes * MINUTE_MS),
+    };
+  }
+
+  /**
+   * Every prompt for a trip, from the early heads-up to "running late".
+   */
+  getPrompts(plan: TravelPlan): TravelPrompt[] {
+    const mode = TRANSPORT_MODES.find(m => m.id === plan.mode)!;
+    const at = (date: Date, minutes: number) => new Date(date.getTime() + minutes * MINUTE_MS);
+
+    return [
+      {
+        stage: 'heads_up' as const,
+        at: at(plan.getReadyAt, -HEADS_UP_MINUTES),
+        title: `🧭 ${plan.title} at ${formatTime(plan.eventStart)}`,
+        body: `Start getting ready at ${formatTime(plan.getReadyAt)} to leave by ${formatTime(plan.leaveBy)} (${mode.icon} ${plan.travelMinutes} min). Good moment to find a stopping point.`,
+      },
+      {
+        stage: 'get_ready' as const,
+        at: plan.getReadyAt,
+        title: '👟 Time to start getting ready',
+        body: `For ${plan.title}. You've got ${plan.readyMinutes} min before you need to leave at ${formatTime(plan.leaveBy)}.`,
+      },
+      {
+        stage: 'leave_soon' as const,
+        at: at(plan.leaveBy, -LEAVE_SOON_MINUTES),
+        title: `🔑 Leave in ${LEAVE_SOON_MINUTES} min`,
+        body: `Keys, phone, wallet? ${plan.title} is at ${formatTime(plan.eventStart)}.`,
+      },
+      {
+        stage: 'leave_now' as const,
+        at: plan.leaveBy,
+        title: '🚪 Time to go!',
+        body: `Leave now for ${plan.title} to make it by ${formatTime(plan.eventStart)}.`,
+      },
+      {
+        stage: 'running_late' as const,
+        at: at(plan.leaveBy, LATE_AFTER_MINUTES),
+        title: '⏰ Still here?',
+        body: `Leaving now gets you to ${plan.title} about ${LATE_AFTER_MINUTES} min late. That's okay - maybe send a quick heads-up.`,
+      },
+    ].filter(p => p.at < plan.eventStart);
+  }
+
+  /**
+   * The latest prompt that's due by `now`, or null before the heads-up and
+   * once the event has started.
+   */
+  getCurrentPrompt(plan: TravelPlan, now: Date = new Date()): TravelPrompt | null {
+    if (now >= plan.eventStart) return null;
+    const due = this.getPrompts(plan).filter(p => p.at <= now);
+    const prompt = due[due.length - 1];
+    if (!prompt) return null;
+
+    if (prompt.stage === 'running_late') {
+      const late = Math.ceil((now.getTime() - plan.leaveBy.getTime()) / MINUTE_MS);
+      return { ...prompt, body: `Leaving now gets you to ${plan.title} about ${late} min late. That's okay - maybe send a quick heads-up.` };
+    }
+    return prompt;
+  }
+
+  // For telling whether a prompt has moved past the one already shown
+  stageIndex(stage: TravelStage): number {
+    return STAGE_ORDER.indexOf(stage);
+  }
+}
+
+// Export singleton instance
+export const travelService = new TravelService();
+export default travelService;
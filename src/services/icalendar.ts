@@ -0,0 +1,587 @@
+/**
+ * iCalendar (RFC 5545) helpers shared by the CalDAV, ICS-feed and local
+ * calendar providers: parse VEVENTs, expand simple recurrences into the
+ * instances inside a time range, and write events back out.
+ *
+ * Only the parts calendars actually send for everyday events are handled -
+ * RRULE with FREQ, INTERVAL, COUNT, UNTIL, BYDAY and BYMONTHDAY, plus
+ * EXDATE and single-instance overrides (RECURRENCE-ID).
+ */
+
+// Wall-clock fields of a DATE or DATE-TIME value
+interface DateFields {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// 'utc' for ...Z values, 'floating' for local time, otherwise an IANA TZID
+type DateZone = 'utc' | 'floating' | string;
+
+interface ICalDate {
+  fields: DateFields;
+  zone: DateZone;
+  dateOnly: boolean;
+}
+
+type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  count?: number;
+  until?: number;
+  byDay: { weekday: number; ordinal?: number }[];
+  byMonthDay: number[];
+}
+
+export interface ICalEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  start: ICalDate;
+  durationMs: number;
+  rrule?: RecurrenceRule;
+  exdates: number[];
+  recurrenceId?: number;
+  transparent: boolean;
+  cancelled: boolean;
+}
+
+export interface ICalInstance {
+  uid: string;
+  title: string;
+  description?: string;
+  location?: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  recurring: boolean;
+  transparent: boolean;
+}
+
+export interface ICalEventInput {
+  uid: string;
+  title: string;
+  start: Date;
+  end: Date;
+  description?: string;
+  location?: string;
+  alarmMinutes?: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+// Guards against runaway rules (e.g. a daily event since 2009)
+const MAX_RECURRENCE_STEPS = 5000;
+const FOLD_OCTETS = 75; // Per line, counting a continuation's leading space
+
+// ============ PARSING ============
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+const unfold = (text: string): string[] =>
+  text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/).filter(line => line.length > 0);
+
+function parseProperty(line: string): Property | null {
+  // The value starts at the first colon outside a quoted parameter
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  paramParts.forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) params[part.slice(0, eq).toUpperCase()] = part.slice(eq + 1).replace(/^"|"$/g, '');
+  });
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, c) => (c === 'n' || c === 'N' ? '\n' : c));
+
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/,/g, '\\,').replace(/;/g, '\\;');
+
+function parseDate(prop: Property): ICalDate | null {
+  const match = prop.value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s, z] = match;
+  const dateOnly = prop.params.VALUE === 'DATE' || h === undefined;
+  return {
+    fields: { year: +y, month: +mo, day: +d, hour: +(h || 0), minute: +(mi || 0), second: +(s || 0) },
+    zone: z ? 'utc' : dateOnly ? 'floating' : prop.params.TZID || 'floating',
+    dateOnly,
+  };
+}
+
+// "P1D", "PT1H30M", "P1W"
+function parseDuration(value: string): number {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return 0;
+  const [, sign, w, d, h, m, s] = match;
+  const ms = ((+(w || 0) * 7 + +(d || 0)) * 24 * 3600 + +(h || 0) * 3600 + +(m || 0) * 60 + +(s || 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  value.split(';').forEach(part => {
+    const [key, val] = part.split('=');
+    if (key && val) parts[key.toUpperCase()] = val;
+  });
+  const freq = parts.FREQ as Frequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) return null;
+
+  const until = parts.UNTIL ? parseDate({ name: 'UNTIL', params: {}, value: parts.UNTIL }) : null;
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    // A date-only UNTIL includes that whole day
+    until: until ? toInstant(until.fields, until.zone) + (until.dateOnly ? DAY_MS - 1 : 0) : undefined,
+    byDay: (parts.BYDAY || '').split(',').filter(Boolean).map(token => {
+      const match = token.match(/^([+-]?\d+)?([A-Z]{2})$/);
+      return { weekday: WEEKDAYS.indexOf(match?.[2] || ''), ordinal: match?.[1] ? parseInt(match[1], 10) : undefined };
+    }).filter(d => d.weekday >= 0),
+    byMonthDay: (parts.BYMONTHDAY || '').split(',').filter(Boolean).map(n => parseInt(n, 10)).filter(n => !isNaN(n)),
+  };
+}
+
+/**
+ * Every VEVENT in an iCalendar document. Alarms and other nested components
+ * are skipped.
+ */
+export function parseEvents(text: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  let props: Property[] | null = null;
+  let nested = 0;
+
+  for (const line of unfold(text)) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      props = [];
+      nested = 0;
+    } else if (upper === 'END:VEVENT') {
+      const event = props ? buildEvent(props) : null;
+      if (event) events.push(event);
+      props = null;
+    } else if (props) {
+      if (upper.startsWith('BEGIN:')) nested++;
+      else if (upper.startsWith('END:')) nested--;
+      else if (nested === 0) {
+        const prop = parseProperty(line);
+        if (prop) props.push(prop);
+      }
+    }
+  }
+  return events;
+}
+
+function buildEvent(props: Property[]): ICalEvent | null {
+  const get = (name: string) => props.find(p => p.name === name);
+  const startProp = get('DTSTART');
+  const start = startProp ? parseDate(startProp) : null;
+  if (!start) return null;
+
+  const startMs = toInstant(start.fields, start.zone);
+  const endProp = get('DTEND');
+  const end = endProp ? parseDate(endProp) : null;
+  const durationProp = get('DURATION');
+  const durationMs = end
+    ? toInstant(end.fields, end.zone) - startMs
+    : durationProp
+      ? parseDuration(durationProp.value)
+      : start.dateOnly ? DAY_MS : 0;
+
+  const exdates: number[] = [];
+  props.filter(p => p.name === 'EXDATE').forEach(p => {
+    p.value.split(',').forEach(value => {
+      const date = parseDate({ ...p, value });
+      if (date) exdates.push(toInstant(date.fields, date.zone));
+    });
+  });
+
+  const recurrenceIdProp = get('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProp ? parseDate(recurrenceIdProp) : null;
+  const rruleProp = get('RRULE');
+
+  return {
+    uid: get('UID')?.value || `${startMs}-${get('SUMMARY')?.value || ''}`,
+    summary: unescapeText(get('SUMMARY')?.value || '') || 'Untitled',
+    description: get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) : undefined,
+    location: get('LOCATION') ? unescapeText(get('LOCATION')!.value) : undefined,
+    start,
+    durationMs: Math.max(0, durationMs),
+    rrule: rruleProp ? parseRule(rruleProp.value) || undefined : undefined,
+    exdates,
+    recurrenceId: recurrenceId ? toInstant(recurrenceId.fields, recurrenceId.zone) : undefined,
+    transparent: get('TRANSP')?.value.toUpperCase() === 'TRANSPARENT',
+    cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+  };
+}
+
+// ============ TIME ZONES ============
+
+// Offset of `tz` from UTC at `timestamp`, in ms
+function zoneOffset(timestamp: number, tz: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: tz,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(timestamp));
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const asUtc = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour') % 24, part('minute'), part('second'));
+  return asUtc - Math.floor(timestamp / 1000) * 1000;
+}
+
+function toInstant(fields: DateFields, zone: DateZone): number {
+  const { year, month, day, hour, minute, second } = fields;
+  if (zone === 'floating') return new Date(year, month - 1, day, hour, minute, second).getTime();
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  if (zone === 'utc') return wallClock;
+
+  try {
+    // Second pass settles times near a DST switch
+    const guess = wallClock - zoneOffset(wallClock, zone);
+    return wallClock - zoneOffset(guess, zone);
+  } catch {
+    // Unknown TZID (Outlook sends Windows zone names) - treat as local time
+    return new Date(year, month - 1, day, hour, minute, second).getTime();
+  }
+}
+
+// ============ RECURRENCE ============
+
+// Calendar arithmetic on wall-clock fields, independent of any zone
+const fieldsToDay = (f: DateFields): Date => new Date(Date.UTC(f.year, f.month - 1, f.day));
+
+const dayToFields = (day: Date, time: DateFields): DateFields => ({
+  ...time,
+  year: day.getUTCFullYear(),
+  month: day.getUTCMonth() + 1,
+  day: day.getUTCDate(),
+});
+
+const addDays = (day: Date, days: number): Date => new Date(day.getTime() + days * DAY_MS);
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Days of one month matching BYMONTHDAY / BYDAY (with ordinals like 2TU or -1FR)
+function monthDays(year: number, month: number, rule: RecurrenceRule, startDay: number): number[] {
+  const length = daysInMonth(year, month);
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay
+      .map(d => (d < 0 ? length + d + 1 : d))
+      .filter(d => d >= 1 && d <= length)
+      .sort((a, b) => a - b);
+  }
+  if (rule.byDay.length > 0) {
+    const days: number[] = [];
+    rule.byDay.forEach(({ weekday, ordinal }) => {
+      const matches: number[] = [];
+      for (let d = 1; d <= length; d++) {
+        if (new Date(Date.UTC(year, month - 1, d)).getUTCDay() === weekday) matches.push(d);
+      }
+      if (ordinal === undefined) days.push(...matches);
+      else {
+        const match = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+        if (match) days.push(match);
+      }
+    });
+    return [...new Set(days)].sort((a, b) => a - b);
+  }
+  return startDay <= length ? [startDay] : [];
+}
+
+/**
+ * Start times of a recurring event, in order, until `rangeEnd` (or the
+ * rule's own end). COUNT counts from the first occurrence, not the range.
+ */
+function occurrences(event: ICalEvent, rangeEnd: number): number[] {
+  const rule = event.rrule!;
+  const { fields, zone } = event.start;
+  const first = fieldsToDay(fields);
+  const starts: number[] = [];
+  const limit = Math.min(rangeEnd, rule.until ?? Infinity);
+
+  // Candidate days for one period, already in order
+  const periodDays = (period: number): Date[] => {
+    switch (rule.freq) {
+      case 'DAILY':
+        return [addDays(first, period * rule.interval)];
+      case 'WEEKLY': {
+        const weekStart = addDays(first, period * rule.interval * 7 - first.getUTCDay());
+        const weekdays = rule.byDay.length > 0 ? rule.byDay.map(d => d.weekday) : [first.getUTCDay()];
+        return [...new Set(weekdays)].sort((a, b) => a - b).map(w => addDays(weekStart, w));
+      }
+      case 'MONTHLY': {
+        const monthIndex = first.getUTCMonth() + period * rule.interval;
+        const year = first.getUTCFullYear() + Math.floor(monthIndex / 12);
+        const month = (monthIndex % 12) + 1;
+        return monthDays(year, month, rule, fields.day).map(d => new Date(Date.UTC(year, month - 1, d)));
+      }
+      case 'YEARLY': {
+        const year = first.getUTCFullYear() + period * rule.interval;
+        // Feb 29 only happens in leap years
+        return fields.day <= daysInMonth(year, fields.month) ? [new Date(Date.UTC(year, fields.month - 1, fields.day))] : [];
+      }
+    }
+  };
+
+  for (let period = 0; period < MAX_RECURRENCE_STEPS; period++) {
+    for (const day of periodDays(period)) {
+      if (day < first) continue;
+      const start = toInstant(dayToFields(day, fields), zone);
+      if (start > limit) return starts;
+      starts.push(start);
+      if (rule.count !== undefined && starts.length >= rule.count) return starts;
+    }
+  }
+  return starts;
+}
+
+/**
+ * Concrete instances overlapping [rangeStart, rangeEnd], sorted by start.
+ * Cancelled events and excluded dates are left out; overrides replace the
+ * instance they stand in for.
+ */
+export function expandEvents(events: ICalEvent[], rangeStart: Date, rangeEnd: Date): ICalInstance[] {
+  const from = rangeStart.getTime();
+  const to = rangeEnd.getTime();
+  const overridden = new Set(
+    events.filter(e => e.recurrenceId !== undefined).map(e => `${e.uid}@${e.recurrenceId}`)
+  );
+
+  const instances: ICalInstance[] = [];
+  events.forEach(event => {
+    if (event.cancelled && event.recurrenceId === undefined) return;
+
+    const starts = event.rrule && event.recurrenceId === undefined
+      ? occurrences(event, to).filter(s => !event.exdates.includes(s) && !overridden.has(`${event.uid}@${s}`))
+      : [toInstant(event.start.fields, event.start.zone)];
+
+    starts.forEach(start => {
+      const end = start + event.durationMs;
+      if (event.cancelled || end < from || start > to) return;
+      instances.push({
+        uid: event.uid,
+        title: event.summary,
+        description: event.description,
+        location: event.location,
+        start: new Date(start),
+        end: new Date(end),
+        allDay: event.start.dateOnly,
+        recurring: !!event.rrule || event.recurrenceId !== undefined,
+        transparent: event.transparent,
+      });
+    });
+  });
+
+  return instances.sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+/**
+ * When a one-off event happens. Recurring events and their overrides have no
+ * single time, so they give null.
+ */
+export function getEventTimes(event: ICalEvent): { start: Date; end: Date } | null {
+  if (event.rrule || event.recurrenceId !== undefined) return null;
+  const start = toInstant(event.start.fields, event.start.zone);
+  return { start: new Date(start), end: new Date(start + event.durationMs) };
+}
+
+// ============ WRITING ============
+
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const utf8Length = (char: string): number => {
+  const code = char.codePointAt(0)!;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+// Lines longer than 75 octets continue on the next line after a space.
+// Splits only between characters, so multi-byte text (emoji, accents) stays whole.
+const fold = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = utf8Length(char);
+    const limit = chunks.length === 0 ? FOLD_OCTETS : FOLD_OCTETS - 1;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+};
+
+export function serializeEvent(input: ICalEventInput): string {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${input.uid}`,
+    `DTSTAMP:${formatUtc(new Date())}`,
+    `DTSTART:${formatUtc(input.start)}`,
+    `DTEND:${formatUtc(input.end)}`,
+    `SUMMARY:${escapeText(input.title)}`,
+    ...(input.description ? [`DESCRIPTION:${escapeText(input.description)}`] : []),
+    ...(input.location ? [`LOCATION:${escapeText(input.location)}`] : []),
+    'TRANSP:OPAQUE',
+    ...(input.alarmMinutes || []).flatMap(minutes => [
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(input.title)}`,
+      `TRIGGER:-PT${minutes}M`,
+      'END:VALARM',
+    ]),
+    'END:VEVENT',
+  ];
+  return lines.map(fold).join('\r\n');
+}
+
+/**
+ * A complete calendar document around already-serialized VEVENTs.
+ */
+export function wrapCalendar(vevents: string[]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//UnFocused//Calendar//EN',
+    'CALSCALE:GREGORIAN',
+    ...vevents,
+    'END:VCALENDAR',
+    '',
+  ].join('\r\n');
+}
+
+/**
+ * The same document with each VEVENT's SUMMARY passed through `retitle`, and
+ * its COLOR (RFC 7986) replaced when one is given. Everything else stays as
+ * the server sent it.
+ */
+export function retitleEvents(text: string, retitle: (title: string) => string, color?: string): string {
+  const lines: string[] = [];
+  let inEvent = false;
+  let nested = 0;
+
+  for (const line of unfold(text)) {
+    const upper = line.toUpperCase();
+    if (upper === 'BEGIN:VEVENT') {
+      inEvent = true;
+      nested = 0;
+    } else if (upper === 'END:VEVENT') {
+      if (color) lines.push(`COLOR:${color}`);
+      inEvent = false;
+    } else if (inEvent && upper.startsWith('BEGIN:')) {
+      nested++;
+    } else if (inEvent && upper.startsWith('END:')) {
+      nested--;
+    } else if (inEvent && nested === 0) {
+      const prop = parseProperty(line);
+      if (prop?.name === 'COLOR' && color) continue;
+      if (prop?.name === 'SUMMARY') {
+        // Keep parameters such as LANGUAGE
+        lines.push(line.slice(0, line.length - prop.value.length) + escapeText(retitle(unescapeText(prop.value))));
+        continue;
+      }
+    }
+    lines.push(line);
+  }
+
+  const result = lines.map(fold).join('\r\n');
+  return /\n$/.test(text) ? `${result}\r\n` : result;
+}
+
+/**
+ * Raw VEVENT blocks of a document, keyed by UID, so a stored calendar can be
+ * edited without re-serializing events it didn't create.
+ */
+export function splitEvents(text: string): { uid: string; block: string }[] {
+  const blocks = text.match(/BEGIN:VEVENT[\s\S]*?END:VEVENT/g) || [];
+  return blocks.map(block => ({
+    uid: unfold(block).find(line => line.toUpperCase().startsWith('UID:'))?.slice(4) || '',
+    block,
+  }));
+}
+
+// ============ CALDAV ============
+
+const decodeXml = (value: string): string =>
+  value
+    .replace(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/, '$1')
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export interface DavResponse {
+  href: string;
+  status?: number; // Response-level status, e.g. 404 for a deleted resource in a sync report
+  etag?: string;
+  calendarData?: string;
+  displayName?: string;
+  color?: string;
+  isCalendar: boolean; // resourcetype includes a CalDAV calendar
+}
+
+/**
+ * The properties of each response in a WebDAV multistatus body. Namespace
+ * prefixes differ between servers, so tags are matched by local name.
+ */
+export function parseMultistatus(xml: string): DavResponse[] {
+  const responses = xml.match(/<(?:[\w-]+:)?response\b[\s\S]*?<\/(?:[\w-]+:)?response>/g) || [];
+  const tag = (body: string, name: string): string | undefined => {
+    const match = body.match(new RegExp(`<(?:[\\w-]+:)?${name}\\b[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`));
+    return match ? decodeXml(match[1]) : undefined;
+  };
+  return responses
+    .map(body => ({
+      href: tag(body, 'href')?.trim() || '',
+      // Only meaningful when there are no per-property statuses
+      status: /propstat\b/.test(body) ? undefined : parseInt(tag(body, 'status')?.match(/\s(\d{3})\s/)?.[1] || '', 10) || undefined,
+      etag: tag(body, 'getetag')?.trim(),
+      calendarData: tag(body, 'calendar-data'),
+      displayName: tag(body, 'displayname')?.trim() || undefined,
+      color: tag(body, 'calendar-color')?.trim() || undefined,
+      isCalendar: /<(?:[\w-]+:)?calendar\s*\/>/.test(tag(body, 'resourcetype') || ''),
+    }))
+    .filter(r => r.href);
+}
+
+/**
+ * The collection's new sync token from a sync-collection report (RFC 6578).
+ */
+export function parseSyncToken(xml: string): string | undefined {
+  const match = xml.match(/<(?:[\w-]+:)?sync-token\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?sync-token>/);
+  return match ? decodeXml(match[1]).trim() : undefined;
+}
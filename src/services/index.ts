@@ -1,5 +1,8 @@
 // ============ SERVICE EXPORTS ============
 export { FocusTimerService } from './FocusTimerService';
+export { FocusRoomService, focusRoomService } from './FocusRoomService';
+export { SoundscapeService, soundscapeService } from './SoundscapeService';
+export { TimeEstimateService, timeEstimateService } from './TimeEstimateService';
 export { MoodTrackingService } from './MoodTrackingService';
 export { ProactiveCheckInService } from './ProactiveCheckInService';
 export { SmartNotificationService } from './SmartNotificationService';
@@ -11,6 +14,8 @@ export type {
   FocusSession,
   FocusTimerSettings,
   FocusTimerStatus,
+  RoomParticipant,
+  RoomCelebration,
   MoodEntry,
   MoodLevel,
   MoodPattern,
@@ -27,6 +27,8 @@ export interface FocusSession {
   task_id?: string;
   notes?: string;
   completed: boolean;
+  focus_score?: number;
+  distractions?: number;
 }
 
 export interface EnergyLog {
@@ -49,16 +51,47 @@ export interface SmartNudge {
   last_fired_at?: string;
 }
 
+// nero_tasks row - see taskSchema.ts for the mapping to the app's Task model
 export interface Task {
   id?: string;
   user_id: string;
   title: string;
   description?: string;
+  energy?: 'low' | 'medium' | 'high';
   completed: boolean;
   completed_at?: string;
+  is_micro_step?: boolean;
+  parent_id?: string;
   estimated_minutes?: number;
-  priority: number;
+  actual_minutes?: number;
+  completion_time_ms?: number;
+  due_date?: string;
+  soft_due_date?: string;
+  scheduled_time?: string;
+  calendar_event_id?: string;
+  recurrence?: Record<string, any>; // RecurrenceRule as JSON
+  series_id?: string;
+  instance_date?: string; // YYYY-MM-DD
+  routine_id?: string;
+  priority: number; // 1-3, derived from energy; kept for ordering
   tags?: string[];
+  field_versions?: Record<string, string>; // Per-column edit timestamps for conflict resolution
+  created_at?: string;
+  updated_at?: string;
+}
+
+// nero_memories row - one fact Nero has learned about the user
+export interface NeroMemoryRow {
+  id: string;
+  user_id: string;
+  category: 'likes' | 'dislikes' | 'triggers' | 'patterns';
+  text: string;
+  status: 'proposed' | 'approved' | 'forgotten';
+  mentions: number;
+  source?: string;
+  created_at: string;
+  last_seen_at: string;
+  updated_at: string;
 }
 
 // Focus Sessions API
@@ -110,6 +143,20 @@ export const FocusSessionsAPI = {
     return data || [];
   },
 
+  async getById(id: string): Promise<FocusSession | null> {
+    const { data, error } = await supabase
+      .from('nero_focus_sessions')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) {
+      console.error('Error fetching focus session:', error);
+      return null;
+    }
+    return data;
+  },
+
   async update(id: string, updates: Partial<FocusSession>): Promise<boolean> {
     const { error } = await supabase
       .from('nero_focus_sessions')
@@ -122,6 +169,19 @@ export const FocusSessionsAPI = {
     }
     return true;
   },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('nero_focus_sessions')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting focus session:', error);
+      return false;
+    }
+    return true;
+  },
 };
 
 // Energy Logs API
@@ -172,6 +232,32 @@ export const EnergyLogsAPI = {
     }
     return data || [];
   },
+
+  async update(id: string, updates: Partial<EnergyLog>): Promise<boolean> {
+    const { error } = await supabase
+      .from('nero_energy_logs')
+      .update(updates)
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error updating energy log:', error);
+      return false;
+    }
+    return true;
+  },
+
+  async delete(id: string): Promise<boolean> {
+    const { error } = await supabase
+      .from('nero_energy_logs')
+      .delete()
+      .eq('id', id);
+    
+    if (error) {
+      console.error('Error deleting energy log:', error);
+      return false;
+    }
+    return true;
+  },
 };
 
 // Smart Nudges API
@@ -262,6 +348,20 @@ export const TasksAPI = {
     return data;
   },
 
+  async getAll(userId: string): Promise<Task[]> {
+    const { data, error } = await supabase
+      .from('nero_tasks')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching tasks:', error);
+      return [];
+    }
+    return data || [];
+  },
+
   async getIncomplete(userId: string): Promise<Task[]> {
     const { data, error } = await supabase
       .from('nero_tasks')
@@ -278,6 +378,20 @@ export const TasksAPI = {
     return data || [];
   },
 
+  async getById(id: string): Promise<Task | null> {
+    const { data, error } = await supabase
+      .from('nero_tasks')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+    
+    if (error) {
+      console.error('Error fetching task:', error);
+      return null;
+    }
+    return data;
+  },
+
   async getCompleted(userId: string, limit = 20): Promise<Task[]> {
     const { data, error } = await supabase
       .from('nero_tasks')
@@ -294,15 +408,17 @@ export const TasksAPI = {
     return data || [];
   },
 
-  async complete(id: string): Promise<boolean> {
+  async complete(id: string, completedAt: string = new Date().toISOString()): Promise<boolean> {
+    // Only touches incomplete rows so a replayed completion keeps the original completed_at
     const { error } = await supabase
       .from('nero_tasks')
       .update({ 
         completed: true, 
-        completed_at: new Date().toISOString(),
+        completed_at: completedAt,
         updated_at: new Date().toISOString()
       })
-      .eq('id', id);
+      .eq('id', id)
+      .eq('completed', false);
     
     if (error) {
       console.error('Error completing task:', error);
@@ -338,6 +454,35 @@ export const TasksAPI = {
   },
 };
 
+// Nero Memory API
+export const MemoriesAPI = {
+  async getAll(userId: string): Promise<NeroMemoryRow[]> {
+    const { data, error } = await supabase
+      .from('nero_memories')
+      .select('*')
+      .eq('user_id', userId);
+    
+    if (error) {
+      console.error('Error fetching memories:', error);
+      return [];
+    }
+    return data || [];
+  },
+
+  async upsert(rows: NeroMemoryRow[]): Promise<boolean> {
+    if (rows.length === 0) return true;
+    const { error } = await supabase
+      .from('nero_memories')
+      .upsert(rows, { onConflict: 'id' });
+    
+    if (error) {
+      console.error('Error saving memories:', error);
+      return false;
+    }
+    return true;
+  },
+};
+
 // Auth helpers
 export const AuthAPI = {
   async signUp(email: string, password: string) {
@@ -0,0 +1,272 @@
+// Canonical task schema for UnFocused
+// One Task model (src/types) <-> one nero_tasks row shape (supabase.ts), plus
+// versioned migrations for tasks already sitting in local storage, and helpers
+// for the parent/subtask hierarchy.
+
+import type { Task, EnergyLevel, RecurrenceRule } from '../types';
+import type { Task as TaskRow } from './supabase';
+
+// Bump when the stored Task shape changes, and add a step to TASK_MIGRATIONS
+export const TASK_SCHEMA_VERSION = 2;
+
+// ============ FIELD <-> COLUMN MAP ============
+
+// Every Task field that round-trips to nero_tasks, with its column name
+export const TASK_FIELD_COLUMNS: Partial<Record<keyof Task, keyof TaskRow>> = {
+  title: 'title',
+  description: 'description',
+  energy: 'energy',
+  completed: 'completed',
+  completedAt: 'completed_at',
+  isMicroStep: 'is_micro_step',
+  parentId: 'parent_id',
+  tags: 'tags',
+  estimatedMinutes: 'estimated_minutes',
+  actualMinutes: 'actual_minutes',
+  completionTimeMs: 'completion_time_ms',
+  dueDate: 'due_date',
+  softDueDate: 'soft_due_date',
+  scheduledTime: 'scheduled_time',
+  calendarEventId: 'calendar_event_id',
+  recurrence: 'recurrence',
+  seriesId: 'series_id',
+  instanceDate: 'instance_date',
+  routineId: 'routine_id',
+};
+
+// Tags older clients wrote to encode energy and micro-steps
+const LEGACY_MARKER_TAGS = ['low', 'medium', 'high', 'micro-step', 'main-task'];
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Local IDs (genId) can't go in a uuid column - only link parents the server knows about
+export const isServerId = (id?: string): id is string => !!id && UUID_PATTERN.test(id);
+
+export const energyToPriority = (energy: EnergyLevel): number =>
+  energy === 'high' ? 3 : energy === 'medium' ? 2 : 1;
+
+export const priorityToEnergy = (priority?: number): EnergyLevel =>
+  (priority ?? 0) >= 3 ? 'high' : (priority ?? 0) >= 2 ? 'medium' : 'low';
+
+const isEnergyLevel = (value: any): value is EnergyLevel =>
+  value === 'low' || value === 'medium' || value === 'high';
+
+const RECURRENCE_TYPES = ['daily', 'weekdays', 'every_n_days', 'monthly', 'after_completion'];
+
+const isRecurrenceRule = (value: any): value is RecurrenceRule =>
+  !!value && RECURRENCE_TYPES.includes(value.type);
+
+// ============ ROW MAPPERS ============
+
+/**
+ * Task -> nero_tasks row
+ */
+export const taskToRow = (task: Task, userId: string): Omit<TaskRow, 'id'> => ({
+  user_id: userId,
+  title: task.title,
+  description: task.description,
+  energy: task.energy,
+  priority: energyToPriority(task.energy),
+  completed: task.completed,
+  completed_at: task.completedAt,
+  is_micro_step: task.isMicroStep,
+  parent_id: isServerId(task.parentId) ? task.parentId : undefined,
+  tags: task.tags,
+  estimated_minutes: task.estimatedMinutes,
+  actual_minutes: task.actualMinutes,
+  completion_time_ms: task.completionTimeMs,
+  due_date: task.dueDate,
+  soft_due_date: task.softDueDate,
+  scheduled_time: task.scheduledTime,
+  calendar_event_id: task.calendarEventId,
+  recurrence: task.recurrence,
+  series_id: task.seriesId,
+  instance_date: task.instanceDate,
+  routine_id: task.routineId,
+  field_versions: toFieldVersions(task.fieldUpdatedAt),
+});
+
+/**
+ * Partial Task -> column updates. Only fields present in `updates` are included.
+ */
+export const taskUpdatesToRow = (updates: Partial<Task>): Partial<TaskRow> => {
+  const row: Record<string, any> = {};
+  (Object.keys(TASK_FIELD_COLUMNS) as (keyof Task)[]).forEach(field => {
+    if (updates[field] === undefined) return;
+    const column = TASK_FIELD_COLUMNS[field] as string;
+    row[column] = field === 'parentId' && !isServerId(updates.parentId) ? null : updates[field];
+  });
+  if (updates.energy !== undefined) row.priority = energyToPriority(updates.energy);
+  return row as Partial<TaskRow>;
+};
+
+/**
+ * nero_tasks row -> Task. Rows written before the unified schema only had
+ * priority and marker tags, so energy and micro-step flags fall back to those.
+ */
+export const rowToTask = (row: TaskRow): Task => {
+  const tags = row.tags || [];
+  const legacyEnergy = tags.find(isEnergyLevel);
+
+  return {
+    id: row.id || `supabase-${Date.now()}`,
+    title: row.title,
+    description: row.description || undefined,
+    energy: isEnergyLevel(row.energy) ? row.energy : legacyEnergy || priorityToEnergy(row.priority),
+    completed: row.completed,
+    completedAt: row.completed_at || undefined,
+    isMicroStep: row.is_micro_step ?? tags.includes('micro-step'),
+    parentId: row.parent_id || undefined,
+    tags: tags.filter(t => !LEGACY_MARKER_TAGS.includes(t)),
+    estimatedMinutes: row.estimated_minutes ?? undefined,
+    actualMinutes: row.actual_minutes ?? undefined,
+    completionTimeMs: row.completion_time_ms ?? undefined,
+    dueDate: row.due_date || undefined,
+    softDueDate: row.soft_due_date || undefined,
+    scheduledTime: row.scheduled_time || undefined,
+    calendarEventId: row.calendar_event_id || undefined,
+    recurrence: isRecurrenceRule(row.recurrence) ? row.recurrence : undefined,
+    seriesId: row.series_id || undefined,
+    instanceDate: row.instance_date || undefined,
+    routineId: row.routine_id || undefined,
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at,
+    fieldUpdatedAt: fromFieldVersions(row.field_versions),
+    synced: true,
+  };
+};
+
+// ============ FIELD VERSIONS ============
+
+export const toFieldVersions = (fieldUpdatedAt?: Record<string, string>): Record<string, string> => {
+  const versions: Record<string, string> = {};
+  Object.entries(fieldUpdatedAt || {}).forEach(([field, at]) => {
+    const column = TASK_FIELD_COLUMNS[field as keyof Task];
+    if (column) versions[column] = at;
+  });
+  if (versions.energy) versions.priority = versions.energy;
+  return versions;
+};
+
+export const fromFieldVersions = (versions?: Record<string, string>): Record<string, string> => {
+  const fieldUpdatedAt: Record<string, string> = {};
+  Object.entries(TASK_FIELD_COLUMNS).forEach(([field, column]) => {
+    if (column && versions?.[column]) fieldUpdatedAt[field] = versions[column];
+  });
+  return fieldUpdatedAt;
+};
+
+// ============ LOCAL STORAGE MIGRATIONS ============
+
+// Each step upgrades a stored task from (version - 1) to version
+const TASK_MIGRATIONS: Record<number, (raw: any) => any> = {
+  // v1 -> v2: fold the DataSyncService shape (priority string + status) into the
+  // canonical model and drop marker tags
+  2: (raw) => {
+    const energy: EnergyLevel = isEnergyLevel(raw.energy)
+      ? raw.energy
+      : isEnergyLevel(raw.priority) ? raw.priority : 'medium';
+    const tags: string[] = Array.isArray(raw.tags) ? raw.tags : [];
+
+    const task: any = {
+      ...raw,
+      energy,
+      completed: raw.completed ?? raw.status === 'completed',
+      isMicroStep: raw.isMicroStep ?? tags.includes('micro-step'),
+      tags: tags.filter(t => !LEGACY_MARKER_TAGS.includes(t)),
+      createdAt: raw.createdAt || new Date().toISOString(),
+    };
+    delete task.priority;
+    delete task.status;
+    return task;
+  },
+};
+
+/**
+ * Upgrade tasks loaded from storage. Stores without a version are v1.
+ */
+export const migrateStoredTasks = (rawTasks: any[], fromVersion: number = 1): Task[] => {
+  if (!Array.isArray(rawTasks)) return [];
+
+  let tasks = rawTasks;
+  for (let version = fromVersion + 1; version <= TASK_SCHEMA_VERSION; version++) {
+    const step = TASK_MIGRATIONS[version];
+    if (step) tasks = tasks.map(step);
+  }
+  return tasks as Task[];
+};
+
+// ============ HIERARCHY ============
+
+export interface TaskTreeRow {
+  task: Task;
+  depth: number;
+  childCount: number;
+}
+
+/**
+ * Flatten tasks into display order: each task followed by its subtasks,
+ * skipping the subtasks of collapsed tasks. Tasks whose parent isn't in the
+ * list (filtered out, deleted) are shown at the top level, and so is the
+ * first task of a parent cycle from bad data.
+ */
+export const flattenTaskTree = (tasks: Task[], collapsedIds: Set<string> = new Set()): TaskTreeRow[] => {
+  const ids = new Set(tasks.map(t => t.id));
+  const childrenOf = new Map<string, Task[]>();
+  const roots: Task[] = [];
+
+  tasks.forEach(task => {
+    if (task.parentId && ids.has(task.parentId) && task.parentId !== task.id) {
+      childrenOf.set(task.parentId, [...(childrenOf.get(task.parentId) || []), task]);
+    } else {
+      roots.push(task);
+    }
+  });
+
+  const rows: TaskTreeRow[] = [];
+  const reached = new Set<string>(); // Including subtasks hidden under a collapsed task
+  const visit = (task: Task, depth: number, hidden: boolean) => {
+    if (reached.has(task.id)) return;
+    reached.add(task.id);
+
+    const children = childrenOf.get(task.id) || [];
+    if (!hidden) rows.push({ task, depth, childCount: children.length });
+    children.forEach(child => visit(child, depth + 1, hidden || collapsedIds.has(task.id)));
+  };
+  roots.forEach(root => visit(root, 0, false));
+
+  // A cycle has no root to reach it from - start it at the top level
+  tasks.forEach(task => visit(task, 0, false));
+
+  return rows;
+};
+
+/**
+ * IDs of every subtask below a task, at any depth
+ */
+export const getDescendantIds = (tasks: Task[], taskId: string): string[] => {
+  const result: string[] = [];
+  const queue = [taskId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    tasks.forEach(t => {
+      if (t.parentId === current && !result.includes(t.id) && t.id !== taskId) {
+        result.push(t.id);
+        queue.push(t.id);
+      }
+    });
+  }
+  return result;
+};
+
+/**
+ * Parent of a just-completed task, if that completion finished all of its siblings
+ */
+export const getParentReadyToComplete = (tasks: Task[], completedId: string): Task | null => {
+  const completed = tasks.find(t => t.id === completedId);
+  const parent = completed?.parentId ? tasks.find(t => t.id === completed.parentId) : undefined;
+  if (!parent || parent.completed) return null;
+
+  const siblings = tasks.filter(t => t.parentId === parent.id);
+  return siblings.every(t => t.id === completedId || t.completed) ? parent : null;
+};
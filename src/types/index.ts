@@ -5,21 +5,96 @@ export type Personality = 'loyalFriend' | 'coach' | 'playful' | 'calm';
 export type ThinkingMode = 'off' | 'minimal' | 'full';
 export type NotificationStyle = 'gentle' | 'variable' | 'persistent';
 export type MoodLevel = 'low' | 'neutral' | 'high';
+export type LLMProviderType = 'anthropic' | 'openai' | 'mock';
+
+export type CalendarProviderType = 'google' | 'caldav' | 'ics' | 'local';
 
 export interface Task {
   id: string;
   title: string;
+  description?: string;
   energy: EnergyLevel;
   completed: boolean;
   isMicroStep: boolean;
   parentId?: string;
+  tags?: string[];
+  estimatedMinutes?: number;
+  estimateSource?: 'suggested'; // Pre-filled from past tasks rather than the user's own guess
+  actualMinutes?: number;
   createdAt: string;
   completedAt?: string;
-  dueDate?: string;
+  dueDate?: string; // Real deadline
+  softDueDate?: string; // "Would be nice by" - nudges, never overdue
   scheduledTime?: string;
-  synced?: boolean;
   completionTimeMs?: number;
   calendarEventId?: string;
+  // Repeating tasks - one live instance per series at a time
+  recurrence?: RecurrenceRule;
+  seriesId?: string; // Shared by every instance of a repeating task
+  instanceDate?: string; // YYYY-MM-DD the instance is for; hidden until then
+  routineId?: string; // Set on a routine's parent task
+  // Sync bookkeeping
+  synced?: boolean;
+  updatedAt?: string;
+  fieldUpdatedAt?: Record<string, string>; // Per-field edit timestamps for conflict resolution
+  lastSyncedAt?: string;
+}
+
+// ============ RECURRENCE TYPES ============
+export type RecurrenceRule =
+  | { type: 'daily' }
+  | { type: 'weekdays' }
+  | { type: 'every_n_days'; interval: number }
+  | { type: 'monthly'; dayOfMonth: number } // Clamped to the month's last day
+  | { type: 'after_completion'; days: number }; // Next one N days after finishing
+
+export interface RoutineStep {
+  id: string;
+  title: string;
+  minutes?: number;
+}
+
+// A named, ordered checklist that repeats, e.g. "Morning launch"
+export interface Routine {
+  id: string;
+  name: string;
+  emoji: string;
+  steps: RoutineStep[];
+  recurrence: RecurrenceRule;
+  energy: EnergyLevel;
+  createdAt: string;
+}
+
+// How one routine step went, for spotting the steps that drag
+export interface RoutineStepRecord {
+  id: string;
+  routineId: string;
+  stepTitle: string;
+  seconds: number; // Time spent on the step, snoozed time excluded
+  plannedMinutes?: number;
+  skipped: boolean;
+  snoozes: number;
+  completedAt: string;
+}
+
+export interface RoutineStepStats {
+  stepTitle: string;
+  medianSeconds: number;
+  plannedMinutes?: number;
+  samples: number;
+  skipRate: number; // 0-1
+  drags: boolean; // Takes much longer than planned, or than the routine's other steps
+}
+
+// ============ TIME ESTIMATE TYPES ============
+export type TaskCategory = 'admin' | 'communication' | 'chores' | 'errands' | 'creative' | 'learning' | 'other';
+
+// How long the user really takes compared with what they guess
+export interface EstimateCorrection {
+  category: TaskCategory;
+  ratio: number; // actual / estimated, median of recent tasks
+  samples: number;
+  typicalMinutes: number; // Median actual minutes
 }
 
 // ============ PATTERN ANALYSIS TYPES ============
@@ -33,6 +108,10 @@ export interface CompletionRecord {
   dayOfWeek: number;
   completionTimeMs?: number;
   mood?: MoodLevel;
+  estimatedMinutes?: number;
+  estimateSource?: 'suggested';
+  actualMinutes?: number; // Focused time from linked focus sessions
+  category?: TaskCategory; // From the task's tags and title when it was completed
 }
 
 export interface HourlyProductivity {
@@ -107,6 +186,108 @@ export interface CalendarEvent {
   end: string;
   allDay?: boolean;
   color?: string;
+  description?: string;
+  location?: string;
+}
+
+// What the app asks a calendar provider to create
+export interface CalendarEventDraft {
+  title: string;
+  start: Date;
+  end: Date;
+  description?: string;
+  energy?: EnergyLevel;
+  kind: 'task' | 'focus';
+  reminderMinutes?: number[];
+}
+
+export interface BusyPeriod {
+  start: string;
+  end: string;
+}
+
+// An event as it is now on the calendar, or that it's gone
+export interface CalendarEventChange {
+  id: string;
+  deleted: boolean;
+  event?: CalendarEvent;
+}
+
+export interface CalendarChanges {
+  changes: CalendarEventChange[];
+  syncToken: string;
+  full: boolean; // A complete listing - anything missing from it was deleted
+}
+
+export interface CalendarSettings {
+  provider: CalendarProviderType;
+  url?: string; // CalDAV calendar collection or ICS feed
+  username?: string;
+  password?: string; // CalDAV app password
+  busyCalendarIds?: string[]; // Calendars that block time; defaults to the main one
+  syncToken?: string; // Where the last change sync left off
+}
+
+export interface CalendarInfo {
+  id: string;
+  name: string;
+  color?: string;
+  primary?: boolean;
+}
+
+// Minutes after midnight
+export interface WorkingHours {
+  start: number;
+  end: number;
+}
+
+export interface SchedulingPreferences {
+  workingHours: (WorkingHours | null)[]; // By weekday, 0 = Sunday; null = day off
+  bufferMinutes: number; // Kept free before and after busy events
+  searchDays: number; // How far ahead to look for a slot, today included
+}
+
+export type TransportMode = 'walk' | 'bike' | 'transit' | 'drive';
+
+export interface SavedPlace {
+  id: string;
+  kind: 'home' | 'work' | 'other';
+  name: string;
+  address?: string; // Matched against event locations
+  travelMinutes: number; // Usual door-to-door time getting there
+  mode: TransportMode;
+}
+
+export interface TravelSettings {
+  places: SavedPlace[];
+  defaultTravelMinutes: number; // For locations that aren't a saved place
+  defaultMode: TransportMode;
+  gettingReadyMinutes: number; // Until enough real timings are in
+  readySamples: number[]; // Minutes getting ready actually took, most recent last
+}
+
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+  peak: boolean; // Inside one of the user's peak hours
+}
+
+export interface PlannedBlock {
+  id: string;
+  kind: 'task' | 'break';
+  taskId?: string;
+  title: string;
+  start: string;
+  end: string;
+  energy?: EnergyLevel;
+  eventId?: string; // Calendar event, once the plan is committed
+}
+
+export interface DayPlan {
+  date: string; // YYYY-MM-DD
+  blocks: PlannedBlock[];
+  unplacedTaskIds: string[]; // Didn't fit today
+  committedAt?: string;
 }
 
 export interface UserProfile {
@@ -123,6 +304,9 @@ export interface UserProfile {
   lastSync?: string;
   voiceEnabled?: boolean;
   neroVoiceEnabled?: boolean;
+  llmProvider?: LLMProviderType; // Defaults to anthropic
+  llmBaseUrl?: string;
+  llmModel?: string;
   proactiveCheckinsEnabled?: boolean;
   smartNotificationsEnabled?: boolean;
 }
@@ -134,22 +318,50 @@ export interface NeroMemory {
   patterns: string[];
 }
 
+export type MemoryCategory = keyof NeroMemory;
+
+// One learned fact. Proposed facts wait for the user; forgotten ones stay as
+// tombstones so they sync and aren't proposed again.
+export interface MemoryFact {
+  id: string;
+  category: MemoryCategory;
+  text: string;
+  status: 'proposed' | 'approved' | 'forgotten';
+  mentions: number; // Times it has come up in conversation
+  source?: string; // What the user said that suggested it
+  createdAt: string;
+  lastSeenAt: string;
+  updatedAt: string;
+}
+
 // ============ FOCUS TIMER TYPES ============
 export type FocusTimerStatus = 'idle' | 'running' | 'paused' | 'break' | 'completed';
+export type FocusTimerMode = 'pomodoro' | 'flowtime';
+
+export interface FocusDistraction {
+  id: string;
+  timestamp: string;
+  reason?: string;
+}
 
 export interface FocusSession {
   id: string;
   taskId?: string;
   startTime: string;
   endTime?: string;
-  duration: number; // in seconds
+  duration: number; // in seconds (planned for pomodoros, actually focused for flowtime)
   breakDuration: number; // in seconds
   status: FocusTimerStatus;
   completedPomodoros: number;
   mood?: MoodLevel;
+  distractions?: FocusDistraction[];
+  focusScore?: number; // 0-100, set when the session ends
+  focusedSeconds?: number; // Time actually spent focusing - no pauses or breaks
+  focusMinutes?: number; // Block length for this session only, instead of the settings'
 }
 
 export interface FocusTimerSettings {
+  mode: FocusTimerMode; // default: pomodoro
   focusDuration: number; // in minutes (default: 25)
   shortBreakDuration: number; // in minutes (default: 5)
   longBreakDuration: number; // in minutes (default: 15)
@@ -157,6 +369,55 @@ export interface FocusTimerSettings {
   autoStartBreaks: boolean;
   autoStartNextPomodoro: boolean;
   playSound: boolean;
+  flowtimeBreakRatio: number; // flowtime break = focused minutes / ratio (default: 5)
+  hyperfocusCeilingMinutes: number; // nudge to break after this long in one flow (default: 90)
+}
+
+// ============ SOUND TYPES ============
+export type SoundscapeId = 'off' | 'brown' | 'pink' | 'white' | 'rain' | 'ocean';
+export type ChimeId = 'none' | 'bell' | 'soft' | 'bright';
+export type ChimeEvent = 'session_end' | 'break_end' | 'check_in';
+
+// Sounds are silent while any schedule covers the current time
+export interface MuteSchedule {
+  id: string;
+  label: string;
+  startHour: number; // 0-23, inclusive
+  endHour: number; // 0-23, exclusive; smaller than startHour wraps past midnight
+  days?: number[]; // 0 = Sunday; every day when omitted
+}
+
+export interface SoundSettings {
+  soundscape: SoundscapeId;
+  soundscapeVolume: number; // 0-1
+  breakVolume: number; // Soundscape volume during breaks, 0-1 (0 fades out completely)
+  chimeVolume: number; // 0-1
+  chimes: Record<ChimeEvent, ChimeId>;
+  muteSchedules: MuteSchedule[];
+}
+
+// ============ FOCUS ROOM TYPES ============
+// What each body-doubling participant shares with the room. Times are epoch ms
+// so every device can render a live countdown without constant updates.
+export interface RoomParticipant {
+  id: string;
+  name: string;
+  taskTitle?: string;
+  status: FocusTimerStatus;
+  mode: FocusTimerMode;
+  endsAt: number | null; // Current countdown ends (running or break)
+  flowStartedAt: number | null; // Current flowtime block began
+  pausedSeconds: number | null; // Seconds left (or elapsed, in flow) when paused
+  completedPomodoros: number;
+  updatedAt: number;
+}
+
+export interface RoomCelebration {
+  participantId: string;
+  name: string;
+  taskTitle?: string;
+  completedPomodoros: number;
+  timestamp: number;
 }
 
 // ============ MOOD TRACKING TYPES ============
@@ -226,3 +487,44 @@ export interface SuggestionContext {
   recentActivity: 'high' | 'medium' | 'low';
   calendarContext?: 'free' | 'busy_soon' | 'just_finished';
 }
+
+// ============ LLM PROVIDER TYPES ============
+export interface LLMSettings {
+  provider: LLMProviderType;
+  apiKey: string;
+  baseUrl?: string; // OpenAI-compatible endpoint, e.g. http://localhost:11434/v1
+  model?: string;
+}
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+// Tool definitions use the Anthropic shape; other providers translate them
+export interface LLMTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  input: Record<string, any>;
+}
+
+export interface LLMRequest {
+  system: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  tools?: LLMTool[];
+  thinkingBudget?: number; // Extended thinking, where the provider supports it
+}
+
+export interface LLMResponse {
+  text: string;
+  thinking?: string;
+  toolCalls: LLMToolCall[];
+  model: string;
+}
@@ -0,0 +1,33 @@
+-- Supabase Migration: Per-field task versions for multi-device conflict resolution
+-- Run this in your Supabase SQL Editor
+
+-- Per-column edit timestamps, e.g. {"title": "2026-10-19T09:12:00Z", "completed": "..."}
+ALTER TABLE nero_tasks
+  ADD COLUMN IF NOT EXISTS field_versions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Completion is sticky: a write can only un-complete a task if its "completed"
+-- version is newer than the completion itself. Stale writes keep the task done.
+CREATE OR REPLACE FUNCTION nero_tasks_keep_completion()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.completed = true AND NEW.completed = false THEN
+    IF (NEW.field_versions ->> 'completed') IS NULL
+       OR (NEW.field_versions ->> 'completed')::timestamptz <= COALESCE(OLD.completed_at, OLD.updated_at) THEN
+      NEW.completed := true;
+      NEW.completed_at := OLD.completed_at;
+      NEW.field_versions := jsonb_set(
+        NEW.field_versions,
+        '{completed}',
+        COALESCE(OLD.field_versions -> 'completed', to_jsonb(OLD.completed_at))
+      );
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS nero_tasks_keep_completion ON nero_tasks;
+CREATE TRIGGER nero_tasks_keep_completion
+  BEFORE UPDATE ON nero_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION nero_tasks_keep_completion();
@@ -0,0 +1,13 @@
+-- Supabase Migration: Realtime change feeds for cross-device sync
+-- Run this in your Supabase SQL Editor
+
+-- Publish row changes so clients can subscribe to them
+ALTER PUBLICATION supabase_realtime ADD TABLE nero_tasks;
+ALTER PUBLICATION supabase_realtime ADD TABLE nero_focus_sessions;
+ALTER PUBLICATION supabase_realtime ADD TABLE nero_energy_logs;
+
+-- Include the full old row in UPDATE/DELETE events so the user_id filter
+-- (and RLS) can be applied to deletes too
+ALTER TABLE nero_tasks REPLICA IDENTITY FULL;
+ALTER TABLE nero_focus_sessions REPLICA IDENTITY FULL;
+ALTER TABLE nero_energy_logs REPLICA IDENTITY FULL;
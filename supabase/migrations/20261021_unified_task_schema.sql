@@ -0,0 +1,43 @@
+-- Supabase Migration: Unified task schema
+-- Run this in your Supabase SQL Editor
+--
+-- Brings nero_tasks in line with the app's Task model so micro-steps,
+-- parent links, energy, scheduling and calendar links round-trip.
+
+ALTER TABLE nero_tasks
+  ADD COLUMN IF NOT EXISTS energy TEXT CHECK (energy IN ('low', 'medium', 'high')),
+  ADD COLUMN IF NOT EXISTS is_micro_step BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES nero_tasks(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS actual_minutes INTEGER,
+  ADD COLUMN IF NOT EXISTS completion_time_ms BIGINT,
+  ADD COLUMN IF NOT EXISTS due_date TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS scheduled_time TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS calendar_event_id TEXT;
+
+-- Backfill from the old encoding: energy and micro-step lived in tags,
+-- with priority as a 1-3 fallback
+UPDATE nero_tasks SET energy = CASE
+    WHEN 'high' = ANY(tags) THEN 'high'
+    WHEN 'medium' = ANY(tags) THEN 'medium'
+    WHEN 'low' = ANY(tags) THEN 'low'
+    WHEN priority >= 3 THEN 'high'
+    WHEN priority >= 2 THEN 'medium'
+    ELSE 'low'
+  END
+WHERE energy IS NULL;
+
+UPDATE nero_tasks SET is_micro_step = true
+WHERE 'micro-step' = ANY(tags);
+
+-- Marker tags are now columns
+UPDATE nero_tasks SET tags = ARRAY(
+    SELECT t FROM unnest(tags) AS t
+    WHERE t NOT IN ('low', 'medium', 'high', 'micro-step', 'main-task')
+  )
+WHERE tags && ARRAY['low', 'medium', 'high', 'micro-step', 'main-task'];
+
+ALTER TABLE nero_tasks ALTER COLUMN energy SET DEFAULT 'medium';
+ALTER TABLE nero_tasks ALTER COLUMN energy SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_tasks_parent
+  ON nero_tasks(parent_id);
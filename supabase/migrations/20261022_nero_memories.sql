@@ -0,0 +1,33 @@
+-- Supabase Migration: Long-term Nero memory
+-- Run this in your Supabase SQL Editor
+
+-- One row per learned fact. IDs are generated on the device so a fact can be
+-- created offline; forgotten facts stay as tombstones so every device forgets them.
+CREATE TABLE IF NOT EXISTS nero_memories (
+  id TEXT PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  category TEXT NOT NULL CHECK (category IN ('likes', 'dislikes', 'triggers', 'patterns')),
+  text TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'proposed' CHECK (status IN ('proposed', 'approved', 'forgotten')),
+  mentions INTEGER NOT NULL DEFAULT 1,
+  source TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_memories_user
+  ON nero_memories(user_id, status);
+
+ALTER TABLE nero_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own memories" ON nero_memories
+  FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own memories" ON nero_memories
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own memories" ON nero_memories
+  FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete own memories" ON nero_memories
+  FOR DELETE USING (auth.uid() = user_id);
+
+COMMENT ON TABLE nero_memories IS 'Facts Nero has learned about the user, reviewed by the user before use';
@@ -0,0 +1,10 @@
+-- Supabase Migration: Distraction tracking for focus sessions
+-- Run this in your Supabase SQL Editor
+
+-- Per-session totals; the individual distractions stay on the device
+ALTER TABLE nero_focus_sessions
+  ADD COLUMN IF NOT EXISTS focus_score INTEGER CHECK (focus_score BETWEEN 0 AND 100),
+  ADD COLUMN IF NOT EXISTS distractions INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN nero_focus_sessions.focus_score IS '0-100, lower with more distractions per 25 minutes';
+COMMENT ON COLUMN nero_focus_sessions.distractions IS 'Times the user tapped "I got distracted" during the session';
@@ -0,0 +1,19 @@
+-- Supabase Migration: Recurring tasks and routines
+-- Run this in your Supabase SQL Editor
+--
+-- A repeating task is a series with one live instance at a time. Routine
+-- definitions stay on the device; their instances are ordinary tasks.
+
+ALTER TABLE nero_tasks
+  ADD COLUMN IF NOT EXISTS recurrence JSONB,
+  ADD COLUMN IF NOT EXISTS series_id TEXT,
+  ADD COLUMN IF NOT EXISTS instance_date DATE,
+  ADD COLUMN IF NOT EXISTS routine_id TEXT;
+
+COMMENT ON COLUMN nero_tasks.recurrence IS 'e.g. {"type": "every_n_days", "interval": 3}; NULL for one-off tasks';
+COMMENT ON COLUMN nero_tasks.series_id IS 'Shared by every instance of a repeating task';
+COMMENT ON COLUMN nero_tasks.instance_date IS 'Day this instance is for; missed days roll forward rather than going overdue';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_series
+  ON nero_tasks(series_id)
+  WHERE series_id IS NOT NULL;
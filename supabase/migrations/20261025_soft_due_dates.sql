@@ -0,0 +1,12 @@
+-- Supabase Migration: Soft due dates
+-- Run this in your Supabase SQL Editor
+
+-- "Would be nice by" dates sit alongside real deadlines in due_date
+ALTER TABLE nero_tasks
+  ADD COLUMN IF NOT EXISTS soft_due_date TIMESTAMPTZ;
+
+COMMENT ON COLUMN nero_tasks.soft_due_date IS 'Would-be-nice-by date; raises urgency gently and never counts as overdue';
+
+CREATE INDEX IF NOT EXISTS idx_tasks_due
+  ON nero_tasks(user_id, due_date)
+  WHERE completed = false AND due_date IS NOT NULL;